@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { aiService } from '../background/services/ai/aiService';
 import { handleMessage } from '../background/handlers/messageHandlers';
+import { aiResultCache } from '../background/handlers/utils/shared';
 import type {
   Message,
   AIResponse,
@@ -51,6 +52,8 @@ describe('AI Workflows Integration Tests', () => {
 
     settingsManager = new SettingsManager();
     storageManager = new StorageManager();
+    // Results cached by an earlier test would skip the AI call under test
+    await aiResultCache.clear();
 
     // Initialize AI service
     aiService.initialize(false);
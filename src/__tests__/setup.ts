@@ -33,6 +33,10 @@ const mockChromeStorage = {
     remove: vi.fn(() => Promise.resolve()),
     clear: vi.fn(() => Promise.resolve()),
   },
+  onChanged: {
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+  },
 };
 
 const mockChromeRuntime = {
@@ -59,11 +63,21 @@ const mockChromeRuntime = {
   })),
 };
 
+const mockChromeAlarms = {
+  create: vi.fn(() => Promise.resolve()),
+  get: vi.fn(() => Promise.resolve(undefined)),
+  clear: vi.fn(() => Promise.resolve(true)),
+  onAlarm: {
+    addListener: vi.fn(),
+  },
+};
+
 // Setup global chrome object
 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
 global.chrome = {
   storage: mockChromeStorage,
   runtime: mockChromeRuntime,
+  alarms: mockChromeAlarms,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 } as any;
 
@@ -1,35 +1,57 @@
 /**
  * AI operation handlers
- * Handles all AI-related operations: summarize, write, rewrite, proofread, translate, detectLanguage, reflect
+ * Handles all AI-related operations: summarize, write, rewrite, proofread, translate, detectLanguage, reflect, followUp, suggestTags
  */
 
 import { aiService } from '../../services/ai/aiService';
 import { rateLimiter } from '../../services/ai/rateLimiter';
 import { performanceMonitor } from '../../services/ai/performanceMonitor';
+import { aiScheduler, isAbortError } from '../../services/ai/aiScheduler';
 import {
+  aiResultCache,
+  createCachedResponse,
+  getSummaryCacheFingerprint,
+  getReflectCacheFingerprint,
   ensureAIAvailable,
+  storageManager,
   getSettings,
   getOutputLanguage,
   getExpectedLanguages,
   createHandlerErrorResponse,
+  parseContentSections,
+  parseQuestionExchanges,
+  getRequestGroup,
+  checkSummary,
 } from '../utils/shared';
 import { createSuccessResponse, createErrorResponse } from '../../../types';
+import { hashText } from '../../services/storage';
+import type { AIResultCacheRequest } from '../../services/storage';
 import type {
   AIResponse,
+  ContentSection,
   SummaryFormat,
   TonePreset,
   ProofreadResult,
   LanguageDetection,
+  SummaryQuality,
   WriterOptions,
 } from '../../../types';
 import { ERROR_MESSAGES } from '../../../constants';
 import { devLog, devWarn, devError } from '../../../utils/logger';
+import { usesCustomSummaryTemplate } from '../../../utils/promptTemplates';
+import {
+  findCustomSummaryFormat,
+  getCustomSummaryFormats,
+  isCustomSummaryFormat,
+} from '../../../utils/summaryFormats';
 
 /**
  * Handle summarization request
+ * A newer summary request from the same tab supersedes this one
  */
 export async function handleSummarize(
-  payload: unknown
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse<string[]>> {
   const startTime = Date.now();
 
@@ -39,6 +61,9 @@ export async function handleSummarize(
     let format: SummaryFormat = 'bullets';
     let detectedLanguage: string | undefined;
     let outputLanguageOverride: string | undefined;
+    let sections: ContentSection[] | undefined;
+    let url: string | undefined;
+    let regenerate = false;
 
     if (typeof payload === 'string') {
       content = payload;
@@ -49,8 +74,14 @@ export async function handleSummarize(
         detectedLanguage?: string;
         targetLanguage?: string;
         outputLanguage?: string;
+        sections?: unknown;
+        url?: unknown;
+        regenerate?: unknown;
       };
       content = payloadObj.content;
+      sections = parseContentSections(payloadObj.sections);
+      url = typeof payloadObj.url === 'string' ? payloadObj.url : undefined;
+      regenerate = payloadObj.regenerate === true;
       format = payloadObj.format ?? format;
       detectedLanguage = payloadObj.detectedLanguage;
       if (payloadObj.outputLanguage?.trim()) {
@@ -63,7 +94,7 @@ export async function handleSummarize(
       return createErrorResponse(
         'Invalid content for summarization',
         Date.now() - startTime,
-        'summarizer'
+        aiService.describeApi('summarizer')
       );
     }
 
@@ -71,7 +102,7 @@ export async function handleSummarize(
       return createErrorResponse(
         'Empty content for summarization',
         Date.now() - startTime,
-        'summarizer'
+        aiService.describeApi('summarizer')
       );
     }
 
@@ -81,7 +112,7 @@ export async function handleSummarize(
       return createHandlerErrorResponse(
         settingsResult.error,
         Date.now() - startTime,
-        'summarizer'
+        aiService.describeApi('summarizer')
       );
     }
     const settings = settingsResult.settings;
@@ -90,6 +121,27 @@ export async function handleSummarize(
       `[Summarize] useNativeSummarizer setting: ${settings.useNativeSummarizer}`
     );
 
+    // User-defined formats are prompts, so only the Prompt API can write them
+    const customFormat = isCustomSummaryFormat(format)
+      ? findCustomSummaryFormat(getCustomSummaryFormats(settings), format)
+      : undefined;
+    if (isCustomSummaryFormat(format)) {
+      if (!customFormat) {
+        return createErrorResponse(
+          'Unknown summary format',
+          Date.now() - startTime,
+          aiService.describeApi('prompt')
+        );
+      }
+      if (!(await ensureAIAvailable())) {
+        return createErrorResponse(
+          'Custom summary formats need the Prompt API',
+          Date.now() - startTime,
+          aiService.describeApi('prompt')
+        );
+      }
+    }
+
     // Determine output language
     const outputLanguage =
       outputLanguageOverride ?? (await getOutputLanguage()) ?? detectedLanguage;
@@ -100,40 +152,134 @@ export async function handleSummarize(
       `[Summarize] Preferred language: ${settings.preferredTranslationLanguage ?? 'none'}, Output language: ${outputLanguage ?? 'auto-detect'}, Detected language: ${detectedLanguage ?? 'not provided'}`
     );
 
+    // Reuse the summary from an earlier visit unless asked for a fresh one
+    const cacheRequest: AIResultCacheRequest = {
+      kind: 'summary',
+      content,
+      url,
+      variant: `${format}|${outputLanguage ?? ''}`,
+      fingerprint: getSummaryCacheFingerprint(settings, customFormat ?? format),
+    };
+    if (regenerate) {
+      if (url) await aiResultCache.invalidate('summary', url);
+    } else {
+      const cached = await aiResultCache.get<string[]>(cacheRequest);
+      if (cached) {
+        devLog('[Summarize] Using cached summary');
+        const response = createCachedResponse(cached, startTime);
+        if (customFormat || !response.success) return response;
+        const { quality } = await checkSummary(cached.value, content, format, {
+          outputLanguage,
+          detectedLanguage,
+          retry: false,
+        });
+        return { ...response, quality };
+      }
+    }
+
     // Check if Summarizer API is available and enabled
     const summarizerApiAvailable =
       await aiService.summarizer.checkAvailability();
     devLog(`[Summarize] Summarizer API available: ${summarizerApiAvailable}`);
 
+    // Custom prompt templates only apply to Prompt API summaries
+    const customTemplate =
+      usesCustomSummaryTemplate(settings.promptTemplates, format) &&
+      (await ensureAIAvailable());
+
     const summarizerAvailable =
-      settings.useNativeSummarizer && summarizerApiAvailable;
-    let summary: string[];
-    let apiUsed: string;
+      settings.useNativeSummarizer && summarizerApiAvailable && !customTemplate;
 
-    if (summarizerAvailable) {
-      devLog(
-        `[Summarize] Using Summarizer API with format: ${format}, language: ${outputLanguage ?? 'auto'}`
-      );
+    const group = getRequestGroup(sender);
+    const summarizeContent = async (
+      signal: AbortSignal
+    ): Promise<{ summary: string[]; apiUsed: string }> => {
+      if (customFormat) {
+        devLog(
+          `[Summarize] Using Prompt API with format: ${customFormat.name}`
+        );
 
-      summary = await rateLimiter.executeWithRetry(
-        () =>
-          aiService.summarizer.summarize(content, format, outputLanguage, {
-            expectedInputLanguages,
-            expectedContextLanguages,
-          }),
-        'summarizations'
-      );
-      apiUsed = 'summarizer';
-    } else {
-      devLog(`[Summarize] Falling back to Prompt API with format: ${format}`);
+        const summary = await rateLimiter.executeWithRetry(
+          () =>
+            aiService.prompt.summarizeCustom(
+              content,
+              customFormat,
+              outputLanguage,
+              { sections, signal }
+            ),
+          'summarizations'
+        );
+        return { summary, apiUsed: aiService.describeApi('prompt') };
+      } else if (summarizerAvailable) {
+        devLog(
+          `[Summarize] Using Summarizer API with format: ${format}, language: ${outputLanguage ?? 'auto'}`
+        );
 
-      summary = await rateLimiter.executeWithRetry(
-        () => aiService.prompt.summarize(content, format, outputLanguage),
-        'summarizations'
-      );
-      apiUsed = 'prompt';
-    }
+        const summary = await rateLimiter.executeWithRetry(
+          () =>
+            aiService.summarizer.summarize(
+              content,
+              format,
+              outputLanguage,
+              {
+                expectedInputLanguages,
+                expectedContextLanguages,
+              },
+              { sections, signal }
+            ),
+          'summarizations'
+        );
+        return { summary, apiUsed: aiService.describeApi('summarizer') };
+      } else {
+        devLog(`[Summarize] Falling back to Prompt API with format: ${format}`);
+
+        const summary = await rateLimiter.executeWithRetry(
+          () =>
+            aiService.prompt.summarize(content, format, outputLanguage, {
+              sections,
+              signal,
+            }),
+          'summarizations'
+        );
+        return { summary, apiUsed: aiService.describeApi('prompt') };
+      }
+    };
+
+    // Built-in formats are scored, and rewritten once if they fall short
+    const summarizeAndCheck = async (
+      signal: AbortSignal
+    ): Promise<{
+      summary: string[];
+      apiUsed: string;
+      quality?: SummaryQuality;
+    }> => {
+      const result = await summarizeContent(signal);
+      if (customFormat || result.summary.length === 0) return result;
+      const checked = await checkSummary(result.summary, content, format, {
+        outputLanguage,
+        detectedLanguage,
+        signal,
+      });
+      return { ...result, ...checked };
+    };
 
+    const { summary, apiUsed, quality } = await aiScheduler.run(
+      summarizeAndCheck,
+      {
+        operation: 'summarize',
+        // Identical requests, e.g. from two tabs open on one article, share a run
+        key: regenerate
+          ? undefined
+          : [
+              'summarize',
+              cacheRequest.variant,
+              hashText(content),
+              hashText(cacheRequest.fingerprint ?? ''),
+            ].join('|'),
+        group,
+        lane: group && `summarize:${group}`,
+      }
+    );
     const duration = Date.now() - startTime;
 
     if (!summary || summary.length === 0) {
@@ -142,21 +288,37 @@ export async function handleSummarize(
     }
 
     devLog(`[Summarize] Success in ${duration}ms using ${apiUsed}`);
+    await aiResultCache.set(cacheRequest, summary, apiUsed);
     try {
       performanceMonitor.recordMetric('summarize', apiUsed, duration, true);
     } catch {
       // ignore metrics errors
     }
-    return createSuccessResponse(summary, apiUsed, duration);
+    return {
+      ...createSuccessResponse(summary, apiUsed, duration),
+      ...(quality && { quality }),
+    };
   } catch (error) {
     const duration = Date.now() - startTime;
+    if (isAbortError(error)) {
+      devLog(`[Summarize] Cancelled after ${duration}ms`);
+      return createHandlerErrorResponse(
+        error,
+        duration,
+        aiService.describeApi('summarizer')
+      );
+    }
     devError(`[Summarize] Error after ${duration}ms:`, error);
     try {
       performanceMonitor.recordMetric('summarize', 'unified', duration, false);
     } catch {
       // ignore metrics errors
     }
-    return createHandlerErrorResponse(error, duration, 'summarizer');
+    return createHandlerErrorResponse(
+      error,
+      duration,
+      aiService.describeApi('summarizer')
+    );
   }
 }
 
@@ -164,7 +326,8 @@ export async function handleSummarize(
  * Handle reflection prompt generation request
  */
 export async function handleReflect(
-  payload: unknown
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse<string[]>> {
   const startTime = Date.now();
 
@@ -182,7 +345,7 @@ export async function handleReflect(
       return createErrorResponse(
         'Invalid summary for reflection prompts',
         Date.now() - startTime,
-        'prompt'
+        aiService.describeApi('prompt')
       );
     }
 
@@ -190,7 +353,7 @@ export async function handleReflect(
       return createErrorResponse(
         'Empty summary for reflection prompts',
         Date.now() - startTime,
-        'prompt'
+        aiService.describeApi('prompt')
       );
     }
 
@@ -201,26 +364,202 @@ export async function handleReflect(
       return createErrorResponse(
         ERROR_MESSAGES.AI_UNAVAILABLE,
         Date.now() - startTime,
-        'prompt'
+        aiService.describeApi('prompt')
+      );
+    }
+
+    // Questions for a summary seen before are reused while the template
+    // that asks for them and the provider are unchanged
+    const settingsResult = await getSettings();
+    if (!settingsResult.success) {
+      return createHandlerErrorResponse(
+        settingsResult.error,
+        Date.now() - startTime,
+        aiService.describeApi('prompt')
       );
     }
+    const cacheRequest: AIResultCacheRequest = {
+      kind: 'reflectionPrompts',
+      content: summary.join('\n'),
+      fingerprint: getReflectCacheFingerprint(settingsResult.settings),
+    };
+    const cached = await aiResultCache.get<string[]>(cacheRequest);
+    if (cached) {
+      devLog('[Reflect] Using cached reflection prompts');
+      return createCachedResponse(cached, startTime);
+    }
 
     // Call Prompt manager to generate reflection prompts
     devLog('[Reflect] Calling Prompt manager...');
-    const prompts = await aiService.prompt.generateReflectionPrompts(summary);
+    const prompts = await aiScheduler.run(
+      (signal) => aiService.prompt.generateReflectionPrompts(summary, signal),
+      {
+        operation: 'reflect',
+        key: [
+          'reflect',
+          hashText(cacheRequest.content),
+          hashText(cacheRequest.fingerprint ?? ''),
+        ].join('|'),
+        group: getRequestGroup(sender),
+      }
+    );
     const duration = Date.now() - startTime;
 
     if (!prompts || prompts.length === 0) {
       devError(`[Reflect] Failed after ${duration}ms - empty result`);
-      return createErrorResponse(ERROR_MESSAGES.AI_TIMEOUT, duration, 'prompt');
+      return createErrorResponse(
+        ERROR_MESSAGES.AI_TIMEOUT,
+        duration,
+        aiService.describeApi('prompt')
+      );
     }
 
     devLog(`[Reflect] Success in ${duration}ms`);
-    return createSuccessResponse(prompts, 'prompt', duration);
+    await aiResultCache.set(
+      cacheRequest,
+      prompts,
+      aiService.describeApi('prompt')
+    );
+    return createSuccessResponse(
+      prompts,
+      aiService.describeApi('prompt'),
+      duration
+    );
   } catch (error) {
     const duration = Date.now() - startTime;
     devError(`[Reflect] Error after ${duration}ms:`, error);
-    return createHandlerErrorResponse(error, duration, 'prompt');
+    return createHandlerErrorResponse(
+      error,
+      duration,
+      aiService.describeApi('prompt')
+    );
+  }
+}
+
+/**
+ * Handle follow-up question request
+ * Reads the user's answers so far and asks one question that goes deeper;
+ * a newer request from the same tab supersedes this one
+ */
+export async function handleFollowUp(
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
+): Promise<AIResponse<string>> {
+  const startTime = Date.now();
+
+  try {
+    const { summary, chain } =
+      payload && typeof payload === 'object'
+        ? (payload as { summary?: unknown; chain?: unknown })
+        : {};
+    const exchanges = parseQuestionExchanges(chain);
+    const lastAnswer = exchanges[exchanges.length - 1]?.answer.trim();
+
+    if (!Array.isArray(summary) || !lastAnswer) {
+      return createErrorResponse(
+        'Answer the question before asking for a follow-up',
+        Date.now() - startTime,
+        aiService.describeApi('prompt')
+      );
+    }
+
+    const available = await ensureAIAvailable();
+    if (!available) {
+      return createErrorResponse(
+        ERROR_MESSAGES.AI_UNAVAILABLE,
+        Date.now() - startTime,
+        aiService.describeApi('prompt')
+      );
+    }
+
+    const group = getRequestGroup(sender);
+    const question = await aiScheduler.run(
+      (signal) =>
+        aiService.prompt.generateFollowUpQuestion(
+          summary.map(String),
+          exchanges,
+          signal
+        ),
+      { operation: 'followUp', group, lane: group && `followUp:${group}` }
+    );
+    const duration = Date.now() - startTime;
+
+    devLog(
+      `[FollowUp] Question after ${exchanges.length} answers in ${duration}ms`
+    );
+    return createSuccessResponse(
+      question,
+      aiService.describeApi('prompt'),
+      duration
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    devError(`[FollowUp] Error after ${duration}ms:`, error);
+    return createHandlerErrorResponse(
+      error,
+      duration,
+      aiService.describeApi('prompt')
+    );
+  }
+}
+
+/**
+ * Handle tag suggestion request
+ * Suggests tags from the summary, reusing the user's existing tags
+ */
+export async function handleSuggestTags(
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
+): Promise<AIResponse<string[]>> {
+  const startTime = Date.now();
+
+  try {
+    const summary =
+      payload && typeof payload === 'object' && 'summary' in payload
+        ? (payload as { summary: unknown }).summary
+        : undefined;
+
+    if (!Array.isArray(summary) || summary.length === 0) {
+      return createErrorResponse(
+        'Empty summary for tag suggestions',
+        Date.now() - startTime,
+        aiService.describeApi('prompt')
+      );
+    }
+
+    const available = await ensureAIAvailable();
+    if (!available) {
+      return createErrorResponse(
+        ERROR_MESSAGES.AI_UNAVAILABLE,
+        Date.now() - startTime,
+        aiService.describeApi('prompt')
+      );
+    }
+
+    const existingTags = (await storageManager.getTagCounts()).map(
+      (t) => t.tag
+    );
+    const tags = await aiScheduler.run(
+      (signal) =>
+        aiService.prompt.suggestTags(summary.map(String), existingTags, signal),
+      { operation: 'suggestTags', group: getRequestGroup(sender) }
+    );
+    const duration = Date.now() - startTime;
+
+    devLog(`[SuggestTags] ${tags.length} tags in ${duration}ms`);
+    return createSuccessResponse(
+      tags,
+      aiService.describeApi('prompt'),
+      duration
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    devError(`[SuggestTags] Error after ${duration}ms:`, error);
+    return createHandlerErrorResponse(
+      error,
+      duration,
+      aiService.describeApi('prompt')
+    );
   }
 }
 
@@ -228,7 +567,8 @@ export async function handleReflect(
  * Handle proofreading request
  */
 export async function handleProofread(
-  payload: unknown
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse<ProofreadResult>> {
   const startTime = Date.now();
   try {
@@ -249,7 +589,7 @@ export async function handleProofread(
       return createErrorResponse(
         'Invalid text for proofreading',
         Date.now() - startTime,
-        'proofreader'
+        aiService.describeApi('proofreader')
       );
     }
 
@@ -257,7 +597,7 @@ export async function handleProofread(
       return createErrorResponse(
         'Empty text for proofreading',
         Date.now() - startTime,
-        'proofreader'
+        aiService.describeApi('proofreader')
       );
     }
 
@@ -267,7 +607,7 @@ export async function handleProofread(
       return createHandlerErrorResponse(
         settingsResult.error,
         Date.now() - startTime,
-        'proofreader'
+        aiService.describeApi('proofreader')
       );
     }
     const settings = settingsResult.settings;
@@ -276,7 +616,7 @@ export async function handleProofread(
       return createErrorResponse(
         'Proofreading is disabled in settings',
         Date.now() - startTime,
-        'proofreader'
+        aiService.describeApi('proofreader')
       );
     }
 
@@ -284,8 +624,12 @@ export async function handleProofread(
     const proofreaderAvailable =
       await aiService.proofreader.checkAvailability();
     let result: ProofreadResult | undefined;
-    let apiUsed = 'prompt';
+    let apiUsed = aiService.describeApi('prompt');
     let useProofreader = proofreaderAvailable;
+    const schedule = {
+      operation: 'proofread',
+      group: getRequestGroup(sender),
+    } as const;
 
     if (useProofreader) {
       try {
@@ -293,11 +637,17 @@ export async function handleProofread(
         devLog(
           `[Proofread] Using Proofreader API with languages: ${languages.join(', ')}`
         );
-        result = await aiService.proofreader.proofread(text, {
-          expectedInputLanguages: languages,
-        });
-        apiUsed = 'proofreader';
+        result = await aiScheduler.run(
+          (signal) =>
+            aiService.proofreader.proofread(text, {
+              expectedInputLanguages: languages,
+              signal,
+            }),
+          schedule
+        );
+        apiUsed = aiService.describeApi('proofreader');
       } catch (proofreaderError) {
+        if (isAbortError(proofreaderError)) throw proofreaderError;
         devWarn(
           '[Proofread] Proofreader API failed, falling back to Prompt API:',
           proofreaderError
@@ -315,16 +665,19 @@ export async function handleProofread(
         return createErrorResponse(
           ERROR_MESSAGES.AI_UNAVAILABLE,
           Date.now() - startTime,
-          'prompt'
+          aiService.describeApi('prompt')
         );
       }
 
-      const correctedText = await aiService.prompt.proofread(text);
+      const correctedText = await aiScheduler.run(
+        (signal) => aiService.prompt.proofread(text, signal),
+        schedule
+      );
       result = {
         correctedText,
         corrections: [], // Prompt API doesn't provide detailed corrections
       };
-      apiUsed = 'prompt';
+      apiUsed = aiService.describeApi('prompt');
     }
 
     devLog(`[Proofread] Success using ${apiUsed}`);
@@ -334,7 +687,7 @@ export async function handleProofread(
     return createHandlerErrorResponse(
       error,
       Date.now() - startTime,
-      'proofreader'
+      aiService.describeApi('proofreader')
     );
   }
 }
@@ -343,7 +696,8 @@ export async function handleProofread(
  * Handle write/draft generation request
  */
 export async function handleWrite(
-  payload: unknown
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse<string>> {
   const startTime = Date.now();
   try {
@@ -352,7 +706,7 @@ export async function handleWrite(
       return createErrorResponse(
         'Invalid payload for write operation',
         Date.now() - startTime,
-        'writer'
+        aiService.describeApi('writer')
       );
     }
 
@@ -370,7 +724,7 @@ export async function handleWrite(
       return createErrorResponse(
         'Empty prompt for write operation',
         Date.now() - startTime,
-        'writer'
+        aiService.describeApi('writer')
       );
     }
 
@@ -390,13 +744,18 @@ export async function handleWrite(
       devLog(
         `[Write] Using Writer API (language: ${outputLanguage ?? 'auto'})`
       );
-      result = await aiService.writer.write(payloadObj.prompt, {
-        ...payloadObj.options,
-        outputLanguage,
-        expectedInputLanguages,
-        expectedContextLanguages,
-      });
-      apiUsed = 'writer';
+      result = await aiScheduler.run(
+        (signal) =>
+          aiService.writer.write(payloadObj.prompt, {
+            ...payloadObj.options,
+            outputLanguage,
+            expectedInputLanguages,
+            expectedContextLanguages,
+            signal,
+          }),
+        { operation: 'write', group: getRequestGroup(sender) }
+      );
+      apiUsed = aiService.describeApi('writer');
     } else {
       // Fallback to Prompt API
       devLog('[Write] Falling back to Prompt API');
@@ -406,7 +765,7 @@ export async function handleWrite(
         return createErrorResponse(
           ERROR_MESSAGES.AI_UNAVAILABLE,
           Date.now() - startTime,
-          'prompt'
+          aiService.describeApi('prompt')
         );
       }
 
@@ -419,11 +778,17 @@ export async function handleWrite(
               : 'calm',
         length: payloadObj.options?.length ?? 'medium',
       };
-      result = await aiService.prompt.generateDraft(
-        payloadObj.prompt,
-        writerOptions
+      result = await aiScheduler.run(
+        (signal) =>
+          aiService.prompt.generateDraft(
+            payloadObj.prompt,
+            writerOptions,
+            undefined,
+            signal
+          ),
+        { operation: 'write', group: getRequestGroup(sender) }
       );
-      apiUsed = 'prompt';
+      apiUsed = aiService.describeApi('prompt');
     }
 
     devLog(`[Write] Success using ${apiUsed}`);
@@ -442,7 +807,7 @@ export async function handleWrite(
     return createErrorResponse(
       friendlyMessage,
       Date.now() - startTime,
-      'writer'
+      aiService.describeApi('writer')
     );
   }
 }
@@ -451,7 +816,8 @@ export async function handleWrite(
  * Handle rewrite request
  */
 export async function handleRewrite(
-  payload: unknown
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse<{ original: string; rewritten: string }>> {
   const startTime = Date.now();
   try {
@@ -460,7 +826,7 @@ export async function handleRewrite(
       return createErrorResponse(
         'Invalid payload for rewrite operation',
         Date.now() - startTime,
-        'rewriter'
+        aiService.describeApi('rewriter')
       );
     }
 
@@ -474,7 +840,7 @@ export async function handleRewrite(
       return createErrorResponse(
         'Empty text for rewrite operation',
         Date.now() - startTime,
-        'rewriter'
+        aiService.describeApi('rewriter')
       );
     }
 
@@ -490,21 +856,35 @@ export async function handleRewrite(
     let result: { original: string; rewritten: string };
     let apiUsed: string;
 
+    // A newer rewrite of the same text from the same tab, e.g. after
+    // picking another tone, supersedes this one
+    const group = getRequestGroup(sender);
+    const schedule = {
+      operation: 'rewrite',
+      group,
+      lane: group && `rewrite:${group}:${hashText(payloadObj.text)}`,
+    } as const;
+
     if (rewriterAvailable) {
       devLog(
         `[Rewrite] Using Rewriter API with preset: ${preset} (language: ${outputLanguage ?? 'auto'})`
       );
-      result = await aiService.rewriter.rewrite(
-        payloadObj.text,
-        preset,
-        payloadObj.context,
-        outputLanguage,
-        {
-          expectedInputLanguages,
-          expectedContextLanguages,
-        }
+      result = await aiScheduler.run(
+        (signal) =>
+          aiService.rewriter.rewrite(
+            payloadObj.text,
+            preset,
+            payloadObj.context,
+            outputLanguage,
+            {
+              expectedInputLanguages,
+              expectedContextLanguages,
+            },
+            signal
+          ),
+        schedule
       );
-      apiUsed = 'rewriter';
+      apiUsed = aiService.describeApi('rewriter');
     } else {
       // Fallback to Prompt API
       devLog(`[Rewrite] Falling back to Prompt API with preset: ${preset}`);
@@ -514,16 +894,20 @@ export async function handleRewrite(
         return createErrorResponse(
           ERROR_MESSAGES.AI_UNAVAILABLE,
           Date.now() - startTime,
-          'prompt'
+          aiService.describeApi('prompt')
         );
       }
 
-      const rewritten = await aiService.prompt.rewrite(payloadObj.text, preset);
+      const rewritten = await aiScheduler.run(
+        (signal) =>
+          aiService.prompt.rewrite(payloadObj.text, preset, undefined, signal),
+        schedule
+      );
       result = {
         original: payloadObj.text,
         rewritten,
       };
-      apiUsed = 'prompt';
+      apiUsed = aiService.describeApi('prompt');
     }
 
     devLog(`[Rewrite] Success using ${apiUsed}`);
@@ -533,7 +917,7 @@ export async function handleRewrite(
     return createHandlerErrorResponse(
       error,
       Date.now() - startTime,
-      'rewriter'
+      aiService.describeApi('rewriter')
     );
   }
 }
@@ -542,7 +926,8 @@ export async function handleRewrite(
  * Handle translation request
  */
 export async function handleTranslate(
-  payload: unknown
+  payload: unknown,
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse<string>> {
   const startTime = Date.now();
   try {
@@ -556,7 +941,7 @@ export async function handleTranslate(
       return createErrorResponse(
         'Invalid payload for translate operation',
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
 
@@ -570,7 +955,7 @@ export async function handleTranslate(
       return createErrorResponse(
         'Empty text for translation',
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
 
@@ -578,7 +963,7 @@ export async function handleTranslate(
       return createErrorResponse(
         'Missing target language for translation',
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
 
@@ -588,7 +973,7 @@ export async function handleTranslate(
       return createHandlerErrorResponse(
         settingsResult.error,
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
     const settings = settingsResult.settings;
@@ -597,7 +982,7 @@ export async function handleTranslate(
       return createErrorResponse(
         'Translation is disabled in settings',
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
 
@@ -611,27 +996,35 @@ export async function handleTranslate(
       return createErrorResponse(
         `Translation not available for ${payloadObj.source} -> ${payloadObj.target}`,
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
 
     devLog(
       `[Translate] Translating from ${payloadObj.source} to ${payloadObj.target}`
     );
-    const result = await aiService.translator.translate(
-      payloadObj.text,
-      payloadObj.target,
-      payloadObj.source
+    const result = await aiScheduler.run(
+      () =>
+        aiService.translator.translate(
+          payloadObj.text,
+          payloadObj.target,
+          payloadObj.source
+        ),
+      { operation: 'translate', group: getRequestGroup(sender) }
     );
 
     devLog('[Translate] Success');
-    return createSuccessResponse(result, 'translator', Date.now() - startTime);
+    return createSuccessResponse(
+      result,
+      aiService.describeApi('translator'),
+      Date.now() - startTime
+    );
   } catch (error) {
     devError('Error in handleTranslate:', error);
     return createHandlerErrorResponse(
       error,
       Date.now() - startTime,
-      'translator'
+      aiService.describeApi('translator')
     );
   }
 }
@@ -653,21 +1046,21 @@ export async function handleCanTranslate(
       return createErrorResponse(
         'Invalid payload for canTranslate',
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
     const { source, target } = payload as { source: string; target: string };
     const available = await aiService.translator.canTranslate(source, target);
     return createSuccessResponse(
       available,
-      'translator',
+      aiService.describeApi('translator'),
       Date.now() - startTime
     );
   } catch (error) {
     return createHandlerErrorResponse(
       error,
       Date.now() - startTime,
-      'translator'
+      aiService.describeApi('translator')
     );
   }
 }
@@ -691,7 +1084,7 @@ export async function handleCheckTranslationAvailability(
       return createErrorResponse(
         'Invalid payload for checkTranslationAvailability',
         Date.now() - startTime,
-        'translator'
+        aiService.describeApi('translator')
       );
     }
     const { source, targets } = payload as {
@@ -706,14 +1099,14 @@ export async function handleCheckTranslationAvailability(
     }
     return createSuccessResponse(
       { source, available, unavailable },
-      'translator',
+      aiService.describeApi('translator'),
       Date.now() - startTime
     );
   } catch (error) {
     return createHandlerErrorResponse(
       error,
       Date.now() - startTime,
-      'translator'
+      aiService.describeApi('translator')
     );
   }
 }
@@ -731,7 +1124,7 @@ export async function handleDetectLanguage(
       return createErrorResponse(
         'Invalid payload for language detection',
         Date.now() - startTime,
-        'languageDetector'
+        aiService.describeApi('languageDetector')
       );
     }
 
@@ -744,10 +1137,21 @@ export async function handleDetectLanguage(
       return createErrorResponse(
         'Empty text for language detection',
         Date.now() - startTime,
-        'languageDetector'
+        aiService.describeApi('languageDetector')
       );
     }
 
+    const cacheRequest: AIResultCacheRequest = {
+      kind: 'language',
+      content: payloadObj.text,
+      url: payloadObj.pageUrl,
+    };
+    const cached = await aiResultCache.get<LanguageDetection>(cacheRequest);
+    if (cached) {
+      devLog(`[DetectLanguage] Using cached ${cached.value.languageName}`);
+      return createCachedResponse(cached, startTime);
+    }
+
     // Check if Language Detector API is available
     const available = await aiService.languageDetector.checkAvailability();
 
@@ -755,7 +1159,7 @@ export async function handleDetectLanguage(
       return createErrorResponse(
         'Language Detector API is not available',
         Date.now() - startTime,
-        'languageDetector'
+        aiService.describeApi('languageDetector')
       );
     }
 
@@ -766,9 +1170,14 @@ export async function handleDetectLanguage(
     );
 
     devLog(`[DetectLanguage] Detected: ${result.languageName}`);
+    await aiResultCache.set(
+      cacheRequest,
+      result,
+      aiService.describeApi('languageDetector')
+    );
     return createSuccessResponse(
       result,
-      'languageDetector',
+      aiService.describeApi('languageDetector'),
       Date.now() - startTime
     );
   } catch (error) {
@@ -776,7 +1185,23 @@ export async function handleDetectLanguage(
     return createHandlerErrorResponse(
       error,
       Date.now() - startTime,
-      'languageDetector'
+      aiService.describeApi('languageDetector')
     );
   }
 }
+
+/**
+ * Handle a request to cancel the sender's AI requests
+ * Sent by the overlay when it closes; queued requests are dropped and the
+ * running one aborted
+ */
+export function handleCancelAIRequests(
+  sender?: chrome.runtime.MessageSender
+): Promise<AIResponse<number>> {
+  const startTime = Date.now();
+  const group = getRequestGroup(sender);
+  const cancelled = group ? aiScheduler.cancel(group) : 0;
+  return Promise.resolve(
+    createSuccessResponse(cancelled, 'scheduler', Date.now() - startTime)
+  );
+}
@@ -6,6 +6,8 @@
 export {
   handleSummarize,
   handleReflect,
+  handleSuggestTags,
+  handleFollowUp,
   handleProofread,
   handleWrite,
   handleRewrite,
@@ -13,12 +15,14 @@ export {
   handleCanTranslate,
   handleCheckTranslationAvailability,
   handleDetectLanguage,
+  handleCancelAIRequests,
 } from './ai/aiHandlers';
 
 // Streaming handlers
 export {
   handleSummarizeStreamRequest,
   handleWriterStreamRequest,
+  handleChatStreamRequest,
   safePostStreamMessage,
 } from './streaming/streamHandlers';
 
@@ -29,6 +33,16 @@ export {
   handleGetStreak,
   handleDeleteReflection,
   handleExportReflections,
+  handleSearchReflections,
+  handleFindRelatedReflections,
+  handleGetTags,
+  handleUpdateTags,
+  handleUpdateReflection,
+  handlePreviewImport,
+  handleImportReflections,
+  handleListBackups,
+  handleCreateBackup,
+  handleRestoreBackup,
 } from './storage/storageHandlers';
 
 // Settings handlers
@@ -36,6 +50,7 @@ export {
   handleGetSettings,
   handleUpdateSettings,
   handleResetSettings,
+  handleClearSyncedReflections,
 } from './settings/settingsHandlers';
 
 // Utility handlers
@@ -47,8 +62,19 @@ export {
   handleGetPerformanceStats,
   handleOpenDashboardInActiveTab,
   handleStartReflectInActiveTab,
+  handleGetPromptPreviewContent,
   resetAIAvailability,
 } from './utils/utilityHandlers';
 
 // Shared utilities (for internal use)
-export { settingsManager, ensureAIAvailable } from './utils/shared';
+export {
+  settingsManager,
+  storageManager,
+  syncManager,
+  backupManager,
+  searchIndex,
+  ensureAIAvailable,
+  scheduleSyncIfEnabled,
+  scheduleBackups,
+  applyAIProvider,
+} from './utils/shared';
@@ -1,9 +1,15 @@
 /**
  * Settings operation handlers
- * Handles all settings-related operations: getSettings, updateSettings, resetSettings
+ * Handles all settings-related operations: getSettings, updateSettings,
+ * resetSettings, clearSyncedReflections
  */
 
-import { settingsManager } from '../utils/shared';
+import {
+  settingsManager,
+  syncManager,
+  scheduleBackups,
+  applyAIProvider,
+} from '../utils/shared';
 import { createSuccessResponse, createErrorResponse } from '../../../types';
 import type { AIResponse, Settings } from '../../../types';
 import { ERROR_MESSAGES } from '../../../constants';
@@ -46,10 +52,26 @@ export async function handleUpdateSettings(
     }
 
     // Update settings using settings manager
+    const previousPrivacyMode = await settingsManager.getPrivacyMode();
     const updatedSettings = await settingsManager.updateSettings(
       payload as Partial<Settings>
     );
 
+    // Start or stop mirroring reflections to Chrome Sync
+    if (updatedSettings.privacyMode !== previousPrivacyMode) {
+      if (updatedSettings.privacyMode === 'sync') {
+        void syncManager.sync();
+      } else {
+        void syncManager.disable();
+      }
+    }
+
+    // Pick up changes to the backup schedule
+    void scheduleBackups();
+
+    // Switch AI provider before the next AI request arrives
+    await applyAIProvider();
+
     // Broadcast settings update to all tabs so content scripts can react live
     try {
       chrome.tabs.query({}, (tabs) => {
@@ -91,8 +113,18 @@ export async function handleResetSettings(): Promise<AIResponse<Settings>> {
   const startTime = Date.now();
   try {
     // Reset settings to defaults using settings manager
+    const previousPrivacyMode = await settingsManager.getPrivacyMode();
     const defaultSettings = await settingsManager.resetToDefaults();
 
+    if (
+      previousPrivacyMode === 'sync' &&
+      defaultSettings.privacyMode === 'local'
+    ) {
+      void syncManager.disable();
+    }
+    void scheduleBackups();
+    await applyAIProvider();
+
     return createSuccessResponse(
       defaultSettings,
       'storage',
@@ -107,3 +139,30 @@ export async function handleResetSettings(): Promise<AIResponse<Settings>> {
     );
   }
 }
+
+/**
+ * Handle clear synced reflections request
+ * Removes the copies kept in chrome.storage.sync for every device on the
+ * profile; local reflections stay as they are.
+ */
+export async function handleClearSyncedReflections(): Promise<
+  AIResponse<{ removed: number }>
+> {
+  const startTime = Date.now();
+  try {
+    const removed = await syncManager.clearRemote();
+
+    return createSuccessResponse(
+      { removed },
+      'storage',
+      Date.now() - startTime
+    );
+  } catch (error) {
+    devError('Error in handleClearSyncedReflections:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
@@ -1,15 +1,47 @@
 /**
  * Storage operation handlers
- * Handles all storage-related operations: save, load, delete, export, getStreak
+ * Handles all storage-related operations: save, load, delete, export, search,
+ * related reflections, tags, edits, import, backups, getStreak
  */
 
-import { StorageManager } from '../../services/storage';
+import {
+  storageManager,
+  searchIndex,
+  settingsManager,
+  backupManager,
+  syncManager,
+  scheduleSyncIfEnabled,
+} from '../utils/shared';
 import { createSuccessResponse, createErrorResponse } from '../../../types';
-import type { AIResponse, Reflection, StreakData } from '../../../types';
+import type {
+  AIResponse,
+  BackupRestoreResult,
+  BackupSummary,
+  ExportFile,
+  ExportFilters,
+  ExportRequest,
+  ImportPreview,
+  ImportRequest,
+  ImportResult,
+  Reflection,
+  ReflectionUpdateRequest,
+  RelatedReflection,
+  RelatedReflectionsRequest,
+  SearchRequest,
+  SearchResult,
+  StreakData,
+  TagCount,
+  TagUpdateRequest,
+} from '../../../types';
 import { ERROR_MESSAGES } from '../../../constants';
+import { normalizeTags } from '../../../utils';
 import { devLog, devWarn, devError } from '../../../utils/logger';
-
-const storageManager = new StorageManager();
+import {
+  embedReflection,
+  embedText,
+  findNearest,
+  getExporter,
+} from '../../services/storage';
 
 /**
  * Handle save reflection request
@@ -46,9 +78,17 @@ export async function handleSave(payload: unknown): Promise<AIResponse<void>> {
       devWarn('[Save] Storage near limit (>90%)');
     }
 
+    if (reflection.tags) {
+      reflection.tags = normalizeTags(reflection.tags);
+    }
+
+    // Embed locally so related reflections can be found later
+    reflection.embedding = embedReflection(reflection);
+
     // Save reflection using storage manager
     devLog('[Save] Saving reflection...');
     await storageManager.saveReflection(reflection);
+    void scheduleSyncIfEnabled();
     const duration = Date.now() - startTime;
 
     devLog(`[Save] Success in ${duration}ms`);
@@ -143,6 +183,7 @@ export async function handleDeleteReflection(
       );
     }
     await storageManager.deleteReflection(payload);
+    void scheduleSyncIfEnabled();
     return createSuccessResponse(true, 'storage', Date.now() - startTime);
   } catch (error) {
     return createErrorResponse(
@@ -154,15 +195,76 @@ export async function handleDeleteReflection(
 }
 
 /**
- * Export reflections in given format
+ * Validate export filters, keeping only the fields that are set
+ * @returns The filters, or null if any field has the wrong type
+ */
+function parseExportFilters(value: unknown): ExportFilters | null {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Partial<Record<keyof ExportFilters, unknown>>;
+  const filters: ExportFilters = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const time = raw[key];
+    if (time === undefined) continue;
+    if (typeof time !== 'number' || !Number.isFinite(time)) return null;
+    filters[key] = time;
+  }
+  for (const key of ['domain', 'language'] as const) {
+    const text = raw[key];
+    if (text === undefined) continue;
+    if (typeof text !== 'string') return null;
+    if (text) filters[key] = text;
+  }
+  if (raw.tags !== undefined) {
+    if (
+      !Array.isArray(raw.tags) ||
+      !raw.tags.every((tag) => typeof tag === 'string')
+    ) {
+      return null;
+    }
+    if (raw.tags.length) filters.tags = normalizeTags(raw.tags);
+  }
+  if (raw.proofreadOnly !== undefined) {
+    if (typeof raw.proofreadOnly !== 'boolean') return null;
+    if (raw.proofreadOnly) filters.proofreadOnly = true;
+  }
+  return filters;
+}
+
+/**
+ * Export reflections in given format, optionally filtered
  */
 export async function handleExportReflections(
   payload: unknown
-): Promise<AIResponse<string>> {
+): Promise<AIResponse<ExportFile>> {
   const startTime = Date.now();
   try {
-    const format = payload === 'markdown' ? 'markdown' : 'json';
-    const data = await storageManager.exportReflections(format);
+    // Older callers send the format name on its own
+    const request = (
+      typeof payload === 'string' ? { format: payload } : payload
+    ) as Partial<Record<keyof ExportRequest, unknown>> | undefined;
+    const format = request?.format;
+    const exporter = typeof format === 'string' && getExporter(format);
+    if (!exporter) {
+      return createErrorResponse(
+        'Invalid export format',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+    const filters = parseExportFilters(request?.filters);
+    if (!filters) {
+      return createErrorResponse(
+        'Invalid export filters',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+    const data = await storageManager.exportReflections(
+      exporter.format,
+      filters
+    );
     return createSuccessResponse(data, 'storage', Date.now() - startTime);
   } catch (error) {
     return createErrorResponse(
@@ -172,3 +274,359 @@ export async function handleExportReflections(
     );
   }
 }
+
+/**
+ * Full-text search over reflections
+ */
+export async function handleSearchReflections(
+  payload: unknown
+): Promise<AIResponse<SearchResult[]>> {
+  const startTime = Date.now();
+  try {
+    const request = payload as Partial<SearchRequest> | undefined;
+    if (!request || typeof request.query !== 'string') {
+      return createErrorResponse(
+        'Invalid search query',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const limit =
+      typeof request.limit === 'number' && request.limit > 0
+        ? request.limit
+        : undefined;
+
+    // Rebuilds only when the stored reflections have changed
+    searchIndex.update(await storageManager.getReflections());
+    const results = searchIndex.search(request.query, limit);
+
+    return createSuccessResponse(results, 'storage', Date.now() - startTime);
+  } catch (error) {
+    devError('Error in handleSearchReflections:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Find stored reflections similar to some text or to another reflection
+ */
+export async function handleFindRelatedReflections(
+  payload: unknown
+): Promise<AIResponse<RelatedReflection[]>> {
+  const startTime = Date.now();
+  try {
+    const request = (payload ?? {}) as RelatedReflectionsRequest;
+    const reflections = await storageManager.getReflections();
+
+    let query: number[] | undefined;
+    const excludeIds: string[] = [];
+    if (typeof request.reflectionId === 'string') {
+      const source = reflections.find((r) => r.id === request.reflectionId);
+      if (source) {
+        query = source.embedding ?? embedReflection(source);
+        excludeIds.push(source.id);
+      }
+    } else if (typeof request.text === 'string' && request.text.trim()) {
+      query = embedText(request.text);
+    }
+
+    if (!query) {
+      return createErrorResponse(
+        'Invalid related reflections request',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const candidates = request.excludeUrl
+      ? reflections.filter((r) => r.url !== request.excludeUrl)
+      : reflections;
+    const related = findNearest(query, candidates, {
+      limit:
+        typeof request.limit === 'number' && request.limit > 0
+          ? request.limit
+          : undefined,
+      excludeIds,
+    });
+
+    return createSuccessResponse(related, 'storage', Date.now() - startTime);
+  } catch (error) {
+    devError('Error in handleFindRelatedReflections:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Get all tags in use with their reflection counts
+ */
+export async function handleGetTags(): Promise<AIResponse<TagCount[]>> {
+  const startTime = Date.now();
+  try {
+    const tags = await storageManager.getTagCounts();
+    return createSuccessResponse(tags, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Add and remove tags on a selection of reflections
+ */
+export async function handleUpdateTags(
+  payload: unknown
+): Promise<AIResponse<number>> {
+  const startTime = Date.now();
+  try {
+    const request = payload as Partial<TagUpdateRequest> | undefined;
+    const isStringArray = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+    if (
+      !request ||
+      !isStringArray(request.ids) ||
+      (request.add !== undefined && !isStringArray(request.add)) ||
+      (request.remove !== undefined && !isStringArray(request.remove))
+    ) {
+      return createErrorResponse(
+        'Invalid tag update',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const updated = await storageManager.updateTags(
+      request.ids,
+      request.add,
+      request.remove
+    );
+    if (updated > 0) {
+      void scheduleSyncIfEnabled();
+    }
+    return createSuccessResponse(updated, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Edit a saved reflection, keeping the previous text as a revision
+ */
+export async function handleUpdateReflection(
+  payload: unknown
+): Promise<AIResponse<Reflection>> {
+  const startTime = Date.now();
+  try {
+    const request = payload as Partial<ReflectionUpdateRequest> | undefined;
+    if (
+      !request ||
+      typeof request.id !== 'string' ||
+      !Array.isArray(request.reflection) ||
+      !request.reflection.every((text) => typeof text === 'string') ||
+      (request.proofreadVersion !== undefined &&
+        typeof request.proofreadVersion !== 'string')
+    ) {
+      return createErrorResponse(
+        'Invalid reflection update',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const updated = await storageManager.updateReflection({
+      id: request.id,
+      reflection: request.reflection,
+      proofreadVersion: request.proofreadVersion,
+      toneUsed: request.toneUsed,
+    });
+    void scheduleSyncIfEnabled();
+    return createSuccessResponse(updated, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Validate an import payload
+ */
+function parseImportRequest(payload: unknown): ImportRequest | null {
+  const request = payload as Partial<ImportRequest> | undefined;
+  if (!request || typeof request.content !== 'string') {
+    return null;
+  }
+  if (
+    request.duplicateStrategy !== undefined &&
+    request.duplicateStrategy !== 'skip' &&
+    request.duplicateStrategy !== 'replace'
+  ) {
+    return null;
+  }
+  return {
+    content: request.content,
+    duplicateStrategy: request.duplicateStrategy,
+  };
+}
+
+/**
+ * Preview an import: new reflections, duplicates and rejected entries
+ */
+export async function handlePreviewImport(
+  payload: unknown
+): Promise<AIResponse<ImportPreview>> {
+  const startTime = Date.now();
+  try {
+    const request = parseImportRequest(payload);
+    if (!request) {
+      return createErrorResponse(
+        'Invalid import request',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const preview = await storageManager.previewImport(request.content);
+    return createSuccessResponse(preview, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Import reflections from a JSON or Markdown export
+ */
+export async function handleImportReflections(
+  payload: unknown
+): Promise<AIResponse<ImportResult>> {
+  const startTime = Date.now();
+  try {
+    const request = parseImportRequest(payload);
+    if (!request) {
+      return createErrorResponse(
+        'Invalid import request',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const result = await storageManager.importReflections(
+      request.content,
+      request.duplicateStrategy
+    );
+    devLog('[Import] Completed:', result);
+    if (result.imported > 0 || result.replaced > 0) {
+      void scheduleSyncIfEnabled();
+    }
+    return createSuccessResponse(result, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * List backup snapshots, newest first
+ */
+export async function handleListBackups(): Promise<
+  AIResponse<BackupSummary[]>
+> {
+  const startTime = Date.now();
+  try {
+    const backups = await backupManager.listBackups();
+    return createSuccessResponse(backups, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Take a backup snapshot now
+ */
+export async function handleCreateBackup(): Promise<
+  AIResponse<BackupSummary | null>
+> {
+  const startTime = Date.now();
+  try {
+    const settings = await settingsManager.getSettings();
+    const backup = await backupManager.createBackup(
+      'manual',
+      settings.backupRetention
+    );
+    return createSuccessResponse(backup, 'storage', Date.now() - startTime);
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
+
+/**
+ * Replace all reflections with a backup snapshot
+ */
+export async function handleRestoreBackup(
+  payload: unknown
+): Promise<AIResponse<BackupRestoreResult>> {
+  const startTime = Date.now();
+  try {
+    const request = payload as { id?: unknown } | undefined;
+    if (typeof request?.id !== 'string' || !request.id) {
+      return createErrorResponse(
+        'Invalid backup ID',
+        Date.now() - startTime,
+        'storage'
+      );
+    }
+
+    const settings = await settingsManager.getSettings();
+    const result = await backupManager.restoreBackup(
+      request.id,
+      settings.backupRetention
+    );
+    devLog('[Backup] Restored:', result);
+    if (settings.privacyMode === 'sync') {
+      // Other devices should drop what the snapshot doesn't have
+      syncManager.recordDeletions(result.removedIds);
+    }
+    void scheduleSyncIfEnabled();
+    return createSuccessResponse(result, 'storage', Date.now() - startTime);
+  } catch (error) {
+    devError('[Backup] Restore failed:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'storage'
+    );
+  }
+}
@@ -4,10 +4,29 @@
  */
 
 import { aiService } from '../../services/ai/aiService';
-import { settingsManager } from '../utils/shared';
-import type { SummaryFormat, WriterOptions } from '../../../types';
-import { ERROR_MESSAGES } from '../../../constants';
-import { devWarn, devError } from '../../../utils/logger';
+import { aiScheduler, createAbortError } from '../../services/ai/aiScheduler';
+import {
+  aiResultCache,
+  checkSummary,
+  ensureAIAvailable,
+  getRequestGroup,
+  getSummaryCacheFingerprint,
+  parseChatMessages,
+  parseContentSections,
+  settingsManager,
+} from '../utils/shared';
+import type { AIResultCacheRequest } from '../../services/storage';
+import type {
+  SummaryFormat,
+  SummaryProgress,
+  SummaryQuality,
+  WriterOptions,
+} from '../../../types';
+import { ARTICLE_CHAT, ERROR_MESSAGES } from '../../../constants';
+import { devLog, devWarn, devError } from '../../../utils/logger';
+import { parseSummaryOutput } from '../../services/ai/structuredOutput';
+import { usesCustomSummaryTemplate } from '../../../utils/promptTemplates';
+import { isCustomSummaryFormat } from '../../../utils/summaryFormats';
 
 /**
  * Safe post message to streaming port with disconnection check
@@ -25,8 +44,18 @@ export function safePostStreamMessage(
   }
 }
 
+/**
+ * Write summary items as the text a summary stream sends
+ */
+const joinSummary = (summary: string[], format: SummaryFormat): string =>
+  format === 'paragraph'
+    ? summary.join('\n\n')
+    : summary.map((point) => `- ${point}`).join('\n');
+
 /**
  * Handle summarize streaming request
+ * The streamed summary is scored once complete; a corrected summary, if
+ * one was needed, replaces it in the complete event.
  */
 export async function handleSummarizeStreamRequest(
   port: chrome.runtime.Port,
@@ -43,11 +72,15 @@ export async function handleSummarizeStreamRequest(
     return;
   }
 
-  const { content, format, detectedLanguage } = payload as {
-    content?: unknown;
-    format?: unknown;
-    detectedLanguage?: unknown;
-  };
+  const { content, format, detectedLanguage, sections, url, regenerate } =
+    payload as {
+      content?: unknown;
+      format?: unknown;
+      detectedLanguage?: unknown;
+      sections?: unknown;
+      url?: unknown;
+      regenerate?: unknown;
+    };
 
   if (typeof content !== 'string' || !content.trim()) {
     safePostStreamMessage(port, isDisconnected, {
@@ -67,6 +100,20 @@ export async function handleSummarizeStreamRequest(
     return;
   }
 
+  // Custom formats are parsed as a whole, so they use the summarize message
+  if (isCustomSummaryFormat(format)) {
+    safePostStreamMessage(port, isDisconnected, {
+      event: 'error',
+      requestId,
+      error: 'Streaming is not supported for custom summary formats',
+    });
+    return;
+  }
+
+  const controller = new AbortController();
+  port.onDisconnect.addListener(() => controller.abort(createAbortError()));
+  const group = getRequestGroup(port.sender);
+
   try {
     const settings = await settingsManager.getSettings();
     const translationEnabled =
@@ -81,27 +128,147 @@ export async function handleSummarizeStreamRequest(
     const expectedLanguages =
       typeof detectedLanguage === 'string' ? [detectedLanguage] : undefined;
 
-    const aggregate = await aiService.summarizer.summarizeStreaming(
+    // Replay the summary from an earlier visit as a single chunk
+    const cacheRequest: AIResultCacheRequest = {
+      kind: 'summary',
       content,
-      format as SummaryFormat,
-      outputLanguage,
-      {
-        expectedInputLanguages: expectedLanguages,
-        expectedContextLanguages: expectedLanguages,
-      },
-      (chunk) => {
+      url: typeof url === 'string' ? url : undefined,
+      variant: `stream:${format}|${outputLanguage ?? ''}`,
+      fingerprint: getSummaryCacheFingerprint(
+        settings,
+        format as SummaryFormat
+      ),
+    };
+    if (regenerate === true) {
+      if (cacheRequest.url) {
+        await aiResultCache.invalidate('summary', cacheRequest.url);
+      }
+    } else {
+      const cached = await aiResultCache.get<string>(cacheRequest);
+      if (cached) {
+        devLog('[Summarize] Using cached summary');
         safePostStreamMessage(port, isDisconnected, {
           event: 'chunk',
           requestId,
-          data: chunk,
+          data: cached.value,
         });
+        const { quality } = await checkSummary(
+          parseSummaryOutput(cached.value, format as SummaryFormat),
+          content,
+          format as SummaryFormat,
+          { outputLanguage, retry: false }
+        );
+        safePostStreamMessage(port, isDisconnected, {
+          event: 'complete',
+          requestId,
+          data: cached.value,
+          cached: true,
+          quality,
+          apiUsed: cached.apiUsed,
+        });
+        return;
       }
-    );
+    }
 
+    const postChunk = (chunk: string) => {
+      safePostStreamMessage(port, isDisconnected, {
+        event: 'chunk',
+        requestId,
+        data: chunk,
+      });
+    };
+
+    // Stream the summary, then score it and correct it if it falls short
+    const summarizeAndCheck = async (
+      signal: AbortSignal
+    ): Promise<{
+      aggregate: string;
+      apiUsed: string;
+      quality?: SummaryQuality;
+    }> => {
+      const chunkOptions = {
+        sections: parseContentSections(sections),
+        // Long articles are summarized in chunks before the summary streams
+        onProgress: (progress: SummaryProgress) => {
+          safePostStreamMessage(port, isDisconnected, {
+            event: 'progress',
+            requestId,
+            data: progress,
+          });
+        },
+        signal,
+      };
+
+      let aggregate: string;
+      let apiUsed = aiService.describeApi('summarizer');
+      if (
+        (usesCustomSummaryTemplate(
+          settings.promptTemplates,
+          format as SummaryFormat
+        ) ||
+          !(await aiService.summarizer.checkAvailability())) &&
+        (await ensureAIAvailable())
+      ) {
+        // Custom prompt templates only apply to Prompt API summaries, and
+        // some providers only offer the Prompt API; those summaries don't
+        // stream, so send the finished summary as a single chunk
+        devLog('[Summarize] Using Prompt API for streamed summary');
+        const summary = await aiService.prompt.summarize(
+          content,
+          format as SummaryFormat,
+          outputLanguage,
+          chunkOptions
+        );
+        aggregate = joinSummary(summary, format as SummaryFormat);
+        postChunk(aggregate);
+        apiUsed = aiService.describeApi('prompt');
+      } else {
+        aggregate = await aiService.summarizer.summarizeStreaming(
+          content,
+          format as SummaryFormat,
+          outputLanguage,
+          {
+            expectedInputLanguages: expectedLanguages,
+            expectedContextLanguages: expectedLanguages,
+          },
+          postChunk,
+          chunkOptions
+        );
+      }
+
+      if (!aggregate.trim()) return { aggregate, apiUsed };
+      const streamed = parseSummaryOutput(aggregate, format as SummaryFormat);
+      const checked = await checkSummary(
+        streamed,
+        content,
+        format as SummaryFormat,
+        { outputLanguage, signal }
+      );
+      if (checked.summary !== streamed) {
+        aggregate = joinSummary(checked.summary, format as SummaryFormat);
+        apiUsed = aiService.describeApi('prompt');
+      }
+      return { aggregate, apiUsed, quality: checked.quality };
+    };
+
+    const { aggregate, apiUsed, quality } = await aiScheduler.run(
+      summarizeAndCheck,
+      {
+        operation: 'summarize',
+        group,
+        lane: group && `summarize:${group}`,
+        signal: controller.signal,
+      }
+    );
+    if (aggregate.trim()) {
+      await aiResultCache.set(cacheRequest, aggregate, apiUsed);
+    }
     safePostStreamMessage(port, isDisconnected, {
       event: 'complete',
       requestId,
       data: aggregate,
+      quality,
+      apiUsed,
     });
   } catch (error) {
     devError('Error in summarize stream:', error);
@@ -162,6 +329,9 @@ export async function handleWriterStreamRequest(
 
   const contextString = typeof context === 'string' ? context : undefined;
 
+  const controller = new AbortController();
+  port.onDisconnect.addListener(() => controller.abort(createAbortError()));
+
   try {
     const settings = await settingsManager.getSettings();
     const translationEnabled =
@@ -175,21 +345,32 @@ export async function handleWriterStreamRequest(
         ? [settings.preferredTranslationLanguage]
         : undefined;
 
-    const result = await aiService.writer.generateStreaming(
-      prompt,
-      writerOptions,
-      contextString,
-      (chunk) => {
-        safePostStreamMessage(port, isDisconnected, {
-          event: 'chunk',
-          requestId,
-          data: chunk,
-        });
-      },
-      outputLanguage,
+    const group = getRequestGroup(port.sender);
+    const result = await aiScheduler.run(
+      (signal) =>
+        aiService.writer.generateStreaming(
+          prompt,
+          writerOptions,
+          contextString,
+          (chunk) => {
+            safePostStreamMessage(port, isDisconnected, {
+              event: 'chunk',
+              requestId,
+              data: chunk,
+            });
+          },
+          outputLanguage,
+          {
+            expectedInputLanguages: expectedLanguages,
+            expectedContextLanguages: expectedLanguages,
+          },
+          signal
+        ),
       {
-        expectedInputLanguages: expectedLanguages,
-        expectedContextLanguages: expectedLanguages,
+        operation: 'write',
+        group,
+        lane: group && `write:${group}`,
+        signal: controller.signal,
       }
     );
 
@@ -208,3 +389,99 @@ export async function handleWriterStreamRequest(
     });
   }
 }
+
+/**
+ * Handle a question about the article, streaming the answer
+ * A newer question from the same tab supersedes this one, and closing the
+ * port stops the answer
+ */
+export async function handleChatStreamRequest(
+  port: chrome.runtime.Port,
+  requestId: string,
+  payload: unknown,
+  isDisconnected: () => boolean
+): Promise<void> {
+  const postError = (error: string) =>
+    safePostStreamMessage(port, isDisconnected, {
+      event: 'error',
+      requestId,
+      error,
+    });
+
+  if (!payload || typeof payload !== 'object') {
+    postError('Invalid chat payload');
+    return;
+  }
+
+  const { article, summary, history, question } = payload as {
+    article?: { title?: unknown; url?: unknown; text?: unknown };
+    summary?: unknown;
+    history?: unknown;
+    question?: unknown;
+  };
+
+  if (typeof article?.text !== 'string' || !article.text.trim()) {
+    postError('No article to ask about');
+    return;
+  }
+  if (typeof question !== 'string' || !question.trim()) {
+    postError('Empty question');
+    return;
+  }
+  if (question.length > ARTICLE_CHAT.MAX_QUESTION_LENGTH) {
+    postError(
+      `Questions can be up to ${ARTICLE_CHAT.MAX_QUESTION_LENGTH} characters`
+    );
+    return;
+  }
+
+  const controller = new AbortController();
+  port.onDisconnect.addListener(() => controller.abort(createAbortError()));
+
+  try {
+    if (!(await ensureAIAvailable())) {
+      postError(ERROR_MESSAGES.AI_UNAVAILABLE);
+      return;
+    }
+
+    const group = getRequestGroup(port.sender);
+    const answer = await aiScheduler.run(
+      (signal) =>
+        aiService.prompt.chatStreaming(
+          {
+            title: typeof article.title === 'string' ? article.title : '',
+            url: typeof article.url === 'string' ? article.url : '',
+            text: article.text as string,
+            summary: Array.isArray(summary) ? summary.map(String) : undefined,
+          },
+          parseChatMessages(history),
+          question.trim(),
+          (chunk) => {
+            safePostStreamMessage(port, isDisconnected, {
+              event: 'chunk',
+              requestId,
+              data: chunk,
+            });
+          },
+          signal
+        ),
+      {
+        operation: 'chat',
+        group,
+        lane: group && `chat:${group}`,
+        signal: controller.signal,
+      }
+    );
+
+    safePostStreamMessage(port, isDisconnected, {
+      event: 'complete',
+      requestId,
+      data: answer,
+    });
+  } catch (error) {
+    devError('Error in chat stream:', error);
+    postError(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR
+    );
+  }
+}
@@ -4,12 +4,49 @@
  */
 
 import { aiService } from '../../services/ai/aiService';
-import { SettingsManager } from '../../services/storage';
+import { createChromeProvider } from '../../services/ai/chromeProvider';
+import { createLocalProvider } from '../../services/ai/localProvider';
+import { aiScheduler } from '../../services/ai/aiScheduler';
+import { rateLimiter } from '../../services/ai/rateLimiter';
+import { checkSummaryQuality } from '../../services/ai/summaryQuality';
+import {
+  AIResultCache,
+  BackupManager,
+  SearchIndex,
+  SettingsManager,
+  StorageManager,
+  SyncManager,
+} from '../../services/storage';
 import { createErrorResponse } from '../../../types';
+import type {
+  AIResponse,
+  ChatMessage,
+  ContentSection,
+  CustomSummaryFormat,
+  QuestionExchange,
+  Settings,
+  SummaryFormat,
+  SummaryQuality,
+} from '../../../types';
+import type { AIResultCacheHit } from '../../services/storage';
 import { ERROR_MESSAGES } from '../../../constants';
+import { devWarn } from '../../../utils/logger';
+import { getPromptTemplate } from '../../../utils/promptTemplates';
+import { getLocalAIProviderSettings } from '../../../utils/localAIProvider';
 
 // Shared instances
 export const settingsManager = new SettingsManager();
+export const storageManager = new StorageManager();
+export const syncManager = new SyncManager(storageManager);
+export const searchIndex = new SearchIndex();
+export const backupManager = new BackupManager(storageManager);
+export const aiResultCache = new AIResultCache();
+
+// Prompt templates are read from settings on each request, so edits in
+// the options page apply without a reload
+aiService.setTemplateSource(
+  async () => (await settingsManager.getSettings()).promptTemplates
+);
 
 // Track AI availability status
 let aiAvailable = false;
@@ -34,6 +71,82 @@ export function resetAIAvailability(): void {
   aiAvailable = false;
 }
 
+/**
+ * Identify the provider the settings select, including how a local
+ * server is reached, so a change can be noticed
+ */
+export function getAIProviderKey(
+  settings: Pick<Settings, 'aiProvider' | 'localAIProvider'>
+): string {
+  if (settings.aiProvider !== 'local') return 'chrome';
+  const { endpoint, model } = getLocalAIProviderSettings(settings);
+  return JSON.stringify(['local', endpoint, model]);
+}
+
+let aiProviderKey = 'chrome';
+
+/**
+ * Switch AI requests to the provider selected in settings
+ * Failures are logged; requests keep going to the current provider
+ */
+export async function applyAIProvider(): Promise<void> {
+  try {
+    const settings = await settingsManager.getSettings();
+    const key = getAIProviderKey(settings);
+    if (key === aiProviderKey) return;
+
+    // Requests in flight belong to the provider being destroyed
+    aiScheduler.cancelAll();
+    aiService.setProvider(
+      settings.aiProvider === 'local'
+        ? createLocalProvider(getLocalAIProviderSettings(settings))
+        : createChromeProvider()
+    );
+    aiProviderKey = key;
+    resetAIAvailability();
+  } catch (error) {
+    devWarn('[AI] Could not switch AI provider:', error);
+  }
+}
+
+/**
+ * Scheduler group for a message's sender, so one tab's AI requests can
+ * be cancelled together; undefined for the popup and options page
+ */
+export function getRequestGroup(
+  sender?: chrome.runtime.MessageSender
+): string | undefined {
+  const tabId = sender?.tab?.id;
+  return tabId === undefined ? undefined : `tab:${tabId}`;
+}
+
+/**
+ * Schedule a reflection sync if the user has opted into Chrome Sync
+ * Failures are logged; local storage stays the source of truth
+ */
+export async function scheduleSyncIfEnabled(): Promise<void> {
+  try {
+    const privacyMode = await settingsManager.getPrivacyMode();
+    if (privacyMode === 'sync') {
+      syncManager.scheduleSync();
+    }
+  } catch (error) {
+    devWarn('[Sync] Could not schedule sync:', error);
+  }
+}
+
+/**
+ * Create or clear the scheduled backup alarm to match current settings
+ * Failures are logged; backups are a safety net, not a requirement
+ */
+export async function scheduleBackups(): Promise<void> {
+  try {
+    await backupManager.schedule(await settingsManager.getSettings());
+  } catch (error) {
+    devWarn('[Backup] Could not schedule backups:', error);
+  }
+}
+
 /**
  * Get user settings with error handling
  */
@@ -101,6 +214,156 @@ export async function getExpectedLanguages(
   };
 }
 
+/**
+ * Read article sections from a summarize payload
+ * Malformed entries are dropped; summarization falls back to splitting the
+ * plain text when none are usable
+ */
+export function parseContentSections(
+  value: unknown
+): ContentSection[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const sections: ContentSection[] = [];
+  for (const entry of value as unknown[]) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { heading, text } = entry as Record<string, unknown>;
+    if (typeof text !== 'string') continue;
+    sections.push(typeof heading === 'string' ? { heading, text } : { text });
+  }
+  return sections.length > 0 ? sections : undefined;
+}
+
+/**
+ * Read chat messages from a payload
+ * Malformed entries are dropped
+ */
+export function parseChatMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value)) return [];
+
+  const messages: ChatMessage[] = [];
+  for (const entry of value as unknown[]) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { role, content } = entry as Record<string, unknown>;
+    if (
+      (role === 'user' || role === 'assistant') &&
+      typeof content === 'string'
+    ) {
+      messages.push({ role, content });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Read questions and answers from a payload
+ * Malformed entries are dropped
+ */
+export function parseQuestionExchanges(value: unknown): QuestionExchange[] {
+  if (!Array.isArray(value)) return [];
+
+  const exchanges: QuestionExchange[] = [];
+  for (const entry of value as unknown[]) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { question, answer } = entry as Record<string, unknown>;
+    if (typeof question === 'string' && typeof answer === 'string') {
+      exchanges.push({ question, answer });
+    }
+  }
+  return exchanges;
+}
+
+/**
+ * Everything besides the article that shapes a summary, so cached
+ * summaries are dropped when the user edits a prompt or switches API
+ */
+export function getSummaryCacheFingerprint(
+  settings: Settings,
+  format: SummaryFormat | CustomSummaryFormat
+): string {
+  return JSON.stringify([
+    getPromptTemplate(settings.promptTemplates, 'summarize'),
+    getPromptTemplate(settings.promptTemplates, 'summarizeSystem'),
+    getPromptTemplate(settings.promptTemplates, 'reviseSummary'),
+    typeof format === 'string' ? format : [format.prompt, format.parser],
+    settings.useNativeSummarizer,
+    getAIProviderKey(settings),
+  ]);
+}
+
+/**
+ * Everything besides the summary that shapes reflection questions, so
+ * cached questions are dropped when the user edits the prompt or switches
+ * provider
+ */
+export function getReflectCacheFingerprint(settings: Settings): string {
+  return JSON.stringify([
+    getPromptTemplate(settings.promptTemplates, 'reflect'),
+    getAIProviderKey(settings),
+  ]);
+}
+
+/**
+ * Run the quality checks on a built-in summary
+ * A failing summary is rewritten with a corrective prompt when the Prompt
+ * API is available and retries are allowed.
+ * @param options.outputLanguage - Language the summary was asked for in
+ * @param options.detectedLanguage - Article language, expected otherwise
+ * @param options.retry - Whether to rewrite a failing summary; cached
+ * summaries are only scored
+ */
+export async function checkSummary(
+  summary: string[],
+  content: string,
+  format: SummaryFormat,
+  options: {
+    outputLanguage?: string;
+    detectedLanguage?: string;
+    signal?: AbortSignal;
+    retry?: boolean;
+  } = {}
+): Promise<{ summary: string[]; quality: SummaryQuality }> {
+  const { outputLanguage, signal, retry = true } = options;
+  const canRevise = retry && (await ensureAIAvailable());
+
+  return checkSummaryQuality(summary, content, {
+    format,
+    expectedLanguage: outputLanguage ?? options.detectedLanguage,
+    detectLanguage: (text) => aiService.languageDetector.detect(text),
+    revise: canRevise
+      ? (current, problems) =>
+          rateLimiter.executeWithRetry(
+            () =>
+              aiService.prompt.reviseSummary(
+                content,
+                format,
+                current,
+                problems,
+                outputLanguage,
+                signal
+              ),
+            'summarizations'
+          )
+      : undefined,
+  });
+}
+
+/**
+ * Helper to create a success response for a cached result
+ */
+export function createCachedResponse<T>(
+  hit: AIResultCacheHit<T>,
+  startTime: number
+): AIResponse<T> {
+  return {
+    success: true,
+    data: hit.value,
+    apiUsed: hit.apiUsed,
+    duration: Date.now() - startTime,
+    cached: true,
+  };
+}
+
 /**
  * Helper to create error response with consistent formatting
  */
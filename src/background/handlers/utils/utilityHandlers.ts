@@ -14,9 +14,25 @@ import type {
   AICapabilities,
   UsageStats,
   PerformanceStats,
+  PromptPreviewContent,
 } from '../../../types';
 import { ERROR_MESSAGES } from '../../../constants';
 
+// Most recently viewed tabs asked for prompt preview content
+const PREVIEW_TAB_LIMIT = 5;
+
+const isPromptPreviewContent = (
+  value: unknown
+): value is PromptPreviewContent => {
+  if (!value || typeof value !== 'object') return false;
+  const { title, url, text } = value as Record<string, unknown>;
+  return (
+    typeof title === 'string' &&
+    typeof url === 'string' &&
+    typeof text === 'string'
+  );
+};
+
 // Export reset function for external use
 export { resetAIAvailability };
 
@@ -28,13 +44,17 @@ export async function handleCheckAI(): Promise<AIResponse<boolean>> {
   try {
     const available = await ensureAIAvailable();
 
-    return createSuccessResponse(available, 'prompt', Date.now() - startTime);
+    return createSuccessResponse(
+      available,
+      aiService.describeApi('prompt'),
+      Date.now() - startTime
+    );
   } catch (error) {
     devError('Error checking AI availability:', error);
     return createErrorResponse(
       error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
       Date.now() - startTime,
-      'prompt'
+      aiService.describeApi('prompt')
     );
   }
 }
@@ -297,3 +317,51 @@ export async function handleStartReflectInActiveTab(): Promise<
     );
   }
 }
+
+/**
+ * Get text from the page the user viewed most recently, for previewing
+ * prompt templates in the options page
+ * Tabs are tried newest first; tabs without a content script, such as the
+ * options page itself, don't answer and are skipped.
+ */
+export async function handleGetPromptPreviewContent(): Promise<
+  AIResponse<PromptPreviewContent>
+> {
+  const startTime = Date.now();
+  try {
+    const tabs = await chrome.tabs.query({});
+    const tabIds = tabs
+      .sort((a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0))
+      .flatMap((tab) => (typeof tab.id === 'number' ? [tab.id] : []))
+      .slice(0, PREVIEW_TAB_LIMIT);
+
+    for (const tabId of tabIds) {
+      try {
+        const resp: unknown = await chrome.tabs.sendMessage(tabId, {
+          type: 'getPromptPreviewContent',
+        });
+        const data =
+          resp && typeof resp === 'object' && 'data' in resp
+            ? resp.data
+            : undefined;
+        if (isPromptPreviewContent(data) && data.text.trim()) {
+          return createSuccessResponse(data, 'ui', Date.now() - startTime);
+        }
+      } catch {
+        // No content script in this tab
+      }
+    }
+
+    return createErrorResponse(
+      'Open an article in another tab to preview against it',
+      Date.now() - startTime,
+      'ui'
+    );
+  } catch (error) {
+    return createErrorResponse(
+      error instanceof Error ? error.message : ERROR_MESSAGES.GENERIC_ERROR,
+      Date.now() - startTime,
+      'ui'
+    );
+  }
+}
@@ -16,6 +16,8 @@ import {
   handleGetCapabilities,
   handleSummarize,
   handleReflect,
+  handleSuggestTags,
+  handleFollowUp,
   handleProofread,
   handleWrite,
   handleRewrite,
@@ -23,6 +25,7 @@ import {
   handleCanTranslate,
   handleCheckTranslationAvailability,
   handleDetectLanguage,
+  handleCancelAIRequests,
   handleGetUsageStats,
   handleGetPerformanceStats,
   handleSave,
@@ -30,15 +33,35 @@ import {
   handleGetStreak,
   handleDeleteReflection,
   handleExportReflections,
+  handleSearchReflections,
+  handleFindRelatedReflections,
+  handleGetTags,
+  handleUpdateTags,
+  handleUpdateReflection,
+  handlePreviewImport,
+  handleImportReflections,
+  handleListBackups,
+  handleCreateBackup,
+  handleRestoreBackup,
   handleGetSettings,
   handleUpdateSettings,
   handleResetSettings,
+  handleClearSyncedReflections,
   handleOpenDashboardInActiveTab,
   handleStartReflectInActiveTab,
+  handleGetPromptPreviewContent,
   handleSummarizeStreamRequest,
   handleWriterStreamRequest,
+  handleChatStreamRequest,
   safePostStreamMessage,
   resetAIAvailability,
+  storageManager,
+  settingsManager,
+  syncManager,
+  backupManager,
+  scheduleSyncIfEnabled,
+  scheduleBackups,
+  applyAIProvider,
 } from './handlers';
 
 devLog('Background service worker initialized');
@@ -46,6 +69,9 @@ devLog('Background service worker initialized');
 // Initialize AI Service
 aiService.initialize();
 
+// Send AI requests to the provider chosen in the options page
+void applyAIProvider();
+
 /**
  * Type guard to validate message structure and type
  * @param message Unknown message object
@@ -77,6 +103,7 @@ function isValidMessage(message: unknown): message is Message {
     'getSettings',
     'updateSettings',
     'resetSettings',
+    'clearSyncedReflections',
     'getUsageStats',
     'getPerformanceStats',
     'canTranslate',
@@ -84,6 +111,20 @@ function isValidMessage(message: unknown): message is Message {
     'getStreak',
     'deleteReflection',
     'exportReflections',
+    'searchReflections',
+    'findRelatedReflections',
+    'getTags',
+    'updateTags',
+    'updateReflection',
+    'previewImport',
+    'importReflections',
+    'listBackups',
+    'createBackup',
+    'restoreBackup',
+    'getPromptPreviewContent',
+    'suggestTags',
+    'followUp',
+    'cancelAIRequests',
     'openDashboardInActiveTab',
     'startReflectInActiveTab',
   ];
@@ -96,7 +137,7 @@ function isValidMessage(message: unknown): message is Message {
  * Handles all cross-component communication
  */
 chrome.runtime.onMessage.addListener(
-  (message: unknown, _sender, sendResponse) => {
+  (message: unknown, sender, sendResponse) => {
     const startTime = Date.now();
     devLog('Received message:', message);
 
@@ -114,7 +155,7 @@ chrome.runtime.onMessage.addListener(
     }
 
     // Route message to appropriate handler
-    handleMessage(message)
+    handleMessage(message, sender)
       .then((response) => {
         const duration = Date.now() - startTime;
         devLog(
@@ -192,6 +233,9 @@ chrome.runtime.onConnect.addListener((port) => {
           isDisconnected
         );
         break;
+      case 'chat-stream':
+        void handleChatStreamRequest(port, requestId, payload, isDisconnected);
+        break;
       default:
         safePostStreamMessage(port, isDisconnected, {
           event: 'error',
@@ -203,6 +247,31 @@ chrome.runtime.onConnect.addListener((port) => {
   });
 });
 
+/**
+ * Pull reflection changes pushed to Chrome Sync by other devices
+ */
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'sync' || !syncManager.isSyncChange(Object.keys(changes))) {
+    return;
+  }
+  void scheduleSyncIfEnabled();
+});
+
+/**
+ * Take scheduled backup snapshots
+ */
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (!backupManager.isBackupAlarm(alarm)) return;
+  void settingsManager
+    .getSettings()
+    .then((settings) =>
+      backupManager.createBackup('scheduled', settings.backupRetention)
+    )
+    .catch((error: unknown) =>
+      devError('[Backup] Scheduled backup failed:', error)
+    );
+});
+
 /**
  * Route messages to appropriate handlers
  * @param message Message object with type and payload
@@ -210,7 +279,7 @@ chrome.runtime.onConnect.addListener((port) => {
  */
 export async function handleMessage(
   message: Message,
-  _sender?: chrome.runtime.MessageSender
+  sender?: chrome.runtime.MessageSender
 ): Promise<AIResponse> {
   switch (message.type) {
     case 'checkAI':
@@ -223,22 +292,31 @@ export async function handleMessage(
       return handleGetCapabilities(message.payload);
 
     case 'summarize':
-      return handleSummarize(message.payload);
+      return handleSummarize(message.payload, sender);
 
     case 'reflect':
-      return handleReflect(message.payload);
+      return handleReflect(message.payload, sender);
+
+    case 'suggestTags':
+      return handleSuggestTags(message.payload, sender);
+
+    case 'followUp':
+      return handleFollowUp(message.payload, sender);
 
     case 'proofread':
-      return handleProofread(message.payload);
+      return handleProofread(message.payload, sender);
 
     case 'write':
-      return handleWrite(message.payload);
+      return handleWrite(message.payload, sender);
 
     case 'rewrite':
-      return handleRewrite(message.payload);
+      return handleRewrite(message.payload, sender);
 
     case 'translate':
-      return handleTranslate(message.payload);
+      return handleTranslate(message.payload, sender);
+
+    case 'cancelAIRequests':
+      return handleCancelAIRequests(sender);
 
     case 'detectLanguage':
       return handleDetectLanguage(message.payload);
@@ -270,6 +348,36 @@ export async function handleMessage(
     case 'exportReflections':
       return handleExportReflections(message.payload);
 
+    case 'searchReflections':
+      return handleSearchReflections(message.payload);
+
+    case 'findRelatedReflections':
+      return handleFindRelatedReflections(message.payload);
+
+    case 'getTags':
+      return handleGetTags();
+
+    case 'updateTags':
+      return handleUpdateTags(message.payload);
+
+    case 'updateReflection':
+      return handleUpdateReflection(message.payload);
+
+    case 'previewImport':
+      return handlePreviewImport(message.payload);
+
+    case 'importReflections':
+      return handleImportReflections(message.payload);
+
+    case 'listBackups':
+      return handleListBackups();
+
+    case 'createBackup':
+      return handleCreateBackup();
+
+    case 'restoreBackup':
+      return handleRestoreBackup(message.payload);
+
     case 'getSettings':
       return handleGetSettings();
 
@@ -279,12 +387,18 @@ export async function handleMessage(
     case 'resetSettings':
       return handleResetSettings();
 
+    case 'clearSyncedReflections':
+      return handleClearSyncedReflections();
+
     case 'openDashboardInActiveTab':
       return handleOpenDashboardInActiveTab();
 
     case 'startReflectInActiveTab':
       return handleStartReflectInActiveTab();
 
+    case 'getPromptPreviewContent':
+      return handleGetPromptPreviewContent();
+
     default:
       return createErrorResponse(
         `Unknown message type: ${String(message.type)}`,
@@ -305,6 +419,15 @@ chrome.runtime.onInstalled.addListener(async () => {
   // Migrate storage keys to namespaced versions if needed
   await migrateStorageKeysIfNeeded();
 
+  // Merge reflections from other devices if sync is enabled
+  void scheduleSyncIfEnabled();
+
+  // Embed older reflections so related reflections can find them
+  void backfillEmbeddings();
+
+  // Make sure the backup alarm matches the current settings
+  void scheduleBackups();
+
   // Check if Gemini Nano is available
   const available = await aiService.prompt.checkAvailability();
   if (available) {
@@ -337,6 +460,15 @@ chrome.runtime.onStartup.addListener(async () => {
   // Opportunistically migrate storage keys on startup as well
   await migrateStorageKeysIfNeeded();
 
+  // Merge reflections from other devices if sync is enabled
+  void scheduleSyncIfEnabled();
+
+  // Embed older reflections so related reflections can find them
+  void backfillEmbeddings();
+
+  // Make sure the backup alarm matches the current settings
+  void scheduleBackups();
+
   // Check if Gemini Nano is available
   const available = await aiService.prompt.checkAvailability();
   if (available) {
@@ -372,7 +504,8 @@ self.addEventListener('unhandledrejection', (event) => {
 });
 
 /**
- * Migrate un-namespaced storage keys to namespaced keys.
+ * Migrate un-namespaced storage keys to namespaced keys, then move
+ * reflections from the legacy array key into IndexedDB.
  * This preserves existing user data while adopting safer key names.
  */
 async function migrateStorageKeysIfNeeded(): Promise<void> {
@@ -419,4 +552,28 @@ async function migrateStorageKeysIfNeeded(): Promise<void> {
   } catch (e) {
     devWarn('[Storage] Key migration failed:', e);
   }
+
+  // Move reflections from the single array key into IndexedDB
+  try {
+    const migrated = await storageManager.migrateLegacyReflections();
+    if (migrated > 0) {
+      devLog(`[Storage] Migrated ${migrated} reflections to IndexedDB`);
+    }
+  } catch (e) {
+    devWarn('[Storage] Reflection migration to IndexedDB failed:', e);
+  }
+}
+
+/**
+ * Compute embeddings for reflections saved before they were introduced
+ */
+async function backfillEmbeddings(): Promise<void> {
+  try {
+    const updated = await storageManager.backfillEmbeddings();
+    if (updated > 0) {
+      devLog(`[Storage] Backfilled embeddings for ${updated} reflections`);
+    }
+  } catch (e) {
+    devWarn('[Storage] Embedding backfill failed:', e);
+  }
 }
@@ -0,0 +1,182 @@
+/**
+ * Recorded model outputs the summary and question parsers must read
+ * Each case is output that broke, or nearly broke, a parser: preambles,
+ * numbering variants, bold labels, fenced or malformed JSON. Add new
+ * cases here when a model finds another way to answer.
+ */
+
+import type { SummaryFormat } from '../../../../types';
+
+export interface SummaryOutputCase {
+  name: string;
+  format: SummaryFormat;
+  output: string;
+  expected: string[];
+}
+
+export interface QuestionsOutputCase {
+  name: string;
+  output: string;
+  expected: string[];
+}
+
+const LABELS = ['Insight', 'Surprise', 'Apply'];
+
+const BULLETS = [
+  'Sleep consolidates memories overnight.',
+  'Naps longer than 30 minutes can hurt focus.',
+  'Keep a fixed wake-up time, even on weekends.',
+];
+
+const QUESTIONS = [
+  'When did poor sleep last change a decision you made?',
+  'What would a fixed wake-up time cost you this week?',
+];
+
+export { LABELS as SUMMARY_LABELS };
+
+export const SUMMARY_OUTPUTS: SummaryOutputCase[] = [
+  {
+    name: 'schema-conforming JSON',
+    format: 'bullets',
+    output: JSON.stringify({ bullets: BULLETS }),
+    expected: BULLETS,
+  },
+  {
+    name: 'JSON in a code fence after a preamble',
+    format: 'bullets',
+    output: `Here is the summary in JSON:\n\`\`\`json\n${JSON.stringify({ bullets: BULLETS }, null, 2)}\n\`\`\``,
+    expected: BULLETS,
+  },
+  {
+    name: 'JSON with a trailing comma',
+    format: 'bullets',
+    output: `{"bullets": ["${BULLETS[0]}", "${BULLETS[1]}", "${BULLETS[2]}",]}`,
+    expected: BULLETS,
+  },
+  {
+    name: 'JSON bullets that kept their labels',
+    format: 'bullets',
+    output: JSON.stringify({
+      bullets: BULLETS.map((text, i) => `${LABELS[i]}: ${text}`),
+    }),
+    expected: BULLETS,
+  },
+  {
+    name: 'JSON items as label and text objects',
+    format: 'bullets',
+    output: JSON.stringify({
+      points: BULLETS.map((text, i) => ({ label: LABELS[i], text })),
+    }),
+    expected: BULLETS,
+  },
+  {
+    name: 'dash bullets after a chatty preamble',
+    format: 'bullets',
+    output: `Sure! Here's a summary of the article:\n\n- Insight: ${BULLETS[0]}\n- Surprise: ${BULLETS[1]}\n- Apply: ${BULLETS[2]}`,
+    expected: BULLETS,
+  },
+  {
+    name: 'numbered items instead of bullets',
+    format: 'bullets',
+    output: `1. Insight: ${BULLETS[0]}\n2. Surprise: ${BULLETS[1]}\n3. Apply: ${BULLETS[2]}`,
+    expected: BULLETS,
+  },
+  {
+    name: 'numbered items with parentheses',
+    format: 'bullets',
+    output: `1) ${BULLETS[0]}\n2) ${BULLETS[1]}\n3) ${BULLETS[2]}`,
+    expected: BULLETS,
+  },
+  {
+    name: 'bold labels on bullet points',
+    format: 'bullets',
+    output: `• **Insight:** ${BULLETS[0]}\n• **Surprise**: ${BULLETS[1]}\n• **Apply:** ${BULLETS[2]}`,
+    expected: BULLETS,
+  },
+  {
+    name: 'labels without list markers, with a sign-off',
+    format: 'bullets',
+    output: `Insight: ${BULLETS[0]}\nSurprise: ${BULLETS[1]}\nApply: ${BULLETS[2]}\n\nLet me know if you'd like more detail!`,
+    expected: BULLETS,
+  },
+  {
+    name: 'more than three bullets',
+    format: 'bullets',
+    output: `- ${BULLETS[0]}\n- ${BULLETS[1]}\n- ${BULLETS[2]}\n- An extra point.`,
+    expected: BULLETS,
+  },
+  {
+    name: 'paragraph after a preamble',
+    format: 'paragraph',
+    output: `Here is a concise paragraph summary:\n\n${BULLETS.join(' ')}`,
+    expected: [BULLETS.join(' ')],
+  },
+  {
+    name: 'paragraph as JSON',
+    format: 'paragraph',
+    output: JSON.stringify({ paragraph: BULLETS.join(' ') }),
+    expected: [BULLETS.join(' ')],
+  },
+  {
+    name: 'headline and bullets as JSON',
+    format: 'headline-bullets',
+    output: JSON.stringify({ headline: 'Why sleep matters', bullets: BULLETS }),
+    expected: ['Why sleep matters', ...BULLETS],
+  },
+  {
+    name: 'markdown heading with a bold label',
+    format: 'headline-bullets',
+    output: `## **Headline:** Why sleep matters\n\n- ${BULLETS[0]}\n- ${BULLETS[1]}\n- ${BULLETS[2]}`,
+    expected: ['Why sleep matters', ...BULLETS],
+  },
+  {
+    name: 'headline after a preamble',
+    format: 'headline-bullets',
+    output: `Certainly! Here's the summary:\nWhy sleep matters\n* ${BULLETS[0]}\n* ${BULLETS[1]}\n* ${BULLETS[2]}`,
+    expected: ['Why sleep matters', ...BULLETS],
+  },
+];
+
+export const QUESTIONS_OUTPUTS: QuestionsOutputCase[] = [
+  {
+    name: 'schema-conforming JSON',
+    output: JSON.stringify({ questions: QUESTIONS }),
+    expected: QUESTIONS,
+  },
+  {
+    name: 'a bare JSON array in a code fence',
+    output: `\`\`\`\n${JSON.stringify(QUESTIONS)}\n\`\`\``,
+    expected: QUESTIONS,
+  },
+  {
+    name: 'numbered questions after a preamble',
+    output: `Here are two reflection questions:\n\n1. ${QUESTIONS[0]}\n2. ${QUESTIONS[1]}`,
+    expected: QUESTIONS,
+  },
+  {
+    name: 'numbering with parentheses',
+    output: `1) ${QUESTIONS[0]}\n2) ${QUESTIONS[1]}`,
+    expected: QUESTIONS,
+  },
+  {
+    name: 'bold "Question N:" labels',
+    output: `**Question 1:** ${QUESTIONS[0]}\n**Question 2:** ${QUESTIONS[1]}`,
+    expected: QUESTIONS,
+  },
+  {
+    name: 'Q1/Q2 labels',
+    output: `Q1: ${QUESTIONS[0]}\nQ2: ${QUESTIONS[1]}`,
+    expected: QUESTIONS,
+  },
+  {
+    name: 'bold numbers and quoted questions',
+    output: `**1.** "${QUESTIONS[0]}"\n**2.** "${QUESTIONS[1]}"`,
+    expected: QUESTIONS,
+  },
+  {
+    name: 'questions mixed with commentary',
+    output: `- ${QUESTIONS[0]}\nThis one asks you to look back.\n- ${QUESTIONS[1]}\nI hope these help you reflect!`,
+    expected: QUESTIONS,
+  },
+];
@@ -11,6 +11,7 @@
 import { vi } from 'vitest';
 import type {
   AILanguageModel,
+  AILanguageModelFactory,
   AISummarizer,
   AIWriter,
   AIRewriter,
@@ -18,6 +19,8 @@ import type {
   AILanguageDetector,
   AITranslator,
 } from '../../../../types/chrome-ai';
+import type { AIProvider } from '../aiProvider';
+import { PromptManager } from '../promptManager';
 
 /**
  * Mock Prompt API (LanguageModel)
@@ -221,3 +224,80 @@ export const makeAPINotReady = (apiName: string) => {
     factory.availability = vi.fn().mockResolvedValue('no');
   }
 };
+
+/**
+ * Mock AI provider for AIService tests
+ * The Prompt API runs on the mock language model; the other APIs resolve
+ * canned results. Pass overrides to make an API unavailable or fail.
+ */
+export const createMockProvider = (
+  overrides: Partial<AIProvider> = {}
+): AIProvider => {
+  const languageModel = createMockLanguageModelFactory();
+
+  return {
+    id: 'chrome',
+    name: 'Mock AI',
+    prompt: new PromptManager(
+      () => languageModel as unknown as AILanguageModelFactory
+    ),
+    summarizer: {
+      checkAvailability: vi.fn().mockResolvedValue(true),
+      summarize: vi.fn().mockResolvedValue(['Point 1', 'Point 2', 'Point 3']),
+      summarizeStreaming: vi
+        .fn()
+        .mockResolvedValue('- Point 1\n- Point 2\n- Point 3'),
+      destroy: vi.fn(),
+    },
+    writer: {
+      checkAvailability: vi.fn().mockResolvedValue(true),
+      write: vi
+        .fn()
+        .mockResolvedValue('This is a generated draft about the topic.'),
+      generateStreaming: vi
+        .fn()
+        .mockResolvedValue('This is a generated draft about the topic.'),
+      destroy: vi.fn(),
+    },
+    rewriter: {
+      checkAvailability: vi.fn().mockResolvedValue(true),
+      rewrite: vi
+        .fn()
+        .mockResolvedValue('This is the rewritten text with adjusted tone.'),
+      destroy: vi.fn(),
+    },
+    proofreader: {
+      checkAvailability: vi.fn().mockResolvedValue(true),
+      proofread: vi.fn().mockResolvedValue({
+        correctedText: 'This is the corrected text.',
+        corrections: [],
+      }),
+      destroy: vi.fn(),
+    },
+    translator: {
+      canTranslate: vi.fn().mockResolvedValue(true),
+      translate: vi.fn().mockResolvedValue('Translated text'),
+      destroy: vi.fn(),
+    },
+    languageDetector: {
+      checkAvailability: vi.fn().mockResolvedValue(true),
+      detect: vi.fn().mockResolvedValue({
+        detectedLanguage: 'en',
+        confidence: 0.95,
+        languageName: 'English',
+      }),
+      destroy: vi.fn(),
+    },
+    getCapabilities: (experimentalMode) => ({
+      summarizer: true,
+      writer: true,
+      rewriter: true,
+      proofreader: true,
+      languageDetector: true,
+      translator: true,
+      prompt: true,
+      experimental: experimentalMode,
+    }),
+    ...overrides,
+  };
+};
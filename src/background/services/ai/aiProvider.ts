@@ -0,0 +1,66 @@
+/**
+ * AI Provider interface
+ * A provider supplies the managers that AIService hands to the message
+ * handlers. Chrome's built-in models are one provider; an OpenAI-compatible
+ * server on this machine is another. Capabilities a provider lacks report
+ * themselves unavailable, so handlers fall back to the Prompt API as they
+ * do when a Chrome API is missing.
+ */
+
+import type { AICapabilities, AIProviderId } from '../../../types';
+import type { PromptManager } from './promptManager';
+import type { SummarizerManager } from './summarizerManager';
+import type { WriterManager } from './writerManager';
+import type { RewriterManager } from './rewriterManager';
+import type { ProofreaderManager } from './proofreaderManager';
+import type { TranslatorManager } from './translatorManager';
+import type { LanguageDetectorManager } from './languageDetectorManager';
+
+export type SummarizerProvider = Pick<
+  SummarizerManager,
+  'checkAvailability' | 'summarize' | 'summarizeStreaming' | 'destroy'
+>;
+
+export type WriterProvider = Pick<
+  WriterManager,
+  'checkAvailability' | 'write' | 'generateStreaming' | 'destroy'
+>;
+
+export type RewriterProvider = Pick<
+  RewriterManager,
+  'checkAvailability' | 'rewrite' | 'destroy'
+>;
+
+export type ProofreaderProvider = Pick<
+  ProofreaderManager,
+  'checkAvailability' | 'proofread' | 'destroy'
+>;
+
+export type TranslatorProvider = Pick<
+  TranslatorManager,
+  'canTranslate' | 'translate' | 'destroy'
+>;
+
+export type LanguageDetectorProvider = Pick<
+  LanguageDetectorManager,
+  'checkAvailability' | 'detect' | 'destroy'
+>;
+
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly name: string; // Shown in the options page and AI status
+  readonly prompt: PromptManager;
+  readonly summarizer: SummarizerProvider;
+  readonly writer: WriterProvider;
+  readonly rewriter: RewriterProvider;
+  readonly proofreader: ProofreaderProvider;
+  readonly translator: TranslatorProvider;
+  readonly languageDetector: LanguageDetectorProvider;
+
+  /**
+   * Which APIs the provider offers
+   * @param experimentalMode - Whether experimental APIs are enabled
+   * @param refresh - Check again instead of using cached results
+   */
+  getCapabilities(experimentalMode: boolean, refresh: boolean): AICapabilities;
+}
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for AIScheduler
+ * Tests priority order, sharing identical requests, superseding and
+ * cancelling requests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AIScheduler, abortable, isAbortError } from './aiScheduler';
+
+/**
+ * A task that finishes when told to, recording when it starts
+ */
+function deferredTask<T>(name: string, started: string[]) {
+  let finish!: (value: T) => void;
+  let signal: AbortSignal | undefined;
+  const task = (taskSignal: AbortSignal) => {
+    started.push(name);
+    signal = taskSignal;
+    return new Promise<T>((resolve, reject) => {
+      finish = resolve;
+      taskSignal.addEventListener('abort', () =>
+        reject(taskSignal.reason as Error)
+      );
+    });
+  };
+  return {
+    task,
+    finish: (value: T) => finish(value),
+    get signal() {
+      return signal;
+    },
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('AIScheduler', () => {
+  it('should run one request at a time, highest priority first', async () => {
+    const scheduler = new AIScheduler(1);
+    const started: string[] = [];
+    const first = deferredTask<string>('first', started);
+    const tags = deferredTask<string>('tags', started);
+    const rewrite = deferredTask<string>('rewrite', started);
+
+    const results = Promise.all([
+      scheduler.run(first.task, { operation: 'translate' }),
+      scheduler.run(tags.task, { operation: 'suggestTags' }),
+      scheduler.run(rewrite.task, { operation: 'rewrite' }),
+    ]);
+    expect(started).toEqual(['first']);
+    expect(scheduler.pending).toBe(2);
+
+    first.finish('a');
+    await flush();
+    expect(started).toEqual(['first', 'rewrite']);
+
+    rewrite.finish('b');
+    await flush();
+    tags.finish('c');
+
+    expect(await results).toEqual(['a', 'c', 'b']);
+    expect(started).toEqual(['first', 'rewrite', 'tags']);
+  });
+
+  it('should share one run between identical requests', async () => {
+    const scheduler = new AIScheduler(1);
+    const started: string[] = [];
+    const summary = deferredTask<string[]>('summary', started);
+
+    const a = scheduler.run(summary.task, {
+      operation: 'summarize',
+      key: 'page',
+    });
+    const b = scheduler.run(summary.task, {
+      operation: 'summarize',
+      key: 'page',
+    });
+    summary.finish(['Point']);
+
+    expect(await a).toEqual(['Point']);
+    expect(await b).toEqual(['Point']);
+    expect(started).toEqual(['summary']);
+  });
+
+  it('should supersede older requests in the same lane', async () => {
+    const scheduler = new AIScheduler(1);
+    const started: string[] = [];
+    const bullets = deferredTask<string>('bullets', started);
+    const paragraph = deferredTask<string>('paragraph', started);
+    const lane = 'summarize:tab:1';
+
+    const older = scheduler.run(bullets.task, {
+      operation: 'summarize',
+      lane,
+    });
+    const newer = scheduler.run(paragraph.task, {
+      operation: 'summarize',
+      lane,
+    });
+
+    await expect(older).rejects.toSatisfy(isAbortError);
+    expect(bullets.signal?.aborted).toBe(true);
+
+    await flush();
+    paragraph.finish('Paragraph');
+    expect(await newer).toBe('Paragraph');
+  });
+
+  it('should cancel a group, aborting only runs nobody else waits on', async () => {
+    const scheduler = new AIScheduler(1);
+    const started: string[] = [];
+    const shared = deferredTask<string>('shared', started);
+    const queued = deferredTask<string>('queued', started);
+
+    const tab1 = scheduler.run(shared.task, {
+      operation: 'summarize',
+      key: 'page',
+      group: 'tab:1',
+    });
+    const tab2 = scheduler.run(shared.task, {
+      operation: 'summarize',
+      key: 'page',
+      group: 'tab:2',
+    });
+    const tab1Queued = scheduler.run(queued.task, {
+      operation: 'reflect',
+      group: 'tab:1',
+    });
+
+    expect(scheduler.cancel('tab:1')).toBe(2);
+    await expect(tab1).rejects.toSatisfy(isAbortError);
+    await expect(tab1Queued).rejects.toSatisfy(isAbortError);
+    expect(shared.signal?.aborted).toBe(false);
+    expect(scheduler.pending).toBe(0);
+
+    shared.finish('Summary');
+    expect(await tab2).toBe('Summary');
+    expect(started).toEqual(['shared']);
+    expect(scheduler.active).toBe(0);
+  });
+
+  it('should free the slot of a cancelled run before its task stops', async () => {
+    const scheduler = new AIScheduler(1);
+    const started: string[] = [];
+    let finishStuck!: (value: string) => void;
+    const stuck = () => {
+      started.push('stuck');
+      // Ignores its signal, like an API that doesn't support one
+      return new Promise<string>((resolve) => {
+        finishStuck = resolve;
+      });
+    };
+    const next = deferredTask<string>('next', started);
+    const controller = new AbortController();
+
+    const cancelled = scheduler.run(stuck, {
+      operation: 'write',
+      signal: controller.signal,
+    });
+    const waiting = scheduler.run(next.task, { operation: 'translate' });
+    expect(started).toEqual(['stuck']);
+
+    controller.abort();
+    await expect(cancelled).rejects.toSatisfy(isAbortError);
+    expect(started).toEqual(['stuck', 'next']);
+    expect(scheduler.active).toBe(1);
+
+    finishStuck('Too late');
+    await flush();
+    expect(scheduler.active).toBe(1);
+
+    next.finish('Next');
+    expect(await waiting).toBe('Next');
+    expect(scheduler.active).toBe(0);
+  });
+});
+
+describe('abortable', () => {
+  it('should reject when the signal aborts first', async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => undefined), controller.signal);
+
+    controller.abort(new DOMException('Stop', 'AbortError'));
+
+    await expect(pending).rejects.toSatisfy(isAbortError);
+  });
+});
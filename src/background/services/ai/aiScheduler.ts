@@ -0,0 +1,275 @@
+/**
+ * AI Request Scheduler
+ * Every AI request from every tab waits in one queue, ordered by
+ * priority, so the on-device model isn't asked to do several things at
+ * once. Identical requests share one run, a newer request can supersede
+ * older ones in the same lane, and requests can be cancelled by group
+ * (e.g. all of one tab's requests when its overlay closes).
+ */
+
+import { AI_SCHEDULER, ERROR_MESSAGES } from '../../../constants';
+import { devLog } from '../../../utils/logger';
+
+/**
+ * Operations the scheduler knows a priority for
+ */
+export type AIOperation = keyof typeof AI_SCHEDULER.PRIORITY;
+
+/**
+ * How a request is queued
+ */
+export interface ScheduleOptions {
+  operation: AIOperation;
+  key?: string; // Requests with the same key share one run
+  group?: string; // Requests cancelled together, e.g. "tab:12"
+  lane?: string; // A newer request in the same lane supersedes older ones
+  signal?: AbortSignal; // Cancels this request, e.g. when its caller leaves
+}
+
+/**
+ * One caller waiting on a job
+ */
+interface Waiter {
+  group?: string;
+  lane?: string;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Job {
+  id: number;
+  priority: number;
+  key?: string;
+  task: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  waiters: Set<Waiter>;
+}
+
+/**
+ * Error for requests that were cancelled or superseded
+ */
+export function createAbortError(): Error {
+  return new DOMException(ERROR_MESSAGES.AI_CANCELLED, 'AbortError');
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'AbortError'
+  );
+}
+
+/**
+ * Reject as soon as the signal aborts, for APIs that may not notice it
+ * @param promise - Work to wait for
+ * @param signal - Abort signal (optional)
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    return Promise.reject(signal.reason as Error);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason as Error);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * AIScheduler class
+ * Queues AI requests by priority and cancels them on request
+ */
+export class AIScheduler {
+  private queue: Job[] = [];
+  private running = new Set<Job>();
+  private byKey = new Map<string, Job>();
+  private nextId = 0;
+
+  constructor(private readonly maxConcurrent = AI_SCHEDULER.MAX_CONCURRENT) {}
+
+  /**
+   * Queue a request
+   * @param task - The request; should stop when the signal aborts
+   * @param options - Priority, de-duplication key, group and lane
+   * @returns The task's result, or a rejection with an AbortError if the
+   * request is cancelled or superseded
+   */
+  run<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    options: ScheduleOptions
+  ): Promise<T> {
+    const priority = AI_SCHEDULER.PRIORITY[options.operation];
+    const shared = options.key ? this.byKey.get(options.key) : undefined;
+
+    if (options.lane) {
+      this.dropWaiters(
+        (waiter, job) => waiter.lane === options.lane && job !== shared
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(createAbortError());
+        this.pump();
+        return;
+      }
+
+      const waiter: Waiter = {
+        group: options.group,
+        lane: options.lane,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      };
+      options.signal?.addEventListener(
+        'abort',
+        () => {
+          this.dropWaiters((candidate) => candidate === waiter);
+          this.pump();
+        },
+        { once: true }
+      );
+
+      if (shared) {
+        devLog(`[AIScheduler] Joining ${options.operation} already queued`);
+        shared.waiters.add(waiter);
+        shared.priority = Math.max(shared.priority, priority);
+        this.pump();
+        return;
+      }
+
+      const job: Job = {
+        id: this.nextId++,
+        priority,
+        key: options.key,
+        task,
+        controller: new AbortController(),
+        waiters: new Set([waiter]),
+      };
+      if (job.key) this.byKey.set(job.key, job);
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  /**
+   * Cancel every request in a group
+   * @returns Number of requests cancelled
+   */
+  cancel(group: string): number {
+    const cancelled = this.dropWaiters((waiter) => waiter.group === group);
+    this.pump();
+    if (cancelled > 0) {
+      devLog(`[AIScheduler] Cancelled ${cancelled} requests for ${group}`);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Cancel every queued and running request
+   * @returns Number of requests cancelled
+   */
+  cancelAll(): number {
+    return this.dropWaiters(() => true);
+  }
+
+  /**
+   * Number of requests waiting to start
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of requests running now
+   */
+  get active(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Reject matching waiters; a job nobody waits on any more is dropped
+   * from the queue, or aborted if it is running. An aborted job gives up
+   * its slot at once, since a task may be slow to notice the signal; the
+   * caller starts the next job.
+   */
+  private dropWaiters(match: (waiter: Waiter, job: Job) => boolean): number {
+    let dropped = 0;
+
+    for (const job of [...this.queue, ...this.running]) {
+      for (const waiter of job.waiters) {
+        if (!match(waiter, job)) continue;
+        job.waiters.delete(waiter);
+        waiter.reject(createAbortError());
+        dropped++;
+      }
+      if (job.waiters.size > 0) continue;
+
+      if (job.key && this.byKey.get(job.key) === job) {
+        this.byKey.delete(job.key);
+      }
+      if (this.running.has(job)) {
+        this.running.delete(job);
+        job.controller.abort(createAbortError());
+      } else {
+        this.queue = this.queue.filter((queued) => queued !== job);
+      }
+    }
+
+    return dropped;
+  }
+
+  /**
+   * Start queued jobs while there is room, highest priority first
+   */
+  private pump(): void {
+    while (this.running.size < this.maxConcurrent && this.queue.length > 0) {
+      const next = this.queue.reduce((best, job) =>
+        job.priority > best.priority ||
+        (job.priority === best.priority && job.id < best.id)
+          ? job
+          : best
+      );
+      this.queue = this.queue.filter((job) => job !== next);
+      this.start(next);
+    }
+  }
+
+  private start(job: Job): void {
+    this.running.add(job);
+
+    const settle = (notify: (waiter: Waiter) => void) => {
+      this.running.delete(job);
+      if (job.key && this.byKey.get(job.key) === job) {
+        this.byKey.delete(job.key);
+      }
+      job.waiters.forEach(notify);
+      job.waiters.clear();
+      this.pump();
+    };
+
+    let result: Promise<unknown>;
+    try {
+      result = job.task(job.controller.signal);
+    } catch (error) {
+      result = Promise.reject(error as Error);
+    }
+    result.then(
+      (value) => settle((waiter) => waiter.resolve(value)),
+      (error) => settle((waiter) => waiter.reject(error))
+    );
+  }
+}
+
+// Export singleton instance
+export const aiScheduler = new AIScheduler();
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for AIService
+ * Tests that requests go to the active provider and switching providers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AIService } from './aiService';
+import { createMockProvider } from './__mocks__/chromeAI.mock';
+
+describe('AIService', () => {
+  it('should hand out the active provider’s managers', async () => {
+    const provider = createMockProvider();
+    const service = new AIService(provider);
+
+    expect(service.prompt).toBe(provider.prompt);
+    expect(service.summarizer).toBe(provider.summarizer);
+    expect(await service.summarizer.summarize('text', 'bullets')).toEqual([
+      'Point 1',
+      'Point 2',
+      'Point 3',
+    ]);
+    // The Prompt API runs on the provider's language model
+    expect(await service.prompt.prompt('Hello')).toBe('AI generated response');
+  });
+
+  it('should switch providers and destroy the previous one', () => {
+    const first = createMockProvider();
+    const second = createMockProvider({ id: 'local', name: 'Local' });
+    const service = new AIService(first);
+    service.initialize();
+
+    service.setProvider(second);
+
+    expect(service.writer).toBe(second.writer);
+    expect(service.providerId).toBe('local');
+    expect(first.writer.destroy).toHaveBeenCalled();
+    expect(service.getCapabilities().provider).toBe('local');
+  });
+
+  it('should keep the template source across providers', async () => {
+    const service = new AIService(createMockProvider());
+    const source = vi.fn().mockResolvedValue(undefined);
+    service.setTemplateSource(source);
+
+    service.setProvider(createMockProvider({ id: 'local', name: 'Local' }));
+    await service.prompt.generateReflectionPrompts(['A point']);
+
+    expect(source).toHaveBeenCalled();
+  });
+
+  it('should name APIs with their provider', () => {
+    const service = new AIService(createMockProvider());
+    expect(service.describeApi('summarizer')).toBe('chrome:summarizer');
+
+    service.setProvider(createMockProvider({ id: 'local', name: 'Local' }));
+    expect(service.describeApi('prompt')).toBe('local:prompt');
+  });
+});
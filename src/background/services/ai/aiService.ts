@@ -1,38 +1,100 @@
 /**
  * Unified AI Service
- * Central interface for all Gemini Nano AI capabilities
+ * Central interface for all AI capabilities; requests go to the active
+ * provider (Chrome's built-in Gemini Nano unless the user picks another)
  */
 
-import { PromptManager } from './promptManager';
-import { ProofreaderManager } from './proofreaderManager';
-import { SummarizerManager } from './summarizerManager';
-import { TranslatorManager } from './translatorManager';
-import { WriterManager } from './writerManager';
-import { RewriterManager } from './rewriterManager';
-import { languageDetectorManager } from './languageDetectorManager';
-import type { AICapabilities } from '../../../types';
-import { capabilityDetector } from '../capabilities/capabilityDetector';
+import type {
+  AICapabilities,
+  AIProviderId,
+  PromptTemplates,
+} from '../../../types';
+import type { AIProvider } from './aiProvider';
+import { createChromeProvider } from './chromeProvider';
 import { devLog } from '../../../utils/logger';
 
 export class AIService {
-  public readonly prompt: PromptManager;
-  public readonly proofreader: ProofreaderManager;
-  public readonly summarizer: SummarizerManager;
-  public readonly translator: TranslatorManager;
-  public readonly writer: WriterManager;
-  public readonly rewriter: RewriterManager;
-  public readonly languageDetector = languageDetectorManager;
-
+  private provider: AIProvider;
   private capabilities: AICapabilities | null = null;
   private initialized = false;
+  private experimentalMode = false;
+  private templateSource: (() => Promise<PromptTemplates | undefined>) | null =
+    null;
+
+  constructor(provider: AIProvider = createChromeProvider()) {
+    this.provider = provider;
+  }
+
+  get prompt() {
+    return this.provider.prompt;
+  }
+
+  get proofreader() {
+    return this.provider.proofreader;
+  }
+
+  get summarizer() {
+    return this.provider.summarizer;
+  }
+
+  get translator() {
+    return this.provider.translator;
+  }
+
+  get writer() {
+    return this.provider.writer;
+  }
+
+  get rewriter() {
+    return this.provider.rewriter;
+  }
 
-  constructor() {
-    this.prompt = new PromptManager();
-    this.proofreader = new ProofreaderManager();
-    this.summarizer = new SummarizerManager();
-    this.translator = new TranslatorManager();
-    this.writer = new WriterManager();
-    this.rewriter = new RewriterManager();
+  get languageDetector() {
+    return this.provider.languageDetector;
+  }
+
+  /**
+   * Provider requests currently go to
+   */
+  get providerId(): AIProviderId {
+    return this.provider.id;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Send requests to another provider
+   * The previous provider's sessions are destroyed.
+   */
+  setProvider(provider: AIProvider): void {
+    devLog(`Switching AI provider to ${provider.name}`);
+    this.destroyAll();
+    this.provider = provider;
+    this.provider.prompt.setTemplateSource(this.templateSource);
+    if (this.initialized) {
+      this.capabilities = this.readCapabilities(false);
+    }
+  }
+
+  /**
+   * Set where the user's prompt templates are read from, for this and
+   * any later provider
+   */
+  setTemplateSource(
+    source: (() => Promise<PromptTemplates | undefined>) | null
+  ): void {
+    this.templateSource = source;
+    this.provider.prompt.setTemplateSource(source);
+  }
+
+  /**
+   * Name an API of the active provider for AIResponse.apiUsed,
+   * e.g. 'chrome:summarizer' or 'local:prompt'
+   */
+  describeApi(api: string): string {
+    return `${this.provider.id}:${api}`;
   }
 
   initialize(experimentalMode = false): void {
@@ -44,7 +106,8 @@ export class AIService {
     console.log('Initializing AIService...');
     const startTime = Date.now();
 
-    this.capabilities = capabilityDetector.getCapabilities(experimentalMode);
+    this.experimentalMode = experimentalMode;
+    this.capabilities = this.readCapabilities(false);
     this.initialized = true;
 
     const duration = Date.now() - startTime;
@@ -60,11 +123,18 @@ export class AIService {
 
   refreshCapabilities(experimentalMode = false): AICapabilities {
     console.log('Refreshing capabilities...');
-    this.capabilities =
-      capabilityDetector.refreshCapabilities(experimentalMode);
+    this.experimentalMode = experimentalMode;
+    this.capabilities = this.readCapabilities(true);
     return { ...this.capabilities };
   }
 
+  private readCapabilities(refresh: boolean): AICapabilities {
+    return {
+      ...this.provider.getCapabilities(this.experimentalMode, refresh),
+      provider: this.provider.id,
+    };
+  }
+
   isInitialized(): boolean {
     return this.initialized;
   }
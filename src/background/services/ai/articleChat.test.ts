@@ -0,0 +1,57 @@
+/**
+ * Unit tests for article chat grounding
+ * Tests the system prompt and fitting earlier messages to a token budget
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildChatSystemPrompt, fitChatHistory } from './articleChat';
+import type { ChatMessage } from '../../../types';
+
+const countWords = (text: string) =>
+  Promise.resolve(text.split(/\s+/).filter(Boolean).length);
+
+describe('buildChatSystemPrompt', () => {
+  it('should include the article and its summary', () => {
+    const prompt = buildChatSystemPrompt({
+      title: 'Sleep',
+      url: 'https://example.com/sleep',
+      text: 'Sleep consolidates memory.',
+      summary: ['Sleep matters', 'Naps help'],
+    });
+
+    expect(prompt).toContain('Title: Sleep');
+    expect(prompt).toContain('- Sleep matters\n- Naps help');
+    expect(prompt).toContain('Article:\nSleep consolidates memory.');
+  });
+
+  it('should say when the article is cut to an excerpt', () => {
+    const prompt = buildChatSystemPrompt(
+      { title: 'Long', url: 'https://example.com', text: 'word '.repeat(500) },
+      50
+    );
+
+    expect(prompt).toContain('it continues beyond this excerpt');
+    expect(prompt.length).toBeLessThan(1000);
+  });
+});
+
+describe('fitChatHistory', () => {
+  const history: ChatMessage[] = [
+    { role: 'user', content: 'one two three' },
+    { role: 'assistant', content: 'four five' },
+    { role: 'user', content: 'six' },
+    { role: 'assistant', content: 'seven eight' },
+  ];
+
+  it('should keep everything that fits', async () => {
+    expect(await fitChatHistory(history, 100, countWords)).toEqual(history);
+  });
+
+  it('should keep the newest messages, starting with a question', async () => {
+    // "four five" fits too, but not the question it answers
+    expect(await fitChatHistory(history, 5, countWords)).toEqual(
+      history.slice(2)
+    );
+    expect(await fitChatHistory(history, 1, countWords)).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Grounding for chats about an article
+ * Each turn of a chat starts a session primed with the article; the
+ * earlier turns are replayed after it, newest kept first, until the
+ * context window is full
+ */
+
+import type { ChatMessage } from '../../../types';
+import { ARTICLE_CHAT } from '../../../constants';
+import { truncateToTokens } from '../../../utils';
+
+/**
+ * The article a chat is about
+ */
+export interface ChatArticle {
+  title: string;
+  url: string;
+  text: string;
+  summary?: string[]; // Summary shown to the user, if written
+}
+
+/**
+ * Build the system prompt that grounds a chat in the article
+ * Long articles are cut to an excerpt; the summary, when there is one,
+ * still covers the whole article
+ * @param article - Article the chat is about
+ * @param maxArticleTokens - Budget for the article text
+ */
+export function buildChatSystemPrompt(
+  article: ChatArticle,
+  maxArticleTokens: number = ARTICLE_CHAT.ARTICLE_TOKENS
+): string {
+  const excerpt = truncateToTokens(article.text.trim(), maxArticleTokens);
+  const truncated = excerpt !== article.text.trim();
+
+  const parts = [
+    'You answer questions about one article the user is reading. Answer from the article. If the article does not say, tell the user so rather than guessing. Keep answers to a few sentences unless asked for more.',
+    `Title: ${article.title}\nURL: ${article.url}`,
+  ];
+  if (article.summary?.length) {
+    parts.push(
+      `Summary of the whole article:\n${article.summary.map((point) => `- ${point}`).join('\n')}`
+    );
+  }
+  parts.push(
+    truncated
+      ? `Article (the beginning; it continues beyond this excerpt):\n${excerpt}`
+      : `Article:\n${excerpt}`
+  );
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Keep the most recent messages that fit a token budget
+ * The kept messages always start with a question, so an answer is never
+ * replayed without what it answers
+ * @param history - Earlier messages, oldest first
+ * @param budget - Tokens available for the messages
+ * @param countTokens - Counts the tokens in a message
+ * @returns Messages to replay, oldest first
+ */
+export async function fitChatHistory(
+  history: ChatMessage[],
+  budget: number,
+  countTokens: (text: string) => Promise<number>
+): Promise<ChatMessage[]> {
+  let used = 0;
+  let start = history.length;
+
+  while (start > 0) {
+    const tokens = await countTokens(history[start - 1].content);
+    if (used + tokens > budget) break;
+    used += tokens;
+    start--;
+  }
+
+  const kept = history.slice(start);
+  return kept[0]?.role === 'assistant' ? kept.slice(1) : kept;
+}
@@ -0,0 +1,32 @@
+/**
+ * Chrome AI Provider
+ * Chrome's built-in Gemini Nano APIs
+ */
+
+import type { AIProvider } from './aiProvider';
+import { PromptManager } from './promptManager';
+import { ProofreaderManager } from './proofreaderManager';
+import { SummarizerManager } from './summarizerManager';
+import { TranslatorManager } from './translatorManager';
+import { WriterManager } from './writerManager';
+import { RewriterManager } from './rewriterManager';
+import { languageDetectorManager } from './languageDetectorManager';
+import { capabilityDetector } from '../capabilities/capabilityDetector';
+
+export function createChromeProvider(): AIProvider {
+  return {
+    id: 'chrome',
+    name: 'Chrome Built-in AI',
+    prompt: new PromptManager(),
+    proofreader: new ProofreaderManager(),
+    summarizer: new SummarizerManager(),
+    translator: new TranslatorManager(),
+    writer: new WriterManager(),
+    rewriter: new RewriterManager(),
+    languageDetector: languageDetectorManager,
+    getCapabilities: (experimentalMode, refresh) =>
+      refresh
+        ? capabilityDetector.refreshCapabilities(experimentalMode)
+        : capabilityDetector.getCapabilities(experimentalMode),
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for chunked summarization
+ * Tests splitting at headings and sentences, and condensing chunks into notes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  condenseChunks,
+  needsChunking,
+  splitIntoChunks,
+} from './chunkedSummary';
+import { CONTENT_LIMITS } from '../../../constants';
+import { estimateTokens } from '../../../utils';
+import type { SummaryProgress } from '../../../types';
+
+// A sentence of ten words, about 14 tokens
+const sentence = (n: number) =>
+  `Sentence ${n} adds a little more detail to the article.`;
+const paragraph = (count: number, start = 0) =>
+  Array.from({ length: count }, (_, i) => sentence(start + i)).join(' ');
+
+describe('chunkedSummary', () => {
+  describe('needsChunking', () => {
+    it('should only chunk content over the token limit', () => {
+      expect(needsChunking(paragraph(10))).toBe(false);
+      expect(needsChunking(paragraph(300))).toBe(true);
+    });
+  });
+
+  describe('splitIntoChunks', () => {
+    it('should keep whole sections together when they fit', () => {
+      const chunks = splitIntoChunks('', [
+        { text: paragraph(2) },
+        { heading: 'Background', text: paragraph(3) },
+        { heading: 'Results', text: paragraph(3) },
+      ]);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toContain('Background\nSentence 0');
+      expect(chunks[0]).toContain('\n\nResults\n');
+    });
+
+    it('should start a new chunk at a section boundary', () => {
+      const chunks = splitIntoChunks(
+        '',
+        [
+          { heading: 'One', text: paragraph(5) },
+          { heading: 'Two', text: paragraph(5) },
+        ],
+        100
+      );
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].startsWith('One\n')).toBe(true);
+      expect(chunks[1].startsWith('Two\n')).toBe(true);
+    });
+
+    it('should split long sections at sentences and repeat the heading', () => {
+      const chunks = splitIntoChunks(
+        '',
+        [{ heading: 'Long', text: paragraph(20) }],
+        100
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) => {
+        expect(chunk.startsWith('Long\n')).toBe(true);
+        expect(estimateTokens(chunk)).toBeLessThanOrEqual(100);
+        expect(chunk.trim().endsWith('.')).toBe(true);
+      });
+    });
+
+    it('should split plain text when there are no sections', () => {
+      const text = paragraph(400);
+      const chunks = splitIntoChunks(text);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) =>
+        expect(estimateTokens(chunk)).toBeLessThanOrEqual(
+          CONTENT_LIMITS.CHUNK_TOKENS
+        )
+      );
+      expect(chunks.join(' ')).toBe(text);
+    });
+
+    it('should break up a single sentence longer than the budget', () => {
+      const chunks = splitIntoChunks('word '.repeat(300), undefined, 75);
+
+      expect(chunks.length).toBe(6);
+    });
+
+    it('should ignore empty sections', () => {
+      expect(
+        splitIntoChunks('fallback text', [{ heading: 'Empty', text: ' ' }])
+      ).toEqual(['fallback text']);
+    });
+  });
+
+  describe('condenseChunks', () => {
+    it('should summarize each chunk in order and report progress', async () => {
+      const progress: SummaryProgress[] = [];
+      const summarizeChunk = vi.fn((chunk: string) =>
+        Promise.resolve([`Note on ${chunk.split('\n')[0]}`])
+      );
+
+      const notes = await condenseChunks(
+        paragraph(400),
+        {
+          sections: [
+            { heading: 'Intro', text: paragraph(100) },
+            { heading: 'Outro', text: paragraph(100, 100) },
+          ],
+          onProgress: (p) => progress.push(p),
+        },
+        summarizeChunk
+      );
+
+      expect(summarizeChunk).toHaveBeenCalledTimes(2);
+      expect(notes).toBe('- Note on Intro\n- Note on Outro');
+      expect(progress).toEqual([
+        { stage: 'map', completed: 0, total: 2 },
+        { stage: 'map', completed: 1, total: 2 },
+        { stage: 'map', completed: 2, total: 2 },
+        { stage: 'reduce', completed: 0, total: 1 },
+      ]);
+    });
+
+    it('should condense again when the notes are still too long', async () => {
+      // Each chunk yields a long note, so the first pass is over the limit
+      const summarizeChunk = vi.fn((chunk: string) =>
+        Promise.resolve([chunk.startsWith('- ') ? 'Short note' : paragraph(40)])
+      );
+
+      const notes = await condenseChunks(paragraph(2000), {}, summarizeChunk);
+
+      expect(summarizeChunk.mock.calls.length).toBeGreaterThan(
+        splitIntoChunks(paragraph(2000)).length
+      );
+      expect(needsChunking(notes)).toBe(false);
+      expect(notes).toContain('- Short note');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Map-reduce summarization for articles too long for a single AI request
+ * The article is split at its section headings into chunks that fit the
+ * token budget, each chunk is condensed to a few notes, and the notes are
+ * handed back for the final summary in the user's format
+ */
+
+import type { ContentSection, SummaryProgress } from '../../../types';
+import { CONTENT_LIMITS } from '../../../constants';
+import { estimateTokens } from '../../../utils';
+import { devLog } from '../../../utils/logger';
+
+/**
+ * Options for summarizing content that may need chunking
+ */
+export interface ChunkedSummaryOptions {
+  sections?: ContentSection[]; // Article split at its headings, if known
+  onProgress?: (progress: SummaryProgress) => void;
+  signal?: AbortSignal; // Stops the summary between and during requests
+}
+
+/**
+ * Context given to the final summary so it covers the article as a whole
+ */
+export const REDUCE_CONTEXT =
+  'The text is a set of notes, in order, on each section of one long article. Summarize the article as a whole.';
+
+/**
+ * Check whether content is too long to summarize in one request
+ */
+export function needsChunking(text: string): boolean {
+  return estimateTokens(text) > CONTENT_LIMITS.MAX_TOKENS;
+}
+
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+(?:[.!?]+["'”’)\]]*|$)/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+
+/**
+ * Greedily join pieces into chunks of at most maxTokens
+ */
+function pack(pieces: string[], maxTokens: number, separator: string) {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Split text that is over budget at sentence boundaries, falling back to
+ * fixed word windows for sentences that are over budget on their own
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const sentences = splitSentences(text);
+  if (sentences.length > 1) {
+    return pack(
+      sentences.flatMap((sentence) => splitOversized(sentence, maxTokens)),
+      maxTokens,
+      ' '
+    );
+  }
+
+  const words = text.trim().split(/\s+/);
+  const windowSize = Math.max(
+    1,
+    Math.floor(maxTokens * CONTENT_LIMITS.WORDS_PER_TOKEN)
+  );
+  const windows: string[] = [];
+  for (let i = 0; i < words.length; i += windowSize) {
+    windows.push(words.slice(i, i + windowSize).join(' '));
+  }
+  return windows;
+}
+
+/**
+ * Split content into chunks that each fit one summarization request
+ * Whole sections are kept together where they fit; a section that is too
+ * long on its own is split at sentences and each piece keeps its heading
+ * @param text Full article text, used when there are no sections
+ * @param sections Article split at its headings
+ * @param maxTokens Token budget per chunk
+ * @returns Chunks in article order
+ */
+export function splitIntoChunks(
+  text: string,
+  sections?: ContentSection[],
+  maxTokens: number = CONTENT_LIMITS.CHUNK_TOKENS
+): string[] {
+  const usable = (sections ?? []).filter((section) => section.text.trim());
+  if (usable.length === 0) {
+    return text.trim() ? splitOversized(text.trim(), maxTokens) : [];
+  }
+
+  const pieces = usable.flatMap(({ heading, text: sectionText }) => {
+    const title = heading?.trim();
+    // Leave room for the heading repeated on each piece
+    const budget = title ? maxTokens - estimateTokens(title) : maxTokens;
+    return splitOversized(sectionText.trim(), Math.max(1, budget)).map(
+      (piece) => (title ? `${title}\n${piece}` : piece)
+    );
+  });
+
+  return pack(pieces, maxTokens, '\n\n');
+}
+
+/**
+ * Condense long content into notes short enough for the final summary
+ * Each chunk is summarized in turn (the on-device model handles one
+ * request at a time); if the notes are still too long they are chunked
+ * and condensed again.
+ * @param text Full article text
+ * @param options Sections and progress callback
+ * @param summarizeChunk Summarizes one chunk into a few points
+ * @returns Notes covering the whole article, as a bullet list
+ */
+export async function condenseChunks(
+  text: string,
+  options: ChunkedSummaryOptions,
+  summarizeChunk: (chunk: string) => Promise<string[]>
+): Promise<string> {
+  let chunks = splitIntoChunks(text, options.sections);
+  let notes = '';
+
+  for (;;) {
+    const total = chunks.length;
+    devLog(`[ChunkedSummary] Summarizing ${total} chunks`);
+    const points: string[] = [];
+
+    for (let i = 0; i < total; i++) {
+      options.signal?.throwIfAborted();
+      options.onProgress?.({ stage: 'map', completed: i, total });
+      points.push(...(await summarizeChunk(chunks[i])));
+    }
+    options.onProgress?.({ stage: 'map', completed: total, total });
+
+    const bullets = points.map((point) => `- ${point}`);
+    notes = bullets.join('\n');
+    if (total <= 1 || !needsChunking(notes)) break;
+
+    const next = pack(bullets, CONTENT_LIMITS.CHUNK_TOKENS, '\n');
+    // Stop if another pass wouldn't shrink the notes
+    if (next.length >= total) break;
+    chunks = next;
+  }
+
+  options.onProgress?.({ stage: 'reduce', completed: 0, total: 1 });
+  return notes;
+}
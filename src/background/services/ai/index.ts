@@ -3,7 +3,40 @@
  */
 
 export { aiService, AIService } from './aiService';
+export { createChromeProvider } from './chromeProvider';
+export { createLocalProvider, createLocalLanguageModel } from './localProvider';
+export type {
+  AIProvider,
+  SummarizerProvider,
+  WriterProvider,
+  RewriterProvider,
+  ProofreaderProvider,
+  TranslatorProvider,
+  LanguageDetectorProvider,
+} from './aiProvider';
 export { PromptManager } from './promptManager';
+export type { LanguageModelSource, PromptOptions } from './promptManager';
+export {
+  aiScheduler,
+  AIScheduler,
+  abortable,
+  createAbortError,
+  isAbortError,
+} from './aiScheduler';
+export type { AIOperation, ScheduleOptions } from './aiScheduler';
+export {
+  parseQuestionsOutput,
+  parseSummaryOutput,
+  summaryResponseSchema,
+  QUESTIONS_SCHEMA,
+} from './structuredOutput';
+export type { ResponseSchema } from './structuredOutput';
+export { checkSummaryQuality, scoreSummary } from './summaryQuality';
+export type {
+  SummaryQualityOptions,
+  SummaryScore,
+  SummaryScoreOptions,
+} from './summaryQuality';
 export { ProofreaderManager } from './proofreaderManager';
 export { SummarizerManager } from './summarizerManager';
 export { TranslatorManager } from './translatorManager';
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for the local AI provider
+ * Tests requests to an OpenAI-compatible server, streaming, and the
+ * Prompt API fallbacks used for everything else
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLocalLanguageModel, createLocalProvider } from './localProvider';
+
+const settings = { endpoint: 'http://localhost:8080/v1/', model: 'qwen' };
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+
+const eventStream = (events: string[]) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+        // Split mid-event, as the network may
+        const text = events.map((data) => `data: ${data}\n\n`).join('');
+        controller.enqueue(encoder.encode(text.slice(0, 20)));
+        controller.enqueue(encoder.encode(text.slice(20)));
+        controller.close();
+      },
+    })
+  );
+
+describe('Local AI provider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const requestBody = (call = 0) =>
+    JSON.parse(
+      (fetchMock.mock.calls[call][1] as RequestInit).body as string
+    ) as Record<string, unknown>;
+
+  it('should report the server available when it lists its models', async () => {
+    const model = createLocalLanguageModel(settings);
+
+    fetchMock.mockResolvedValueOnce(new Response('{"data":[]}'));
+    expect(await model.availability()).toBe('available');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/models');
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    expect(await model.availability()).toBe('unavailable');
+
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 404 }));
+    expect(await model.availability()).toBe('unavailable');
+  });
+
+  it('should send the system prompt and input as chat messages', async () => {
+    const model = createLocalLanguageModel(settings);
+    fetchMock.mockImplementation(() => Promise.resolve(completion('Hi there')));
+
+    const session = await model.create({
+      systemPrompt: 'Be brief',
+      temperature: 0.3,
+    });
+
+    expect(await session.prompt('Hello')).toBe('Hi there');
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:8080/v1/chat/completions'
+    );
+    expect(requestBody()).toMatchObject({
+      model: 'qwen',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hello' },
+      ],
+      temperature: 0.3,
+      stream: false,
+    });
+
+    // Earlier prompts aren't sent again
+    await session.prompt('Again');
+    expect(requestBody(1).messages).toHaveLength(2);
+  });
+
+  it('should send response constraints as a JSON schema format', async () => {
+    const session = await createLocalLanguageModel(settings).create();
+    fetchMock.mockResolvedValueOnce(completion('{"questions":[]}'));
+    const schema = { type: 'object', properties: {} };
+
+    await session.prompt('Ask', { responseConstraint: schema });
+
+    expect(requestBody().response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema, strict: true },
+    });
+  });
+
+  it('should fail on server errors', async () => {
+    const session = await createLocalLanguageModel(settings).create();
+
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 500 }));
+    await expect(session.prompt('Hello')).rejects.toThrow('responded with 500');
+
+    fetchMock.mockResolvedValueOnce(new Response('{"choices":[]}'));
+    await expect(session.prompt('Hello')).rejects.toThrow('no text');
+  });
+
+  it('should stream chunks from server-sent events', async () => {
+    const session = await createLocalLanguageModel(settings).create();
+    fetchMock.mockResolvedValue(
+      eventStream([
+        JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] }),
+        JSON.stringify({ choices: [{ delta: { content: 'Hello ' } }] }),
+        JSON.stringify({ choices: [{ delta: { content: 'world' } }] }),
+        '[DONE]',
+      ])
+    );
+
+    const reader = session.promptStreaming('Hi').getReader();
+    const chunks: string[] = [];
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      chunks.push(r.value);
+    }
+
+    expect(chunks).toEqual(['Hello ', 'world']);
+    expect(requestBody().stream).toBe(true);
+  });
+
+  it('should stop streaming when the caller gives up', async () => {
+    const session = await createLocalLanguageModel(settings).create();
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) =>
+          init.signal?.addEventListener('abort', () =>
+            reject(new Error('Request aborted'))
+          )
+        )
+    );
+    const caller = new AbortController();
+
+    const reader = session
+      .promptStreaming('Hi', { signal: caller.signal })
+      .getReader();
+    caller.abort();
+
+    await expect(reader.read()).rejects.toThrow('Request aborted');
+  });
+
+  it('should write summaries with the Prompt API', async () => {
+    const provider = createLocalProvider(settings);
+    fetchMock.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/models')
+          ? new Response('{"data":[]}')
+          : completion('- First point\n- Second point')
+      )
+    );
+
+    expect(await provider.summarizer.checkAvailability()).toBe(false);
+    expect(await provider.prompt.checkAvailability()).toBe(true);
+    expect(await provider.prompt.summarize('Article text')).toEqual([
+      'First point',
+      'Second point',
+    ]);
+  });
+
+  it('should report only the Prompt API as available', async () => {
+    const provider = createLocalProvider(settings);
+
+    expect(provider.getCapabilities(false, false)).toMatchObject({
+      prompt: true,
+      summarizer: false,
+      writer: false,
+      translator: false,
+    });
+    await expect(provider.writer.write('topic', {} as never)).rejects.toThrow(
+      'not available from a local AI server'
+    );
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Local AI Provider
+ * Talks to an OpenAI-compatible server on this machine, such as the
+ * llama.cpp server or Ollama. The server stands in for Chrome's Prompt
+ * API; the task-specific Chrome APIs (Summarizer, Writer, ...) report
+ * themselves unavailable, so every request takes the Prompt API fallback.
+ */
+
+import type { LocalAIProviderSettings } from '../../../types';
+import type {
+  AILanguageModel,
+  AILanguageModelFactory,
+} from '../../../types/chrome-ai';
+import type { AIProvider } from './aiProvider';
+import { PromptManager } from './promptManager';
+import { LOCAL_AI_PROVIDER } from '../../../constants';
+import { normalizeLocalEndpoint } from '../../../utils/localAIProvider';
+import { devWarn } from '../../../utils/logger';
+
+/**
+ * The server doesn't report its limits; sessions describe themselves
+ * with Gemini Nano's defaults
+ */
+const DEFAULT_TOP_K = 40;
+const MAX_TOP_K = 128;
+const DEFAULT_TEMPERATURE = 0.7;
+const MAX_TOKENS = 4096;
+
+/**
+ * Rough token count for servers without a tokenizer endpoint
+ */
+const CHARS_PER_TOKEN = 4;
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+type SessionOptions = NonNullable<
+  Parameters<AILanguageModelFactory['create']>[0]
+>;
+
+/**
+ * Read the data lines of a server-sent event stream
+ */
+async function* readEventData(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : (lines.pop() ?? '');
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * A signal that aborts when either of two signals does
+ * @returns The signal, and a function to stop following the sources
+ */
+function followSignals(
+  first: AbortSignal,
+  second?: AbortSignal
+): { signal: AbortSignal; release: () => void } {
+  if (!second) return { signal: first, release: () => undefined };
+
+  const controller = new AbortController();
+  const sources = [first, second];
+  const onAbort = (event: Event) =>
+    controller.abort((event.target as AbortSignal).reason);
+  for (const source of sources) {
+    if (source.aborted) controller.abort(source.reason);
+    source.addEventListener('abort', onAbort);
+  }
+  return {
+    signal: controller.signal,
+    release: () =>
+      sources.forEach((source) => source.removeEventListener('abort', onAbort)),
+  };
+}
+
+/**
+ * A LanguageModel backed by a local server's chat completions API
+ * Unlike Chrome's sessions, a session doesn't remember earlier prompts:
+ * each prompt is sent with only the system and initial prompts.
+ * @param settings - Server address and model name
+ */
+export function createLocalLanguageModel(
+  settings: LocalAIProviderSettings
+): AILanguageModelFactory {
+  const endpoint = normalizeLocalEndpoint(settings.endpoint);
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${endpoint}${path}`, init);
+    if (!response.ok) {
+      throw new Error(`Local AI server responded with ${response.status}`);
+    }
+    return response;
+  };
+
+  const availability = async () => {
+    try {
+      await request('/models', {
+        signal: AbortSignal.timeout(LOCAL_AI_PROVIDER.AVAILABILITY_TIMEOUT),
+      });
+      return 'available' as const;
+    } catch (error) {
+      devWarn(`[LocalAI] Server at ${endpoint} is not reachable:`, error);
+      return 'unavailable' as const;
+    }
+  };
+
+  const createSession = (options: SessionOptions): AILanguageModel => {
+    const controller = new AbortController();
+    options.signal?.addEventListener('abort', () => controller.abort());
+
+    const context: ChatMessage[] = [
+      ...(options.systemPrompt
+        ? [{ role: 'system' as const, content: options.systemPrompt }]
+        : []),
+      ...(options.initialPrompts ?? []),
+    ];
+
+    const complete = (
+      input: string,
+      stream: boolean,
+      signal: AbortSignal,
+      schema?: Record<string, unknown>
+    ) =>
+      request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [...context, { role: 'user', content: input }],
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+          top_k: options.topK ?? DEFAULT_TOP_K,
+          stream,
+          ...(schema && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema, strict: true },
+            },
+          }),
+        }),
+        signal,
+      });
+
+    return {
+      async prompt(input, promptOptions) {
+        // Stop when the session is destroyed or the caller gives up
+        const { signal, release } = followSignals(
+          controller.signal,
+          promptOptions?.signal
+        );
+        let completion: ChatCompletion;
+        try {
+          const response = await complete(
+            input,
+            false,
+            signal,
+            promptOptions?.responseConstraint
+          );
+          completion = (await response.json()) as ChatCompletion;
+        } finally {
+          release();
+        }
+        const content = completion.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+          throw new Error('Local AI server returned no text');
+        }
+        return content;
+      },
+      promptStreaming(input, promptOptions) {
+        // Stop when the session is destroyed, the caller gives up or the
+        // reader cancels
+        const { signal, release } = followSignals(
+          controller.signal,
+          promptOptions?.signal
+        );
+        return new ReadableStream<string>({
+          async start(stream) {
+            try {
+              const response = await complete(input, true, signal);
+              if (!response.body) {
+                throw new Error('Local AI server returned no stream');
+              }
+              for await (const data of readEventData(response.body)) {
+                if (data === '[DONE]') break;
+                const chunk = (JSON.parse(data) as ChatCompletionChunk)
+                  .choices?.[0]?.delta?.content;
+                if (chunk) stream.enqueue(chunk);
+              }
+              stream.close();
+            } catch (error) {
+              stream.error(error);
+            } finally {
+              release();
+            }
+          },
+          cancel() {
+            controller.abort();
+          },
+        });
+      },
+      countPromptTokens(input) {
+        return Promise.resolve(Math.ceil(input.length / CHARS_PER_TOKEN));
+      },
+      maxTokens: MAX_TOKENS,
+      tokensSoFar: 0,
+      tokensLeft: MAX_TOKENS,
+      topK: options.topK ?? DEFAULT_TOP_K,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      destroy() {
+        controller.abort();
+      },
+      clone() {
+        return Promise.resolve(createSession(options));
+      },
+    };
+  };
+
+  return {
+    availability,
+    create(options = {}) {
+      return Promise.resolve(createSession(options));
+    },
+    async capabilities() {
+      return {
+        available: (await availability()) === 'available' ? 'readily' : 'no',
+        defaultTopK: DEFAULT_TOP_K,
+        maxTopK: MAX_TOP_K,
+        defaultTemperature: DEFAULT_TEMPERATURE,
+      };
+    },
+  };
+}
+
+const unavailable = () => Promise.resolve(false);
+
+const unsupported = (api: string) => () =>
+  Promise.reject(new Error(`${api} is not available from a local AI server`));
+
+const noop = () => undefined;
+
+/**
+ * Create a provider for a local OpenAI-compatible server
+ * @param settings - Server address and model name
+ */
+export function createLocalProvider(
+  settings: LocalAIProviderSettings
+): AIProvider {
+  const languageModel = createLocalLanguageModel(settings);
+
+  return {
+    id: 'local',
+    name: `Local AI server (${settings.model})`,
+    prompt: new PromptManager(() => languageModel),
+    summarizer: {
+      checkAvailability: unavailable,
+      summarize: unsupported('Summarizer API'),
+      summarizeStreaming: unsupported('Summarizer API'),
+      destroy: noop,
+    },
+    writer: {
+      checkAvailability: unavailable,
+      write: unsupported('Writer API'),
+      generateStreaming: unsupported('Writer API'),
+      destroy: noop,
+    },
+    rewriter: {
+      checkAvailability: unavailable,
+      rewrite: unsupported('Rewriter API'),
+      destroy: noop,
+    },
+    proofreader: {
+      checkAvailability: unavailable,
+      proofread: unsupported('Proofreader API'),
+      destroy: noop,
+    },
+    translator: {
+      canTranslate: unavailable,
+      translate: unsupported('Translator API'),
+      destroy: noop,
+    },
+    languageDetector: {
+      checkAvailability: unavailable,
+      detect: unsupported('Language Detector API'),
+      destroy: noop,
+    },
+    getCapabilities: (experimentalMode) => ({
+      summarizer: false,
+      writer: false,
+      rewriter: false,
+      proofreader: false,
+      languageDetector: false,
+      translator: false,
+      prompt: true,
+      experimental: experimentalMode,
+    }),
+  };
+}
@@ -123,6 +123,24 @@ describe('PromptManager', () => {
         })
       );
     });
+
+    it('should stop without a retry when the signal aborts', async () => {
+      const controller = new AbortController();
+      mockLanguageModel.prompt = vi.fn(
+        (_input: string, options?: { signal?: AbortSignal }) =>
+          new Promise<string>((_, reject) => {
+            options?.signal?.addEventListener('abort', () =>
+              reject(options.signal?.reason as Error)
+            );
+          })
+      );
+
+      const pending = manager.prompt('test', { signal: controller.signal });
+      controller.abort(new DOMException('Cancelled', 'AbortError'));
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockLanguageModel.prompt).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('summarize fallback', () => {
@@ -176,6 +194,178 @@ describe('PromptManager', () => {
         })
       );
     });
+
+    it('should ask for JSON matching the summary schema', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue('{"bullets": ["One", "Two", "Three"]}');
+
+      const result = await manager.summarize('text', 'bullets');
+
+      expect(result).toEqual(['One', 'Two', 'Three']);
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          responseConstraint: expect.objectContaining({
+            required: ['bullets'],
+          }),
+        })
+      );
+    });
+
+    it('should prompt without a schema when constraints are unsupported', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new DOMException('responseConstraint', 'NotSupportedError')
+        )
+        .mockResolvedValue('- Point 1\n- Point 2\n- Point 3');
+
+      const first = await manager.summarize('text', 'bullets');
+      await manager.summarize('more text', 'bullets');
+
+      expect(first).toEqual(['Point 1', 'Point 2', 'Point 3']);
+      expect(mockLanguageModel.prompt).toHaveBeenCalledTimes(3);
+      expect(mockLanguageModel.prompt).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('text')
+      );
+      expect(mockLanguageModel.prompt).toHaveBeenLastCalledWith(
+        expect.stringContaining('more text')
+      );
+    });
+  });
+
+  describe('summarize fallback - long content', () => {
+    beforeEach(async () => {
+      await manager.checkAvailability();
+    });
+
+    it('should summarize each chunk and reduce the notes', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue('- Point 1\n- Point 2\n- Point 3');
+      const text = 'A sentence about the topic. '.repeat(600);
+
+      const result = await manager.summarize(text, 'bullets');
+
+      expect(result).toEqual(['Point 1', 'Point 2', 'Point 3']);
+      const calls = vi.mocked(mockLanguageModel.prompt).mock.calls;
+      expect(calls.length).toBeGreaterThan(2);
+      expect(calls[calls.length - 1][0]).toContain(
+        'notes, in order, on each section of one long article'
+      );
+    });
+  });
+
+  describe('prompt templates', () => {
+    beforeEach(async () => {
+      await manager.checkAvailability();
+    });
+
+    it('should use the default summary template and strip its labels', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue(
+          '- Insight: Focus grows\n- **Surprise:** Rest helps\n- Apply: Plan breaks'
+        );
+
+      const result = await manager.summarize('Article text', 'bullets');
+
+      expect(result).toEqual(['Focus grows', 'Rest helps', 'Plan breaks']);
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        expect.stringContaining('- Surprise: ['),
+        expect.anything()
+      );
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        expect.stringContaining('Article text'),
+        expect.anything()
+      );
+    });
+
+    it('should use custom templates from the template source', async () => {
+      manager.setTemplateSource(() =>
+        Promise.resolve({
+          summarize: {
+            text: 'Sum up:\n- Insight: [a]\n- Counterpoint: [b]\n{content}',
+            history: [],
+          },
+          summarizeSystem: { text: 'You are a careful editor.', history: [] },
+        })
+      );
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue('- Insight: One\n- Counterpoint: Two');
+
+      const result = await manager.summarize('Article text', 'bullets');
+
+      expect(result).toEqual(['One', 'Two']);
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        'Sum up:\n- Insight: [a]\n- Counterpoint: [b]\nArticle text',
+        expect.anything()
+      );
+      expect((globalThis as any).LanguageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          systemPrompt: expect.stringMatching(/^You are a careful editor\./),
+        })
+      );
+    });
+
+    it('should summarize with a custom format and parse its response', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue('- **Habit loop:** cue, routine\n  and reward');
+
+      const result = await manager.summarizeCustom('Article text', {
+        id: 'custom:key-terms',
+        name: 'Key terms',
+        description: '',
+        prompt: 'Define the key terms in:\n{content}',
+        parser: 'labeled',
+      });
+
+      expect(result).toEqual(['Habit loop: cue, routine and reward']);
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        'Define the key terms in:\nArticle text'
+      );
+    });
+
+    it('should fill the reflect, proofread and rewrite templates', async () => {
+      manager.setTemplateSource(() =>
+        Promise.resolve({
+          reflect: { text: 'Questions for: {summary}', history: [] },
+          proofread: { text: 'Fix: {text}', history: [] },
+          rewriteSystem: { text: 'Rewriter. {tone}', history: [] },
+        })
+      );
+
+      await manager.generateReflectionPrompts(['Point 1', 'Point 2']);
+      await manager.proofread('Some text');
+      await manager.rewrite('Some text', 'calm');
+
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        'Questions for: Point 1\nPoint 2',
+        expect.anything()
+      );
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith('Fix: Some text');
+      expect((globalThis as any).LanguageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          systemPrompt: expect.stringMatching(
+            /^Rewriter\. Rewrite text to be calm/
+          ),
+        })
+      );
+    });
+
+    it('should use the defaults when templates cannot be loaded', async () => {
+      manager.setTemplateSource(() => Promise.reject(new Error('no storage')));
+
+      await manager.proofread('Some text');
+
+      expect(mockLanguageModel.prompt).toHaveBeenCalledWith(
+        expect.stringContaining('Proofread the following text')
+      );
+    });
   });
 
   describe('generateDraft fallback', () => {
@@ -423,6 +613,16 @@ describe('PromptManager', () => {
       expect(prompts[0]).toContain('insights');
     });
 
+    it('should suggest normalized tags from list output', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue('1. Deep Work\n2. #focus\n- Focus, habits');
+
+      const tags = await manager.suggestTags(['Focus is trainable'], ['focus']);
+
+      expect(tags).toEqual(['deep-work', 'focus', 'habits']);
+    });
+
     it('should proofread text', async () => {
       mockLanguageModel.prompt = vi
         .fn()
@@ -472,6 +672,119 @@ describe('PromptManager', () => {
     });
   });
 
+  describe('generateFollowUpQuestion', () => {
+    const chain = [
+      { question: 'What stood out?', answer: 'Sleep matters more than diet.' },
+    ];
+
+    it('should ask about the answers so far', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue(
+          'Question: "What makes you rank sleep above diet?"\nHope this helps!'
+        );
+
+      const question = await manager.generateFollowUpQuestion(
+        ['Sleep consolidates memory'],
+        chain
+      );
+
+      expect(question).toBe('What makes you rank sleep above diet?');
+      const [prompt] = vi.mocked(mockLanguageModel.prompt).mock.calls[0];
+      expect(prompt).toContain('Sleep consolidates memory');
+      expect(prompt).toContain(
+        'Question: What stood out?\nAnswer: Sleep matters more than diet.'
+      );
+    });
+
+    it('should fall back to asking for an example', async () => {
+      mockLanguageModel.prompt = vi.fn().mockResolvedValue('  \n');
+
+      expect(await manager.generateFollowUpQuestion([], chain)).toMatch(
+        /example/
+      );
+    });
+  });
+
+  describe('reviseSummary', () => {
+    it('should list the problems and parse the corrected summary', async () => {
+      mockLanguageModel.prompt = vi
+        .fn()
+        .mockResolvedValue('{"bullets": ["One", "Two", "Three"]}');
+
+      const result = await manager.reviseSummary(
+        'Article text',
+        'bullets',
+        ['Copied sentence', 'Two', 'Three'],
+        ['Bullet 1 copies the article word for word.']
+      );
+
+      expect(result).toEqual(['One', 'Two', 'Three']);
+      const [prompt, options] = vi.mocked(mockLanguageModel.prompt).mock
+        .calls[0];
+      expect(prompt).toContain('- Bullet 1 copies the article word for word.');
+      expect(prompt).toContain('- Copied sentence\n- Two\n- Three');
+      expect(prompt).toContain('Article text');
+      expect(options).toMatchObject({
+        responseConstraint: { required: ['bullets'] },
+      });
+    });
+  });
+
+  describe('chatStreaming', () => {
+    const article = {
+      title: 'Sleep',
+      url: 'https://example.com/sleep',
+      text: 'Sleep consolidates memory.',
+    };
+
+    it('should stream an answer grounded in the article', async () => {
+      const chunks: string[] = [];
+      const history = [
+        { role: 'user' as const, content: 'What is it about?' },
+        { role: 'assistant' as const, content: 'Sleep.' },
+      ];
+
+      const answer = await manager.chatStreaming(
+        article,
+        history,
+        'Why does it matter?',
+        (chunk) => chunks.push(chunk)
+      );
+
+      expect(answer).toBe('AI response');
+      expect(chunks).toEqual(['AI ', 'response']);
+      expect(mockLanguageModel.promptStreaming).toHaveBeenCalledWith(
+        'Why does it matter?'
+      );
+      expect((globalThis as any).LanguageModel.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          systemPrompt: expect.stringContaining('Sleep consolidates memory.'),
+          initialPrompts: history,
+        })
+      );
+      expect(mockLanguageModel.destroy).toHaveBeenCalled();
+    });
+
+    it('should drop the oldest messages that do not fit', async () => {
+      mockLanguageModel.countPromptTokens = vi.fn((text: string) =>
+        Promise.resolve(text === 'Old question' ? 5000 : 10)
+      );
+      const history = [
+        { role: 'user' as const, content: 'Old question' },
+        { role: 'assistant' as const, content: 'Old answer' },
+        { role: 'user' as const, content: 'New question' },
+        { role: 'assistant' as const, content: 'New answer' },
+      ];
+
+      await manager.chatStreaming(article, history, 'Next?', () => undefined);
+
+      expect((globalThis as any).LanguageModel.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ initialPrompts: history.slice(2) })
+      );
+    });
+  });
+
   describe('response parsing', () => {
     beforeEach(async () => {
       await manager.checkAvailability();
@@ -7,10 +7,56 @@
 
 /// <reference types="../../../types/chrome-ai.d.ts" />
 
-import type { SummaryFormat, TonePreset, WriterOptions } from '../../../types';
-import type { AILanguageModel } from '../../../types/chrome-ai';
+import type {
+  ChatMessage,
+  CustomSummaryFormat,
+  PromptTemplates,
+  QuestionExchange,
+  SummaryFormat,
+  TonePreset,
+  WriterOptions,
+} from '../../../types';
+import type {
+  AILanguageModel,
+  AILanguageModelFactory,
+} from '../../../types/chrome-ai';
 import { capabilityDetector } from '../capabilities/capabilityDetector';
 import { devLog, devWarn, devError } from '../../../utils/logger';
+import {
+  estimateTokens,
+  normalizeTags,
+  truncateToTokens,
+} from '../../../utils';
+import {
+  fillPromptTemplate,
+  getBulletLabels,
+  getPromptTemplate,
+} from '../../../utils/promptTemplates';
+import { parseCustomSummary } from '../../../utils/summaryFormats';
+import {
+  ARTICLE_CHAT,
+  FOLLOW_UPS,
+  SUMMARY_QUALITY,
+  TAGS,
+} from '../../../constants';
+import {
+  condenseChunks,
+  needsChunking,
+  type ChunkedSummaryOptions,
+} from './chunkedSummary';
+import { abortable, isAbortError } from './aiScheduler';
+import {
+  QUESTIONS_SCHEMA,
+  parseQuestionsOutput,
+  parseSummaryOutput,
+  summaryResponseSchema,
+  type ResponseSchema,
+} from './structuredOutput';
+import {
+  buildChatSystemPrompt,
+  fitChatHistory,
+  type ChatArticle,
+} from './articleChat';
 
 /**
  * Timeout duration for prompt operations (30 seconds)
@@ -33,6 +79,12 @@ const TEMPERATURE_SETTINGS = {
   creative: 0.9, // High temperature for creative tasks (writing, rewriting)
 } as const;
 
+/**
+ * Opening for prompts that summarize notes on a long article's sections
+ */
+const NOTES_PREAMBLE =
+  'The following are notes, in order, on each section of one long article. Summarize the article as a whole.';
+
 const languageDisplayNames = (() => {
   try {
     return new Intl.DisplayNames(['en'], { type: 'language' });
@@ -52,6 +104,36 @@ const resolveLanguageDisplayName = (language?: string): string | undefined => {
   }
 };
 
+/**
+ * Check whether a prompt failed because the model can't follow a schema
+ */
+const isUnsupportedConstraint = (error: unknown): boolean =>
+  error instanceof TypeError ||
+  (error instanceof Error && error.name === 'NotSupportedError');
+
+/**
+ * Resolves the language model sessions are created from
+ * Returns undefined when the model isn't present
+ */
+export type LanguageModelSource = () => AILanguageModelFactory | undefined;
+
+/**
+ * Options for a single prompt
+ */
+export interface PromptOptions {
+  systemPrompt?: string;
+  temperature?: number;
+  topK?: number;
+  signal?: AbortSignal; // Stops the prompt, e.g. when the user moves on
+  responseConstraint?: ResponseSchema; // JSON Schema the response should match
+}
+
+/**
+ * Chrome's built-in model, read from the global scope on each use
+ */
+const chromeLanguageModel: LanguageModelSource = () =>
+  typeof LanguageModel !== 'undefined' ? LanguageModel : undefined;
+
 /**
  * PromptManager class
  * Manages Chrome Prompt API (Language Model) sessions as universal fallback
@@ -60,6 +142,46 @@ const resolveLanguageDisplayName = (language?: string): string | undefined => {
 export class PromptManager {
   private sessions = new Map<string, AILanguageModel>();
   private available = false;
+  private templateSource: (() => Promise<PromptTemplates | undefined>) | null =
+    null;
+  private readonly languageModel: LanguageModelSource;
+  private readonly builtIn: boolean;
+  private responseConstraints = true; // Cleared if the model rejects schemas
+
+  /**
+   * @param languageModel - Model to prompt, for providers other than
+   * Chrome that implement the LanguageModel interface; defaults to
+   * Chrome's built-in model
+   */
+  constructor(languageModel?: LanguageModelSource) {
+    this.languageModel = languageModel ?? chromeLanguageModel;
+    this.builtIn = !languageModel;
+  }
+
+  /**
+   * Set where the user's prompt templates are read from
+   * Templates are read on each request so edits apply immediately; without
+   * a source the default templates are used.
+   * @param source - Resolves the current template overrides
+   */
+  setTemplateSource(
+    source: (() => Promise<PromptTemplates | undefined>) | null
+  ): void {
+    this.templateSource = source;
+  }
+
+  /**
+   * Read the user's prompt templates, falling back to the defaults
+   */
+  private async loadTemplates(): Promise<PromptTemplates | undefined> {
+    if (!this.templateSource) return undefined;
+    try {
+      return await this.templateSource();
+    } catch (error) {
+      devWarn('Could not load prompt templates, using defaults:', error);
+      return undefined;
+    }
+  }
 
   /**
    * Check if Prompt API (Language Model) is available
@@ -68,19 +190,22 @@ export class PromptManager {
    */
   async checkAvailability(): Promise<boolean> {
     try {
-      // First check if API exists
-      const capabilities = await Promise.resolve(
-        capabilityDetector.getCapabilities()
-      );
+      // First check if the built-in API exists
+      if (this.builtIn) {
+        const capabilities = await Promise.resolve(
+          capabilityDetector.getCapabilities()
+        );
 
-      if (!capabilities.prompt) {
-        this.available = false;
-        return false;
+        if (!capabilities.prompt) {
+          this.available = false;
+          return false;
+        }
       }
 
-      // Then check actual availability status using global LanguageModel
-      if (typeof LanguageModel !== 'undefined') {
-        const status = await LanguageModel.availability();
+      // Then check actual availability status of the model
+      const languageModel = this.languageModel();
+      if (languageModel) {
+        const status = await languageModel.availability();
         this.available = status === 'available' || status === 'downloadable';
         return this.available;
       }
@@ -132,14 +257,14 @@ export class PromptManager {
     }
 
     try {
-      // Access global LanguageModel (service worker context)
-      if (typeof LanguageModel === 'undefined') {
+      const languageModel = this.languageModel();
+      if (!languageModel) {
         devWarn('Prompt API (Language Model) not available');
         return null;
       }
 
       // Create new session with specified options
-      const session = await LanguageModel.create({
+      const session = await languageModel.create({
         systemPrompt: config.systemPrompt,
         initialPrompts: config.initialPrompts,
         temperature: config.temperature ?? TEMPERATURE_SETTINGS.balanced,
@@ -162,17 +287,11 @@ export class PromptManager {
   /**
    * General-purpose prompt method
    * @param text - Input text/prompt
-   * @param options - Optional configuration
+   * @param options - Optional configuration; an aborted signal stops the
+   * prompt without a retry
    * @returns AI-generated response
    */
-  async prompt(
-    text: string,
-    options?: {
-      systemPrompt?: string;
-      temperature?: number;
-      topK?: number;
-    }
-  ): Promise<string> {
+  async prompt(text: string, options?: PromptOptions): Promise<string> {
     // Check availability first
     if (!this.available) {
       const isAvailable = await this.checkAvailability();
@@ -185,12 +304,14 @@ export class PromptManager {
       // First attempt with standard timeout
       return await this.promptWithTimeout(text, options, PROMPT_TIMEOUT);
     } catch (error) {
+      if (isAbortError(error)) throw error;
       devWarn('First prompt attempt failed, retrying...', error);
 
       try {
         // Retry with extended timeout
         return await this.promptWithTimeout(text, options, RETRY_TIMEOUT);
       } catch (retryError) {
+        if (isAbortError(retryError)) throw retryError;
         devError('Prompt failed after retry:', retryError);
         throw new Error(
           `Prompt operation failed: ${retryError instanceof Error ? retryError.message : 'Unknown error'}`
@@ -208,13 +329,7 @@ export class PromptManager {
    */
   private async promptWithTimeout(
     text: string,
-    options:
-      | {
-          systemPrompt?: string;
-          temperature?: number;
-          topK?: number;
-        }
-      | undefined,
+    options: PromptOptions | undefined,
     timeout: number
   ): Promise<string> {
     const timeoutPromise = new Promise<never>((_, reject) => {
@@ -223,7 +338,10 @@ export class PromptManager {
 
     const promptPromise = this.executePrompt(text, options);
 
-    return Promise.race([promptPromise, timeoutPromise]);
+    return Promise.race([
+      abortable(promptPromise, options?.signal),
+      timeoutPromise,
+    ]);
   }
 
   /**
@@ -234,11 +352,7 @@ export class PromptManager {
    */
   private async executePrompt(
     text: string,
-    options?: {
-      systemPrompt?: string;
-      temperature?: number;
-      topK?: number;
-    }
+    options?: PromptOptions
   ): Promise<string> {
     // Create session with configuration
     const session = await this.createSession({
@@ -251,8 +365,29 @@ export class PromptManager {
       throw new Error('Failed to create prompt session');
     }
 
-    // Execute prompt
-    const result = await session.prompt(text);
+    // Ask for JSON where the model accepts a schema; the callers' parsers
+    // also read prose, so a rejected schema only costs the constraint
+    const signal = options?.signal;
+    const responseConstraint = options?.responseConstraint;
+    if (responseConstraint && this.responseConstraints) {
+      try {
+        const result = await session.prompt(text, {
+          signal,
+          responseConstraint,
+        });
+        return result.trim();
+      } catch (error) {
+        if (isAbortError(error) || !isUnsupportedConstraint(error)) {
+          throw error;
+        }
+        devWarn('Response schemas unsupported, asking for text:', error);
+        this.responseConstraints = false;
+      }
+    }
+
+    const result = await (signal
+      ? session.prompt(text, { signal })
+      : session.prompt(text));
 
     return result.trim();
   }
@@ -263,40 +398,178 @@ export class PromptManager {
    * @param text - Content to summarize
    * @param format - Desired summary format (defaults to 'bullets' for backward compatibility)
    * @param outputLanguage - Target language for summary output (optional)
+   * @param chunkOptions - Article sections and progress callback for long content
    * @returns Array of summary strings
    */
   async summarize(
     text: string,
     format: SummaryFormat = 'bullets',
-    outputLanguage?: string
+    outputLanguage?: string,
+    chunkOptions: ChunkedSummaryOptions = {}
+  ): Promise<string[]> {
+    const { signal } = chunkOptions;
+    if (!needsChunking(text)) {
+      return this.summarizeText(text, format, outputLanguage, false, signal);
+    }
+
+    // Too long for one prompt: summarize each chunk, then reduce the notes
+    const notes = await condenseChunks(text, chunkOptions, (chunk) =>
+      this.summarizeText(chunk, 'bullets', outputLanguage, false, signal)
+    );
+    return this.summarizeText(notes, format, outputLanguage, true, signal);
+  }
+
+  /**
+   * Summarize content in a user-defined format
+   * Long content is condensed to notes first, as for the built-in formats
+   * @param text - Content to summarize
+   * @param format - Custom format with its prompt and response parser
+   * @param outputLanguage - Target language for summary output (optional)
+   * @param chunkOptions - Article sections and progress callback for long content
+   * @returns Summary items parsed with the format's parser
+   */
+  async summarizeCustom(
+    text: string,
+    format: CustomSummaryFormat,
+    outputLanguage?: string,
+    chunkOptions: ChunkedSummaryOptions = {}
+  ): Promise<string[]> {
+    let content = text;
+    let preamble = '';
+    if (needsChunking(text)) {
+      content = await condenseChunks(text, chunkOptions, (chunk) =>
+        this.summarizeText(
+          chunk,
+          'bullets',
+          outputLanguage,
+          false,
+          chunkOptions.signal
+        )
+      );
+      preamble = `${NOTES_PREAMBLE}\n\n`;
+    }
+
+    const templates = await this.loadTemplates();
+    const systemPrompt = this.buildSummarizationSystemPrompt(
+      format.id,
+      outputLanguage,
+      getPromptTemplate(templates, 'summarizeSystem')
+    );
+    const userPrompt = `${preamble}${fillPromptTemplate(format.prompt, { content })}`;
+
+    const result = await this.prompt(userPrompt, {
+      systemPrompt,
+      temperature: TEMPERATURE_SETTINGS.factual,
+      signal: chunkOptions.signal,
+    });
+
+    return parseCustomSummary(result, format.parser);
+  }
+
+  /**
+   * Summarize text that fits in a single prompt
+   * @param fromNotes - Whether the text is notes on a long article's sections
+   * @param signal - Abort signal (optional)
+   */
+  private async summarizeText(
+    text: string,
+    format: SummaryFormat,
+    outputLanguage?: string,
+    fromNotes = false,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const templates = await this.loadTemplates();
+    const systemPrompt = this.buildSummarizationSystemPrompt(
+      format,
+      outputLanguage,
+      getPromptTemplate(templates, 'summarizeSystem')
+    );
+    const bulletsTemplate = getPromptTemplate(templates, 'summarize');
+    const userPrompt = this.buildSummarizationUserPrompt(
+      text,
+      format,
+      fromNotes,
+      bulletsTemplate
+    );
+
+    const result = await this.prompt(userPrompt, {
+      systemPrompt,
+      temperature: TEMPERATURE_SETTINGS.factual,
+      signal,
+      responseConstraint: summaryResponseSchema(format),
+    });
+
+    return parseSummaryOutput(
+      result,
+      format,
+      format === 'bullets' ? getBulletLabels(bulletsTemplate) : []
+    );
+  }
+
+  /**
+   * Rewrite a summary that failed its quality checks
+   * @param text - Article the summary was written from
+   * @param format - Summary format
+   * @param summary - Summary items that failed
+   * @param problems - What the checks found
+   * @param outputLanguage - Target language for summary output (optional)
+   * @param signal - Abort signal (optional)
+   * @returns Corrected summary items
+   */
+  async reviseSummary(
+    text: string,
+    format: SummaryFormat,
+    summary: string[],
+    problems: string[],
+    outputLanguage?: string,
+    signal?: AbortSignal
   ): Promise<string[]> {
+    const templates = await this.loadTemplates();
     const systemPrompt = this.buildSummarizationSystemPrompt(
       format,
-      outputLanguage
+      outputLanguage,
+      getPromptTemplate(templates, 'summarizeSystem')
+    );
+    const userPrompt = fillPromptTemplate(
+      getPromptTemplate(templates, 'reviseSummary'),
+      {
+        content: truncateToTokens(text, SUMMARY_QUALITY.ARTICLE_TOKENS),
+        summary:
+          format === 'paragraph'
+            ? summary.join('\n')
+            : summary.map((item) => `- ${item}`).join('\n'),
+        problems: problems.map((problem) => `- ${problem}`).join('\n'),
+      }
     );
-    const userPrompt = this.buildSummarizationUserPrompt(text, format);
 
     const result = await this.prompt(userPrompt, {
       systemPrompt,
       temperature: TEMPERATURE_SETTINGS.factual,
+      signal,
+      responseConstraint: summaryResponseSchema(format),
     });
 
-    return this.parseSummaryResponse(result, format);
+    return parseSummaryOutput(
+      result,
+      format,
+      format === 'bullets'
+        ? getBulletLabels(getPromptTemplate(templates, 'summarize'))
+        : []
+    );
   }
 
   /**
    * Build system prompt for summarization
    * @param format - Summary format
    * @param outputLanguage - Target language for summary output (optional)
+   * @param basePrompt - Opening of the prompt, from the summary role template
    * @returns System prompt string
    */
   private buildSummarizationSystemPrompt(
     format: SummaryFormat,
-    outputLanguage?: string
+    outputLanguage: string | undefined,
+    basePrompt: string
   ): string {
-    const basePrompt =
-      'You are a precise summarization assistant. Your task is to create concise, accurate summaries that capture the key information from the provided text.';
-
     const languageInstruction = outputLanguage
       ? ` Always respond in ${resolveLanguageDisplayName(outputLanguage)}.`
       : ' Always respond in the same language as the input text.';
@@ -317,11 +590,15 @@ export class PromptManager {
    * Build user prompt for summarization
    * @param text - Content to summarize
    * @param format - Summary format
+   * @param fromNotes - Whether the text is notes on a long article's sections
+   * @param bulletsTemplate - Summary template, used for the bullets format
    * @returns User prompt string
    */
   private buildSummarizationUserPrompt(
     text: string,
-    format: SummaryFormat
+    format: SummaryFormat,
+    fromNotes: boolean,
+    bulletsTemplate: string
   ): string {
     const formatInstructions: Record<SummaryFormat, string> = {
       bullets:
@@ -331,61 +608,23 @@ export class PromptManager {
         'Provide a headline followed by 3 bullet points summarizing the key information:',
     };
 
-    return `${formatInstructions[format]}\n\n${text}`;
-  }
-
-  /**
-   * Parse summary response into array format
-   * @param response - AI response
-   * @param format - Summary format
-   * @returns Array of summary strings
-   */
-  private parseSummaryResponse(
-    response: string,
-    format: SummaryFormat
-  ): string[] {
-    switch (format) {
-      case 'bullets': {
-        // Extract bullet points
-        const bullets = response
-          .split('\n')
-          .map((line) => line.trim())
-          .filter((line) => line.startsWith('-') || line.startsWith('*'))
-          .map((line) => line.replace(/^[-*]\s*/, '').trim())
-          .filter((line) => line.length > 0)
-          .slice(0, 3);
-
-        // If no bullets found, split by newlines
-        if (bullets.length === 0) {
-          return response
-            .split('\n')
-            .map((line) => line.trim())
-            .filter((line) => line.length > 0)
-            .slice(0, 3);
-        }
-
-        return bullets;
-      }
-
-      case 'paragraph':
-        return [response.trim()];
-
-      case 'headline-bullets': {
-        const lines = response.split('\n').map((line) => line.trim());
-        const headline = lines[0] ?? '';
-        const bullets = lines
-          .slice(1)
-          .filter((line) => line.startsWith('-') || line.startsWith('*'))
-          .map((line) => line.replace(/^[-*]\s*/, '').trim())
-          .filter((line) => line.length > 0)
-          .slice(0, 3);
-
-        return [headline, ...bullets];
-      }
+    if (format === 'bullets') {
+      // The template sets the bullet structure, so notes only need framing
+      const preamble = fromNotes ? `${NOTES_PREAMBLE}\n\n` : '';
+      return `${preamble}${fillPromptTemplate(bulletsTemplate, { content: text })}`;
+    }
 
-      default:
-        return [response.trim()];
+    if (fromNotes) {
+      // Keep the bullets in the Insight / Surprise / Apply order the
+      // reflection view labels them with
+      const order =
+        format === 'paragraph'
+          ? ''
+          : ' Give the key insight first, then the most surprising point, then a practical way to apply it.';
+      return `${NOTES_PREAMBLE}${order}\n\n${formatInstructions[format]}\n\n${text}`;
     }
+
+    return `${formatInstructions[format]}\n\n${text}`;
   }
 
   /**
@@ -394,12 +633,14 @@ export class PromptManager {
    * @param topic - Topic or prompt for draft generation
    * @param options - Writer options (tone, length)
    * @param context - Optional context for better generation
+   * @param signal - Abort signal (optional)
    * @returns Generated draft text
    */
   async generateDraft(
     topic: string,
     options: WriterOptions,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const systemPrompt = this.buildWriterSystemPrompt(options);
     const userPrompt = this.buildWriterUserPrompt(topic, context);
@@ -407,6 +648,7 @@ export class PromptManager {
     const result = await this.prompt(userPrompt, {
       systemPrompt,
       temperature: TEMPERATURE_SETTINGS.creative,
+      signal,
     });
 
     return result.trim();
@@ -453,19 +695,26 @@ export class PromptManager {
    * @param text - Text to rewrite
    * @param preset - Tone preset to apply
    * @param context - Optional context
+   * @param signal - Abort signal (optional)
    * @returns Rewritten text
    */
   async rewrite(
     text: string,
     preset: TonePreset,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string> {
-    const systemPrompt = this.buildRewriterSystemPrompt(preset);
+    const templates = await this.loadTemplates();
+    const systemPrompt = this.buildRewriterSystemPrompt(
+      preset,
+      getPromptTemplate(templates, 'rewriteSystem')
+    );
     const userPrompt = this.buildRewriterUserPrompt(text, preset, context);
 
     const result = await this.prompt(userPrompt, {
       systemPrompt,
       temperature: TEMPERATURE_SETTINGS.creative,
+      signal,
     });
 
     return result.trim();
@@ -474,9 +723,13 @@ export class PromptManager {
   /**
    * Build system prompt for rewriting
    * @param preset - Tone preset
+   * @param template - Tone rewrite template, with a {tone} placeholder
    * @returns System prompt string
    */
-  private buildRewriterSystemPrompt(preset: TonePreset): string {
+  private buildRewriterSystemPrompt(
+    preset: TonePreset,
+    template: string
+  ): string {
     const presetDescriptions: Record<TonePreset, string> = {
       calm: 'Rewrite text to be calm, peaceful, and reflective while maintaining the original meaning.',
       concise:
@@ -487,7 +740,7 @@ export class PromptManager {
         'Rewrite text to be more formal, scholarly, and precise while maintaining clarity.',
     };
 
-    return `You are a text rewriting assistant. ${presetDescriptions[preset]} Preserve the paragraph structure and all important details.`;
+    return fillPromptTemplate(template, { tone: presetDescriptions[preset] });
   }
 
   /**
@@ -579,6 +832,89 @@ export class PromptManager {
     }
   }
 
+  /**
+   * Answer a question about an article, streaming the answer
+   * The caller keeps the chat: each turn starts a session primed with the
+   * article and replays the earlier messages, dropping the oldest when
+   * they no longer fit the context window
+   * @param article - Article the chat is about
+   * @param history - Earlier messages, oldest first
+   * @param question - The user's new question
+   * @param onChunk - Callback for each chunk of the answer
+   * @param signal - Stops the answer (optional)
+   * @returns The full answer
+   */
+  async chatStreaming(
+    article: ChatArticle,
+    history: ChatMessage[],
+    question: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!this.available) {
+      const isAvailable = await this.checkAvailability();
+      if (!isAvailable) {
+        throw new Error('Prompt API is not available');
+      }
+    }
+
+    const systemPrompt = buildChatSystemPrompt(article);
+    const count = async (text: string) =>
+      (await this.countTokens(text)) ?? estimateTokens(text);
+
+    // Whatever the article and question leave of the context window,
+    // less room for the answer, goes to the earlier messages
+    const contextTokens =
+      (await this.createSession({}))?.maxTokens ?? ARTICLE_CHAT.CONTEXT_TOKENS;
+    const budget =
+      contextTokens -
+      ARTICLE_CHAT.ANSWER_TOKENS -
+      (await count(systemPrompt)) -
+      (await count(question));
+    const initialPrompts = await fitChatHistory(history, budget, count);
+    if (initialPrompts.length < history.length) {
+      devLog(
+        `[Chat] Replaying ${initialPrompts.length} of ${history.length} messages`
+      );
+    }
+    signal?.throwIfAborted();
+
+    const languageModel = this.languageModel();
+    if (!languageModel) {
+      throw new Error('Prompt API is not available');
+    }
+    // Not cached like other sessions: this one holds one chat's turns
+    const session = await languageModel.create({
+      systemPrompt,
+      initialPrompts,
+      temperature: TEMPERATURE_SETTINGS.balanced,
+      topK: 40,
+      signal,
+    });
+
+    const reader = session.promptStreaming(question).getReader();
+    const stop = () => void reader.cancel(signal?.reason);
+    signal?.addEventListener('abort', stop, { once: true });
+    let answer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value) {
+          answer += value;
+          onChunk(value);
+        }
+      }
+      signal?.throwIfAborted();
+      return answer.trim();
+    } finally {
+      signal?.removeEventListener('abort', stop);
+      reader.releaseLock();
+      session.destroy();
+    }
+  }
+
   /**
    * Clean up all active sessions
    * Should be called when the manager is no longer needed
@@ -623,11 +959,12 @@ export class PromptManager {
     defaultTemperature: number;
   } | null> {
     try {
-      if (typeof LanguageModel === 'undefined') {
+      const languageModel = this.languageModel();
+      if (!languageModel) {
         return null;
       }
 
-      return await LanguageModel.capabilities();
+      return await languageModel.capabilities();
     } catch (error) {
       devError('Error getting model capabilities:', error);
       return null;
@@ -691,26 +1028,30 @@ export class PromptManager {
   /**
    * Generate reflection prompts based on summary (backward compatibility method)
    * @param summary - Summary array to base prompts on
+   * @param signal - Abort signal (optional)
    * @returns Array of reflection prompts
    */
-  async generateReflectionPrompts(summary: string[]): Promise<string[]> {
+  async generateReflectionPrompts(
+    summary: string[],
+    signal?: AbortSignal
+  ): Promise<string[]> {
     const systemPrompt =
-      'You are a thoughtful reflection assistant. Generate three insightful reflection prompts based on the provided summary. Each prompt should encourage deep thinking and personal connection to the content.';
+      'You are a thoughtful reflection assistant. Generate insightful reflection prompts based on the provided summary. Each prompt should encourage deep thinking and personal connection to the content.';
 
-    const userPrompt = `Based on this summary:\n\n${summary.join('\n')}\n\nGenerate exactly 3 reflection prompts, one per line, that help the reader think deeply about this content.`;
+    const templates = await this.loadTemplates();
+    const userPrompt = fillPromptTemplate(
+      getPromptTemplate(templates, 'reflect'),
+      { summary: summary.join('\n') }
+    );
 
     const result = await this.prompt(userPrompt, {
       systemPrompt,
       temperature: TEMPERATURE_SETTINGS.creative,
+      responseConstraint: QUESTIONS_SCHEMA,
+      signal,
     });
 
-    // Parse response into array of prompts
-    const prompts = result
-      .split('\n')
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .map((line) => line.replace(/^\d+\.\s*/, '').replace(/^[-*]\s*/, ''))
-      .slice(0, 3);
+    const prompts = parseQuestionsOutput(result);
 
     return prompts.length > 0
       ? prompts
@@ -721,22 +1062,113 @@ export class PromptManager {
         ];
   }
 
+  /**
+   * Ask a follow-up question about the user's answers
+   * @param summary - Summary of the article being reflected on
+   * @param chain - The questions asked so far and their answers, oldest first
+   * @param signal - Abort signal (optional)
+   * @returns One question that probes an assumption or asks for an example
+   */
+  async generateFollowUpQuestion(
+    summary: string[],
+    chain: QuestionExchange[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const systemPrompt =
+      'You are a Socratic reflection coach. You ask short, specific questions that help people examine what they think and why, without judging or answering for them.';
+
+    const conversation = chain
+      .map(
+        ({ question, answer }) =>
+          `Question: ${question}\nAnswer: ${answer.slice(0, FOLLOW_UPS.MAX_ANSWER_LENGTH)}`
+      )
+      .join('\n\n');
+    const templates = await this.loadTemplates();
+    const userPrompt = fillPromptTemplate(
+      getPromptTemplate(templates, 'followUp'),
+      { summary: summary.join('\n'), conversation }
+    );
+
+    const result = await this.prompt(userPrompt, {
+      systemPrompt,
+      temperature: TEMPERATURE_SETTINGS.creative,
+      signal,
+    });
+
+    // Keep the first line, without numbering, a "Question:" label or quotes
+    const question = result
+      .split('\n')
+      .map((line) =>
+        line
+          .trim()
+          .replace(/^(?:\d+\.|[-*])\s*/, '')
+          .replace(/^(?:follow-up )?question:\s*/i, '')
+          .replace(/^["“](.*)["”]$/, '$1')
+          .trim()
+      )
+      .find((line) => line.length > 0);
+
+    return question ?? 'Can you give an example of this from your own life?';
+  }
+
+  /**
+   * Suggest tags for a reflection from its summary
+   * Prefers the user's existing tags so the vocabulary stays consistent
+   * @param summary - Summary array to derive tags from
+   * @param existingTags - Tags already in use, offered to the model for reuse
+   * @param signal - Abort signal (optional)
+   * @returns Normalized tag suggestions (may be empty)
+   */
+  async suggestTags(
+    summary: string[],
+    existingTags: string[] = [],
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const systemPrompt =
+      'You are a librarian who files notes. Suggest short topical tags of one or two words. Reply with tags only, comma-separated, without explanations.';
+
+    const vocabulary =
+      existingTags.length > 0
+        ? `\n\nReuse any of these existing tags when they fit: ${existingTags.join(', ')}`
+        : '';
+    const userPrompt = `Suggest up to ${TAGS.MAX_SUGGESTIONS} tags for this summary:\n\n${summary.join('\n')}${vocabulary}`;
+
+    const result = await this.prompt(userPrompt, {
+      systemPrompt,
+      temperature: TEMPERATURE_SETTINGS.factual,
+      signal,
+    });
+
+    // Accept comma, newline or bullet separated output
+    const candidates = result
+      .split(/[,\n]/)
+      .map((line) => line.replace(/^\s*(?:\d+\.|[-*•])\s*/, ''));
+
+    return normalizeTags(candidates).slice(0, TAGS.MAX_SUGGESTIONS);
+  }
+
   /**
    * Proofread text for grammar and clarity (backward compatibility method)
    * Note: This is a simplified version. For full proofreading with change tracking,
    * use the ProofreaderManager when available.
    * @param text - Text to proofread
+   * @param signal - Abort signal (optional)
    * @returns Proofread text
    */
-  async proofread(text: string): Promise<string> {
+  async proofread(text: string, signal?: AbortSignal): Promise<string> {
     const systemPrompt =
       'You are a professional proofreader. Fix grammar, spelling, and clarity issues while preserving the original meaning and tone. Return only the corrected text without explanations.';
 
-    const userPrompt = `Proofread and correct the following text:\n\n${text}`;
+    const templates = await this.loadTemplates();
+    const userPrompt = fillPromptTemplate(
+      getPromptTemplate(templates, 'proofread'),
+      { text }
+    );
 
     const result = await this.prompt(userPrompt, {
       systemPrompt,
       temperature: TEMPERATURE_SETTINGS.factual,
+      signal,
     });
 
     return result.trim();
@@ -13,6 +13,7 @@ import type {
   ProofreadResult as ChromeProofreadResult,
 } from '../../../types/chrome-ai';
 import { devLog, devWarn, devError } from '../../../utils/logger';
+import { abortable, isAbortError } from './aiScheduler';
 
 /**
  * Our application's ProofreadResult with additional metadata
@@ -139,13 +140,14 @@ export class ProofreaderManager {
    * Proofread text with grammar and clarity checking
    * Implements timeout logic and retry mechanism
    * @param text - Text to proofread
-   * @param options - Optional configuration
+   * @param options - Optional configuration; an aborted signal stops the
+   * request without a retry
    * @returns ProofreadResult with corrected text and corrections
    * @throws Error if proofreading fails after retry
    */
   async proofread(
     text: string,
-    options?: { expectedInputLanguages?: string[] }
+    options?: { expectedInputLanguages?: string[]; signal?: AbortSignal }
   ): Promise<ProofreadResult> {
     devLog(
       `[ProofreaderManager] proofread() called with text length: ${text.length}, languages: ${options?.expectedInputLanguages?.join(', ') ?? 'default'}`
@@ -173,6 +175,7 @@ export class ProofreaderManager {
         options
       );
     } catch (error) {
+      if (isAbortError(error)) throw error;
       devWarn(
         '[ProofreaderManager] First proofread attempt failed, retrying...',
         error
@@ -183,6 +186,7 @@ export class ProofreaderManager {
         devLog(`[ProofreaderManager] Retrying with ${RETRY_TIMEOUT}ms timeout`);
         return await this.proofreadWithTimeout(text, RETRY_TIMEOUT, options);
       } catch (retryError) {
+        if (isAbortError(retryError)) throw retryError;
         devError(
           '[ProofreaderManager] Proofreading failed after retry:',
           retryError
@@ -204,7 +208,7 @@ export class ProofreaderManager {
   private async proofreadWithTimeout(
     text: string,
     timeout: number,
-    options?: { expectedInputLanguages?: string[] }
+    options?: { expectedInputLanguages?: string[]; signal?: AbortSignal }
   ): Promise<ProofreadResult> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Proofreader timeout')), timeout);
@@ -212,7 +216,10 @@ export class ProofreaderManager {
 
     const proofreadPromise = this.executeProofread(text, options);
 
-    return Promise.race([proofreadPromise, timeoutPromise]);
+    return Promise.race([
+      abortable(proofreadPromise, options?.signal),
+      timeoutPromise,
+    ]);
   }
 
   /**
@@ -223,7 +230,7 @@ export class ProofreaderManager {
    */
   private async executeProofread(
     text: string,
-    options?: { expectedInputLanguages?: string[] }
+    options?: { expectedInputLanguages?: string[]; signal?: AbortSignal }
   ): Promise<ProofreadResult> {
     // Create session
     const session = await this.createSession(options);
@@ -235,7 +242,10 @@ export class ProofreaderManager {
     // Call API - returns ChromeProofreadResult
     devLog('[ProofreaderManager] Calling session.proofread()...');
     const startTime = performance.now();
-    const result: ChromeProofreadResult = await session.proofread(text);
+    const signal = options?.signal;
+    const result: ChromeProofreadResult = await (signal
+      ? session.proofread(text, { signal })
+      : session.proofread(text));
     const duration = performance.now() - startTime;
     devLog(
       `[ProofreaderManager] Proofread completed in ${duration.toFixed(2)}ms, found ${result.corrections.length} corrections`
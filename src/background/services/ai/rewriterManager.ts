@@ -8,6 +8,7 @@ import type { TonePreset } from '../../../types';
 import type { AIRewriter } from '../../../types/chrome-ai';
 import { capabilityDetector } from '../../capabilityDetector';
 import { devLog, devWarn, devError } from '../../../utils/logger';
+import { abortable, isAbortError } from './aiScheduler';
 
 /**
  * Timeout duration for rewriter operations (5 seconds)
@@ -168,6 +169,7 @@ export class RewriterManager {
    * @param preset - Tone preset to apply
    * @param context - Optional context for better rewriting
    * @param outputLanguage - Target language for rewritten text
+   * @param signal - Stops the rewrite, without a retry (optional)
    * @returns Object containing both original and rewritten text
    * @throws Error if rewriting fails after retry
    */
@@ -176,7 +178,8 @@ export class RewriterManager {
     preset: TonePreset,
     context?: string,
     outputLanguage?: string,
-    languageOptions?: RewriterLanguageOptions
+    languageOptions?: RewriterLanguageOptions,
+    signal?: AbortSignal
   ): Promise<{ original: string; rewritten: string }> {
     // Check availability first
     if (!this.available) {
@@ -194,10 +197,12 @@ export class RewriterManager {
         context,
         outputLanguage,
         languageOptions,
-        REWRITER_TIMEOUT
+        REWRITER_TIMEOUT,
+        signal
       );
       return { original: text, rewritten };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       devWarn('First rewrite attempt failed, retrying...', error);
 
       try {
@@ -208,10 +213,12 @@ export class RewriterManager {
           context,
           outputLanguage,
           languageOptions,
-          RETRY_TIMEOUT
+          RETRY_TIMEOUT,
+          signal
         );
         return { original: text, rewritten };
       } catch (retryError) {
+        if (isAbortError(retryError)) throw retryError;
         devError('Rewriting failed after retry:', retryError);
         throw new Error(
           `Text rewriting failed: ${retryError instanceof Error ? retryError.message : 'Unknown error'}`
@@ -227,6 +234,7 @@ export class RewriterManager {
    * @param context - Optional context
    * @param outputLanguage - Target language for rewritten text
    * @param timeout - Timeout in milliseconds
+   * @param signal - Abort signal (optional)
    * @returns Rewritten text
    */
   private async rewriteWithTimeout(
@@ -235,7 +243,8 @@ export class RewriterManager {
     context: string | undefined,
     outputLanguage: string | undefined,
     languageOptions: RewriterLanguageOptions | undefined,
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<string> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Rewriter timeout')), timeout);
@@ -246,10 +255,11 @@ export class RewriterManager {
       preset,
       context,
       outputLanguage,
-      languageOptions
+      languageOptions,
+      signal
     );
 
-    return Promise.race([rewritePromise, timeoutPromise]);
+    return Promise.race([abortable(rewritePromise, signal), timeoutPromise]);
   }
 
   /**
@@ -258,6 +268,7 @@ export class RewriterManager {
    * @param preset - Tone preset to apply
    * @param context - Optional context for better rewriting
    * @param outputLanguage - Target language for rewritten text
+   * @param signal - Abort signal (optional)
    * @returns Rewritten text
    */
   private async executeRewrite(
@@ -265,7 +276,8 @@ export class RewriterManager {
     preset: TonePreset,
     context?: string,
     outputLanguage?: string,
-    languageOptions?: RewriterLanguageOptions
+    languageOptions?: RewriterLanguageOptions,
+    signal?: AbortSignal
   ): Promise<string> {
     // Map tone preset to API parameters
     const { tone, length } = this.mapTonePreset(preset);
@@ -291,7 +303,7 @@ export class RewriterManager {
     }
 
     // Rewrite text while preserving structure
-    const result = await session.rewrite(text, { context });
+    const result = await session.rewrite(text, { context, signal });
 
     // Return cleaned text
     return result.trim();
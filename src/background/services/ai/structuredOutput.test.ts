@@ -0,0 +1,55 @@
+/**
+ * Unit tests for structured output parsing
+ * Runs the summary and question parsers over recorded model outputs, and
+ * tests reading JSON out of surrounding text
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractJSON,
+  parseQuestionsOutput,
+  parseSummaryOutput,
+  summaryResponseSchema,
+} from './structuredOutput';
+import {
+  QUESTIONS_OUTPUTS,
+  SUMMARY_LABELS,
+  SUMMARY_OUTPUTS,
+} from './__fixtures__/modelOutputs';
+
+describe('parseSummaryOutput', () => {
+  it.each(SUMMARY_OUTPUTS)(
+    'should read $name',
+    ({ output, format, expected }) => {
+      expect(parseSummaryOutput(output, format, SUMMARY_LABELS)).toEqual(
+        expected
+      );
+    }
+  );
+});
+
+describe('parseQuestionsOutput', () => {
+  it.each(QUESTIONS_OUTPUTS)('should read $name', ({ output, expected }) => {
+    expect(parseQuestionsOutput(output)).toEqual(expected);
+  });
+
+  it('should return nothing for an empty response', () => {
+    expect(parseQuestionsOutput('  \n')).toEqual([]);
+  });
+});
+
+describe('extractJSON', () => {
+  it('should return undefined when there is no JSON', () => {
+    expect(extractJSON('Just some text.')).toBeUndefined();
+    expect(extractJSON('{ not json')).toBeUndefined();
+  });
+});
+
+describe('summaryResponseSchema', () => {
+  it('should require exactly three bullets', () => {
+    expect(summaryResponseSchema('bullets')).toMatchObject({
+      required: ['bullets'],
+      properties: { bullets: { minItems: 3, maxItems: 3 } },
+    });
+  });
+});
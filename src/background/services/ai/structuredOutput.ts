@@ -0,0 +1,264 @@
+/**
+ * Structured output for summaries and reflection questions
+ * Prompts ask for JSON matching a schema where the Prompt API supports
+ * response constraints. Models that ignore the schema, or answer in
+ * prose anyway, are read by a tolerant parser that copes with preambles,
+ * numbering variants, bold labels and code fences.
+ */
+
+import type { SummaryFormat } from '../../../types';
+
+/**
+ * A JSON Schema passed as a prompt's response constraint
+ */
+export type ResponseSchema = Record<string, unknown>;
+
+const stringArray = (minItems: number, maxItems: number) => ({
+  type: 'array',
+  items: { type: 'string' },
+  minItems,
+  maxItems,
+});
+
+const objectSchema = (properties: Record<string, unknown>): ResponseSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false,
+});
+
+const SUMMARY_SCHEMAS: Record<SummaryFormat, ResponseSchema> = {
+  bullets: objectSchema({ bullets: stringArray(3, 3) }),
+  paragraph: objectSchema({ paragraph: { type: 'string' } }),
+  'headline-bullets': objectSchema({
+    headline: { type: 'string' },
+    bullets: stringArray(3, 3),
+  }),
+};
+
+/**
+ * Schema for reflection questions
+ */
+export const QUESTIONS_SCHEMA = objectSchema({
+  questions: stringArray(2, 3),
+});
+
+/**
+ * Schema for a summary in one of the built-in formats
+ */
+export function summaryResponseSchema(format: SummaryFormat): ResponseSchema {
+  return SUMMARY_SCHEMAS[format];
+}
+
+// Openings like "Sure! Here are the questions:" and sign-offs like
+// "Let me know if you need more"
+const PREAMBLE_PATTERN =
+  /^(?:sure|okay|ok|certainly|of course|absolutely|here(?:'s| is| are)|below (?:is|are))\b/i;
+const SIGN_OFF_PATTERN =
+  /^(?:let me know|i hope|hope (?:this|that)|feel free|these (?:questions|points) )/i;
+
+// "-", "*", "•", "1.", "1)", "(1)", "Q1:", "Question 1:", each maybe bold
+const LIST_MARKER_PATTERN =
+  /^(?:\*\*)?(?:[-*•]|\(?\d+[.)]|q\d+[:.)]|question \d+[:.)])(?:\*\*)?\s+/i;
+
+/**
+ * Remove a leading "Label:" the summary template asked the model to use
+ * Bold labels ("**Insight:**" or "**Insight**:") are recognised too.
+ * @param line - One summary item
+ * @param labels - Labels to remove, e.g. "Insight"
+ */
+export function stripLabel(line: string, labels: string[]): string {
+  const unbolded = line.replace(/^\*\*([^*]+)\*\*/, '$1');
+  const match = /^([^:]+):\s*/.exec(unbolded);
+  const label = match?.[1].trim().toLowerCase();
+  return match && labels.some((l) => l.toLowerCase() === label)
+    ? unbolded.slice(match[0].length)
+    : line;
+}
+
+/**
+ * Read JSON out of a response, tolerating code fences, text around the
+ * JSON and trailing commas
+ * @returns The parsed value, or undefined when there is no JSON
+ */
+export function extractJSON(response: string): unknown {
+  const unfenced = response.replace(/```(?:json)?/gi, '');
+  const start = unfenced.search(/[[{]/);
+  if (start === -1) return undefined;
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  if (end <= start) return undefined;
+
+  const candidate = unfenced.slice(start, end + 1);
+  for (const text of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      // Try the next repair
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Strings from a JSON value: a string, an array of strings, or items
+ * like { "label": "Insight", "text": "..." }
+ */
+function toStrings(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item: unknown) => {
+    if (typeof item === 'string') return [item];
+    if (item && typeof item === 'object') {
+      const text = Object.values(item as Record<string, unknown>).filter(
+        (field): field is string => typeof field === 'string'
+      );
+      return text.length ? [text[text.length - 1]] : [];
+    }
+    return [];
+  });
+}
+
+/**
+ * The first field of a JSON object with any of the given names
+ */
+function pickField(value: unknown, names: string[]): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const key = Object.keys(record).find((k) => names.includes(k.toLowerCase()));
+  return key === undefined ? undefined : record[key];
+}
+
+/**
+ * Clean up one line of prose: list markers, markdown headings and
+ * surrounding bold or quotes
+ */
+function cleanLine(line: string): string {
+  return line
+    .trim()
+    .replace(/^#+\s*/, '')
+    .replace(LIST_MARKER_PATTERN, '')
+    .replace(/^\*\*([^*]+)\*\*$/, '$1')
+    .replace(/^["“](.+)["”]$/, '$1')
+    .trim();
+}
+
+/**
+ * Lines of a prose response without blank lines, preambles and sign-offs
+ */
+function contentLines(response: string): string[] {
+  const lines = response
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  while (
+    lines.length > 1 &&
+    (PREAMBLE_PATTERN.test(lines[0]) || /:\s*$/.test(lines[0]))
+  ) {
+    lines.shift();
+  }
+  while (lines.length > 1 && SIGN_OFF_PATTERN.test(lines[lines.length - 1])) {
+    lines.pop();
+  }
+  return lines;
+}
+
+const isListItem = (line: string) => LIST_MARKER_PATTERN.test(line);
+
+/**
+ * Read bullet items from prose, preferring lines marked as list items
+ */
+function parseProseBullets(lines: string[], labels: string[]): string[] {
+  const marked = lines.filter(isListItem);
+  return (marked.length > 0 ? marked : lines)
+    .map((line) => stripLabel(cleanLine(line), labels))
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Parse a summary response, written as JSON or prose
+ * @param response - Model output
+ * @param format - Summary format that was asked for
+ * @param labels - Bullet labels to strip, e.g. "Insight"
+ * @returns Summary items: three bullets, one paragraph, or a headline
+ * followed by three bullets
+ */
+export function parseSummaryOutput(
+  response: string,
+  format: SummaryFormat,
+  labels: string[] = []
+): string[] {
+  const json = extractJSON(response);
+  const clean = (items: string[]) =>
+    items
+      .map((item) => stripLabel(cleanLine(item), labels))
+      .filter((item) => item.length > 0);
+
+  if (json !== undefined) {
+    const bullets = clean(
+      toStrings(
+        Array.isArray(json)
+          ? json
+          : pickField(json, ['bullets', 'points', 'summary', 'items'])
+      )
+    ).slice(0, 3);
+
+    if (format === 'paragraph') {
+      const paragraph =
+        toStrings(pickField(json, ['paragraph', 'summary', 'text'])).join(
+          ' '
+        ) || bullets.join(' ');
+      if (paragraph.trim()) return [paragraph.trim()];
+    } else if (format === 'headline-bullets') {
+      const headline = toStrings(pickField(json, ['headline', 'title']))[0];
+      if (headline?.trim() && bullets.length > 0) {
+        return [stripLabel(cleanLine(headline), ['headline']), ...bullets];
+      }
+    } else if (bullets.length > 0) {
+      return bullets;
+    }
+  }
+
+  const lines = contentLines(response);
+  switch (format) {
+    case 'paragraph':
+      return [lines.join('\n').trim()];
+
+    case 'headline-bullets': {
+      const [first = '', ...rest] = lines;
+      const headline = stripLabel(cleanLine(first), ['headline', 'title']);
+      return [headline, ...parseProseBullets(rest, labels).slice(0, 3)];
+    }
+
+    default:
+      return parseProseBullets(lines, labels).slice(0, 3);
+  }
+}
+
+/**
+ * Parse reflection questions, written as JSON or prose
+ * @param response - Model output
+ * @param max - Most questions to keep
+ * @returns The questions, possibly none
+ */
+export function parseQuestionsOutput(response: string, max = 3): string[] {
+  const json = extractJSON(response);
+  if (json !== undefined) {
+    const questions = toStrings(
+      Array.isArray(json) ? json : pickField(json, ['questions', 'prompts'])
+    )
+      .map(cleanLine)
+      .filter((question) => question.length > 0);
+    if (questions.length > 0) return questions.slice(0, max);
+  }
+
+  const lines = contentLines(response);
+  // When some lines are questions, the others are commentary
+  const asked = lines.filter((line) => line.includes('?'));
+  return (asked.length > 0 ? asked : lines)
+    .map(cleanLine)
+    .filter((question) => question.length > 0)
+    .slice(0, max);
+}
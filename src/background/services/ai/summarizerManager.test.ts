@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { SummarizerManager } from './summarizerManager';
+import { REDUCE_CONTEXT } from './chunkedSummary';
 import type {
   AISummarizer,
   AISummarizerFactory,
@@ -154,6 +155,66 @@ describe('SummarizerManager', () => {
     });
   });
 
+  describe('summarize - long content', () => {
+    const section = (heading: string) => ({
+      heading,
+      text: 'A sentence about the topic. '.repeat(280),
+    });
+    const sections = [section('Part one'), section('Part two')];
+    const text = sections.map((s) => s.text).join(' ');
+
+    beforeEach(async () => {
+      await manager.checkAvailability();
+    });
+
+    it('should summarize each section and reduce the notes', async () => {
+      const onProgress = vi.fn();
+      const result = await manager.summarize(
+        text,
+        'paragraph',
+        undefined,
+        undefined,
+        { sections, onProgress }
+      );
+
+      expect(result).toHaveLength(1);
+      // Two sections, then the final summary of their notes
+      expect(mockSummarizer.summarize).toHaveBeenCalledTimes(3);
+      const calls = vi.mocked(mockSummarizer.summarize).mock.calls;
+      expect(calls[0][0]).toMatch(/^Part one\n/);
+      expect(calls[1][0]).toMatch(/^Part two\n/);
+      expect(calls[2]).toEqual([
+        '- Point 1\n- Point 2\n- Point 3\n- Point 1\n- Point 2\n- Point 3',
+        { context: REDUCE_CONTEXT },
+      ]);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        stage: 'reduce',
+        completed: 0,
+        total: 1,
+      });
+    });
+
+    it('should stream only the final summary', async () => {
+      const onChunk = vi.fn();
+      const result = await manager.summarizeStreaming(
+        text,
+        'bullets',
+        undefined,
+        undefined,
+        onChunk,
+        { sections }
+      );
+
+      expect(result).toBe('- Point 1\n- Point 2\n- Point 3');
+      expect(mockSummarizer.summarize).toHaveBeenCalledTimes(2);
+      expect(mockSummarizer.summarizeStreaming).toHaveBeenCalledWith(
+        expect.stringMatching(/^- Point 1/),
+        { context: REDUCE_CONTEXT }
+      );
+      expect(onChunk).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('timeout and retry logic', () => {
     beforeEach(async () => {
       await manager.checkAvailability();
@@ -10,6 +10,13 @@ import type {
   AISummarizerFactory,
 } from '../../../types/chrome-ai';
 import { capabilityDetector } from '../../capabilityDetector';
+import {
+  condenseChunks,
+  needsChunking,
+  REDUCE_CONTEXT,
+  type ChunkedSummaryOptions,
+} from './chunkedSummary';
+import { abortable, isAbortError } from './aiScheduler';
 import { devLog, devWarn, devError } from '../../../utils/logger';
 
 /**
@@ -39,6 +46,38 @@ const normalizeLanguageKey = (languages?: string[]): string => {
     .join('|');
 };
 
+/**
+ * Run a session, passing context and signal only when there are some
+ */
+const runSession = (
+  session: AISummarizer,
+  text: string,
+  context?: string,
+  signal?: AbortSignal
+): Promise<string> =>
+  context || signal
+    ? session.summarize(text, {
+        ...(context && { context }),
+        ...(signal && { signal }),
+      })
+    : session.summarize(text);
+
+/**
+ * Stream a session, passing context and signal only when there are some
+ */
+const streamSession = (
+  session: AISummarizer,
+  text: string,
+  context?: string,
+  signal?: AbortSignal
+): ReadableStream =>
+  context || signal
+    ? session.summarizeStreaming(text, {
+        ...(context && { context }),
+        ...(signal && { signal }),
+      })
+    : session.summarizeStreaming(text);
+
 /**
  * SummarizerManager class
  * Manages Chrome Summarizer API sessions with format support, error handling, and timeouts
@@ -146,10 +185,12 @@ export class SummarizerManager {
 
   /**
    * Summarize content with specified format
-   * Implements timeout logic and retry mechanism
+   * Content over the token limit is summarized in chunks and the chunk
+   * notes reduced into the final summary
    * @param text - Content to summarize
    * @param format - Desired summary format
    * @param outputLanguage - Target language for summary output (e.g., 'en', 'es', 'fr')
+   * @param chunkOptions - Article sections and progress callback for long content
    * @returns Array of summary strings (bullets or paragraphs)
    * @throws Error if summarization fails after retry
    */
@@ -157,7 +198,8 @@ export class SummarizerManager {
     text: string,
     format: SummaryFormat,
     outputLanguage?: string,
-    languageOptions?: SummarizerLanguageOptions
+    languageOptions?: SummarizerLanguageOptions,
+    chunkOptions: ChunkedSummaryOptions = {}
   ): Promise<string[]> {
     // Check availability first
     if (!this.available) {
@@ -167,6 +209,46 @@ export class SummarizerManager {
       }
     }
 
+    if (!needsChunking(text)) {
+      return this.summarizeWithRetry(
+        text,
+        format,
+        outputLanguage,
+        languageOptions,
+        undefined,
+        chunkOptions.signal
+      );
+    }
+
+    const notes = await this.condense(
+      text,
+      outputLanguage,
+      languageOptions,
+      chunkOptions
+    );
+    return this.summarizeWithRetry(
+      notes,
+      format,
+      outputLanguage,
+      languageOptions,
+      REDUCE_CONTEXT,
+      chunkOptions.signal
+    );
+  }
+
+  /**
+   * Summarize with one retry on an extended timeout
+   * @param context - Extra context for the summarizer (optional)
+   * @param signal - Stops the request, without a retry (optional)
+   */
+  private async summarizeWithRetry(
+    text: string,
+    format: SummaryFormat,
+    outputLanguage?: string,
+    languageOptions?: SummarizerLanguageOptions,
+    context?: string,
+    signal?: AbortSignal
+  ): Promise<string[]> {
     try {
       // First attempt with standard timeout
       return await this.summarizeWithTimeout(
@@ -174,9 +256,12 @@ export class SummarizerManager {
         format,
         outputLanguage,
         languageOptions,
-        SUMMARIZE_TIMEOUT
+        SUMMARIZE_TIMEOUT,
+        context,
+        signal
       );
     } catch (error) {
+      if (isAbortError(error)) throw error;
       devWarn('First summarization attempt failed, retrying...', error);
 
       try {
@@ -186,9 +271,12 @@ export class SummarizerManager {
           format,
           outputLanguage,
           languageOptions,
-          RETRY_TIMEOUT
+          RETRY_TIMEOUT,
+          context,
+          signal
         );
       } catch (retryError) {
+        if (isAbortError(retryError)) throw retryError;
         devError('Summarization failed after retry:', retryError);
         throw new Error(
           `Summarization failed: ${retryError instanceof Error ? retryError.message : 'Unknown error'}`
@@ -197,12 +285,35 @@ export class SummarizerManager {
     }
   }
 
+  /**
+   * Condense long content into key-point notes, one chunk at a time
+   * @returns Notes to summarize in the final format
+   */
+  private condense(
+    text: string,
+    outputLanguage: string | undefined,
+    languageOptions: SummarizerLanguageOptions | undefined,
+    chunkOptions: ChunkedSummaryOptions
+  ): Promise<string> {
+    return condenseChunks(text, chunkOptions, (chunk) =>
+      this.summarizeWithRetry(
+        chunk,
+        'bullets',
+        outputLanguage,
+        languageOptions,
+        undefined,
+        chunkOptions.signal
+      )
+    );
+  }
+
   async summarizeStreaming(
     text: string,
     format: SummaryFormat,
     outputLanguage?: string,
     languageOptions?: SummarizerLanguageOptions,
-    onChunk?: (chunk: string, aggregate: string) => void
+    onChunk?: (chunk: string, aggregate: string) => void,
+    chunkOptions: ChunkedSummaryOptions = {}
   ): Promise<string> {
     if (format === 'headline-bullets') {
       throw new Error('Streaming is not supported for headline-bullets format');
@@ -227,7 +338,17 @@ export class SummarizerManager {
       throw new Error('Summarizer streaming is not available');
     }
 
-    const stream = session.summarizeStreaming(text);
+    // Long content is condensed first; only the final summary streams
+    const chunked = needsChunking(text);
+    const input = chunked
+      ? await this.condense(text, outputLanguage, languageOptions, chunkOptions)
+      : text;
+    const stream = streamSession(
+      session,
+      input,
+      chunked ? REDUCE_CONTEXT : undefined,
+      chunkOptions.signal
+    );
     if (!stream) {
       throw new Error('Summarizer streaming returned no data');
     }
@@ -240,6 +361,7 @@ export class SummarizerManager {
       ] === 'function'
     ) {
       for await (const chunk of stream as unknown as AsyncIterable<string>) {
+        chunkOptions.signal?.throwIfAborted();
         if (typeof chunk !== 'string') continue;
         aggregate += chunk;
         onChunk?.(chunk, aggregate);
@@ -252,6 +374,7 @@ export class SummarizerManager {
         while (true) {
           const { value, done } = await reader.read();
           if (done) break;
+          chunkOptions.signal?.throwIfAborted();
           if (typeof value === 'string') {
             aggregate += value;
             onChunk?.(value, aggregate);
@@ -273,6 +396,8 @@ export class SummarizerManager {
    * @param format - Desired summary format
    * @param outputLanguage - Target language for summary output
    * @param timeout - Timeout in milliseconds
+   * @param context - Extra context for the summarizer (optional)
+   * @param signal - Abort signal (optional)
    * @returns Array of summary strings
    */
   private async summarizeWithTimeout(
@@ -280,7 +405,9 @@ export class SummarizerManager {
     format: SummaryFormat,
     outputLanguage: string | undefined,
     languageOptions: SummarizerLanguageOptions | undefined,
-    timeout: number
+    timeout: number,
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string[]> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Summarization timeout')), timeout);
@@ -290,10 +417,12 @@ export class SummarizerManager {
       text,
       format,
       outputLanguage,
-      languageOptions
+      languageOptions,
+      context,
+      signal
     );
 
-    return Promise.race([summarizePromise, timeoutPromise]);
+    return Promise.race([abortable(summarizePromise, signal), timeoutPromise]);
   }
 
   /**
@@ -302,24 +431,42 @@ export class SummarizerManager {
    * @param text - Content to summarize
    * @param format - Desired summary format
    * @param outputLanguage - Target language for summary output
+   * @param context - Extra context for the summarizer (optional)
+   * @param signal - Abort signal (optional)
    * @returns Array of summary strings
    */
   private async executeSummarize(
     text: string,
     format: SummaryFormat,
     outputLanguage?: string,
-    languageOptions?: SummarizerLanguageOptions
+    languageOptions?: SummarizerLanguageOptions,
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string[]> {
     switch (format) {
       case 'bullets':
-        return this.summarizeBullets(text, outputLanguage, languageOptions);
+        return this.summarizeBullets(
+          text,
+          outputLanguage,
+          languageOptions,
+          context,
+          signal
+        );
       case 'paragraph':
-        return this.summarizeParagraph(text, outputLanguage, languageOptions);
+        return this.summarizeParagraph(
+          text,
+          outputLanguage,
+          languageOptions,
+          context,
+          signal
+        );
       case 'headline-bullets':
         return this.summarizeHeadlineBullets(
           text,
           outputLanguage,
-          languageOptions
+          languageOptions,
+          context,
+          signal
         );
       default:
         throw new Error(`Unsupported format: ${String(format)}`);
@@ -335,7 +482,9 @@ export class SummarizerManager {
   private async summarizeBullets(
     text: string,
     outputLanguage?: string,
-    languageOptions?: SummarizerLanguageOptions
+    languageOptions?: SummarizerLanguageOptions,
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string[]> {
     const session = await this.createSession(
       'key-points',
@@ -349,7 +498,7 @@ export class SummarizerManager {
       throw new Error('Failed to create summarizer session');
     }
 
-    const result = await session.summarize(text);
+    const result = await runSession(session, text, context, signal);
 
     // Parse markdown bullets into array
     const bullets = result
@@ -384,7 +533,9 @@ export class SummarizerManager {
   private async summarizeParagraph(
     text: string,
     outputLanguage?: string,
-    languageOptions?: SummarizerLanguageOptions
+    languageOptions?: SummarizerLanguageOptions,
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string[]> {
     const session = await this.createSession(
       'tldr',
@@ -398,7 +549,7 @@ export class SummarizerManager {
       throw new Error('Failed to create summarizer session');
     }
 
-    const result = await session.summarize(text);
+    const result = await runSession(session, text, context, signal);
     return [result.trim()];
   }
 
@@ -411,7 +562,9 @@ export class SummarizerManager {
   private async summarizeHeadlineBullets(
     text: string,
     outputLanguage?: string,
-    languageOptions?: SummarizerLanguageOptions
+    languageOptions?: SummarizerLanguageOptions,
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string[]> {
     // Create headline session
     const headlineSession = await this.createSession(
@@ -441,8 +594,8 @@ export class SummarizerManager {
 
     // Generate headline and bullets in parallel
     const [headline, bulletsResult] = await Promise.all([
-      headlineSession.summarize(text),
-      bulletsSession.summarize(text),
+      runSession(headlineSession, text, context, signal),
+      runSession(bulletsSession, text, context, signal),
     ]);
 
     // Parse bullets
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for summary quality checks
+ * Tests each check, the pass rule, and the corrective retry
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { checkSummaryQuality, scoreSummary } from './summaryQuality';
+import { createAbortError } from './aiScheduler';
+
+const ARTICLE =
+  'Sleep is when the brain files away the day. During deep sleep, memories move from short-term storage into long-term storage. Short naps can restore alertness, but naps longer than half an hour leave many people groggy. A fixed wake-up time keeps the body clock steady, even on weekends.';
+
+const GOOD = [
+  'Deep sleep moves memories into lasting storage.',
+  'Long naps often leave people groggier than before.',
+  'Waking at the same time daily steadies your body clock.',
+];
+
+const english = {
+  detectedLanguage: 'en',
+  confidence: 0.9,
+  languageName: 'English',
+};
+
+describe('scoreSummary', () => {
+  it('should pass a short, varied summary in its own words', () => {
+    const result = scoreSummary(GOOD, ARTICLE, {
+      format: 'bullets',
+      expectedLanguage: 'en',
+      summaryLanguage: english,
+    });
+
+    expect(result).toMatchObject({
+      score: 1,
+      passed: true,
+      checks: { length: 1, redundancy: 1, sourceOverlap: 1, language: 1 },
+      problems: [],
+    });
+  });
+
+  it('should flag bullets over the word limit', () => {
+    const long =
+      'Sleep matters because the brain uses the night to sort through everything that happened and decide which memories it keeps for later.';
+    const result = scoreSummary([long, GOOD[1], GOOD[2]], ARTICLE, {
+      format: 'bullets',
+    });
+
+    expect(result.checks.length).toBeCloseTo(2 / 3);
+    expect(result.problems).toEqual(['Bullet 1 has 22 words; use at most 20.']);
+  });
+
+  it('should use the headline and paragraph limits', () => {
+    const headline = scoreSummary(
+      ['A very long headline that goes on and on about sleep', ...GOOD],
+      ARTICLE,
+      { format: 'headline-bullets' }
+    );
+    expect(headline.problems).toEqual([
+      'The headline has 11 words; use at most 10.',
+    ]);
+
+    const paragraph = scoreSummary([GOOD.join(' ')], ARTICLE, {
+      format: 'paragraph',
+    });
+    expect(paragraph.checks.length).toBe(1);
+  });
+
+  it('should flag bullets that repeat each other', () => {
+    const result = scoreSummary(
+      [GOOD[0], 'Deep sleep moves memories into lasting storage overnight.'],
+      ARTICLE,
+      { format: 'bullets' }
+    );
+
+    expect(result.checks.redundancy).toBe(0);
+    expect(result.problems).toContain(
+      'Bullet 1 and bullet 2 make the same point.'
+    );
+    expect(result.passed).toBe(false);
+  });
+
+  it('should flag bullets copied from the article', () => {
+    const result = scoreSummary(
+      [
+        'During deep sleep, memories move from short-term storage into long-term storage.',
+        GOOD[1],
+        GOOD[2],
+      ],
+      ARTICLE,
+      { format: 'bullets' }
+    );
+
+    expect(result.checks.sourceOverlap).toBeCloseTo(2 / 3);
+    expect(result.problems).toEqual([
+      'Bullet 1 copies the article word for word.',
+    ]);
+  });
+
+  it('should fail a summary in the wrong language', () => {
+    const result = scoreSummary(GOOD, ARTICLE, {
+      format: 'bullets',
+      expectedLanguage: 'es-ES',
+      summaryLanguage: english,
+    });
+
+    expect(result.checks.language).toBe(0);
+    expect(result.passed).toBe(false);
+    expect(result.problems[0]).toMatch(/written in English/);
+  });
+
+  it('should skip the language check on an unsure detection', () => {
+    const result = scoreSummary(GOOD, ARTICLE, {
+      format: 'bullets',
+      expectedLanguage: 'es',
+      summaryLanguage: { ...english, confidence: 0.3 },
+    });
+
+    expect(result.checks.language).toBeUndefined();
+    expect(result.passed).toBe(true);
+  });
+});
+
+describe('checkSummaryQuality', () => {
+  const COPIED = [
+    'During deep sleep, memories move from short-term storage into long-term storage.',
+    'Short naps can restore alertness, but naps longer than half an hour leave many people groggy.',
+    GOOD[2],
+  ];
+
+  it('should keep a passing summary without retrying', async () => {
+    const revise = vi.fn();
+
+    const result = await checkSummaryQuality(GOOD, ARTICLE, {
+      format: 'bullets',
+      revise,
+    });
+
+    expect(revise).not.toHaveBeenCalled();
+    expect(result.summary).toBe(GOOD);
+    expect(result.quality).toMatchObject({ passed: true, attempts: 1 });
+  });
+
+  it('should retry a failing summary with what to fix', async () => {
+    const revise = vi.fn().mockResolvedValue(GOOD);
+
+    const result = await checkSummaryQuality(COPIED, ARTICLE, {
+      format: 'bullets',
+      revise,
+    });
+
+    expect(revise).toHaveBeenCalledWith(COPIED, [
+      'Bullet 1 copies the article word for word.',
+      'Bullet 2 copies the article word for word.',
+    ]);
+    expect(result.summary).toEqual(GOOD);
+    expect(result.quality).toMatchObject({
+      score: 1,
+      passed: true,
+      attempts: 2,
+    });
+  });
+
+  it('should keep the original when the retry scores worse', async () => {
+    const revise = vi.fn().mockResolvedValue([ARTICLE]);
+
+    const result = await checkSummaryQuality(COPIED, ARTICLE, {
+      format: 'bullets',
+      revise,
+    });
+
+    expect(revise).toHaveBeenCalledTimes(1);
+    expect(result.summary).toBe(COPIED);
+    expect(result.quality).toMatchObject({ passed: false, attempts: 2 });
+  });
+
+  it('should score the summary language when it can be detected', async () => {
+    const detectLanguage = vi.fn().mockResolvedValue(english);
+
+    const result = await checkSummaryQuality(GOOD, ARTICLE, {
+      format: 'bullets',
+      expectedLanguage: 'en',
+      detectLanguage,
+    });
+
+    expect(detectLanguage).toHaveBeenCalledWith(GOOD.join('\n'));
+    expect(result.quality.checks.language).toBe(1);
+  });
+
+  it('should carry on without failed detections and retries', async () => {
+    const result = await checkSummaryQuality(COPIED, ARTICLE, {
+      format: 'bullets',
+      expectedLanguage: 'en',
+      detectLanguage: vi.fn().mockRejectedValue(new Error('unavailable')),
+      revise: vi.fn().mockRejectedValue(new Error('model busy')),
+    });
+
+    expect(result.summary).toBe(COPIED);
+    expect(result.quality.checks.language).toBeUndefined();
+  });
+
+  it('should stop when the request is cancelled', async () => {
+    const pending = checkSummaryQuality(COPIED, ARTICLE, {
+      format: 'bullets',
+      revise: vi.fn().mockRejectedValue(createAbortError()),
+    });
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Quality checks for built-in summaries
+ * A summary is scored on its length limits, on items repeating one
+ * another, on items copied from the article word for word and on being
+ * written in the expected language. A summary that fails is sent back
+ * with a corrective prompt, and the best-scoring summary is kept.
+ */
+
+import type {
+  LanguageDetection,
+  SummaryFormat,
+  SummaryQuality,
+} from '../../../types';
+import { CONTENT_LIMITS, SUMMARY_QUALITY } from '../../../constants';
+import { countWords } from '../../../utils';
+import { devLog, devWarn } from '../../../utils/logger';
+import { isAbortError } from './aiScheduler';
+
+/**
+ * A scored summary and what its checks found
+ */
+export interface SummaryScore extends Omit<SummaryQuality, 'attempts'> {
+  problems: string[]; // One sentence per problem, for the corrective prompt
+}
+
+/**
+ * What a summary is checked against
+ */
+export interface SummaryScoreOptions {
+  format: SummaryFormat;
+  expectedLanguage?: string; // Language the summary should be written in
+  summaryLanguage?: LanguageDetection; // Language the summary was detected in
+}
+
+/**
+ * Scoring plus the services the checks and retries use
+ */
+export interface SummaryQualityOptions
+  extends Omit<SummaryScoreOptions, 'summaryLanguage'> {
+  detectLanguage?: (text: string) => Promise<LanguageDetection>;
+  revise?: (summary: string[], problems: string[]) => Promise<string[]>;
+  maxRetries?: number;
+}
+
+const words = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) ?? [];
+
+const ngrams = (tokens: string[], size: number): string[] => {
+  const grams: string[] = [];
+  for (let i = 0; i + size <= tokens.length; i++) {
+    grams.push(tokens.slice(i, i + size).join(' '));
+  }
+  return grams;
+};
+
+const primaryLanguage = (language: string) =>
+  language.toLowerCase().split(/[-_]/)[0];
+
+/**
+ * Name of a summary item in problem descriptions
+ */
+function itemName(format: SummaryFormat, index: number): string {
+  if (format === 'paragraph') return 'The paragraph';
+  if (format === 'headline-bullets') {
+    return index === 0 ? 'The headline' : `Bullet ${index}`;
+  }
+  return `Bullet ${index + 1}`;
+}
+
+function wordLimit(format: SummaryFormat, index: number): number {
+  if (format === 'paragraph') return SUMMARY_QUALITY.MAX_PARAGRAPH_WORDS;
+  if (format === 'headline-bullets' && index === 0) {
+    return SUMMARY_QUALITY.MAX_HEADLINE_WORDS;
+  }
+  return CONTENT_LIMITS.MAX_SUMMARY_WORDS;
+}
+
+/**
+ * Share of word sets two items have in common (Jaccard similarity)
+ */
+function similarity(a: string, b: string): number {
+  const setA = new Set(words(a));
+  const setB = new Set(words(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach((word) => {
+    if (setB.has(word)) shared++;
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Score a summary
+ * @param summary - Summary items, as shown to the user
+ * @param source - Article text the summary was written from
+ * @param options - Format, and the languages to compare
+ */
+export function scoreSummary(
+  summary: string[],
+  source: string,
+  options: SummaryScoreOptions
+): SummaryScore {
+  const { format, expectedLanguage, summaryLanguage } = options;
+  const problems: string[] = [];
+  const items = summary.filter((item) => item.trim().length > 0);
+
+  // Length: every item within its word limit
+  let withinLimit = 0;
+  items.forEach((item, index) => {
+    const count = countWords(item);
+    const limit = wordLimit(format, index);
+    if (count <= limit) {
+      withinLimit++;
+    } else {
+      problems.push(
+        `${itemName(format, index)} has ${count} words; use at most ${limit}.`
+      );
+    }
+  });
+  const length = items.length ? withinLimit / items.length : 0;
+
+  // Redundancy: pairs of points that say the same thing
+  const offset = format === 'headline-bullets' ? 1 : 0;
+  const points = items.slice(offset);
+  let pairs = 0;
+  let repeated = 0;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      pairs++;
+      if (
+        similarity(points[i], points[j]) >= SUMMARY_QUALITY.REDUNDANT_SIMILARITY
+      ) {
+        repeated++;
+        problems.push(
+          `${itemName(format, i + offset)} and ${itemName(format, j + offset).toLowerCase()} make the same point.`
+        );
+      }
+    }
+  }
+  const redundancy = pairs ? 1 - repeated / pairs : 1;
+
+  // Source overlap: items made of runs of words lifted from the article
+  const size = SUMMARY_QUALITY.COPY_NGRAM_WORDS;
+  const sourceGrams = new Set(ngrams(words(source), size));
+  let copied = 0;
+  items.forEach((item, index) => {
+    const grams = ngrams(words(item), size);
+    if (grams.length === 0) return;
+    const found = grams.filter((gram) => sourceGrams.has(gram)).length;
+    if (found / grams.length >= SUMMARY_QUALITY.MAX_SOURCE_OVERLAP) {
+      copied++;
+      problems.push(
+        `${itemName(format, index)} copies the article word for word.`
+      );
+    }
+  });
+  const sourceOverlap = items.length ? 1 - copied / items.length : 0;
+
+  // Language: only judged on a confident detection
+  let language: number | undefined;
+  if (
+    expectedLanguage &&
+    summaryLanguage &&
+    summaryLanguage.confidence >= SUMMARY_QUALITY.MIN_LANGUAGE_CONFIDENCE
+  ) {
+    language =
+      primaryLanguage(summaryLanguage.detectedLanguage) ===
+      primaryLanguage(expectedLanguage)
+        ? 1
+        : 0;
+    if (language === 0) {
+      problems.push(
+        `The summary is written in ${summaryLanguage.languageName}; write it in the language asked for.`
+      );
+    }
+  }
+
+  const checks: SummaryQuality['checks'] = {
+    length,
+    redundancy,
+    sourceOverlap,
+    ...(language === undefined ? {} : { language }),
+  };
+  const { WEIGHTS } = SUMMARY_QUALITY;
+  const weighted = (Object.keys(checks) as (keyof typeof WEIGHTS)[]).reduce(
+    (totals, name) => ({
+      sum: totals.sum + (checks[name] ?? 0) * WEIGHTS[name],
+      weight: totals.weight + WEIGHTS[name],
+    }),
+    { sum: 0, weight: 0 }
+  );
+  const score = weighted.sum / weighted.weight;
+
+  return {
+    score,
+    passed:
+      score >= SUMMARY_QUALITY.PASS_SCORE &&
+      Object.values(checks).every(
+        (value) => value >= SUMMARY_QUALITY.MIN_CHECK_SCORE
+      ),
+    checks,
+    problems,
+  };
+}
+
+/**
+ * Score a summary and, while it fails, ask for a corrected one
+ * Language detection and corrective prompts that fail are skipped; only
+ * a cancelled request stops the checks.
+ * @param summary - Summary items to check
+ * @param source - Article text the summary was written from
+ * @param options - What to check against, and how to detect and revise
+ * @returns The best-scoring summary and its quality
+ */
+export async function checkSummaryQuality(
+  summary: string[],
+  source: string,
+  options: SummaryQualityOptions
+): Promise<{ summary: string[]; quality: SummaryQuality }> {
+  const {
+    detectLanguage,
+    revise,
+    maxRetries = SUMMARY_QUALITY.MAX_RETRIES,
+  } = options;
+
+  const score = async (items: string[]) => {
+    let summaryLanguage: LanguageDetection | undefined;
+    if (detectLanguage && options.expectedLanguage) {
+      try {
+        summaryLanguage = await detectLanguage(items.join('\n'));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        devWarn('[SummaryQuality] Language detection failed:', error);
+      }
+    }
+    return scoreSummary(items, source, { ...options, summaryLanguage });
+  };
+
+  let best = { summary, score: await score(summary) };
+  let attempts = 1;
+
+  while (!best.score.passed && revise && attempts <= maxRetries) {
+    devLog(
+      `[SummaryQuality] Score ${best.score.score.toFixed(2)}, retrying:`,
+      best.score.problems
+    );
+    attempts++;
+    let revised: string[];
+    try {
+      revised = await revise(best.summary, best.score.problems);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      devWarn('[SummaryQuality] Corrective prompt failed:', error);
+      break;
+    }
+    if (revised.length === 0) continue;
+
+    const revisedScore = await score(revised);
+    if (revisedScore.score > best.score.score) {
+      best = { summary: revised, score: revisedScore };
+    }
+  }
+
+  const { score: total, passed, checks } = best.score;
+  return {
+    summary: best.summary,
+    quality: { score: total, passed, attempts, checks },
+  };
+}
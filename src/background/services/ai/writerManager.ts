@@ -7,6 +7,7 @@
 import type { WriterOptions } from '../../../types';
 import type { AIWriter } from '../../../types/chrome-ai';
 import { capabilityDetector } from '../../capabilityDetector';
+import { abortable, isAbortError } from './aiScheduler';
 import { devLog, devWarn, devError } from '../../../utils/logger';
 
 /**
@@ -174,7 +175,8 @@ export class WriterManager {
   /**
    * Write/generate text with specified options (main method for message handlers)
    * @param prompt - Prompt for text generation
-   * @param options - Writer options (tone, format, length, outputLanguage)
+   * @param options - Writer options (tone, format, length, outputLanguage),
+   * and a signal that stops the request
    * @returns Generated text
    */
   async write(
@@ -186,6 +188,7 @@ export class WriterManager {
       outputLanguage?: string;
       expectedInputLanguages?: string[];
       expectedContextLanguages?: string[];
+      signal?: AbortSignal;
     }
   ): Promise<string> {
     // Map to WriterOptions format
@@ -202,7 +205,8 @@ export class WriterManager {
       {
         expectedInputLanguages: options?.expectedInputLanguages,
         expectedContextLanguages: options?.expectedContextLanguages,
-      }
+      },
+      options?.signal
     );
   }
 
@@ -233,6 +237,7 @@ export class WriterManager {
    * @param options - Writer options (tone, length)
    * @param context - Optional context (e.g., summary) for better generation
    * @param outputLanguage - Target language for generated text
+   * @param signal - Stops the generation, without a retry (optional)
    * @returns Generated draft text
    * @throws Error if generation fails after retry
    */
@@ -241,7 +246,8 @@ export class WriterManager {
     options: WriterOptions,
     context?: string,
     outputLanguage?: string,
-    languageOptions?: WriterLanguageOptions
+    languageOptions?: WriterLanguageOptions,
+    signal?: AbortSignal
   ): Promise<string> {
     // Check availability first
     if (!this.available) {
@@ -259,9 +265,11 @@ export class WriterManager {
         context,
         outputLanguage,
         languageOptions,
-        WRITER_TIMEOUT
+        WRITER_TIMEOUT,
+        signal
       );
     } catch (error) {
+      if (isAbortError(error)) throw error;
       devWarn('First generation attempt failed, retrying...', error);
 
       try {
@@ -272,9 +280,11 @@ export class WriterManager {
           context,
           outputLanguage,
           languageOptions,
-          RETRY_TIMEOUT
+          RETRY_TIMEOUT,
+          signal
         );
       } catch (retryError) {
+        if (isAbortError(retryError)) throw retryError;
         devError('Generation failed after retry:', retryError);
         throw new Error(
           `Draft generation failed: ${retryError instanceof Error ? retryError.message : 'Unknown error'}`
@@ -290,6 +300,7 @@ export class WriterManager {
    * @param context - Optional context
    * @param outputLanguage - Target language for generated text
    * @param timeout - Timeout in milliseconds
+   * @param signal - Abort signal (optional)
    * @returns Generated draft text
    */
   private async generateWithTimeout(
@@ -298,7 +309,8 @@ export class WriterManager {
     context: string | undefined,
     outputLanguage: string | undefined,
     languageOptions: WriterLanguageOptions | undefined,
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<string> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Writer timeout')), timeout);
@@ -309,10 +321,11 @@ export class WriterManager {
       options,
       context,
       outputLanguage,
-      languageOptions
+      languageOptions,
+      signal
     );
 
-    return Promise.race([generatePromise, timeoutPromise]);
+    return Promise.race([abortable(generatePromise, signal), timeoutPromise]);
   }
 
   /**
@@ -321,6 +334,7 @@ export class WriterManager {
    * @param options - Writer options (tone, length)
    * @param context - Optional context for better generation
    * @param outputLanguage - Target language for generated text
+   * @param signal - Abort signal (optional)
    * @returns Generated draft text
    */
   private async executeGenerate(
@@ -328,7 +342,8 @@ export class WriterManager {
     options: WriterOptions,
     context?: string,
     outputLanguage?: string,
-    languageOptions?: WriterLanguageOptions
+    languageOptions?: WriterLanguageOptions,
+    signal?: AbortSignal
   ): Promise<string> {
     // Map tone and length to Writer API values
     const apiTone = this.mapTone(options.tone);
@@ -353,7 +368,9 @@ export class WriterManager {
     const fullPrompt = context ? `Context: ${context}\n\n${topic}` : topic;
 
     // Generate draft - pass the full prompt as input
-    const result = await session.write(fullPrompt);
+    const result = await (signal
+      ? session.write(fullPrompt, { signal })
+      : session.write(fullPrompt));
 
     // Format response as clean paragraph text
     const cleanedText = result.trim();
@@ -377,6 +394,7 @@ export class WriterManager {
    * @param context - Optional context for better generation
    * @param onChunk - Callback for each text chunk
    * @param outputLanguage - Target language for generated text
+   * @param signal - Stops the stream (optional)
    * @returns Complete generated text
    */
   async generateStreaming(
@@ -385,7 +403,8 @@ export class WriterManager {
     context: string | undefined,
     onChunk: (chunk: string) => void,
     outputLanguage?: string,
-    languageOptions?: WriterLanguageOptions
+    languageOptions?: WriterLanguageOptions,
+    signal?: AbortSignal
   ): Promise<string> {
     // Check availability first
     if (!this.available) {
@@ -423,11 +442,13 @@ export class WriterManager {
       // Get streaming response and iterate using for await...of
       const stream = session.writeStreaming(topic, {
         context: context,
+        ...(signal && { signal }),
       });
       let fullText = '';
 
       // Use for await...of to iterate over the stream as per documentation
       for await (const chunk of stream) {
+        signal?.throwIfAborted();
         fullText += chunk;
         // Call chunk callback for progressive UI updates
         onChunk(chunk);
@@ -435,6 +456,7 @@ export class WriterManager {
 
       return fullText.trim();
     } catch (error) {
+      if (isAbortError(error)) throw error;
       devError('Streaming generation failed:', error);
       throw new Error(
         `Streaming generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for AIResultCache
+ * Tests hits, invalidation on changed text or prompts, and LRU eviction
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIResultCache, hashText } from './aiResultCache';
+import { STORAGE_KEYS } from '../../../constants';
+
+describe('AIResultCache', () => {
+  let store: Map<string, any>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.spyOn(chrome.storage.local, 'get').mockImplementation((key: any) =>
+      Promise.resolve({ [key]: store.get(key) })
+    );
+    vi.spyOn(chrome.storage.local, 'set').mockImplementation((items: any) => {
+      Object.entries(items).forEach(([key, value]) =>
+        store.set(key, structuredClone(value))
+      );
+      return Promise.resolve();
+    });
+  });
+
+  const summary = {
+    kind: 'summary' as const,
+    content: 'Article text',
+    url: 'https://example.com/a',
+    variant: 'bullets|en',
+    fingerprint: 'template v1',
+  };
+
+  it('should return stored results', async () => {
+    const cache = new AIResultCache();
+    await cache.set(summary, ['One', 'Two'], 'summarizer');
+
+    expect(await cache.get(summary)).toMatchObject({
+      value: ['One', 'Two'],
+      apiUsed: 'summarizer',
+    });
+    expect(await cache.get({ ...summary, variant: 'paragraph|en' })).toBe(null);
+  });
+
+  it('should persist results across instances', async () => {
+    const first = new AIResultCache();
+    await first.set(summary, ['One'], 'prompt');
+    await first.flush();
+
+    expect((await new AIResultCache().get(summary))?.value).toEqual(['One']);
+    expect(store.has(STORAGE_KEYS.AI_RESULT_CACHE)).toBe(true);
+  });
+
+  it('should drop results when the page text or prompts change', async () => {
+    const cache = new AIResultCache();
+    await cache.set(summary, ['One'], 'prompt');
+
+    expect(await cache.get({ ...summary, content: 'Edited text' })).toBe(null);
+    // The stale entry is gone even for the original text
+    expect(await cache.get(summary)).toBe(null);
+
+    await cache.set(summary, ['One'], 'prompt');
+    expect(await cache.get({ ...summary, fingerprint: 'template v2' })).toBe(
+      null
+    );
+  });
+
+  it('should key results without a page by their input', async () => {
+    const cache = new AIResultCache();
+    const prompts = { kind: 'reflectionPrompts' as const, content: 'A\nB' };
+    await cache.set(prompts, ['Why?'], 'prompt');
+
+    expect((await cache.get(prompts))?.value).toEqual(['Why?']);
+    expect(await cache.get({ ...prompts, content: 'C' })).toBe(null);
+  });
+
+  it('should invalidate every result of a kind for a page', async () => {
+    const cache = new AIResultCache();
+    await cache.set(summary, ['One'], 'prompt');
+    await cache.set({ ...summary, variant: 'stream:bullets|en' }, '- One', 'x');
+    await cache.set({ ...summary, kind: 'language' }, { code: 'en' }, 'x');
+
+    await cache.invalidate('summary', summary.url);
+
+    expect(await cache.get(summary)).toBe(null);
+    expect(await cache.get({ ...summary, variant: 'stream:bullets|en' })).toBe(
+      null
+    );
+    expect(await cache.get({ ...summary, kind: 'language' })).not.toBe(null);
+  });
+
+  it('should evict the least recently used results over the size cap', async () => {
+    const now = vi.spyOn(Date, 'now');
+    const cache = new AIResultCache(700);
+    const page = (n: number) => ({ ...summary, url: `https://e.com/${n}` });
+
+    now.mockReturnValue(1);
+    await cache.set(page(1), 'x'.repeat(100), 'prompt');
+    now.mockReturnValue(2);
+    await cache.set(page(2), 'x'.repeat(100), 'prompt');
+    now.mockReturnValue(3);
+    await cache.get(page(1));
+    now.mockReturnValue(4);
+    await cache.set(page(3), 'x'.repeat(100), 'prompt');
+
+    expect(await cache.get(page(2))).toBe(null);
+    expect(await cache.get(page(1))).not.toBe(null);
+    expect(await cache.get(page(3))).not.toBe(null);
+    now.mockRestore();
+  });
+
+  it('should hash equal text equally and different text differently', () => {
+    expect(hashText('abc')).toBe(hashText('abc'));
+    expect(hashText('abc')).not.toBe(hashText('abd'));
+  });
+});
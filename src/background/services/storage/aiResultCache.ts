@@ -0,0 +1,222 @@
+/**
+ * AIResultCache - Persistent cache of AI results for pages already read
+ *
+ * Summaries, reflection prompts and language detections are stored in
+ * chrome.storage.local under one key, so revisiting an article doesn't
+ * run the models again. Entries are keyed by page URL (or by a hash of
+ * the input when there is no page) and remember a hash of the input text
+ * and of the prompts used: a page whose text changed, or a result written
+ * with a since-edited prompt template, is a miss and is dropped. The least
+ * recently used entries are evicted once the cache outgrows its size cap.
+ */
+
+import { AI_RESULT_CACHE, STORAGE_KEYS } from '../../../constants';
+import { devLog, devWarn } from '../../../utils/logger';
+
+/**
+ * Kinds of AI result the cache holds
+ */
+export type AIResultKind = 'summary' | 'reflectionPrompts' | 'language';
+
+/**
+ * What a cached result was computed from
+ */
+export interface AIResultCacheRequest {
+  kind: AIResultKind;
+  content: string; // Input text; a change invalidates the entry
+  url?: string; // Page the input came from
+  variant?: string; // Options that select a different result, e.g. format
+  fingerprint?: string; // Prompts used; a change invalidates the entry
+}
+
+/**
+ * A cached result and the API that produced it
+ */
+export interface AIResultCacheHit<T> {
+  value: T;
+  apiUsed: string;
+  createdAt: number;
+}
+
+interface AIResultCacheEntry {
+  kind: AIResultKind;
+  url?: string;
+  contentHash: string;
+  fingerprintHash: string;
+  value: unknown;
+  apiUsed: string;
+  createdAt: number;
+  lastUsed: number;
+  bytes: number;
+}
+
+type CacheEntries = Record<string, AIResultCacheEntry>;
+
+/**
+ * 53-bit string hash (cyrb53); cache keys don't need a cryptographic hash
+ */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return `${hash.toString(36)}:${text.length.toString(36)}`;
+}
+
+const cacheKey = (request: AIResultCacheRequest, contentHash: string) =>
+  `${request.kind}|${request.url ?? contentHash}|${request.variant ?? ''}`;
+
+export class AIResultCache {
+  private entries: Promise<CacheEntries> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly maxBytes: number = AI_RESULT_CACHE.MAX_BYTES) {}
+
+  /**
+   * Look up a result
+   * @returns The cached result, or null on a miss or a stale entry
+   */
+  async get<T>(
+    request: AIResultCacheRequest
+  ): Promise<AIResultCacheHit<T> | null> {
+    const entries = await this.load();
+    const contentHash = hashText(request.content);
+    const key = cacheKey(request, contentHash);
+    const entry = entries[key];
+    if (!entry) return null;
+
+    if (
+      entry.contentHash !== contentHash ||
+      entry.fingerprintHash !== hashText(request.fingerprint ?? '')
+    ) {
+      devLog(`[AIResultCache] Stale entry for ${key}`);
+      delete entries[key];
+      this.persist(entries);
+      return null;
+    }
+
+    entry.lastUsed = Date.now();
+    this.persist(entries);
+    return {
+      value: entry.value as T,
+      apiUsed: entry.apiUsed,
+      createdAt: entry.createdAt,
+    };
+  }
+
+  /**
+   * Store a result, evicting the least recently used entries if needed
+   */
+  async set(
+    request: AIResultCacheRequest,
+    value: unknown,
+    apiUsed: string
+  ): Promise<void> {
+    const entries = await this.load();
+    const contentHash = hashText(request.content);
+    const key = cacheKey(request, contentHash);
+    const now = Date.now();
+    const entry: AIResultCacheEntry = {
+      kind: request.kind,
+      contentHash,
+      fingerprintHash: hashText(request.fingerprint ?? ''),
+      value,
+      apiUsed,
+      createdAt: now,
+      lastUsed: now,
+      bytes: 0,
+    };
+    if (request.url) entry.url = request.url;
+    entry.bytes = key.length + JSON.stringify(entry).length;
+
+    if (entry.bytes > this.maxBytes) return;
+    entries[key] = entry;
+    this.evict(entries);
+    this.persist(entries);
+  }
+
+  /**
+   * Drop every result of a kind for a page, e.g. when the user asks for
+   * a fresh summary
+   */
+  async invalidate(kind: AIResultKind, url: string): Promise<void> {
+    const entries = await this.load();
+    let removed = 0;
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.kind === kind && entry.url === url) {
+        delete entries[key];
+        removed++;
+      }
+    }
+    if (removed > 0) this.persist(entries);
+  }
+
+  /**
+   * Remove every cached result
+   */
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    for (const key of Object.keys(entries)) delete entries[key];
+    this.persist(entries);
+  }
+
+  /**
+   * Wait for pending writes to reach storage
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private load(): Promise<CacheEntries> {
+    this.entries ??= chrome.storage.local
+      .get(STORAGE_KEYS.AI_RESULT_CACHE)
+      .then((result) => {
+        const stored = result[STORAGE_KEYS.AI_RESULT_CACHE] as
+          | CacheEntries
+          | undefined;
+        return stored && typeof stored === 'object' ? stored : {};
+      })
+      .catch((error) => {
+        devWarn('[AIResultCache] Could not load cache:', error);
+        return {};
+      });
+    return this.entries;
+  }
+
+  /**
+   * Evict least recently used entries until the cache fits its cap
+   */
+  private evict(entries: CacheEntries): void {
+    const byAge = Object.entries(entries).sort(
+      ([, a], [, b]) => a.lastUsed - b.lastUsed
+    );
+    let total = byAge.reduce((sum, [, entry]) => sum + entry.bytes, 0);
+    for (const [key, entry] of byAge) {
+      if (total <= this.maxBytes) break;
+      delete entries[key];
+      total -= entry.bytes;
+    }
+  }
+
+  /**
+   * Queue a write of the cache, so writes land in order
+   */
+  private persist(entries: CacheEntries): void {
+    this.writeQueue = this.writeQueue
+      .then(() =>
+        chrome.storage.local.set({ [STORAGE_KEYS.AI_RESULT_CACHE]: entries })
+      )
+      .catch((error) => {
+        devWarn('[AIResultCache] Could not save cache:', error);
+      });
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for BackupManager
+ * Tests snapshot rotation, skipping unchanged backups, restore and alarms
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BackupManager } from './backupManager';
+import { IndexedDBReflectionRepository } from './reflectionRepository';
+import { StorageManager } from './storageManager';
+import { BACKUP, DEFAULT_SETTINGS } from '../../../constants';
+import type { Reflection } from '../../../types';
+
+const makeReflection = (id: string, overrides: Partial<Reflection> = {}) =>
+  ({
+    id,
+    url: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    createdAt: Date.now(),
+    summary: ['Insight', 'Surprise', 'Apply'],
+    reflection: ['Answer'],
+    ...overrides,
+  }) as Reflection;
+
+describe('BackupManager', () => {
+  let storageManager: StorageManager;
+  let backupManager: BackupManager;
+
+  beforeEach(() => {
+    const localStore = new Map<string, unknown>();
+    vi.spyOn(chrome.storage.local, 'get').mockImplementation((keys: any) => {
+      const result: Record<string, unknown> = {};
+      (Array.isArray(keys) ? keys : [keys]).forEach((key: string) => {
+        result[key] = localStore.get(key);
+      });
+      return Promise.resolve(result);
+    });
+    vi.spyOn(chrome.storage.local, 'set').mockImplementation((items: any) => {
+      Object.entries(items as Record<string, unknown>).forEach(([key, value]) =>
+        localStore.set(key, value)
+      );
+      return Promise.resolve();
+    });
+
+    vi.mocked(chrome.alarms.create).mockReset();
+    vi.mocked(chrome.alarms.clear).mockReset();
+    vi.mocked(chrome.alarms.get).mockReset();
+
+    const factory = new IDBFactory();
+    storageManager = new StorageManager(
+      new IndexedDBReflectionRepository(factory)
+    );
+    backupManager = new BackupManager(storageManager, factory);
+  });
+
+  it('should snapshot every reflection', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+    await storageManager.saveReflection(makeReflection('b'));
+
+    const backup = await backupManager.createBackup('manual');
+
+    expect(backup).toMatchObject({ trigger: 'manual', reflectionCount: 2 });
+    expect(await backupManager.listBackups()).toEqual([backup]);
+  });
+
+  it('should keep only the newest snapshots', async () => {
+    for (const id of ['a', 'b', 'c', 'd']) {
+      await storageManager.saveReflection(makeReflection(id));
+      await backupManager.createBackup('scheduled', 2);
+    }
+
+    const backups = await backupManager.listBackups();
+    expect(backups.map((b) => b.reflectionCount)).toEqual([4, 3]);
+  });
+
+  it('should skip scheduled snapshots when nothing changed', async () => {
+    expect(await backupManager.createBackup('scheduled')).toBeNull();
+
+    await storageManager.saveReflection(makeReflection('a'));
+    expect(await backupManager.createBackup('scheduled')).not.toBeNull();
+    expect(await backupManager.createBackup('scheduled')).toBeNull();
+    expect(await backupManager.createBackup('manual')).not.toBeNull();
+  });
+
+  it('should restore a snapshot after saving the current state', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+    const backup = await backupManager.createBackup('manual');
+    await storageManager.clearAllReflections();
+    await storageManager.saveReflection(makeReflection('z'));
+
+    const result = await backupManager.restoreBackup(backup!.id, 1);
+
+    expect(result.restored).toBe(1);
+    const reflections = await storageManager.getReflections();
+    expect(reflections.map((r) => r.id)).toEqual(['a']);
+    expect(reflections[0].embedding).toBeDefined();
+
+    // The snapshot taken before restoring is kept alongside the restored one
+    const backups = await backupManager.listBackups();
+    expect(backups.map((b) => b.id)).toEqual([
+      result.safetyBackupId,
+      backup!.id,
+    ]);
+  });
+
+  it('should keep the current reflections when a restore fails', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+    // Functions can't be stored, so writing this record throws
+    const unstorable = {
+      ...makeReflection('b'),
+      onOpen: () => undefined,
+    } as Reflection;
+
+    await expect(
+      storageManager.replaceAllReflections([makeReflection('c'), unstorable])
+    ).rejects.toThrow();
+
+    const reflections = await storageManager.getReflections();
+    expect(reflections.map((r) => r.id)).toEqual(['a']);
+  });
+
+  it('should reject unknown snapshots', async () => {
+    await expect(backupManager.restoreBackup('missing')).rejects.toThrow(
+      'Backup not found'
+    );
+  });
+
+  it('should schedule the alarm from settings', async () => {
+    await backupManager.schedule({
+      ...DEFAULT_SETTINGS,
+      backupIntervalHours: 6,
+    });
+    expect(chrome.alarms.create).toHaveBeenCalledWith(BACKUP.ALARM_NAME, {
+      delayInMinutes: 360,
+      periodInMinutes: 360,
+    });
+
+    vi.mocked(chrome.alarms.get).mockResolvedValue({
+      name: BACKUP.ALARM_NAME,
+      scheduledTime: Date.now(),
+      periodInMinutes: 360,
+    });
+    vi.mocked(chrome.alarms.create).mockClear();
+    await backupManager.schedule({
+      ...DEFAULT_SETTINGS,
+      backupIntervalHours: 6,
+    });
+    expect(chrome.alarms.create).not.toHaveBeenCalled();
+
+    await backupManager.schedule({ ...DEFAULT_SETTINGS, backupEnabled: false });
+    expect(chrome.alarms.clear).toHaveBeenCalledWith(BACKUP.ALARM_NAME);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * BackupManager - Rotating local snapshots of all reflections
+ *
+ * Snapshots are JSON exports (the same format as the JSON exporter)
+ * written to their own IndexedDB store, so they survive
+ * clearAllReflections and can be restored through the importer's
+ * validation. A chrome.alarms alarm takes scheduled snapshots; only the
+ * newest `retention` snapshots are kept.
+ */
+
+import type {
+  BackupRestoreResult,
+  BackupSummary,
+  BackupTrigger,
+  Settings,
+} from '../../../types';
+import { ValidationError } from '../../../types/errors';
+import { BACKUP, INDEXED_DB } from '../../../constants';
+import { generateUUID } from '../../../utils';
+import { devLog } from '../../../utils/logger';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+import { createExportFile, getExporter } from './exporters';
+import { parseImport } from './importer';
+import type { StorageManager } from './storageManager';
+
+/**
+ * Row in the backups object store
+ */
+interface BackupRecord extends BackupSummary {
+  data: string; // JSON export of every reflection
+}
+
+const toSummary = (record: BackupRecord): BackupSummary => ({
+  id: record.id,
+  createdAt: record.createdAt,
+  trigger: record.trigger,
+  reflectionCount: record.reflectionCount,
+  bytes: record.bytes,
+});
+
+export class BackupManager {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly storageManager: StorageManager,
+    private readonly factory: IDBFactory | null = typeof indexedDB !==
+    'undefined'
+      ? indexedDB
+      : null
+  ) {}
+
+  /**
+   * Whether backups can be stored in this environment
+   */
+  isAvailable(): boolean {
+    return this.factory !== null;
+  }
+
+  /**
+   * Create or clear the backup alarm to match the user's settings
+   * @param settings Current settings
+   */
+  async schedule(settings: Settings): Promise<void> {
+    // Backups are on unless the user turned them off
+    if (settings.backupEnabled === false || !this.isAvailable()) {
+      await chrome.alarms.clear(BACKUP.ALARM_NAME);
+      return;
+    }
+
+    const periodInMinutes =
+      (settings.backupIntervalHours ?? BACKUP.DEFAULT_INTERVAL_HOURS) * 60;
+    const existing = await chrome.alarms.get(BACKUP.ALARM_NAME);
+    // Recreating an unchanged alarm would push the next backup back
+    if (existing?.periodInMinutes === periodInMinutes) return;
+
+    await chrome.alarms.create(BACKUP.ALARM_NAME, {
+      delayInMinutes: periodInMinutes,
+      periodInMinutes,
+    });
+    devLog('[Backup] Scheduled every', periodInMinutes, 'minutes');
+  }
+
+  /**
+   * Check whether an alarm is the backup alarm
+   */
+  isBackupAlarm(alarm: chrome.alarms.Alarm): boolean {
+    return alarm.name === BACKUP.ALARM_NAME;
+  }
+
+  /**
+   * Snapshot every reflection
+   * Scheduled snapshots are skipped when there is nothing to back up or
+   * nothing changed since the newest snapshot, so an idle week doesn't
+   * rotate out older, different snapshots.
+   * @param trigger Why the snapshot is taken
+   * @param retention Number of snapshots to keep afterwards
+   * @returns The new snapshot, or null if it was skipped
+   */
+  async createBackup(
+    trigger: BackupTrigger,
+    retention: number = BACKUP.DEFAULT_RETENTION
+  ): Promise<BackupSummary | null> {
+    const reflections = await this.storageManager.getReflections();
+    const { data } = createExportFile(getExporter('json')!, reflections);
+
+    if (trigger === 'scheduled') {
+      const latest = await this.getLatestRecord();
+      if (reflections.length === 0 || latest?.data === data) {
+        devLog('[Backup] Nothing new to back up');
+        return null;
+      }
+    }
+
+    const record: BackupRecord = {
+      id: generateUUID(),
+      createdAt: Date.now(),
+      trigger,
+      reflectionCount: reflections.length,
+      bytes: new TextEncoder().encode(data).length,
+      data,
+    };
+
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.BACKUPS_STORE, 'readwrite');
+    transaction.objectStore(INDEXED_DB.BACKUPS_STORE).put(record);
+    await transactionDone(transaction);
+
+    await this.prune(retention);
+    devLog('[Backup] Saved', trigger, 'snapshot of', record.reflectionCount);
+    return toSummary(record);
+  }
+
+  /**
+   * List stored snapshots, newest first
+   */
+  async listBackups(): Promise<BackupSummary[]> {
+    return (await this.getAllRecords()).map(toSummary);
+  }
+
+  /**
+   * Replace every reflection with the contents of a snapshot
+   * The current reflections are snapshotted first so a restore can be
+   * undone; that snapshot doesn't count against retention until the next
+   * backup, so the one being restored is never pruned by it.
+   * @param id Snapshot ID
+   * @param retention Number of snapshots to keep
+   * @throws ValidationError if the snapshot does not exist
+   */
+  async restoreBackup(
+    id: string,
+    retention: number = BACKUP.DEFAULT_RETENTION
+  ): Promise<BackupRestoreResult> {
+    const db = await this.open();
+    const record = await promisifyRequest(
+      db
+        .transaction(INDEXED_DB.BACKUPS_STORE, 'readonly')
+        .objectStore(INDEXED_DB.BACKUPS_STORE)
+        .get(id) as IDBRequest<BackupRecord | undefined>
+    );
+    if (!record) {
+      throw new ValidationError('Backup not found', 'id', id);
+    }
+
+    const { reflections } = parseImport(record.data);
+    const current = await this.storageManager.getReflections();
+    const safety =
+      current.length > 0
+        ? await this.createBackup('pre-restore', retention + 1)
+        : null;
+
+    const removedIds =
+      await this.storageManager.replaceAllReflections(reflections);
+
+    return {
+      restored: reflections.length,
+      removedIds,
+      safetyBackupId: safety?.id,
+    };
+  }
+
+  /**
+   * Delete all but the newest snapshots
+   * @param retention Number of snapshots to keep
+   */
+  private async prune(retention: number): Promise<void> {
+    const stale = (await this.getAllRecords()).slice(retention);
+    if (stale.length === 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.BACKUPS_STORE, 'readwrite');
+    const store = transaction.objectStore(INDEXED_DB.BACKUPS_STORE);
+    for (const record of stale) {
+      store.delete(record.id);
+    }
+    await transactionDone(transaction);
+  }
+
+  private async getLatestRecord(): Promise<BackupRecord | null> {
+    const db = await this.open();
+    const cursor = await promisifyRequest(
+      db
+        .transaction(INDEXED_DB.BACKUPS_STORE, 'readonly')
+        .objectStore(INDEXED_DB.BACKUPS_STORE)
+        .index('createdAt')
+        .openCursor(null, 'prev')
+    );
+    return (cursor?.value as BackupRecord | undefined) ?? null;
+  }
+
+  // Newest first
+  private async getAllRecords(): Promise<BackupRecord[]> {
+    const db = await this.open();
+    const records = await promisifyRequest(
+      db
+        .transaction(INDEXED_DB.BACKUPS_STORE, 'readonly')
+        .objectStore(INDEXED_DB.BACKUPS_STORE)
+        .index('createdAt')
+        .getAll() as IDBRequest<BackupRecord[]>
+    );
+    return records.reverse();
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.factory) {
+      return Promise.reject(new Error('Backups need IndexedDB'));
+    }
+    this.dbPromise ??= openDatabase(this.factory, () => {
+      this.dbPromise = null;
+    }).catch((error: unknown) => {
+      this.dbPromise = null;
+      throw error;
+    });
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Shared IndexedDB database for reflections and backups
+ * Every store is created in one upgrade handler so each connection sees
+ * the same schema, whichever part of the extension opens it first.
+ */
+
+import { INDEXED_DB } from '../../../constants';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IDB error'));
+  });
+}
+
+/**
+ * Resolve when a transaction commits, reject if it aborts
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error('IDB transaction failed'));
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('IDB transaction aborted'));
+  });
+}
+
+/**
+ * Create any stores and indexes missing from an older schema version
+ */
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains(INDEXED_DB.REFLECTIONS_STORE)) {
+    const store = db.createObjectStore(INDEXED_DB.REFLECTIONS_STORE, {
+      keyPath: 'id',
+    });
+    store.createIndex('createdAt', 'createdAt');
+    store.createIndex('domain', 'domain');
+    store.createIndex('tags', 'tags', { multiEntry: true });
+    store.createIndex('detectedLanguage', 'detectedLanguage');
+  }
+
+  // Added in version 2
+  if (!db.objectStoreNames.contains(INDEXED_DB.BACKUPS_STORE)) {
+    const store = db.createObjectStore(INDEXED_DB.BACKUPS_STORE, {
+      keyPath: 'id',
+    });
+    store.createIndex('createdAt', 'createdAt');
+  }
+}
+
+/**
+ * Open the extension database, upgrading the schema if needed
+ * @param factory IndexedDB factory (injectable for tests)
+ * @param onClose Called when the connection closes, so a cached
+ *   connection can be dropped and reopened
+ * @returns Open database connection
+ */
+export function openDatabase(
+  factory: IDBFactory,
+  onClose?: () => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(INDEXED_DB.NAME, INDEXED_DB.VERSION);
+
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the extension upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        onClose?.();
+      };
+      // Closed by the browser, e.g. when the database is deleted
+      db.onclose = () => onClose?.();
+      resolve(db);
+    };
+    request.onerror = () =>
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+  });
+}
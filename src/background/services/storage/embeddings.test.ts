@@ -0,0 +1,95 @@
+/**
+ * Unit tests for local embeddings
+ * Tests determinism, similarity ordering and nearest-neighbour lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  embedText,
+  embedReflection,
+  cosineSimilarity,
+  findNearest,
+} from './embeddings';
+import { EMBEDDING } from '../../../constants';
+import type { Reflection } from '../../../types';
+
+const makeReflection = (id: string, overrides: Partial<Reflection> = {}) =>
+  ({
+    id,
+    url: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    createdAt: Date.now(),
+    summary: [],
+    reflection: [],
+    ...overrides,
+  }) as Reflection;
+
+describe('embedText', () => {
+  it('should produce deterministic unit vectors', () => {
+    const a = embedText('Sleep improves memory consolidation');
+    const b = embedText('Sleep improves memory consolidation');
+
+    expect(a).toHaveLength(EMBEDDING.DIMENSIONS);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 3);
+  });
+
+  it('should return a zero vector for text without content words', () => {
+    const vector = embedText('the and of');
+
+    expect(vector.every((v) => v === 0)).toBe(true);
+    expect(cosineSimilarity(vector, embedText('memory'))).toBe(0);
+  });
+
+  it('should score topical overlap above unrelated text', () => {
+    const query = embedText('How sleep helps memory and learning');
+    const similar = embedText('Deep sleep strengthens memory after learning');
+    const unrelated = embedText('Sourdough bread needs a patient starter');
+
+    expect(cosineSimilarity(query, similar)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated)
+    );
+  });
+});
+
+describe('findNearest', () => {
+  const withEmbedding = (reflection: Reflection) => ({
+    ...reflection,
+    embedding: embedReflection(reflection),
+  });
+
+  const reflections = [
+    withEmbedding(
+      makeReflection('sleep', {
+        title: 'Why we sleep',
+        summary: ['Sleep consolidates memory and learning'],
+      })
+    ),
+    withEmbedding(
+      makeReflection('bread', {
+        title: 'Baking sourdough',
+        summary: ['A starter needs patience and warm water'],
+      })
+    ),
+    makeReflection('legacy', { title: 'Sleep and memory' }),
+  ];
+
+  it('should return the closest reflections first', () => {
+    const related = findNearest(
+      embedText('memory improves with good sleep'),
+      reflections
+    );
+
+    expect(related.map((r) => r.reflection.id)).toEqual(['sleep']);
+    expect(related[0].similarity).toBeGreaterThan(EMBEDDING.MIN_SIMILARITY);
+  });
+
+  it('should skip excluded reflections and ones without embeddings', () => {
+    const related = findNearest(embedText('sleep memory'), reflections, {
+      excludeIds: ['sleep'],
+      minSimilarity: -1,
+    });
+
+    expect(related.map((r) => r.reflection.id)).toEqual(['bread']);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Local reflection embeddings
+ * Deterministic hashed bag-of-words vectors (unigrams and bigrams) that run
+ * fully offline, used to find related reflections
+ */
+
+import type { Reflection, RelatedReflection } from '../../../types';
+import { EMBEDDING } from '../../../constants';
+import { tokenize } from './searchIndex';
+
+// Common English words that carry little topical meaning
+const STOP_WORDS = new Set(
+  [
+    'a about after all also an and any are as at be because been but by',
+    'can could did do does for from had has have how i if in into is it',
+    'its just may me more most my no not of on one or our out so some than',
+    'that the their them then there these they this to up was we were what',
+    'when which who will with would you your',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Embed free text into a unit-length vector
+ * Each feature is hashed to a bucket with a hashed sign so collisions
+ * tend to cancel out instead of piling up
+ * @param text Text to embed
+ * @returns Vector of EMBEDDING.DIMENSIONS values (all zero for empty text)
+ */
+export function embedText(text: string): number[] {
+  const terms = tokenize(text)
+    .map((token) => token.term)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+
+  const counts = new Map<string, number>();
+  terms.forEach((term, index) => {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+    if (index > 0) {
+      const bigram = `${terms[index - 1]} ${term}`;
+      counts.set(bigram, (counts.get(bigram) ?? 0) + EMBEDDING.BIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Array<number>(EMBEDDING.DIMENSIONS).fill(0);
+  for (const [feature, count] of counts) {
+    const h = hash(feature);
+    const sign = h & 0x80000000 ? -1 : 1;
+    // Dampen repeated terms so one word cannot dominate
+    vector[h % EMBEDDING.DIMENSIONS] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    return vector;
+  }
+  // Rounded to keep stored reflections small
+  return vector.map((v) => Math.round((v / norm) * 1e4) / 1e4);
+}
+
+/**
+ * Embed the parts of a reflection that describe its topic
+ * @param reflection Reflection to embed
+ */
+export function embedReflection(reflection: Reflection): number[] {
+  return embedText(
+    [
+      reflection.title,
+      ...(reflection.summary ?? []),
+      ...(reflection.reflection ?? []),
+      ...(reflection.tags ?? []),
+    ].join('\n')
+  );
+}
+
+/**
+ * Check whether a reflection has a usable embedding
+ */
+export function hasEmbedding(reflection: Reflection): boolean {
+  return (
+    Array.isArray(reflection.embedding) &&
+    reflection.embedding.length === EMBEDDING.DIMENSIONS
+  );
+}
+
+/**
+ * Cosine similarity between two vectors
+ * @returns Similarity in [-1, 1], or 0 when either vector is empty
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Find the reflections closest to a query vector
+ * @param query Query embedding
+ * @param reflections Candidates; ones without an embedding are skipped
+ * @param options Result limit, minimum similarity and IDs to leave out
+ * @returns Matches ordered by similarity, most similar first
+ */
+export function findNearest(
+  query: number[],
+  reflections: Reflection[],
+  options: {
+    limit?: number;
+    minSimilarity?: number;
+    excludeIds?: string[];
+  } = {}
+): RelatedReflection[] {
+  const {
+    limit = EMBEDDING.MAX_RELATED,
+    minSimilarity = EMBEDDING.MIN_SIMILARITY,
+    excludeIds = [],
+  } = options;
+  const excluded = new Set(excludeIds);
+
+  return reflections
+    .filter((r) => !excluded.has(r.id) && hasEmbedding(r))
+    .map((reflection) => ({
+      reflection,
+      similarity: cosineSimilarity(query, reflection.embedding!),
+    }))
+    .filter((match) => match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
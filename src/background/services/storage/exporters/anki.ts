@@ -0,0 +1,91 @@
+/**
+ * Anki export
+ * Tab-separated notes for Anki's "Import File" dialog: one card per
+ * summary bullet and one per answered reflection question. The file
+ * headers tell Anki the separator, that fields are HTML and which column
+ * holds tags.
+ */
+
+import type { Reflection } from '../../../../types';
+import { isCustomSummaryFormat } from '../../../../utils/summaryFormats';
+import { escapeHTML } from './html';
+import { labelSummary } from './markdown';
+
+// Questions shown for reflections saved before prompts were stored
+const DEFAULT_PROMPTS = [
+  'What did you find most interesting?',
+  'How might you apply this?',
+];
+
+const SUMMARY_QUESTIONS = [
+  'What is the key insight of',
+  'What is surprising about',
+  'How can you apply',
+];
+
+const HEADER = ['#separator:tab', '#html:true', '#tags column:3'];
+
+// Fields are HTML, so tabs and newlines can't break the row
+function toField(text: string): string {
+  return escapeHTML(text.trim()).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Build the cards for one reflection
+ * @returns [front, back] pairs
+ */
+export function buildAnkiCards(reflection: Reflection): [string, string][] {
+  const cards: [string, string][] = [];
+  const title = `“${reflection.title}”`;
+
+  if (isCustomSummaryFormat(reflection.summaryFormat)) {
+    // Custom format items are asked about by their own label
+    const items = labelSummary(reflection.summary, reflection.summaryFormat);
+    (items ?? [{ label: 'Summary', text: reflection.summary[0] }]).forEach(
+      ({ label, text }, index) => {
+        if (!text.trim()) return;
+        cards.push([
+          label ? `${label} (${title})` : `Point ${index + 1} of ${title}`,
+          text,
+        ]);
+      }
+    );
+  } else {
+    reflection.summary.forEach((bullet, index) => {
+      if (!bullet.trim()) return;
+      const question = SUMMARY_QUESTIONS[index];
+      const front = question
+        ? `${question} ${title}?`
+        : `Point ${index + 1} of ${title}`;
+      cards.push([front, bullet]);
+    });
+  }
+
+  reflection.reflection.forEach((answer, index) => {
+    if (!answer.trim()) return;
+    const prompt =
+      reflection.prompts?.[index] ?? DEFAULT_PROMPTS[index] ?? 'Reflection';
+    cards.push([`${prompt}\n(${reflection.title})`, answer]);
+  });
+
+  return cards;
+}
+
+/**
+ * Export reflections as an Anki-importable TSV
+ * Every card is tagged "reflexa" plus the reflection's own tags.
+ * @param reflections Reflections to export
+ * @returns TSV text
+ */
+export function toAnkiTSV(reflections: Reflection[]): string {
+  const lines = [...HEADER];
+
+  for (const reflection of reflections) {
+    const tags = ['reflexa', ...(reflection.tags ?? [])].join(' ');
+    for (const [front, back] of buildAnkiCards(reflection)) {
+      lines.push([toField(front), toField(back), tags].join('\t'));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,67 @@
+/**
+ * CSV export
+ * One row per reflection, for spreadsheets. Follows RFC 4180 quoting.
+ */
+
+import type { Reflection } from '../../../../types';
+
+const COLUMNS = [
+  'ID',
+  'Title',
+  'URL',
+  'Created',
+  'Insight',
+  'Surprise',
+  'Apply',
+  'Reflection',
+  'Proofread Version',
+  'Tags',
+  'Language',
+  'Tone',
+  'Author',
+  'Published',
+  'Site',
+  'Reading Time (min)',
+];
+
+/**
+ * Quote a cell when needed
+ * Cells starting with a formula character get a leading apostrophe so
+ * spreadsheets don't evaluate text taken from web pages.
+ */
+export function escapeCSVCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Export reflections as CSV
+ * Multi-paragraph answers share one cell, separated by blank lines.
+ * @param reflections Reflections to export
+ * @returns CSV text with a header row and CRLF line endings
+ */
+export function toCSV(reflections: Reflection[]): string {
+  const rows = reflections.map((reflection) => [
+    reflection.id,
+    reflection.title,
+    reflection.url,
+    new Date(reflection.createdAt).toISOString(),
+    reflection.summary[0] ?? '',
+    reflection.summary[1] ?? '',
+    reflection.summary[2] ?? '',
+    reflection.reflection.join('\n\n'),
+    reflection.proofreadVersion ?? '',
+    (reflection.tags ?? []).join(', '),
+    reflection.detectedLanguage ?? '',
+    reflection.toneUsed ?? '',
+    reflection.source?.author ?? '',
+    reflection.source?.publishedDate ?? '',
+    reflection.source?.siteName ?? '',
+    reflection.source?.estimatedReadingTime?.toString() ?? '',
+  ]);
+
+  return [COLUMNS, ...rows]
+    .map((row) => row.map(escapeCSVCell).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+}
@@ -0,0 +1,351 @@
+/**
+ * Unit tests for the exporter registry and export formats
+ * Tests CSV quoting, Anki cards, HTML escaping and the Obsidian zip
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildAnkiCards,
+  crc32,
+  createExportFile,
+  createZip,
+  escapeCSVCell,
+  generateMarkdownHeader,
+  generateReflectionMarkdown,
+  getExporter,
+  getExporters,
+  toAnkiTSV,
+  toCSV,
+  toHTML,
+  toNoteFileName,
+  toObsidianNote,
+  toObsidianVault,
+} from './index';
+import { EXPORT_FORMATS } from '../../../../constants';
+import type { Reflection } from '../../../../types';
+
+const makeReflection = (id: string, overrides: Partial<Reflection> = {}) =>
+  ({
+    id,
+    url: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    createdAt: new Date(2025, 0, 15, 9, 30).getTime(),
+    summary: ['Insight text', 'Surprise text', 'Apply text'],
+    reflection: ['First answer', 'Second answer'],
+    ...overrides,
+  }) as Reflection;
+
+// Source details and an outline, as saved from an article
+const withSource = {
+  source: {
+    author: 'Ada Fields',
+    siteName: 'Quiet <Letters>',
+    estimatedReadingTime: 6,
+  },
+  outline: [
+    { type: 'heading', level: 2, text: 'Why read slowly' },
+    { type: 'paragraph', text: 'Because it sticks.' },
+    { type: 'heading', level: 3, text: 'One idea a day' },
+  ],
+} as Partial<Reflection>;
+
+// Read the file names and contents back out of a stored zip
+function readZip(archive: Uint8Array): Record<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset);
+  const decoder = new TextDecoder();
+  const end = archive.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      archive.subarray(position + 46, position + 46 + nameLength)
+    );
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    const data = archive.subarray(start, start + size);
+    expect(crc32(data)).toBe(crc);
+    files[name] = decoder.decode(data);
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('exporter registry', () => {
+  it('should register an exporter for every export format', () => {
+    const formats = getExporters().map((exporter) => exporter.format);
+
+    expect(formats.sort()).toEqual(Object.values(EXPORT_FORMATS).sort());
+    expect(getExporter('pdf')).toBeUndefined();
+  });
+
+  it('should base64-encode binary output', () => {
+    const file = createExportFile(getExporter('obsidian')!, [
+      makeReflection('a'),
+    ]);
+
+    expect(file.encoding).toBe('base64');
+    expect(file.filename).toMatch(/^reflexa-reflections-.+\.zip$/);
+    const bytes = Uint8Array.from(atob(file.data), (c) => c.charCodeAt(0));
+    expect(Object.keys(readZip(bytes))).toHaveLength(1);
+  });
+
+  it('should return text output as-is', () => {
+    const file = createExportFile(getExporter('json')!, [makeReflection('a')]);
+
+    expect(file.encoding).toBe('utf-8');
+    expect(JSON.parse(file.data)).toHaveLength(1);
+  });
+});
+
+describe('generateMarkdownHeader', () => {
+  it('should record the filters applied', () => {
+    const header = generateMarkdownHeader(2, {
+      domain: 'example.com',
+      language: 'en',
+    });
+
+    expect(header).toContain('Total Reflections: 2\n');
+    expect(header).toContain(
+      'Filters:\n- Domain: example.com\n- Language: en\n'
+    );
+  });
+
+  it('should leave out the filters section when unfiltered', () => {
+    expect(generateMarkdownHeader(2, {})).not.toContain('Filters:');
+  });
+});
+
+describe('generateReflectionMarkdown', () => {
+  it("should show the article's source and outline headings", () => {
+    const markdown = generateReflectionMarkdown(
+      makeReflection('a', withSource)
+    );
+
+    expect(markdown).toContain(
+      '**Author:** Ada Fields\n**Site:** Quiet <Letters>\n**Reading Time:** 6 min\n'
+    );
+    expect(markdown).toContain(
+      '### Article Outline\n\n- Why read slowly\n  - One idea a day\n'
+    );
+    expect(markdown).not.toContain('Because it sticks.');
+  });
+});
+
+describe('toCSV', () => {
+  it('should quote commas, quotes and newlines', () => {
+    expect(escapeCSVCell('plain')).toBe('plain');
+    expect(escapeCSVCell('a, b')).toBe('"a, b"');
+    expect(escapeCSVCell('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCSVCell('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should neutralize spreadsheet formulas', () => {
+    expect(escapeCSVCell('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+    expect(escapeCSVCell('@cmd')).toBe("'@cmd");
+  });
+
+  it('should write a header and one row per reflection', () => {
+    const csv = toCSV([
+      makeReflection('a', { tags: ['focus', 'habits'] }),
+      makeReflection('b', { title: 'Commas, everywhere' }),
+    ]);
+    const lines = csv.trimEnd().split('\r\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^ID,Title,URL,Created,Insight/);
+    expect(lines[1]).toContain('"First answer\n\nSecond answer"');
+    expect(lines[1]).toContain('"focus, habits"');
+    expect(lines[2]).toContain('"Commas, everywhere"');
+  });
+});
+
+describe('toAnkiTSV', () => {
+  it('should make a card per summary bullet and answered question', () => {
+    const cards = buildAnkiCards(
+      makeReflection('a', {
+        prompts: ['What changed your mind?', 'What will you try?'],
+        reflection: ['The data', ''],
+      })
+    );
+
+    expect(cards).toHaveLength(4);
+    expect(cards[0]).toEqual([
+      'What is the key insight of “Article a”?',
+      'Insight text',
+    ]);
+    expect(cards[3]).toEqual([
+      'What changed your mind?\n(Article a)',
+      'The data',
+    ]);
+  });
+
+  it('should ask about custom format items by their label', () => {
+    const cards = buildAnkiCards(
+      makeReflection('a', {
+        summaryFormat: 'custom:key-terms',
+        summary: ['Habit loop: cue, routine, reward'],
+        reflection: [],
+      })
+    );
+
+    expect(cards).toEqual([
+      ['Habit loop (“Article a”)', 'cue, routine, reward'],
+    ]);
+  });
+
+  it('should fall back to the default questions', () => {
+    const cards = buildAnkiCards(makeReflection('a'));
+
+    expect(cards[4][0]).toMatch(/^How might you apply this\?/);
+  });
+
+  it('should keep each card on one tab-separated line', () => {
+    const tsv = toAnkiTSV([
+      makeReflection('a', {
+        tags: ['focus'],
+        reflection: ['Line one\nline\ttwo <b>', ''],
+      }),
+    ]);
+    const lines = tsv.trimEnd().split('\n');
+
+    expect(lines.slice(0, 3)).toEqual([
+      '#separator:tab',
+      '#html:true',
+      '#tags column:3',
+    ]);
+    expect(lines).toHaveLength(3 + 4);
+    expect(lines[lines.length - 1]).toBe(
+      'What did you find most interesting?<br>(Article a)\tLine one<br>line two &lt;b&gt;\treflexa focus'
+    );
+  });
+});
+
+describe('toHTML', () => {
+  it('should escape content and only link web URLs', () => {
+    const html = toHTML([
+      makeReflection('a', { title: '<script>alert(1)</script>' }),
+      makeReflection('b', { url: 'javascript:alert(1)' }),
+    ]);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).toContain('<a href="https://example.com/a">');
+    expect(html).not.toContain('href="javascript:');
+  });
+
+  it('should show a custom format paragraph as text', () => {
+    const html = toHTML([
+      makeReflection('a', {
+        summaryFormat: 'custom:eli5',
+        summary: ['Like <b>charging</b> a phone'],
+      }),
+    ]);
+
+    expect(html).toContain('<p>Like &lt;b&gt;charging&lt;/b&gt; a phone</p>');
+    expect(html).not.toContain('<strong>Insight:</strong>');
+  });
+
+  it("should show the article's source and outline headings", () => {
+    const html = toHTML([makeReflection('a', withSource)]);
+
+    expect(html).toContain(
+      '<p class="meta">Author: Ada Fields · Site: Quiet &lt;Letters&gt; · Reading Time: 6 min</p>'
+    );
+    expect(html).toContain('<li style="margin-left: 1rem">One idea a day</li>');
+  });
+});
+
+describe('Obsidian export', () => {
+  it('should write YAML front-matter', () => {
+    const note = toObsidianNote(
+      makeReflection('a', {
+        title: 'Quotes "and" colons: here',
+        tags: ['focus', 'habits'],
+        toneUsed: 'calm',
+      })
+    );
+
+    expect(note.split('\n').slice(0, 9)).toEqual([
+      '---',
+      'title: "Quotes \\"and\\" colons: here"',
+      'source: "https://example.com/a"',
+      `created: ${new Date(2025, 0, 15, 9, 30).toISOString()}`,
+      'tags:',
+      '  - focus',
+      '  - habits',
+      'tone: calm',
+      '---',
+    ]);
+    expect(note).toContain('- **Insight:** Insight text');
+  });
+
+  it('should render custom format summaries with their own labels', () => {
+    const labeled = toObsidianNote(
+      makeReflection('a', {
+        summaryFormat: 'custom:cornell-notes',
+        summary: ['Cue: Why sleep?', 'Plain note'],
+      })
+    );
+    const paragraph = toObsidianNote(
+      makeReflection('b', {
+        summaryFormat: 'custom:eli5',
+        summary: ['Sleep is like charging a phone.'],
+      })
+    );
+
+    expect(labeled).toContain('- **Cue:** Why sleep?\n- Plain note');
+    expect(labeled).not.toContain('Insight');
+    expect(paragraph).toContain(
+      '## Summary\n\nSleep is like charging a phone.'
+    );
+  });
+
+  it("should record the article's source and outline", () => {
+    const note = toObsidianNote(makeReflection('a', withSource));
+
+    expect(note).toContain(
+      'author: "Ada Fields"\nsite: "Quiet <Letters>"\nreading_time: 6\n---'
+    );
+    expect(note).toContain(
+      '## Article Outline\n\n- Why read slowly\n  - One idea a day\n'
+    );
+  });
+
+  it('should build safe, unique file names', () => {
+    const reflection = makeReflection('a', { title: 'What/is: this?' });
+
+    expect(toNoteFileName(reflection)).toBe('2025-01-15 Whatis this.md');
+
+    const files = readZip(toObsidianVault([reflection, reflection]));
+    expect(Object.keys(files)).toEqual([
+      'Reflexa/2025-01-15 Whatis this.md',
+      'Reflexa/2025-01-15 Whatis this 2.md',
+    ]);
+  });
+});
+
+describe('createZip', () => {
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should store UTF-8 names and contents', () => {
+    const files = readZip(
+      createZip([
+        { name: 'notes/café.md', content: 'Ünïcode' },
+        { name: 'empty.txt', content: '' },
+      ])
+    );
+
+    expect(files).toEqual({ 'notes/café.md': 'Ünïcode', 'empty.txt': '' });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * HTML export
+ * A single self-contained page (inline styles, no scripts) that can be
+ * opened, printed or shared without the extension.
+ */
+
+import type { Reflection } from '../../../../types';
+import { formatDate } from '../../../../utils';
+import {
+  CHAT_HEADING,
+  CHAT_SPEAKERS,
+  OUTLINE_HEADING,
+  QUESTION_CHAIN_HEADING,
+  describeSource,
+  getOutlineHeadings,
+  labelSummary,
+} from './markdown';
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; line-height: 1.6; }
+header { border-bottom: 1px solid #e2e8f0; margin-bottom: 2rem; }
+article { border-bottom: 1px solid #e2e8f0; padding-bottom: 1.5rem; margin-bottom: 1.5rem; }
+h2 { margin-bottom: 0.25rem; }
+h2 a { color: inherit; }
+.meta, .tags { color: #64748b; font-size: 0.875rem; }
+.prompt { font-style: italic; color: #475569; margin-bottom: 0.25rem; }
+.answer { white-space: pre-wrap; margin-top: 0; }
+`;
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only link web pages; anything else (javascript:, data:) is shown as text
+function renderTitle(reflection: Reflection): string {
+  const title = escapeHTML(reflection.title);
+  return /^https?:\/\//i.test(reflection.url)
+    ? `<a href="${escapeHTML(reflection.url)}">${title}</a>`
+    : title;
+}
+
+function renderReflection(reflection: Reflection): string {
+  const parts = [
+    `<article>`,
+    `<h2>${renderTitle(reflection)}</h2>`,
+    `<p class="meta">${escapeHTML(formatDate(reflection.createdAt))}</p>`,
+  ];
+
+  const source = describeSource(reflection.source);
+  if (source.length > 0) {
+    parts.push(
+      `<p class="meta">${source
+        .map(({ label, value }) => `${label}: ${escapeHTML(value)}`)
+        .join(' · ')}</p>`
+    );
+  }
+
+  if (reflection.summary.length > 0) {
+    parts.push('<h3>Summary</h3>');
+    const items = labelSummary(reflection.summary, reflection.summaryFormat);
+    if (items) {
+      parts.push('<ul>');
+      items.forEach(({ label, text }) => {
+        parts.push(
+          label
+            ? `<li><strong>${escapeHTML(label)}:</strong> ${escapeHTML(text)}</li>`
+            : `<li>${escapeHTML(text)}</li>`
+        );
+      });
+      parts.push('</ul>');
+    } else {
+      parts.push(`<p>${escapeHTML(reflection.summary[0])}</p>`);
+    }
+  }
+
+  if (reflection.reflection.length > 0) {
+    parts.push('<h3>Reflections</h3>');
+    reflection.reflection.forEach((answer, index) => {
+      const prompt = reflection.prompts?.[index];
+      if (prompt) parts.push(`<p class="prompt">${escapeHTML(prompt)}</p>`);
+      parts.push(`<p class="answer">${escapeHTML(answer)}</p>`);
+    });
+  }
+
+  if (reflection.proofreadVersion) {
+    parts.push(
+      '<h3>Proofread Version</h3>',
+      `<p class="answer">${escapeHTML(reflection.proofreadVersion)}</p>`
+    );
+  }
+
+  if (reflection.questionChain && reflection.questionChain.length > 0) {
+    parts.push(`<h3>${QUESTION_CHAIN_HEADING}</h3>`);
+    reflection.questionChain.forEach(({ question, answer }) => {
+      parts.push(
+        `<p class="prompt">${escapeHTML(question)}</p>`,
+        `<p class="answer">${escapeHTML(answer)}</p>`
+      );
+    });
+  }
+
+  if (reflection.chat && reflection.chat.length > 0) {
+    parts.push(`<h3>${CHAT_HEADING}</h3>`);
+    reflection.chat.forEach(({ role, content }) => {
+      parts.push(
+        `<p class="answer"><strong>${CHAT_SPEAKERS[role]}:</strong> ${escapeHTML(content)}</p>`
+      );
+    });
+  }
+
+  const headings = getOutlineHeadings(reflection.outline);
+  if (headings.length > 0) {
+    parts.push(`<h3>${OUTLINE_HEADING}</h3>`, '<ul>');
+    headings.forEach(({ depth, text }) => {
+      parts.push(
+        `<li style="margin-left: ${depth}rem">${escapeHTML(text)}</li>`
+      );
+    });
+    parts.push('</ul>');
+  }
+
+  if (reflection.tags && reflection.tags.length > 0) {
+    const tags = reflection.tags.map((tag) => `#${escapeHTML(tag)}`);
+    parts.push(`<p class="tags">${tags.join(' ')}</p>`);
+  }
+
+  parts.push('</article>');
+  return parts.join('\n');
+}
+
+/**
+ * Export reflections as a standalone HTML page
+ * @param reflections Reflections to export
+ * @returns HTML document
+ */
+export function toHTML(reflections: Reflection[]): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Reflexa AI - Reflections Export</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>Reflexa AI - Reflections Export</h1>
+<p class="meta">Exported on ${escapeHTML(formatDate(Date.now()))} · ${reflections.length} reflection${reflections.length === 1 ? '' : 's'}</p>
+</header>
+${reflections.map(renderReflection).join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Exporter registry
+ * Each export format registers how to turn reflections into a file. The
+ * background worker looks formats up here, so adding a format means
+ * registering an exporter and listing it in EXPORT_FORMATS.
+ */
+
+import type {
+  ExportFile,
+  ExportFilters,
+  ExportFormat,
+  Reflection,
+} from '../../../../types';
+import { formatISODate } from '../../../../utils';
+import { toAnkiTSV } from './anki';
+import { toCSV } from './csv';
+import { toHTML } from './html';
+import { toMarkdown } from './markdown';
+import { toObsidianVault } from './obsidian';
+
+/**
+ * Context passed to exporters alongside the reflections
+ */
+export interface ExportOptions {
+  filters?: ExportFilters; // Filters already applied to the reflections
+}
+
+export interface Exporter {
+  format: ExportFormat;
+  extension: string; // File extension without the dot
+  mimeType: string;
+  // Text formats return a string, binary formats (zip) return bytes
+  export: (
+    reflections: Reflection[],
+    options: ExportOptions
+  ) => string | Uint8Array;
+}
+
+const exporters = new Map<ExportFormat, Exporter>();
+
+/**
+ * Register an exporter, replacing any existing one for its format
+ */
+export function registerExporter(exporter: Exporter): void {
+  exporters.set(exporter.format, exporter);
+}
+
+/**
+ * Look up the exporter for a format
+ * @param format Format name, possibly untrusted
+ * @returns The exporter, or undefined if none is registered
+ */
+export function getExporter(format: string): Exporter | undefined {
+  return exporters.get(format as ExportFormat);
+}
+
+/**
+ * All registered exporters, in registration order
+ */
+export function getExporters(): Exporter[] {
+  return [...exporters.values()];
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Run an exporter and package its output for download
+ * @param exporter Exporter to run
+ * @param reflections Reflections to export
+ * @param options Context such as the filters applied
+ * @returns File name, MIME type and data (base64 for binary output)
+ */
+export function createExportFile(
+  exporter: Exporter,
+  reflections: Reflection[],
+  options: ExportOptions = {}
+): ExportFile {
+  const output = exporter.export(reflections, options);
+  return {
+    filename: `reflexa-reflections-${formatISODate(Date.now())}.${exporter.extension}`,
+    mimeType: exporter.mimeType,
+    ...(typeof output === 'string'
+      ? { data: output, encoding: 'utf-8' as const }
+      : { data: toBase64(output), encoding: 'base64' as const }),
+  };
+}
+
+registerExporter({
+  format: 'json',
+  extension: 'json',
+  mimeType: 'application/json;charset=utf-8',
+  export: (reflections) => JSON.stringify(reflections, null, 2),
+});
+
+registerExporter({
+  format: 'markdown',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8',
+  export: (reflections, { filters }) => toMarkdown(reflections, filters),
+});
+
+registerExporter({
+  format: 'csv',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8',
+  export: toCSV,
+});
+
+registerExporter({
+  format: 'html',
+  extension: 'html',
+  mimeType: 'text/html;charset=utf-8',
+  export: toHTML,
+});
+
+registerExporter({
+  format: 'anki',
+  extension: 'txt',
+  mimeType: 'text/tab-separated-values;charset=utf-8',
+  export: toAnkiTSV,
+});
+
+registerExporter({
+  format: 'obsidian',
+  extension: 'zip',
+  mimeType: 'application/zip',
+  export: toObsidianVault,
+});
+
+export { toAnkiTSV, buildAnkiCards } from './anki';
+export { toCSV, escapeCSVCell } from './csv';
+export { toHTML, escapeHTML } from './html';
+export {
+  toMarkdown,
+  generateMarkdownHeader,
+  generateReflectionMarkdown,
+} from './markdown';
+export { toObsidianVault, toObsidianNote, toNoteFileName } from './obsidian';
+export { createZip, crc32 } from './zip';
+export type { ZipEntry } from './zip';
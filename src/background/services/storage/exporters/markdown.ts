@@ -0,0 +1,358 @@
+/**
+ * Markdown export
+ * One document with a "## " section per reflection. The importer parses
+ * this layout back, so keep the two in step.
+ */
+
+import type {
+  ArticleSource,
+  ChatMessage,
+  ExportFilters,
+  OutlineBlock,
+  QuestionExchange,
+  Reflection,
+  SummaryFormat,
+} from '../../../../types';
+import { describeExportFilters, formatDate } from '../../../../utils';
+import {
+  isCustomSummaryFormat,
+  splitSummaryLabel,
+} from '../../../../utils/summaryFormats';
+
+// Labels for the three summary bullets, in order
+export const SUMMARY_LABELS = ['Insight', 'Surprise', 'Apply'];
+
+// Heading for the first question and its follow-ups
+export const QUESTION_CHAIN_HEADING = 'Follow-up Questions';
+
+// Heading and speaker names for a chat about the article
+export const CHAT_HEADING = 'Questions About the Article';
+export const CHAT_SPEAKERS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Reflexa',
+};
+
+// Field names for the article's source details, in the order shown
+export const SOURCE_LABELS: Record<keyof ArticleSource, string> = {
+  author: 'Author',
+  publishedDate: 'Published',
+  siteName: 'Site',
+  canonicalUrl: 'Canonical URL',
+  language: 'Page Language',
+  estimatedReadingTime: 'Reading Time',
+};
+
+// Heading for the article's outline
+export const OUTLINE_HEADING = 'Article Outline';
+
+/**
+ * Describe the article's source details for export
+ * @param source Source details saved with the reflection
+ * @returns Labeled values in SOURCE_LABELS order, skipping missing ones
+ */
+export function describeSource(
+  source: ArticleSource = {}
+): { label: string; value: string }[] {
+  return (Object.keys(SOURCE_LABELS) as (keyof ArticleSource)[])
+    .filter((field) => source[field] !== undefined)
+    .map((field) => ({
+      label: SOURCE_LABELS[field],
+      value:
+        field === 'estimatedReadingTime'
+          ? `${source.estimatedReadingTime} min`
+          : String(source[field]),
+    }));
+}
+
+/**
+ * The outline's headings with their depth below the top-level heading
+ * @param outline Outline saved with the reflection
+ * @returns Headings in order; depth 0 is the highest level present
+ */
+export function getOutlineHeadings(
+  outline: OutlineBlock[] = []
+): { depth: number; text: string }[] {
+  const headings = outline.flatMap((block) =>
+    block.type === 'heading' ? [block] : []
+  );
+  const top = Math.min(...headings.map((heading) => heading.level));
+  return headings.map(({ level, text }) => ({ depth: level - top, text }));
+}
+
+/**
+ * The outline's headings as a nested Markdown list
+ * @param outline Outline saved with the reflection
+ * @returns One line per heading
+ */
+export function outlineHeadingList(outline?: OutlineBlock[]): string[] {
+  return getOutlineHeadings(outline).map(
+    ({ depth, text }) => `${'  '.repeat(depth)}- ${text}`
+  );
+}
+
+/**
+ * A summary item as exporters show it
+ */
+export interface LabeledSummaryItem {
+  label?: string;
+  text: string;
+}
+
+/**
+ * Label each summary item for export
+ * Built-in summaries are labeled Insight / Surprise / Apply in order;
+ * custom format items carry their own "Label: " prefix, if any.
+ * @param summary Summary items
+ * @param format Summary format the items were written in
+ * @returns Items with labels, or null for a custom format's single
+ * paragraph, which is shown as plain text
+ */
+export function labelSummary(
+  summary: string[],
+  format?: SummaryFormat
+): LabeledSummaryItem[] | null {
+  if (!isCustomSummaryFormat(format)) {
+    return summary.map((text, index) => ({
+      label: SUMMARY_LABELS[index] ?? 'Point',
+      text,
+    }));
+  }
+
+  const items = summary.map(splitSummaryLabel);
+  return items.length === 1 && !items[0].label ? null : items;
+}
+
+/**
+ * Generate Markdown for AI metadata section
+ * @param reflection Reflection with AI metadata
+ * @returns Markdown string for AI metadata
+ */
+function generateAIMetadataMarkdown(reflection: Reflection): string {
+  let markdown = '### AI Processing\n\n';
+
+  // Add language information
+  if (reflection.detectedLanguage) {
+    markdown += `**Detected Language:** ${reflection.detectedLanguage}`;
+    if (reflection.originalLanguage) {
+      markdown += ` (Original: ${reflection.originalLanguage})`;
+    }
+    markdown += '\n';
+  }
+
+  if (reflection.translatedTo) {
+    markdown += `**Translated To:** ${reflection.translatedTo}\n`;
+  }
+
+  // Add summary format
+  if (reflection.summaryFormat) {
+    markdown += `**Summary Format:** ${reflection.summaryFormat}\n`;
+  }
+
+  // Add tone information
+  if (reflection.toneUsed) {
+    markdown += `**Tone Applied:** ${reflection.toneUsed}\n`;
+  }
+
+  // Add AI APIs used
+  if (reflection.aiMetadata) {
+    const apisUsed: string[] = [];
+    if (reflection.aiMetadata.summarizerUsed) apisUsed.push('Summarizer');
+    if (reflection.aiMetadata.writerUsed) apisUsed.push('Writer');
+    if (reflection.aiMetadata.rewriterUsed) apisUsed.push('Rewriter');
+    if (reflection.aiMetadata.proofreaderUsed) apisUsed.push('Proofreader');
+    if (reflection.aiMetadata.translatorUsed) apisUsed.push('Translator');
+    if (reflection.aiMetadata.promptFallback)
+      apisUsed.push('Prompt (Fallback)');
+
+    if (apisUsed.length > 0) {
+      markdown += `**AI APIs Used:** ${apisUsed.join(', ')}\n`;
+    }
+
+    if (reflection.aiMetadata.processingTime > 0) {
+      markdown += `**Processing Time:** ${reflection.aiMetadata.processingTime}ms\n`;
+    }
+  }
+
+  markdown += '\n';
+  return markdown;
+}
+
+/**
+ * Generate Markdown for summary section
+ * @param summary Array of summary bullets
+ * @param format Optional summary format
+ * @returns Markdown string for summary
+ */
+function generateSummaryMarkdown(
+  summary: string[],
+  format?: SummaryFormat
+): string {
+  let markdown = '### Summary';
+  if (format) {
+    markdown += ` (${format})`;
+  }
+  markdown += '\n\n';
+
+  const items = labelSummary(summary, format);
+  if (!items) {
+    markdown += `${summary[0]}\n`;
+  }
+  items?.forEach(({ label, text }) => {
+    markdown += label ? `- **${label}:** ${text}\n` : `- ${text}\n`;
+  });
+
+  markdown += '\n';
+  return markdown;
+}
+
+/**
+ * Generate Markdown for reflections section
+ * @param reflections Array of reflection texts
+ * @returns Markdown string for reflections
+ */
+function generateReflectionsMarkdown(reflections: string[]): string {
+  let markdown = '### Reflections\n\n';
+
+  reflections.forEach((text, index) => {
+    markdown += `${index + 1}. ${text}\n\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Generate Markdown for the first question and its follow-ups
+ * @param chain Questions and answers, in the order they were asked
+ * @returns Markdown string for the questions
+ */
+function generateQuestionChainMarkdown(chain: QuestionExchange[]): string {
+  let markdown = `### ${QUESTION_CHAIN_HEADING}\n\n`;
+
+  chain.forEach(({ question, answer }) => {
+    markdown += `**Question:** ${question}\n`;
+    markdown += `**Answer:** ${answer}\n\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Generate Markdown for a chat about the article
+ * @param chat Messages, oldest first
+ * @returns Markdown string for the chat
+ */
+function generateChatMarkdown(chat: ChatMessage[]): string {
+  let markdown = `### ${CHAT_HEADING}\n\n`;
+
+  chat.forEach(({ role, content }) => {
+    markdown += `**${CHAT_SPEAKERS[role]}:** ${content}\n\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Generate Markdown for a single reflection
+ * @param reflection Reflection to convert to Markdown
+ * @returns Markdown string for reflection
+ */
+export function generateReflectionMarkdown(reflection: Reflection): string {
+  let markdown = `## ${reflection.title}\n\n`;
+  markdown += `**URL:** ${reflection.url}\n`;
+  markdown += `**Date:** ${formatDate(reflection.createdAt)}\n`;
+  describeSource(reflection.source).forEach(({ label, value }) => {
+    markdown += `**${label}:** ${value}\n`;
+  });
+  markdown += '\n';
+
+  // Add AI metadata section if present
+  if (reflection.aiMetadata) {
+    markdown += generateAIMetadataMarkdown(reflection);
+  }
+
+  // Add summary section
+  if (reflection.summary && reflection.summary.length > 0) {
+    markdown += generateSummaryMarkdown(
+      reflection.summary,
+      reflection.summaryFormat
+    );
+  }
+
+  // Add reflections section
+  if (reflection.reflection && reflection.reflection.length > 0) {
+    markdown += generateReflectionsMarkdown(reflection.reflection);
+  }
+
+  // Add proofread version if exists
+  if (reflection.proofreadVersion) {
+    markdown += '### Proofread Version\n\n';
+    markdown += `${reflection.proofreadVersion}\n\n`;
+  }
+
+  // Add the follow-up questions if any were answered
+  if (reflection.questionChain && reflection.questionChain.length > 0) {
+    markdown += generateQuestionChainMarkdown(reflection.questionChain);
+  }
+
+  // Add the chat about the article if it was kept
+  if (reflection.chat && reflection.chat.length > 0) {
+    markdown += generateChatMarkdown(reflection.chat);
+  }
+
+  // Add the headings of the article's outline
+  const headings = outlineHeadingList(reflection.outline);
+  if (headings.length > 0) {
+    markdown += `### ${OUTLINE_HEADING}\n\n${headings.join('\n')}\n\n`;
+  }
+
+  // Add tags if exists
+  if (reflection.tags && reflection.tags.length > 0) {
+    markdown += `**Tags:** ${reflection.tags.join(', ')}\n\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Generate Markdown export header
+ * @param count Number of reflections
+ * @param filters Filters the export was narrowed by, if any
+ * @returns Markdown header string
+ */
+export function generateMarkdownHeader(
+  count: number,
+  filters?: ExportFilters
+): string {
+  let header = '# Reflexa AI - Reflections Export\n\n';
+  header += `Exported on: ${formatDate(Date.now())}\n`;
+  header += `Total Reflections: ${count}\n`;
+
+  const applied = describeExportFilters(filters);
+  if (applied.length > 0) {
+    header += '\nFilters:\n';
+    header += applied.map((line) => `- ${line}\n`).join('');
+  }
+
+  header += '\n---\n\n';
+  return header;
+}
+
+/**
+ * Export reflections as a single Markdown document
+ * @param reflections Reflections to export
+ * @param filters Filters the reflections were selected with
+ * @returns Markdown string of all reflections
+ */
+export function toMarkdown(
+  reflections: Reflection[],
+  filters?: ExportFilters
+): string {
+  let markdown = generateMarkdownHeader(reflections.length, filters);
+
+  for (const reflection of reflections) {
+    markdown += generateReflectionMarkdown(reflection);
+    markdown += '---\n\n';
+  }
+
+  return markdown;
+}
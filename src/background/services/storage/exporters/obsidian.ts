@@ -0,0 +1,157 @@
+/**
+ * Obsidian vault export
+ * A zip with one Markdown note per reflection. YAML front-matter carries
+ * the metadata so it shows up as Obsidian properties and tags.
+ */
+
+import type { Reflection } from '../../../../types';
+import { formatISODate } from '../../../../utils';
+import {
+  CHAT_HEADING,
+  CHAT_SPEAKERS,
+  OUTLINE_HEADING,
+  QUESTION_CHAIN_HEADING,
+  labelSummary,
+  outlineHeadingList,
+} from './markdown';
+import { createZip } from './zip';
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Build a note file name: "YYYY-MM-DD Title.md"
+ * Drops characters Obsidian or common file systems reject
+ */
+export function toNoteFileName(reflection: Reflection): string {
+  const title =
+    reflection.title
+      .replace(/[\\/:*?"<>|#^[\]]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_TITLE_LENGTH)
+      .trim() || 'Untitled';
+  return `${formatISODate(reflection.createdAt)} ${title}.md`;
+}
+
+// JSON strings are valid YAML double-quoted scalars
+const yamlString = (value: string): string => JSON.stringify(value);
+
+/**
+ * Render one reflection as a note with front-matter
+ */
+export function toObsidianNote(reflection: Reflection): string {
+  const lines = [
+    '---',
+    `title: ${yamlString(reflection.title)}`,
+    `source: ${yamlString(reflection.url)}`,
+    `created: ${new Date(reflection.createdAt).toISOString()}`,
+  ];
+  if (reflection.updatedAt) {
+    lines.push(`updated: ${new Date(reflection.updatedAt).toISOString()}`);
+  }
+  if (reflection.tags && reflection.tags.length > 0) {
+    lines.push('tags:', ...reflection.tags.map((tag) => `  - ${tag}`));
+  }
+  if (reflection.detectedLanguage) {
+    lines.push(`language: ${yamlString(reflection.detectedLanguage)}`);
+  }
+  if (reflection.summaryFormat) {
+    lines.push(`summary_format: ${reflection.summaryFormat}`);
+  }
+  if (reflection.toneUsed) {
+    lines.push(`tone: ${reflection.toneUsed}`);
+  }
+  const source = reflection.source ?? {};
+  if (source.author) lines.push(`author: ${yamlString(source.author)}`);
+  if (source.publishedDate) {
+    lines.push(`published: ${yamlString(source.publishedDate)}`);
+  }
+  if (source.siteName) lines.push(`site: ${yamlString(source.siteName)}`);
+  if (source.canonicalUrl) {
+    lines.push(`canonical: ${yamlString(source.canonicalUrl)}`);
+  }
+  if (source.language) {
+    lines.push(`page_language: ${yamlString(source.language)}`);
+  }
+  if (source.estimatedReadingTime !== undefined) {
+    lines.push(`reading_time: ${source.estimatedReadingTime}`);
+  }
+  lines.push(
+    '---',
+    '',
+    `# ${reflection.title}`,
+    '',
+    `[Source](<${reflection.url}>)`
+  );
+
+  if (reflection.summary.length > 0) {
+    lines.push('', '## Summary', '');
+    const items = labelSummary(reflection.summary, reflection.summaryFormat);
+    if (!items) lines.push(reflection.summary[0]);
+    items?.forEach(({ label, text }) => {
+      lines.push(label ? `- **${label}:** ${text}` : `- ${text}`);
+    });
+  }
+
+  if (reflection.reflection.length > 0) {
+    lines.push('', '## Reflections');
+    reflection.reflection.forEach((answer, index) => {
+      const prompt = reflection.prompts?.[index];
+      lines.push(
+        '',
+        prompt ? `### ${prompt}` : `### ${index + 1}.`,
+        '',
+        answer
+      );
+    });
+  }
+
+  if (reflection.proofreadVersion) {
+    lines.push('', '## Proofread Version', '', reflection.proofreadVersion);
+  }
+
+  if (reflection.questionChain && reflection.questionChain.length > 0) {
+    lines.push('', `## ${QUESTION_CHAIN_HEADING}`);
+    reflection.questionChain.forEach(({ question, answer }) => {
+      lines.push('', `### ${question}`, '', answer);
+    });
+  }
+
+  if (reflection.chat && reflection.chat.length > 0) {
+    lines.push('', `## ${CHAT_HEADING}`);
+    reflection.chat.forEach(({ role, content }) => {
+      lines.push('', `**${CHAT_SPEAKERS[role]}:** ${content}`);
+    });
+  }
+
+  const headings = outlineHeadingList(reflection.outline);
+  if (headings.length > 0) {
+    lines.push('', `## ${OUTLINE_HEADING}`, '', ...headings);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Export reflections as a zipped folder of Obsidian notes
+ * Notes with the same date and title get a numeric suffix.
+ * @param reflections Reflections to export
+ * @returns Zip archive bytes
+ */
+export function toObsidianVault(reflections: Reflection[]): Uint8Array {
+  const used = new Set<string>();
+  const entries = reflections.map((reflection) => {
+    const base = toNoteFileName(reflection).slice(0, -'.md'.length);
+    let name = `${base}.md`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} ${n}.md`;
+    }
+    used.add(name.toLowerCase());
+    return {
+      name: `Reflexa/${name}`,
+      content: toObsidianNote(reflection),
+      modifiedAt: reflection.updatedAt ?? reflection.createdAt,
+    };
+  });
+  return createZip(entries);
+}
@@ -0,0 +1,483 @@
+/**
+ * Reflection import parsing
+ * Reads the JSON and Markdown exports this extension produces and turns
+ * them back into reflections, rejecting entries that don't fit the
+ * Reflection shape
+ */
+
+import type {
+  AIMetadata,
+  ArticleSource,
+  ChatMessage,
+  QuestionExchange,
+  ReflectionPhaseTimes,
+  ImportFormat,
+  OutlineBlock,
+  Reflection,
+  SummaryFormat,
+  TonePreset,
+} from '../../../types';
+import { generateUUID, normalizeTags } from '../../../utils';
+import {
+  isCustomSummaryFormat,
+  isSummaryFormat,
+} from '../../../utils/summaryFormats';
+import {
+  CHAT_HEADING,
+  CHAT_SPEAKERS,
+  QUESTION_CHAIN_HEADING,
+  SOURCE_LABELS,
+} from './exporters/markdown';
+
+const TONE_PRESETS: TonePreset[] = [
+  'calm',
+  'concise',
+  'empathetic',
+  'academic',
+];
+
+// Markdown "AI APIs Used" labels and the metadata flags they map to
+const API_FLAGS: Record<
+  string,
+  Exclude<keyof AIMetadata, 'processingTime' | 'summaryQuality'>
+> = {
+  Summarizer: 'summarizerUsed',
+  Writer: 'writerUsed',
+  Rewriter: 'rewriterUsed',
+  Proofreader: 'proofreaderUsed',
+  Translator: 'translatorUsed',
+  'Prompt (Fallback)': 'promptFallback',
+};
+
+// Markdown source detail labels and the fields they map to
+const SOURCE_FIELDS = new Map(
+  Object.entries(SOURCE_LABELS).map(([field, label]) => [
+    label,
+    field as keyof ArticleSource,
+  ])
+);
+
+/**
+ * Result of parsing an export file
+ */
+export interface ParsedImport {
+  format: ImportFormat;
+  reflections: Reflection[];
+  errors: string[]; // One message per rejected entry
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const isNumberInRange = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' &&
+  Number.isFinite(value) &&
+  value >= min &&
+  value <= max;
+
+const isQuestionChain = (value: unknown): value is QuestionExchange[] =>
+  Array.isArray(value) &&
+  value.every(
+    (exchange) =>
+      !!exchange &&
+      typeof exchange === 'object' &&
+      isString((exchange as QuestionExchange).question) &&
+      isString((exchange as QuestionExchange).answer)
+  );
+
+const isChatMessages = (value: unknown): value is ChatMessage[] =>
+  Array.isArray(value) &&
+  value.every(
+    (message) =>
+      !!message &&
+      typeof message === 'object' &&
+      ((message as ChatMessage).role === 'user' ||
+        (message as ChatMessage).role === 'assistant') &&
+      isString((message as ChatMessage).content)
+  );
+
+const isPhaseTimes = (value: unknown): value is ReflectionPhaseTimes =>
+  !!value &&
+  typeof value === 'object' &&
+  isNumberInRange((value as ReflectionPhaseTimes).breathing, 0, Infinity) &&
+  isNumberInRange((value as ReflectionPhaseTimes).summary, 0, Infinity) &&
+  isNumberInRange((value as ReflectionPhaseTimes).questions, 0, Infinity);
+
+const isOutlineBlock = (value: unknown): value is OutlineBlock => {
+  if (!value || typeof value !== 'object') return false;
+  const block = value as Record<string, unknown>;
+  switch (block.type) {
+    case 'heading':
+      return (
+        Number.isInteger(block.level) &&
+        isNumberInRange(block.level, 1, 6) &&
+        isString(block.text)
+      );
+    case 'paragraph':
+    case 'blockquote':
+    case 'code':
+      return isString(block.text);
+    case 'list':
+      return typeof block.ordered === 'boolean' && isStringArray(block.items);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Keep the well-typed fields of untrusted source details
+ * @returns The valid fields, or undefined if there are none
+ */
+function toArticleSource(value: unknown): ArticleSource | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const entry = value as Record<string, unknown>;
+  const source: ArticleSource = {};
+  for (const field of Object.keys(SOURCE_LABELS) as (keyof ArticleSource)[]) {
+    if (field === 'estimatedReadingTime') {
+      if (isNumberInRange(entry[field], 0, Infinity)) {
+        source.estimatedReadingTime = entry[field] as number;
+      }
+    } else if (isString(entry[field])) {
+      source[field] = entry[field];
+    }
+  }
+  return Object.keys(source).length > 0 ? source : undefined;
+}
+
+/**
+ * Check an untrusted value against the Reflection shape
+ * Required fields must be present and well-typed; optional fields with the
+ * wrong type are dropped rather than failing the whole entry. Embeddings
+ * are dropped so they are recomputed locally.
+ * @param value Parsed entry
+ * @returns The reflection, or an error describing what's wrong
+ */
+export function validateReflection(
+  value: unknown
+): { reflection: Reflection } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'not an object' };
+  }
+  const entry = value as Record<string, unknown>;
+
+  if (!isString(entry.title) || !entry.title.trim()) {
+    return { error: 'missing title' };
+  }
+  if (!isString(entry.url) || !entry.url.trim()) {
+    return { error: 'missing URL' };
+  }
+  if (
+    typeof entry.createdAt !== 'number' ||
+    !Number.isFinite(entry.createdAt) ||
+    entry.createdAt <= 0
+  ) {
+    return { error: 'invalid creation date' };
+  }
+  if (!isStringArray(entry.summary)) {
+    return { error: 'invalid summary' };
+  }
+  if (!isStringArray(entry.reflection)) {
+    return { error: 'invalid reflection text' };
+  }
+
+  const reflection = {
+    ...entry,
+    id: isString(entry.id) && entry.id ? entry.id : generateUUID(),
+    embedding: undefined,
+  } as Reflection;
+
+  if (!isString(entry.proofreadVersion)) delete reflection.proofreadVersion;
+  if (!isStringArray(entry.prompts)) delete reflection.prompts;
+  if (isStringArray(entry.tags)) {
+    reflection.tags = normalizeTags(entry.tags);
+  } else {
+    delete reflection.tags;
+  }
+  if (!isSummaryFormat(entry.summaryFormat)) {
+    delete reflection.summaryFormat;
+  }
+  if (!TONE_PRESETS.includes(entry.toneUsed as TonePreset)) {
+    delete reflection.toneUsed;
+  }
+  if (
+    !entry.aiMetadata ||
+    typeof entry.aiMetadata !== 'object' ||
+    Array.isArray(entry.aiMetadata)
+  ) {
+    delete reflection.aiMetadata;
+  }
+  if (!Array.isArray(entry.revisions)) delete reflection.revisions;
+  if (!isChatMessages(entry.chat)) delete reflection.chat;
+  if (!isQuestionChain(entry.questionChain)) delete reflection.questionChain;
+  if (!isNumberInRange(entry.readingTime, 0, Infinity)) {
+    delete reflection.readingTime;
+  }
+  if (!isNumberInRange(entry.readingProgress, 0, 1)) {
+    delete reflection.readingProgress;
+  }
+  if (!isPhaseTimes(entry.phaseTimes)) delete reflection.phaseTimes;
+  const source = toArticleSource(entry.source);
+  if (source) {
+    reflection.source = source;
+  } else {
+    delete reflection.source;
+  }
+  if (!Array.isArray(entry.outline) || !entry.outline.every(isOutlineBlock)) {
+    delete reflection.outline;
+  }
+
+  return { reflection };
+}
+
+/**
+ * Parse the Markdown export (StorageManager.exportMarkdown or the popup's
+ * ExportModal) back into reflection-shaped entries
+ * Markdown dates have day precision, so createdAt is local midnight.
+ * @param content Markdown file contents
+ * @returns One entry per "## " section
+ */
+export function parseMarkdownExport(content: string): Partial<Reflection>[] {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/^---$/m);
+  const entries: Partial<Reflection>[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const titleIndex = lines.findIndex((line) => line.startsWith('## '));
+    if (titleIndex === -1) continue;
+
+    const entry: Partial<Reflection> = {
+      title: lines[titleIndex].slice(3).trim(),
+      summary: [],
+      reflection: [],
+    };
+    let section:
+      | 'ai'
+      | 'summary'
+      | 'reflections'
+      | 'proofread'
+      | 'questions'
+      | 'chat'
+      | null = null;
+    const proofread: string[] = [];
+    const questionChain: QuestionExchange[] = [];
+    const chat: ChatMessage[] = [];
+    const source: ArticleSource = {};
+    const summaryParagraph: string[] = [];
+    const aiMetadata: AIMetadata = {
+      summarizerUsed: false,
+      writerUsed: false,
+      rewriterUsed: false,
+      proofreaderUsed: false,
+      translatorUsed: false,
+      promptFallback: false,
+      processingTime: 0,
+    };
+    let hasAIMetadata = false;
+
+    for (const line of lines.slice(titleIndex + 1)) {
+      const heading = /^### (.+)$/.exec(line);
+      if (heading) {
+        const name = heading[1];
+        if (name === 'AI Processing') {
+          section = 'ai';
+          hasAIMetadata = true;
+        } else if (name.startsWith('Summary')) {
+          section = 'summary';
+          const format = /\((.+)\)/.exec(name)?.[1];
+          if (isSummaryFormat(format)) entry.summaryFormat = format;
+        } else if (name === 'Reflections') {
+          section = 'reflections';
+        } else if (name === 'Proofread Version') {
+          section = 'proofread';
+        } else if (name === QUESTION_CHAIN_HEADING) {
+          section = 'questions';
+        } else if (name === CHAT_HEADING) {
+          section = 'chat';
+        } else {
+          section = null;
+        }
+        continue;
+      }
+
+      const field = /^\*\*(.+?):\*\* ?(.*)$/.exec(line);
+      if (field) {
+        const [, key, value] = field;
+        switch (key) {
+          case 'URL':
+            entry.url = value.trim();
+            break;
+          case 'Date': {
+            const date = Date.parse(value);
+            if (!Number.isNaN(date)) entry.createdAt = date;
+            break;
+          }
+          case 'Tags':
+            entry.tags = normalizeTags(value.split(','));
+            break;
+          case 'Detected Language': {
+            const match = /^(\S+)(?: \(Original: (\S+)\))?/.exec(value);
+            if (match) {
+              entry.detectedLanguage = match[1];
+              if (match[2]) entry.originalLanguage = match[2];
+            }
+            break;
+          }
+          case 'Translated To':
+            entry.translatedTo = value.trim();
+            break;
+          case 'Summary Format':
+            if (isSummaryFormat(value.trim())) {
+              entry.summaryFormat = value.trim() as SummaryFormat;
+            }
+            break;
+          case 'Tone Applied':
+            if (TONE_PRESETS.includes(value.trim() as TonePreset)) {
+              entry.toneUsed = value.trim() as TonePreset;
+            }
+            break;
+          case 'AI APIs Used':
+            for (const api of value.split(',')) {
+              const flag = API_FLAGS[api.trim()];
+              if (flag) aiMetadata[flag] = true;
+            }
+            break;
+          case 'Processing Time':
+            aiMetadata.processingTime = parseInt(value, 10) || 0;
+            break;
+          case 'Question':
+            if (section === 'questions') {
+              questionChain.push({ question: value.trim(), answer: '' });
+            }
+            break;
+          case 'Answer':
+            if (section === 'questions' && questionChain.length > 0) {
+              questionChain[questionChain.length - 1].answer = value;
+            }
+            break;
+          case CHAT_SPEAKERS.user:
+          case CHAT_SPEAKERS.assistant:
+            if (section === 'chat') {
+              chat.push({
+                role: key === CHAT_SPEAKERS.user ? 'user' : 'assistant',
+                content: value,
+              });
+            }
+            break;
+          default: {
+            const sourceField = SOURCE_FIELDS.get(key);
+            if (sourceField === 'estimatedReadingTime') {
+              const minutes = parseInt(value, 10);
+              if (!Number.isNaN(minutes)) source[sourceField] = minutes;
+            } else if (sourceField && value.trim()) {
+              source[sourceField] = value.trim();
+            }
+          }
+        }
+        continue;
+      }
+
+      if (section === 'summary') {
+        const bullet = /^- (?:\*\*(.+?):\*\* )?(.*)$/.exec(line);
+        if (!bullet) {
+          // A custom format's single-paragraph summary
+          summaryParagraph.push(line);
+        } else if (bullet[1] && isCustomSummaryFormat(entry.summaryFormat)) {
+          // Custom format items carry their own labels
+          entry.summary!.push(`${bullet[1]}: ${bullet[2].trim()}`);
+        } else {
+          entry.summary!.push(bullet[2].trim());
+        }
+      } else if (section === 'reflections') {
+        const item = /^\d+\. (.*)$/.exec(line);
+        const answers = entry.reflection!;
+        if (item) {
+          answers.push(item[1]);
+        } else if (answers.length > 0) {
+          // Continuation of a multi-paragraph answer
+          answers[answers.length - 1] += `\n${line}`;
+        }
+      } else if (section === 'proofread') {
+        proofread.push(line);
+      } else if (section === 'questions' && questionChain.length > 0) {
+        // Continuation of a multi-paragraph answer
+        questionChain[questionChain.length - 1].answer += `\n${line}`;
+      } else if (section === 'chat' && chat.length > 0) {
+        // Continuation of a multi-paragraph message
+        chat[chat.length - 1].content += `\n${line}`;
+      }
+    }
+
+    const paragraph = summaryParagraph.join('\n').trim();
+    if (entry.summary!.length === 0 && paragraph) entry.summary = [paragraph];
+    entry.reflection = entry.reflection!.map((text) => text.trim());
+    const proofreadText = proofread.join('\n').trim();
+    if (proofreadText) entry.proofreadVersion = proofreadText;
+    if (hasAIMetadata) entry.aiMetadata = aiMetadata;
+    if (Object.keys(source).length > 0) entry.source = source;
+    if (questionChain.length > 0) {
+      entry.questionChain = questionChain.map((exchange) => ({
+        ...exchange,
+        answer: exchange.answer.trim(),
+      }));
+    }
+    if (chat.length > 0) {
+      entry.chat = chat.map((message) => ({
+        ...message,
+        content: message.content.trim(),
+      }));
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Parse an export file, detecting JSON or Markdown from its contents
+ * @param content File contents
+ * @returns Valid reflections plus an error for each rejected entry
+ */
+export function parseImport(content: string): ParsedImport {
+  const trimmed = content.trim();
+  let format: ImportFormat;
+  let entries: unknown[];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    format = 'json';
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { format, reflections: [], errors: ['File is not valid JSON'] };
+    }
+    entries = Array.isArray(parsed) ? parsed : [parsed];
+  } else {
+    format = 'markdown';
+    entries = parseMarkdownExport(content);
+    if (entries.length === 0) {
+      return {
+        format,
+        reflections: [],
+        errors: ['No reflections found in this file'],
+      };
+    }
+  }
+
+  const reflections: Reflection[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const result = validateReflection(entry);
+    if ('reflection' in result) {
+      reflections.push(result.reflection);
+    } else {
+      errors.push(`Entry ${index + 1}: ${result.error}`);
+    }
+  });
+
+  return { format, reflections, errors };
+}
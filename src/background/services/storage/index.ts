@@ -4,3 +4,35 @@
 
 export { StorageManager } from './storageManager';
 export { SettingsManager } from './settingsManager';
+export {
+  IndexedDBReflectionRepository,
+  ChromeStorageReflectionRepository,
+  createReflectionRepository,
+} from './reflectionRepository';
+export type {
+  ReflectionRepository,
+  ReflectionIndex,
+} from './reflectionRepository';
+export { SearchIndex } from './searchIndex';
+export {
+  embedText,
+  embedReflection,
+  cosineSimilarity,
+  findNearest,
+} from './embeddings';
+export {
+  registerExporter,
+  getExporter,
+  getExporters,
+  createExportFile,
+} from './exporters';
+export type { Exporter, ExportOptions } from './exporters';
+export { BackupManager } from './backupManager';
+export { SyncManager } from './syncManager';
+export { AIResultCache, hashText } from './aiResultCache';
+export type {
+  AIResultCacheHit,
+  AIResultCacheRequest,
+  AIResultKind,
+} from './aiResultCache';
+export type { SyncResult, SyncStatus } from './syncManager';
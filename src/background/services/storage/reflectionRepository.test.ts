@@ -0,0 +1,151 @@
+/**
+ * Unit tests for reflection repositories
+ * Tests IndexedDB indexes, date range queries and legacy migration
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IndexedDBReflectionRepository } from './reflectionRepository';
+import { StorageManager } from './storageManager';
+import { INDEXED_DB, STORAGE_KEYS } from '../../../constants';
+import type { Reflection } from '../../../types';
+
+const makeReflection = (id: string, overrides: Partial<Reflection> = {}) =>
+  ({
+    id,
+    url: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    createdAt: Date.now(),
+    summary: ['Insight', 'Surprise', 'Apply'],
+    reflection: ['Answer'],
+    ...overrides,
+  }) as Reflection;
+
+describe('IndexedDBReflectionRepository', () => {
+  let factory: IDBFactory;
+  let repository: IndexedDBReflectionRepository;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    repository = new IndexedDBReflectionRepository(factory);
+  });
+
+  it('should store and read reflections by id', async () => {
+    await repository.put(makeReflection('a'));
+
+    expect((await repository.getById('a'))?.title).toBe('Article a');
+    expect(await repository.getById('missing')).toBeNull();
+    expect(await repository.getAll()).toHaveLength(1);
+  });
+
+  it('should reopen the database after another context closes it', async () => {
+    await repository.put(makeReflection('a'));
+
+    // Deleting the database asks open connections to close
+    await new Promise((resolve, reject) => {
+      const request = factory.deleteDatabase(INDEXED_DB.NAME);
+      request.onsuccess = resolve;
+      request.onerror = reject;
+    });
+    await repository.put(makeReflection('b'));
+
+    expect((await repository.getAll()).map((r) => r.id)).toEqual(['b']);
+  });
+
+  it('should query by domain, tag and language indexes', async () => {
+    await repository.putMany([
+      makeReflection('a', { tags: ['focus', 'habits'] }),
+      makeReflection('b', {
+        url: 'https://news.site/story',
+        tags: ['focus'],
+        detectedLanguage: 'es',
+      }),
+      makeReflection('c', { detectedLanguage: 'es' }),
+    ]);
+
+    const byDomain = await repository.getByIndex('domain', 'example.com');
+    expect(byDomain.map((r) => r.id).sort()).toEqual(['a', 'c']);
+
+    const byTag = await repository.getByIndex('tags', 'focus');
+    expect(byTag.map((r) => r.id).sort()).toEqual(['a', 'b']);
+
+    const byLanguage = await repository.getByIndex('detectedLanguage', 'es');
+    expect(byLanguage.map((r) => r.id).sort()).toEqual(['b', 'c']);
+  });
+
+  it('should query by creation date range', async () => {
+    await repository.putMany([
+      makeReflection('old', { createdAt: 1000 }),
+      makeReflection('mid', { createdAt: 2000 }),
+      makeReflection('new', { createdAt: 3000 }),
+    ]);
+
+    const range = await repository.getByDateRange(1500, 3000);
+
+    expect(range.map((r) => r.id)).toEqual(['mid', 'new']);
+  });
+
+  it('should delete and clear reflections', async () => {
+    await repository.putMany([makeReflection('a'), makeReflection('b')]);
+
+    await repository.deleteMany(['a']);
+    expect((await repository.getAll()).map((r) => r.id)).toEqual(['b']);
+
+    await repository.clear();
+    expect(await repository.getAll()).toEqual([]);
+  });
+});
+
+describe('StorageManager legacy migration', () => {
+  let localStore: Map<string, any>;
+
+  beforeEach(() => {
+    localStore = new Map();
+    vi.spyOn(chrome.storage.local, 'get').mockImplementation((keys: any) => {
+      const result: Record<string, any> = {};
+      (Array.isArray(keys) ? keys : [keys]).forEach((key: string) => {
+        result[key] = localStore.get(key);
+      });
+      return Promise.resolve(result);
+    });
+    vi.spyOn(chrome.storage.local, 'set').mockImplementation((items: any) => {
+      Object.entries(items).forEach(([key, value]) => {
+        localStore.set(key, value);
+      });
+      return Promise.resolve();
+    });
+    vi.spyOn(chrome.storage.local, 'remove').mockImplementation((keys: any) => {
+      (Array.isArray(keys) ? keys : [keys]).forEach((key: string) => {
+        localStore.delete(key);
+      });
+      return Promise.resolve();
+    });
+  });
+
+  it('should move reflections from chrome.storage into IndexedDB', async () => {
+    localStore.set(STORAGE_KEYS.REFLECTIONS, [
+      makeReflection('a'),
+      makeReflection('b'),
+      { title: 'Missing id' },
+    ]);
+    const storageManager = new StorageManager(
+      new IndexedDBReflectionRepository(new IDBFactory())
+    );
+
+    const migrated = await storageManager.migrateLegacyReflections();
+
+    expect(migrated).toBe(2);
+    expect(localStore.has(STORAGE_KEYS.REFLECTIONS)).toBe(false);
+    const reflections = await storageManager.getReflections();
+    expect(reflections.map((r) => r.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should be a no-op when nothing is left to migrate', async () => {
+    const storageManager = new StorageManager(
+      new IndexedDBReflectionRepository(new IDBFactory())
+    );
+
+    expect(await storageManager.migrateLegacyReflections()).toBe(0);
+  });
+});
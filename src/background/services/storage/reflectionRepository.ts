@@ -0,0 +1,294 @@
+/**
+ * Reflection repositories - Persistence backends behind StorageManager
+ *
+ * IndexedDB is used wherever it is available and indexes reflections by
+ * creation date, URL domain, tags and detected language. The
+ * chrome.storage.local backend keeps the legacy single-array layout; it is
+ * the fallback when IndexedDB is missing and the source of the one-time
+ * migration.
+ */
+
+import type { Reflection } from '../../../types';
+import { INDEXED_DB, STORAGE_KEYS } from '../../../constants';
+import { extractDomain } from '../../../utils';
+import { openDatabase, promisifyRequest, transactionDone } from './database';
+
+/**
+ * Secondary indexes that can be queried by exact value
+ */
+export type ReflectionIndex = 'domain' | 'tags' | 'detectedLanguage';
+
+/**
+ * Storage backend used by StorageManager
+ */
+export interface ReflectionRepository {
+  readonly kind: 'indexeddb' | 'chrome-storage';
+  getAll(): Promise<Reflection[]>;
+  getById(id: string): Promise<Reflection | null>;
+  put(reflection: Reflection): Promise<void>;
+  putMany(reflections: Reflection[]): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+  replaceAll(reflections: Reflection[]): Promise<void>; // Atomic: all or nothing
+  getByIndex(index: ReflectionIndex, value: string): Promise<Reflection[]>;
+  getByDateRange(from: number, to: number): Promise<Reflection[]>;
+  estimateUsage(): Promise<{ bytesUsed: number; quota: number }>;
+}
+
+/**
+ * Shape of a row in the IndexedDB object store
+ * Indexed fields are lifted out of the reflection so they can be indexed
+ */
+interface ReflectionRecord {
+  id: string;
+  createdAt: number;
+  domain: string;
+  tags: string[];
+  detectedLanguage?: string;
+  reflection: Reflection;
+}
+
+/**
+ * Get the value of an index for a reflection, used by the in-memory backend
+ */
+function indexValues(reflection: Reflection, index: ReflectionIndex): string[] {
+  switch (index) {
+    case 'domain':
+      return [extractDomain(reflection.url)];
+    case 'tags':
+      return reflection.tags ?? [];
+    case 'detectedLanguage':
+      return reflection.detectedLanguage ? [reflection.detectedLanguage] : [];
+  }
+}
+
+/**
+ * IndexedDB-backed repository
+ */
+export class IndexedDBReflectionRepository implements ReflectionRepository {
+  readonly kind = 'indexeddb' as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  async getAll(): Promise<Reflection[]> {
+    const store = await this.store('readonly');
+    const records = await promisifyRequest(
+      store.getAll() as IDBRequest<ReflectionRecord[]>
+    );
+    return records.map((record) => record.reflection);
+  }
+
+  async getById(id: string): Promise<Reflection | null> {
+    const store = await this.store('readonly');
+    const record = await promisifyRequest(
+      store.get(id) as IDBRequest<ReflectionRecord | undefined>
+    );
+    return record?.reflection ?? null;
+  }
+
+  async put(reflection: Reflection): Promise<void> {
+    await this.putMany([reflection]);
+  }
+
+  async putMany(reflections: Reflection[]): Promise<void> {
+    if (reflections.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(
+      INDEXED_DB.REFLECTIONS_STORE,
+      'readwrite'
+    );
+    const store = transaction.objectStore(INDEXED_DB.REFLECTIONS_STORE);
+    for (const reflection of reflections) {
+      store.put(this.toRecord(reflection));
+    }
+    await transactionDone(transaction);
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(
+      INDEXED_DB.REFLECTIONS_STORE,
+      'readwrite'
+    );
+    const store = transaction.objectStore(INDEXED_DB.REFLECTIONS_STORE);
+    for (const id of ids) {
+      store.delete(id);
+    }
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(
+      INDEXED_DB.REFLECTIONS_STORE,
+      'readwrite'
+    );
+    transaction.objectStore(INDEXED_DB.REFLECTIONS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  async replaceAll(reflections: Reflection[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(
+      INDEXED_DB.REFLECTIONS_STORE,
+      'readwrite'
+    );
+    const store = transaction.objectStore(INDEXED_DB.REFLECTIONS_STORE);
+    // One transaction: a failed write rolls back the clear as well
+    store.clear();
+    try {
+      for (const reflection of reflections) {
+        store.put(this.toRecord(reflection));
+      }
+    } catch (error) {
+      transaction.abort();
+      await transactionDone(transaction).catch(() => undefined);
+      throw error;
+    }
+    await transactionDone(transaction);
+  }
+
+  async getByIndex(
+    index: ReflectionIndex,
+    value: string
+  ): Promise<Reflection[]> {
+    const store = await this.store('readonly');
+    const records = await promisifyRequest(
+      store.index(index).getAll(value) as IDBRequest<ReflectionRecord[]>
+    );
+    return records.map((record) => record.reflection);
+  }
+
+  async getByDateRange(from: number, to: number): Promise<Reflection[]> {
+    const store = await this.store('readonly');
+    const records = await promisifyRequest(
+      store
+        .index('createdAt')
+        .getAll(IDBKeyRange.bound(from, to)) as IDBRequest<ReflectionRecord[]>
+    );
+    return records.map((record) => record.reflection);
+  }
+
+  async estimateUsage(): Promise<{ bytesUsed: number; quota: number }> {
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const { usage, quota } = await navigator.storage.estimate();
+      if (typeof usage === 'number' && typeof quota === 'number') {
+        return { bytesUsed: usage, quota };
+      }
+    }
+    return { bytesUsed: 0, quota: Number.POSITIVE_INFINITY };
+  }
+
+  private toRecord(reflection: Reflection): ReflectionRecord {
+    return {
+      id: reflection.id,
+      createdAt: reflection.createdAt,
+      domain: extractDomain(reflection.url),
+      tags: [...new Set(reflection.tags ?? [])],
+      detectedLanguage: reflection.detectedLanguage,
+      reflection,
+    };
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db
+      .transaction(INDEXED_DB.REFLECTIONS_STORE, mode)
+      .objectStore(INDEXED_DB.REFLECTIONS_STORE);
+  }
+
+  /**
+   * Open the database, creating the stores and indexes on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    this.dbPromise ??= openDatabase(this.factory, () => {
+      this.dbPromise = null;
+    }).catch((error: unknown) => {
+      this.dbPromise = null;
+      throw error;
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/**
+ * chrome.storage.local-backed repository using the legacy array key
+ */
+export class ChromeStorageReflectionRepository implements ReflectionRepository {
+  readonly kind = 'chrome-storage' as const;
+
+  async getAll(): Promise<Reflection[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.REFLECTIONS);
+    return (result[STORAGE_KEYS.REFLECTIONS] ?? []) as Reflection[];
+  }
+
+  async getById(id: string): Promise<Reflection | null> {
+    const reflections = await this.getAll();
+    return reflections.find((r) => r.id === id) ?? null;
+  }
+
+  async put(reflection: Reflection): Promise<void> {
+    await this.putMany([reflection]);
+  }
+
+  async putMany(reflections: Reflection[]): Promise<void> {
+    if (reflections.length === 0) return;
+    const byId = new Map((await this.getAll()).map((r) => [r.id, r]));
+    for (const reflection of reflections) {
+      byId.set(reflection.id, reflection);
+    }
+    await this.write([...byId.values()]);
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const removed = new Set(ids);
+    const reflections = await this.getAll();
+    await this.write(reflections.filter((r) => !removed.has(r.id)));
+  }
+
+  async clear(): Promise<void> {
+    await this.write([]);
+  }
+
+  async replaceAll(reflections: Reflection[]): Promise<void> {
+    await this.write(reflections);
+  }
+
+  async getByIndex(
+    index: ReflectionIndex,
+    value: string
+  ): Promise<Reflection[]> {
+    const reflections = await this.getAll();
+    return reflections.filter((r) => indexValues(r, index).includes(value));
+  }
+
+  async getByDateRange(from: number, to: number): Promise<Reflection[]> {
+    const reflections = await this.getAll();
+    return reflections.filter((r) => r.createdAt >= from && r.createdAt <= to);
+  }
+
+  async estimateUsage(): Promise<{ bytesUsed: number; quota: number }> {
+    const bytesUsed = await chrome.storage.local.getBytesInUse();
+    return { bytesUsed, quota: chrome.storage.local.QUOTA_BYTES };
+  }
+
+  private async write(reflections: Reflection[]): Promise<void> {
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.REFLECTIONS]: reflections,
+    });
+  }
+}
+
+/**
+ * Create the repository for the current environment
+ * @returns IndexedDB repository when available, chrome.storage otherwise
+ */
+export function createReflectionRepository(): ReflectionRepository {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDBReflectionRepository()
+    : new ChromeStorageReflectionRepository();
+}
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for SearchIndex
+ * Tests prefix matching, phrase queries, ranking and snippet highlights
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SearchIndex, parseQuery } from './searchIndex';
+import type { Reflection, SearchSnippet } from '../../../types';
+
+const makeReflection = (id: string, overrides: Partial<Reflection> = {}) =>
+  ({
+    id,
+    url: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    createdAt: 1000,
+    summary: [],
+    reflection: [],
+    ...overrides,
+  }) as Reflection;
+
+const highlighted = (snippet: SearchSnippet) =>
+  snippet.highlights.map(([start, end]) => snippet.text.slice(start, end));
+
+describe('parseQuery', () => {
+  it('should split bare words and quoted phrases', () => {
+    expect(parseQuery('habit "deep work" Focus')).toEqual([
+      { kind: 'term', term: 'habit' },
+      { kind: 'phrase', terms: ['deep', 'work'] },
+      { kind: 'term', term: 'focus' },
+    ]);
+  });
+
+  it('should treat an unclosed quote as a phrase to the end', () => {
+    expect(parseQuery('"slow reading')).toEqual([
+      { kind: 'phrase', terms: ['slow', 'reading'] },
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.build([
+      makeReflection('a', {
+        title: 'Deep work in a distracted world',
+        summary: ['Focus is a skill that can be trained'],
+        reflection: ['I will block two hours each morning for deep work.'],
+        tags: ['productivity'],
+        createdAt: 3000,
+      }),
+      makeReflection('b', {
+        title: 'Notes on habits',
+        reflection: ['Working deeply requires rest; deep sleep matters.'],
+        proofreadVersion:
+          'Working deeply requires rest. Deep sleep really matters.',
+        createdAt: 2000,
+      }),
+      makeReflection('c', {
+        title: 'Café culture',
+        summary: ['Cafés in Paris encourage slow conversation'],
+        tags: ['travel', 'culture'],
+        createdAt: 1000,
+      }),
+    ]);
+  });
+
+  it('should match words by prefix', () => {
+    const results = index.search('produc');
+
+    expect(results.map((r) => r.reflection.id)).toEqual(['a']);
+    expect(results[0].snippet.field).toBe('tags');
+    expect(highlighted(results[0].snippet)).toEqual(['productivity']);
+  });
+
+  it('should require every word to match', () => {
+    expect(index.search('deep habits').map((r) => r.reflection.id)).toEqual([
+      'b',
+    ]);
+    expect(index.search('deep travel')).toEqual([]);
+  });
+
+  it('should only match phrases as consecutive words', () => {
+    const results = index.search('"deep work"');
+
+    expect(results.map((r) => r.reflection.id)).toEqual(['a']);
+    expect(highlighted(results[0].snippet)).toEqual(['Deep work']);
+  });
+
+  it('should rank title matches above body matches', () => {
+    const results = index.search('deep');
+
+    expect(results.map((r) => r.reflection.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('should ignore case and diacritics', () => {
+    expect(index.search('CAFE').map((r) => r.reflection.id)).toEqual(['c']);
+  });
+
+  it('should search proofread text', () => {
+    const results = index.search('"sleep really"');
+
+    expect(results.map((r) => r.reflection.id)).toEqual(['b']);
+    expect(results[0].snippet.field).toBe('proofreadVersion');
+  });
+
+  it('should trim long snippets around the first match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(20);
+    index.build([
+      makeReflection('long', {
+        reflection: [`${filler}the crucial insight arrives late ${filler}`],
+      }),
+    ]);
+
+    const [result] = index.search('crucial');
+
+    expect(result.snippet.text.startsWith('…')).toBe(true);
+    expect(result.snippet.text.endsWith('…')).toBe(true);
+    expect(highlighted(result.snippet)).toEqual(['crucial']);
+  });
+
+  it('should return nothing for empty queries', () => {
+    expect(index.search('   ')).toEqual([]);
+    expect(index.search('""')).toEqual([]);
+  });
+
+  it('should rebuild only when the reflection list changes', () => {
+    const reflections = [makeReflection('x', { title: 'Mindful mornings' })];
+    index.update(reflections);
+    expect(index.search('mindful')).toHaveLength(1);
+
+    // Same array: index is reused
+    index.update(reflections);
+    expect(index.search('mindful')).toHaveLength(1);
+
+    index.update([makeReflection('y', { title: 'Evening walks' })]);
+    expect(index.search('mindful')).toEqual([]);
+    expect(index.search('walk')).toHaveLength(1);
+  });
+
+  it('should respect the result limit', () => {
+    expect(index.search('a', 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * SearchIndex - In-memory inverted index for full-text reflection search
+ * Covers title, summary, reflection, proofread text and tags with prefix
+ * matching, quoted phrase queries and highlighted snippets
+ */
+
+import type {
+  Reflection,
+  SearchField,
+  SearchResult,
+  SearchSnippet,
+} from '../../../types';
+import { SEARCH } from '../../../constants';
+
+/**
+ * A searchable piece of text within a reflection (e.g., one summary bullet)
+ */
+interface Segment {
+  field: SearchField;
+  text: string;
+  tokens: Token[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Where a term occurs inside an indexed reflection
+ */
+interface Occurrence {
+  segment: number;
+  position: number;
+}
+
+interface IndexedDocument {
+  reflection: Reflection;
+  segments: Segment[];
+}
+
+/**
+ * Parsed query clause; every clause must match for a reflection to be a hit
+ */
+type Clause =
+  | { kind: 'term'; term: string }
+  | { kind: 'phrase'; terms: string[] };
+
+/**
+ * Matched span inside a segment, used for scoring and highlighting
+ */
+interface Match {
+  segment: number;
+  start: number;
+  end: number;
+  weight: number;
+}
+
+// Prefix expansions score lower than exact term matches
+const PREFIX_MATCH_WEIGHT = 0.7;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Normalize a term for indexing: lowercase and strip diacritics
+ */
+function normalizeTerm(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/’/g, "'");
+}
+
+/**
+ * Split text into normalized tokens with character offsets
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      term: normalizeTerm(match[0]),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a query into term and phrase clauses
+ * Double-quoted text is a phrase; an unclosed quote runs to the end
+ */
+export function parseQuery(query: string): Clause[] {
+  const clauses: Clause[] = [];
+  const parts = query.split('"');
+
+  parts.forEach((part, index) => {
+    const terms = tokenize(part).map((token) => token.term);
+    if (terms.length === 0) return;
+
+    // Odd-indexed parts sit between quotes
+    if (index % 2 === 1 && terms.length > 1) {
+      clauses.push({ kind: 'phrase', terms });
+    } else {
+      for (const term of terms) {
+        clauses.push({ kind: 'term', term });
+      }
+    }
+  });
+
+  return clauses;
+}
+
+/**
+ * Build searchable segments from a reflection
+ */
+function toSegments(reflection: Reflection): Segment[] {
+  const sources: [SearchField, string | undefined][] = [
+    ['title', reflection.title],
+    ...(reflection.summary ?? []).map((text): [SearchField, string] => [
+      'summary',
+      text,
+    ]),
+    ...(reflection.reflection ?? []).map((text): [SearchField, string] => [
+      'reflection',
+      text,
+    ]),
+    ['proofreadVersion', reflection.proofreadVersion],
+    ['tags', reflection.tags?.join(', ')],
+  ];
+
+  return sources
+    .filter((source): source is [SearchField, string] => !!source[1])
+    .map(([field, text]) => ({ field, text, tokens: tokenize(text) }));
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, Occurrence[]>>();
+  private sortedTerms: string[] = [];
+  private source: Reflection[] | null = null;
+
+  /**
+   * Rebuild the index when the reflection list has changed
+   * StorageManager returns the same cached array until its data changes,
+   * so identity is enough to detect staleness
+   * @param reflections Current reflections
+   */
+  update(reflections: Reflection[]): void {
+    if (reflections === this.source) {
+      return;
+    }
+    this.build(reflections);
+    this.source = reflections;
+  }
+
+  /**
+   * Index a full set of reflections, replacing any previous contents
+   * @param reflections Reflections to index
+   */
+  build(reflections: Reflection[]): void {
+    this.documents.clear();
+    this.postings.clear();
+
+    for (const reflection of reflections) {
+      const segments = toSegments(reflection);
+      this.documents.set(reflection.id, { reflection, segments });
+
+      segments.forEach((segment, segmentIndex) => {
+        segment.tokens.forEach((token, position) => {
+          let byDocument = this.postings.get(token.term);
+          if (!byDocument) {
+            byDocument = new Map();
+            this.postings.set(token.term, byDocument);
+          }
+          let occurrences = byDocument.get(reflection.id);
+          if (!occurrences) {
+            occurrences = [];
+            byDocument.set(reflection.id, occurrences);
+          }
+          occurrences.push({ segment: segmentIndex, position });
+        });
+      });
+    }
+
+    this.sortedTerms = [...this.postings.keys()].sort();
+  }
+
+  /**
+   * Search indexed reflections
+   * @param query Free text; "quoted text" matches an exact phrase and bare
+   * words match any term they prefix
+   * @param limit Maximum number of results
+   * @returns Hits ordered by relevance, then recency
+   */
+  search(query: string, limit: number = SEARCH.MAX_RESULTS): SearchResult[] {
+    const clauses = parseQuery(query);
+    if (clauses.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    let candidates: Map<string, Match[]> | null = null;
+
+    for (const clause of clauses) {
+      const clauseMatches =
+        clause.kind === 'term'
+          ? this.matchTerm(clause.term)
+          : this.matchPhrase(clause.terms);
+
+      // Intersect with documents matched by previous clauses
+      const next = new Map<string, Match[]>();
+      for (const [id, matches] of clauseMatches) {
+        if (candidates && !candidates.has(id)) continue;
+        next.set(id, [...(candidates?.get(id) ?? []), ...matches]);
+      }
+      candidates = next;
+      if (candidates.size === 0) return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const [id, matches] of candidates ?? []) {
+      const document = this.documents.get(id);
+      if (!document) continue;
+      results.push({
+        reflection: document.reflection,
+        score: this.score(document, matches),
+        snippet: this.buildSnippet(document, matches),
+      });
+    }
+
+    return results
+      .sort(
+        (a, b) =>
+          b.score - a.score || b.reflection.createdAt - a.reflection.createdAt
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Match every indexed term starting with the query term
+   */
+  private matchTerm(term: string): Map<string, Match[]> {
+    const matches = new Map<string, Match[]>();
+    const idf = this.inverseDocumentFrequency(term, true);
+
+    for (const indexed of this.termsWithPrefix(term)) {
+      const weight = (indexed === term ? 1 : PREFIX_MATCH_WEIGHT) * idf;
+      for (const [id, occurrences] of this.postings.get(indexed) ?? []) {
+        const document = this.documents.get(id);
+        if (!document) continue;
+        const list = matches.get(id) ?? [];
+        for (const { segment, position } of occurrences) {
+          const token = document.segments[segment].tokens[position];
+          list.push({ segment, start: token.start, end: token.end, weight });
+        }
+        matches.set(id, list);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Match consecutive exact terms within a single segment
+   */
+  private matchPhrase(terms: string[]): Map<string, Match[]> {
+    const matches = new Map<string, Match[]>();
+    const first = this.postings.get(terms[0]);
+    if (!first) return matches;
+
+    const idf = terms.reduce(
+      (sum, term) => sum + this.inverseDocumentFrequency(term, false),
+      0
+    );
+
+    for (const [id, occurrences] of first) {
+      const document = this.documents.get(id);
+      if (!document) continue;
+
+      for (const { segment, position } of occurrences) {
+        const tokens = document.segments[segment].tokens;
+        const isPhrase = terms.every(
+          (term, offset) => tokens[position + offset]?.term === term
+        );
+        if (!isPhrase) continue;
+
+        const list = matches.get(id) ?? [];
+        list.push({
+          segment,
+          start: tokens[position].start,
+          end: tokens[position + terms.length - 1].end,
+          weight: idf,
+        });
+        matches.set(id, list);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Find indexed terms sharing a prefix using binary search on sorted terms
+   */
+  private termsWithPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedTerms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.sortedTerms.length; i++) {
+      if (!this.sortedTerms[i].startsWith(prefix)) break;
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+
+  /**
+   * Rarer terms weigh more; prefix terms count every document they expand to
+   */
+  private inverseDocumentFrequency(term: string, prefix: boolean): number {
+    let documentFrequency = 0;
+    if (prefix) {
+      const ids = new Set<string>();
+      for (const indexed of this.termsWithPrefix(term)) {
+        for (const id of this.postings.get(indexed)?.keys() ?? []) {
+          ids.add(id);
+        }
+      }
+      documentFrequency = ids.size;
+    } else {
+      documentFrequency = this.postings.get(term)?.size ?? 0;
+    }
+    return Math.log(1 + this.documents.size / Math.max(1, documentFrequency));
+  }
+
+  private score(document: IndexedDocument, matches: Match[]): number {
+    return matches.reduce(
+      (sum, match) =>
+        sum +
+        match.weight *
+          SEARCH.FIELD_WEIGHTS[document.segments[match.segment].field],
+      0
+    );
+  }
+
+  /**
+   * Excerpt the best matching segment around its first match
+   */
+  private buildSnippet(
+    document: IndexedDocument,
+    matches: Match[]
+  ): SearchSnippet {
+    // Pick the segment with the highest weighted match total
+    const totals = new Map<number, number>();
+    for (const match of matches) {
+      const field = document.segments[match.segment].field;
+      totals.set(
+        match.segment,
+        (totals.get(match.segment) ?? 0) +
+          match.weight * SEARCH.FIELD_WEIGHTS[field]
+      );
+    }
+    const [bestSegment] = [...totals.entries()].sort((a, b) => b[1] - a[1])[0];
+    const segment = document.segments[bestSegment];
+
+    const ranges = matches
+      .filter((match) => match.segment === bestSegment)
+      .map((match): [number, number] => [match.start, match.end])
+      .sort((a, b) => a[0] - b[0]);
+
+    // Center the window a little before the first match, on a word boundary
+    const length = SEARCH.SNIPPET_LENGTH;
+    let start = 0;
+    if (segment.text.length > length) {
+      start = Math.max(0, ranges[0][0] - Math.floor(length / 4));
+      start = Math.min(start, segment.text.length - length);
+      const boundary = segment.text.lastIndexOf(' ', start);
+      start = start === 0 || boundary < 0 ? start : boundary + 1;
+    }
+    const end = Math.min(segment.text.length, start + length);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < segment.text.length ? '…' : '';
+    const text = prefix + segment.text.slice(start, end) + suffix;
+
+    // Shift ranges into snippet coordinates and merge overlaps
+    const highlights: [number, number][] = [];
+    for (const [rangeStart, rangeEnd] of ranges) {
+      if (rangeStart < start || rangeEnd > end) continue;
+      const shifted: [number, number] = [
+        rangeStart - start + prefix.length,
+        rangeEnd - start + prefix.length,
+      ];
+      const last = highlights[highlights.length - 1];
+      if (last && shifted[0] <= last[1]) {
+        last[1] = Math.max(last[1], shifted[1]);
+      } else {
+        highlights.push(shifted);
+      }
+    }
+
+    return { field: segment.field, text, highlights };
+  }
+}
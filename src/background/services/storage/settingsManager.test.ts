@@ -279,6 +279,21 @@ describe('SettingsManager', () => {
       );
     });
 
+    it('should keep followUpDepth to whole follow-ups within range', async () => {
+      await settingsManager.updateSettings({ followUpDepth: 0 });
+      expect((await settingsManager.getSettings()).followUpDepth).toBe(0);
+
+      await settingsManager.updateSettings({ followUpDepth: 1.5 });
+      expect((await settingsManager.getSettings()).followUpDepth).toBe(
+        DEFAULT_SETTINGS.followUpDepth
+      );
+
+      await settingsManager.updateSettings({ followUpDepth: 10 });
+      expect((await settingsManager.getSettings()).followUpDepth).toBe(
+        DEFAULT_SETTINGS.followUpDepth
+      );
+    });
+
     it('should reject voiceAutoStopDelay above maximum', async () => {
       await settingsManager.updateSettings({ voiceAutoStopDelay: 70000 });
       const settings = await settingsManager.getSettings();
@@ -301,4 +316,166 @@ describe('SettingsManager', () => {
       );
     });
   });
+
+  describe('backup settings validation', () => {
+    it('should accept valid backup settings', async () => {
+      await settingsManager.updateSettings({
+        backupEnabled: false,
+        backupIntervalHours: 6,
+        backupRetention: 14,
+      });
+      const settings = await settingsManager.getSettings();
+      expect(settings.backupEnabled).toBe(false);
+      expect(settings.backupIntervalHours).toBe(6);
+      expect(settings.backupRetention).toBe(14);
+    });
+
+    it('should leave backup settings missing from older versions unset', async () => {
+      const legacySettings: Partial<Settings> = { ...DEFAULT_SETTINGS };
+      delete legacySettings.backupEnabled;
+      delete legacySettings.backupIntervalHours;
+      delete legacySettings.backupRetention;
+      mockStorage.set(STORAGE_KEYS.SETTINGS, legacySettings);
+      settingsManager.invalidateCache();
+
+      const settings = await settingsManager.getSettings();
+      expect(settings.backupEnabled).toBeUndefined();
+      expect(settings.backupIntervalHours).toBeUndefined();
+      expect(settings.backupRetention).toBeUndefined();
+    });
+
+    it('should reset out-of-range backup settings', async () => {
+      await settingsManager.updateSettings({
+        backupIntervalHours: 0.5,
+        backupRetention: 100,
+      });
+      const settings = await settingsManager.getSettings();
+      expect(settings.backupIntervalHours).toBe(
+        DEFAULT_SETTINGS.backupIntervalHours
+      );
+      expect(settings.backupRetention).toBe(DEFAULT_SETTINGS.backupRetention);
+    });
+
+    it('should keep valid prompt templates and drop invalid ones', async () => {
+      mockStorage.set(STORAGE_KEYS.SETTINGS, {
+        ...DEFAULT_SETTINGS,
+        promptTemplates: {
+          reflect: {
+            text: 'Ask two questions about {summary}',
+            history: [{ text: 'Old {summary}', savedAt: 1 }, 'bad'],
+          },
+          proofread: { text: 'Missing its placeholder', history: [] },
+          unknown: { text: 'x', history: [] },
+        },
+      });
+      settingsManager.invalidateCache();
+
+      const settings = await settingsManager.getSettings();
+      expect(settings.promptTemplates).toEqual({
+        reflect: {
+          text: 'Ask two questions about {summary}',
+          history: [{ text: 'Old {summary}', savedAt: 1 }],
+        },
+        proofread: { history: [] },
+      });
+    });
+
+    it('should drop invalid custom summary formats', async () => {
+      const eli5 = {
+        id: 'custom:eli5',
+        name: 'ELI5',
+        description: 'Simple words',
+        prompt: 'Explain simply: {content}',
+        parser: 'text',
+      };
+      mockStorage.set(STORAGE_KEYS.SETTINGS, {
+        ...DEFAULT_SETTINGS,
+        customSummaryFormats: [
+          eli5,
+          { ...eli5, name: 'Duplicate id' },
+          { ...eli5, id: 'custom:eli5-2' },
+          { ...eli5, id: 'bullets', name: 'Built-in id' },
+          { ...eli5, id: 'custom:no-content', name: 'No content', prompt: 'x' },
+          {
+            id: 'custom:old',
+            name: 'Old',
+            prompt: 'Notes on {content}',
+            parser: 'unknown',
+          },
+        ],
+      });
+      settingsManager.invalidateCache();
+
+      const settings = await settingsManager.getSettings();
+      expect(settings.customSummaryFormats).toEqual([
+        eli5,
+        {
+          id: 'custom:old',
+          name: 'Old',
+          description: '',
+          prompt: 'Notes on {content}',
+          parser: 'labeled',
+        },
+      ]);
+    });
+
+    it('should drop invalid site rules', async () => {
+      mockStorage.set(STORAGE_KEYS.SETTINGS, {
+        ...DEFAULT_SETTINGS,
+        siteRules: [
+          { id: 'a', pattern: 'https://www.Example.com/', action: 'never' },
+          { id: 'b', pattern: 'example.com', action: 'always' },
+          { id: 'c', pattern: 'not a domain', action: 'never' },
+          { id: 'd', pattern: 'news.com', action: 'sometimes' },
+          { id: 'e', pattern: 'blog.com', action: 'custom', dwellThreshold: 4 },
+          {
+            id: 'f',
+            pattern: 'wiki.org',
+            action: 'custom',
+            dwellThreshold: 99,
+          },
+        ],
+        nudgeOnUnlistedSites: 'no',
+      });
+      settingsManager.invalidateCache();
+
+      const settings = await settingsManager.getSettings();
+      expect(settings.siteRules).toEqual([
+        { id: 'a', pattern: 'example.com', action: 'never' },
+        { id: 'e', pattern: 'blog.com', action: 'custom', dwellThreshold: 4 },
+        { id: 'f', pattern: 'wiki.org', action: 'always' },
+      ]);
+      expect(settings.nudgeOnUnlistedSites).toBe(true);
+    });
+
+    it('should keep only local AI servers on this computer', async () => {
+      mockStorage.set(STORAGE_KEYS.SETTINGS, {
+        ...DEFAULT_SETTINGS,
+        aiProvider: 'local',
+        localAIProvider: {
+          endpoint: ' http://127.0.0.1:8080/v1/ ',
+          model: 'qwen ',
+        },
+      });
+      settingsManager.invalidateCache();
+
+      let settings = await settingsManager.getSettings();
+      expect(settings.aiProvider).toBe('local');
+      expect(settings.localAIProvider).toEqual({
+        endpoint: 'http://127.0.0.1:8080/v1',
+        model: 'qwen',
+      });
+
+      mockStorage.set(STORAGE_KEYS.SETTINGS, {
+        ...DEFAULT_SETTINGS,
+        aiProvider: 'cloud',
+        localAIProvider: { endpoint: 'https://api.example.com/v1', model: 'x' },
+      });
+      settingsManager.invalidateCache();
+
+      settings = await settingsManager.getSettings();
+      expect(settings.aiProvider).toBeUndefined();
+      expect(settings.localAIProvider).toBeUndefined();
+    });
+  });
 });
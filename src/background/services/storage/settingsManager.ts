@@ -2,8 +2,39 @@
  * SettingsManager - Handles all user settings operations
  */
 
-import type { Settings } from '../../../types';
-import { DEFAULT_SETTINGS, STORAGE_KEYS, TIMING } from '../../../constants';
+import type {
+  CustomSummaryFormat,
+  LocalAIProviderSettings,
+  PromptTemplateId,
+  PromptTemplates,
+  PromptTemplateVersion,
+  Settings,
+  SiteRule,
+} from '../../../types';
+import {
+  BACKUP,
+  DEFAULT_SETTINGS,
+  FOLLOW_UPS,
+  PROMPT_TEMPLATE_LIMITS,
+  PROMPT_TEMPLATES,
+  SITE_RULES,
+  STORAGE_KEYS,
+  SUMMARY_FORMAT_LIMITS,
+  TIMING,
+} from '../../../constants';
+import { validatePromptTemplate } from '../../../utils/promptTemplates';
+import {
+  isCustomSummaryFormat,
+  validateCustomSummaryFormat,
+} from '../../../utils/summaryFormats';
+import {
+  normalizeSitePattern,
+  validateSitePattern,
+} from '../../../utils/siteRules';
+import {
+  normalizeLocalEndpoint,
+  validateLocalAIProvider,
+} from '../../../utils/localAIProvider';
 
 export class SettingsManager {
   // Cache for settings to reduce storage reads
@@ -170,6 +201,111 @@ export class SettingsManager {
       validated.voiceAutoStopDelay = DEFAULT_SETTINGS.voiceAutoStopDelay;
     }
 
+    // Validate readingProgressThreshold (a share, 0-1)
+    const progress = validated.readingProgressThreshold;
+    if (
+      progress !== undefined &&
+      (typeof progress !== 'number' ||
+        Number.isNaN(progress) ||
+        progress < 0 ||
+        progress > 1)
+    ) {
+      validated.readingProgressThreshold =
+        DEFAULT_SETTINGS.readingProgressThreshold;
+    }
+
+    // Validate followUpDepth (whole follow-ups, 0-3)
+    const depth = validated.followUpDepth;
+    if (
+      depth !== undefined &&
+      (typeof depth !== 'number' ||
+        !Number.isInteger(depth) ||
+        depth < 0 ||
+        depth > FOLLOW_UPS.MAX_DEPTH)
+    ) {
+      validated.followUpDepth = DEFAULT_SETTINGS.followUpDepth;
+    }
+
+    // Validate backup settings; missing values fall back to the BACKUP
+    // defaults, so settings saved before backups existed stay untouched
+    if (
+      validated.backupEnabled !== undefined &&
+      typeof validated.backupEnabled !== 'boolean'
+    ) {
+      validated.backupEnabled = DEFAULT_SETTINGS.backupEnabled;
+    }
+
+    // Validate backupIntervalHours (whole hours, 1-168)
+    const interval = validated.backupIntervalHours;
+    if (
+      interval !== undefined &&
+      (typeof interval !== 'number' ||
+        !Number.isInteger(interval) ||
+        interval < BACKUP.MIN_INTERVAL_HOURS ||
+        interval > BACKUP.MAX_INTERVAL_HOURS)
+    ) {
+      validated.backupIntervalHours = DEFAULT_SETTINGS.backupIntervalHours;
+    }
+
+    // Validate backupRetention (whole snapshots, 1-30)
+    const retention = validated.backupRetention;
+    if (
+      retention !== undefined &&
+      (typeof retention !== 'number' ||
+        !Number.isInteger(retention) ||
+        retention < BACKUP.MIN_RETENTION ||
+        retention > BACKUP.MAX_RETENTION)
+    ) {
+      validated.backupRetention = DEFAULT_SETTINGS.backupRetention;
+    }
+
+    // Validate prompt templates; invalid custom text falls back to the
+    // default template, and unknown templates are dropped
+    if (validated.promptTemplates !== undefined) {
+      validated.promptTemplates = this.validatePromptTemplates(
+        validated.promptTemplates
+      );
+    }
+
+    // Validate custom summary formats; invalid formats are dropped
+    if (validated.customSummaryFormats !== undefined) {
+      validated.customSummaryFormats = this.validateCustomSummaryFormats(
+        validated.customSummaryFormats
+      );
+    }
+
+    // Validate site rules; invalid rules are dropped
+    if (validated.siteRules !== undefined) {
+      validated.siteRules = this.validateSiteRules(validated.siteRules);
+    }
+    if (
+      validated.nudgeOnUnlistedSites !== undefined &&
+      typeof validated.nudgeOnUnlistedSites !== 'boolean'
+    ) {
+      validated.nudgeOnUnlistedSites = DEFAULT_SETTINGS.nudgeOnUnlistedSites;
+    }
+
+    // Validate AI provider; unknown providers fall back to Chrome's models
+    if (
+      validated.aiProvider !== undefined &&
+      validated.aiProvider !== 'chrome' &&
+      validated.aiProvider !== 'local'
+    ) {
+      delete validated.aiProvider;
+    }
+
+    // Validate the local server; an invalid address falls back to the default
+    if (validated.localAIProvider !== undefined) {
+      const localAIProvider = this.validateLocalAIProvider(
+        validated.localAIProvider
+      );
+      if (localAIProvider) {
+        validated.localAIProvider = localAIProvider;
+      } else {
+        delete validated.localAIProvider;
+      }
+    }
+
     // Validate translation flags
     if (typeof validated.enableTranslation !== 'boolean') {
       validated.enableTranslation = DEFAULT_SETTINGS.enableTranslation;
@@ -185,6 +321,144 @@ export class SettingsManager {
     return validated;
   }
 
+  /**
+   * Keep only well-formed prompt template overrides
+   * @param value - Stored templates, possibly from an older or edited copy
+   * @returns Templates that are safe to use
+   */
+  private validatePromptTemplates(value: unknown): PromptTemplates {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return {};
+    }
+
+    const templates: PromptTemplates = {};
+    for (const [id, entry] of Object.entries(value)) {
+      if (!(id in PROMPT_TEMPLATES) || !entry || typeof entry !== 'object') {
+        continue;
+      }
+      const { text, history } = entry as Record<string, unknown>;
+      const versions = Array.isArray(history)
+        ? history
+            .filter(
+              (version): version is PromptTemplateVersion =>
+                typeof (version as PromptTemplateVersion | null)?.text ===
+                  'string' &&
+                typeof (version as PromptTemplateVersion).savedAt === 'number'
+            )
+            .slice(0, PROMPT_TEMPLATE_LIMITS.MAX_HISTORY)
+        : [];
+
+      templates[id as PromptTemplateId] =
+        typeof text === 'string' &&
+        validatePromptTemplate(id as PromptTemplateId, text).length === 0
+          ? { text, history: versions }
+          : { history: versions };
+    }
+    return templates;
+  }
+
+  /**
+   * Keep only well-formed custom summary formats
+   * @param value - Stored formats, possibly from an older or edited copy
+   * @returns Formats that are safe to use, at most MAX_FORMATS
+   */
+  private validateCustomSummaryFormats(value: unknown): CustomSummaryFormat[] {
+    if (!Array.isArray(value)) return [];
+
+    const formats: CustomSummaryFormat[] = [];
+    for (const entry of value as Partial<CustomSummaryFormat>[]) {
+      if (
+        !isCustomSummaryFormat(entry?.id) ||
+        typeof entry.name !== 'string' ||
+        typeof entry.prompt !== 'string' ||
+        formats.some((format) => format.id === entry.id)
+      ) {
+        continue;
+      }
+      const format: CustomSummaryFormat = {
+        id: entry.id,
+        name: entry.name,
+        description:
+          typeof entry.description === 'string' ? entry.description : '',
+        prompt: entry.prompt,
+        parser:
+          entry.parser === 'list' || entry.parser === 'text'
+            ? entry.parser
+            : 'labeled',
+      };
+      if (validateCustomSummaryFormat(format, formats).length === 0) {
+        formats.push(format);
+      }
+    }
+    return formats.slice(0, SUMMARY_FORMAT_LIMITS.MAX_FORMATS);
+  }
+
+  /**
+   * Keep only well-formed site rules
+   * @param value - Stored rules, possibly from an older or edited copy
+   * @returns Rules that are safe to use
+   */
+  private validateSiteRules(value: unknown): SiteRule[] {
+    if (!Array.isArray(value)) return [];
+
+    const rules: SiteRule[] = [];
+    for (const entry of value as Partial<SiteRule>[]) {
+      if (
+        typeof entry?.id !== 'string' ||
+        typeof entry.pattern !== 'string' ||
+        (entry.action !== 'never' &&
+          entry.action !== 'always' &&
+          entry.action !== 'custom') ||
+        rules.some((rule) => rule.id === entry.id) ||
+        validateSitePattern(entry.pattern, rules).length > 0
+      ) {
+        continue;
+      }
+      const threshold = entry.dwellThreshold;
+      const rule: SiteRule = {
+        id: entry.id,
+        pattern: normalizeSitePattern(entry.pattern),
+        action: entry.action,
+      };
+      if (entry.action === 'custom') {
+        // A custom rule without a usable threshold keeps the global one
+        if (
+          typeof threshold !== 'number' ||
+          threshold < TIMING.DWELL_MIN ||
+          threshold > TIMING.DWELL_MAX
+        ) {
+          rule.action = 'always';
+        } else {
+          rule.dwellThreshold = threshold;
+        }
+      }
+      rules.push(rule);
+    }
+    return rules.slice(0, SITE_RULES.MAX_RULES);
+  }
+
+  /**
+   * Check the local server settings
+   * @param value - Stored settings, possibly from an older or edited copy
+   * @returns Settings that are safe to use, or null if they aren't
+   */
+  private validateLocalAIProvider(
+    value: unknown
+  ): LocalAIProviderSettings | null {
+    const { endpoint, model } = (value ?? {}) as Partial<
+      Record<keyof LocalAIProviderSettings, unknown>
+    >;
+    if (typeof endpoint !== 'string' || typeof model !== 'string') {
+      return null;
+    }
+
+    const settings = {
+      endpoint: normalizeLocalEndpoint(endpoint),
+      model: model.trim(),
+    };
+    return validateLocalAIProvider(settings).length === 0 ? settings : null;
+  }
+
   /**
    * Invalidate the settings cache
    * Call this if settings are modified externally
@@ -5,7 +5,7 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { StorageManager } from './storageManager';
-import { STORAGE_KEYS } from '../../../constants';
+import { EMBEDDING, REVISIONS, STORAGE_KEYS } from '../../../constants';
 import type { Reflection } from '../../../types';
 
 describe('StorageManager', () => {
@@ -428,4 +428,213 @@ describe('StorageManager', () => {
       expect(markdown).toContain('### Summary (headline-bullets)');
     });
   });
+  describe('backfillEmbeddings', () => {
+    it('should embed reflections that have no embedding', async () => {
+      mockStorage.set(STORAGE_KEYS.REFLECTIONS, [
+        {
+          id: 'old',
+          url: 'https://example.com/old',
+          title: 'Reading slowly',
+          createdAt: Date.now(),
+          summary: ['Slow reading builds understanding'],
+          reflection: ['I skim too much'],
+        },
+      ]);
+
+      const updated = await storageManager.backfillEmbeddings();
+      const [reflection] = await storageManager.getReflections();
+
+      expect(updated).toBe(1);
+      expect(reflection.embedding).toHaveLength(EMBEDDING.DIMENSIONS);
+      expect(await storageManager.backfillEmbeddings()).toBe(0);
+    });
+  });
+
+  describe('tags', () => {
+    beforeEach(() => {
+      mockStorage.set(STORAGE_KEYS.REFLECTIONS, [
+        {
+          id: 'a',
+          url: 'https://example.com/a',
+          title: 'A',
+          createdAt: 2,
+          summary: [],
+          reflection: [],
+          tags: ['focus', 'sleep'],
+        },
+        {
+          id: 'b',
+          url: 'https://example.com/b',
+          title: 'B',
+          createdAt: 1,
+          summary: [],
+          reflection: [],
+          tags: ['sleep'],
+        },
+      ]);
+    });
+
+    it('should count tags, most used first', async () => {
+      expect(await storageManager.getTagCounts()).toEqual([
+        { tag: 'sleep', count: 2 },
+        { tag: 'focus', count: 1 },
+      ]);
+    });
+
+    it('should add and remove tags on several reflections', async () => {
+      const updated = await storageManager.updateTags(
+        ['a', 'b'],
+        ['#Habits'],
+        ['sleep']
+      );
+      const reflections = await storageManager.getReflections();
+
+      expect(updated).toBe(2);
+      expect(reflections.find((r) => r.id === 'a')?.tags).toEqual([
+        'focus',
+        'habits',
+      ]);
+      expect(reflections.find((r) => r.id === 'b')?.tags).toEqual(['habits']);
+    });
+
+    it('should skip reflections whose tags do not change', async () => {
+      expect(await storageManager.updateTags(['b'], ['sleep'])).toBe(0);
+    });
+  });
+
+  describe('updateReflection', () => {
+    beforeEach(() => {
+      mockStorage.set(STORAGE_KEYS.REFLECTIONS, [
+        {
+          id: 'edit-me',
+          url: 'https://example.com/edit',
+          title: 'Editable',
+          createdAt: 1000,
+          summary: [],
+          reflection: ['First draft'],
+          proofreadVersion: 'First draft.',
+        },
+      ]);
+    });
+
+    it('should replace the text and keep the previous version', async () => {
+      const updated = await storageManager.updateReflection({
+        id: 'edit-me',
+        reflection: ['Second draft'],
+      });
+      const [stored] = await storageManager.getReflections();
+
+      expect(stored.reflection).toEqual(['Second draft']);
+      expect(stored.proofreadVersion).toBeUndefined();
+      expect(stored.updatedAt).toBe(updated.updatedAt);
+      expect(stored.revisions).toEqual([
+        {
+          savedAt: 1000,
+          reflection: ['First draft'],
+          proofreadVersion: 'First draft.',
+          toneUsed: undefined,
+        },
+      ]);
+    });
+
+    it('should keep a bounded number of revisions', async () => {
+      for (let i = 0; i < REVISIONS.MAX_PER_REFLECTION + 3; i++) {
+        await storageManager.updateReflection({
+          id: 'edit-me',
+          reflection: [`Draft ${i}`],
+        });
+      }
+      const [stored] = await storageManager.getReflections();
+
+      expect(stored.revisions).toHaveLength(REVISIONS.MAX_PER_REFLECTION);
+      expect(stored.revisions?.[0].reflection).toEqual([
+        `Draft ${REVISIONS.MAX_PER_REFLECTION + 1}`,
+      ]);
+    });
+
+    it('should not add a revision when nothing changed', async () => {
+      const result = await storageManager.updateReflection({
+        id: 'edit-me',
+        reflection: ['First draft'],
+        proofreadVersion: 'First draft.',
+      });
+
+      expect(result.revisions).toBeUndefined();
+    });
+
+    it('should reject unknown reflections', async () => {
+      await expect(
+        storageManager.updateReflection({ id: 'missing', reflection: [] })
+      ).rejects.toThrow('Reflection not found');
+    });
+  });
+
+  describe('importReflections', () => {
+    const existing = {
+      id: 'local',
+      url: 'https://example.com/local',
+      title: 'Local copy',
+      createdAt: 5000,
+      summary: [],
+      reflection: ['Mine'],
+    };
+
+    beforeEach(() => {
+      mockStorage.set(STORAGE_KEYS.REFLECTIONS, [existing]);
+    });
+
+    const file = JSON.stringify([
+      // Same ID as the local reflection
+      { ...existing, title: 'Imported copy', reflection: ['Theirs'] },
+      // Same URL and timestamp under a different ID
+      { ...existing, id: 'other-id' },
+      {
+        id: 'new',
+        url: 'https://example.com/new',
+        title: 'New one',
+        createdAt: 6000,
+        summary: [],
+        reflection: [],
+      },
+      { id: 'bad' },
+    ]);
+
+    it('should preview new reflections, duplicates and errors', async () => {
+      const preview = await storageManager.previewImport(file);
+
+      expect(preview.format).toBe('json');
+      expect(preview.newReflections.map((r) => r.title)).toEqual(['New one']);
+      expect(preview.duplicates).toHaveLength(1);
+      expect(preview.errors).toEqual([
+        'Entry 4: missing title',
+        '"Local copy" appears more than once',
+      ]);
+    });
+
+    it('should skip duplicates and migrate new reflections', async () => {
+      const result = await storageManager.importReflections(file);
+      const reflections = await storageManager.getReflections();
+
+      expect(result).toEqual({
+        imported: 1,
+        replaced: 0,
+        skipped: 1,
+        rejected: 2,
+      });
+      expect(reflections.map((r) => r.id)).toEqual(['new', 'local']);
+      expect(reflections[0].aiMetadata?.summarizerUsed).toBe(false);
+      expect(reflections[0].embedding).toHaveLength(EMBEDDING.DIMENSIONS);
+      expect(reflections[1].reflection).toEqual(['Mine']);
+    });
+
+    it('should overwrite duplicates when asked', async () => {
+      const before = Date.now();
+      const result = await storageManager.importReflections(file, 'replace');
+      const local = await storageManager.getReflectionById('local');
+
+      expect(result.replaced).toBe(1);
+      expect(local?.reflection).toEqual(['Theirs']);
+      expect(local?.updatedAt).toBeGreaterThanOrEqual(before);
+    });
+  });
 });
@@ -1,26 +1,81 @@
 /**
  * StorageManager - Handles all Chrome storage operations for reflections and settings
+ * Reflections are persisted through a ReflectionRepository (IndexedDB when available)
  */
 
-import type { Reflection, StreakData } from '../../../types';
-import { StorageFullError } from '../../../types/errors';
-import { STORAGE_KEYS, TIMING } from '../../../constants';
+import type {
+  ExportFile,
+  ExportFilters,
+  ExportFormat,
+  ImportDuplicateStrategy,
+  ImportPreview,
+  ImportPreviewItem,
+  ImportResult,
+  Reflection,
+  ReflectionRevision,
+  ReflectionUpdateRequest,
+  StreakData,
+  TagCount,
+} from '../../../types';
+import { StorageFullError, ValidationError } from '../../../types/errors';
+import {
+  DEFAULT_AI_METADATA,
+  EMBEDDING,
+  REVISIONS,
+  STORAGE_KEYS,
+  TIMING,
+} from '../../../constants';
 import {
   generateUUID,
-  formatDate,
   formatISODate,
   calculateStreak,
+  filterReflectionsForExport,
+  normalizeTags,
 } from '../../../utils';
+import {
+  createReflectionRepository,
+  type ReflectionRepository,
+} from './reflectionRepository';
+import { embedReflection, hasEmbedding } from './embeddings';
+import { parseImport } from './importer';
+import { createExportFile, getExporter, toMarkdown } from './exporters';
 
 // Storage warning threshold (90%)
 const STORAGE_WARNING_THRESHOLD = 0.9;
 
+/**
+ * Fill in AI metadata and summary format for reflections that predate them
+ */
+function migrateAIMetadata(reflection: Reflection): Reflection {
+  if (reflection.aiMetadata) {
+    return reflection;
+  }
+  return {
+    ...reflection,
+    summaryFormat: reflection.summaryFormat ?? 'bullets',
+    aiMetadata: { ...DEFAULT_AI_METADATA },
+  };
+}
+
+/**
+ * Reflections parsed from an import file, matched against local ones
+ */
+interface ImportPlan {
+  preview: ImportPreview;
+  fresh: Reflection[];
+  duplicates: { incoming: Reflection; existing: Reflection }[];
+}
+
 export class StorageManager {
   // Cache for reflections to reduce storage reads
   private cache: Reflection[] | null = null;
   private cacheTimestamp = 0;
   private migrationCompleted = false;
 
+  constructor(
+    private readonly repository: ReflectionRepository = createReflectionRepository()
+  ) {}
+
   /**
    * Migrate existing reflections to include AI metadata fields
    * This ensures backward compatibility with reflections created before AI integration
@@ -30,40 +85,19 @@ export class StorageManager {
       return;
     }
 
-    const result = await chrome.storage.local.get(STORAGE_KEYS.REFLECTIONS);
-    const reflections = (result[STORAGE_KEYS.REFLECTIONS] ??
-      []) as Reflection[];
-
-    let needsMigration = false;
-
-    // Check if any reflection needs migration
-    const migratedReflections = reflections.map((reflection) => {
-      // Check if reflection already has AI metadata
-      if (!reflection.aiMetadata) {
-        needsMigration = true;
-        return {
-          ...reflection,
-          // Add default AI metadata for existing reflections
-          summaryFormat: reflection.summaryFormat ?? 'bullets',
-          aiMetadata: {
-            summarizerUsed: false,
-            writerUsed: false,
-            rewriterUsed: false,
-            proofreaderUsed: false,
-            translatorUsed: false,
-            promptFallback: false,
-            processingTime: 0,
-          },
-        };
-      }
-      return reflection;
-    });
+    // Pick up reflections still stored under the legacy array key
+    await this.migrateLegacyReflections();
+
+    const reflections = await this.repository.getAll();
+
+    // Collect reflections that need migration
+    const migratedReflections = reflections
+      .filter((reflection) => !reflection.aiMetadata)
+      .map(migrateAIMetadata);
 
     // Only write to storage if migration was needed
-    if (needsMigration) {
-      await chrome.storage.local.set({
-        [STORAGE_KEYS.REFLECTIONS]: migratedReflections,
-      });
+    if (migratedReflections.length > 0) {
+      await this.repository.putMany(migratedReflections);
       // Invalidate cache to force reload with migrated data
       this.invalidateCache();
     }
@@ -71,6 +105,34 @@ export class StorageManager {
     this.migrationCompleted = true;
   }
 
+  /**
+   * Move reflections from the legacy chrome.storage.local array key into
+   * the IndexedDB repository. Runs once; the legacy key is removed afterwards.
+   * @returns Number of reflections migrated
+   */
+  async migrateLegacyReflections(): Promise<number> {
+    if (this.repository.kind !== 'indexeddb') {
+      return 0;
+    }
+
+    const result = await chrome.storage.local.get(STORAGE_KEYS.REFLECTIONS);
+    const legacy = result[STORAGE_KEYS.REFLECTIONS] as Reflection[] | undefined;
+    if (legacy === undefined) {
+      return 0;
+    }
+
+    const valid = Array.isArray(legacy)
+      ? legacy.filter((r) => r && typeof r.id === 'string' && r.id)
+      : [];
+    await this.repository.putMany(valid);
+    await chrome.storage.local.remove(STORAGE_KEYS.REFLECTIONS);
+
+    this.invalidateCache();
+    await this.notifyReflectionsChanged();
+
+    return valid.length;
+  }
+
   /**
    * Save a new reflection to storage
    * @param reflection Reflection object to save
@@ -78,38 +140,23 @@ export class StorageManager {
    */
   async saveReflection(reflection: Reflection): Promise<void> {
     try {
-      const reflections = await this.getReflections();
-
       // Ensure reflection has an ID
       if (!reflection.id) {
         reflection.id = generateUUID();
       }
 
       // Ensure AI metadata exists with defaults if not provided
-      reflection.aiMetadata ??= {
-        summarizerUsed: false,
-        writerUsed: false,
-        rewriterUsed: false,
-        proofreaderUsed: false,
-        translatorUsed: false,
-        promptFallback: false,
-        processingTime: 0,
-      };
+      reflection.aiMetadata ??= { ...DEFAULT_AI_METADATA };
 
       // Set default summary format if not provided
       reflection.summaryFormat ??= 'bullets';
 
-      // Add to reflections array
-      reflections.push(reflection);
-
       // Update streak data
       const streakData = await this.updateStreak(reflection.createdAt);
 
       // Save to storage
-      await chrome.storage.local.set({
-        [STORAGE_KEYS.REFLECTIONS]: reflections,
-        [STORAGE_KEYS.STREAK]: streakData,
-      });
+      await this.repository.put(reflection);
+      await this.notifyReflectionsChanged(streakData);
 
       // Invalidate cache after save
       this.invalidateCache();
@@ -140,9 +187,7 @@ export class StorageManager {
     }
 
     // Cache miss or expired, fetch from storage
-    const result = await chrome.storage.local.get(STORAGE_KEYS.REFLECTIONS);
-    const reflections = (result[STORAGE_KEYS.REFLECTIONS] ??
-      []) as Reflection[];
+    const reflections = await this.repository.getAll();
 
     // Update cache
     this.cache = reflections;
@@ -160,243 +205,389 @@ export class StorageManager {
    * @returns Reflection object or null if not found
    */
   async getReflectionById(id: string): Promise<Reflection | null> {
-    const reflections = await this.getReflections();
-    return reflections.find((r) => r.id === id) ?? null;
+    await this.migrateReflections();
+    return this.repository.getById(id);
   }
 
   /**
-   * Delete a reflection by ID
-   * @param id Reflection ID to delete
+   * Get reflections for a URL domain, most recent first
+   * @param domain Hostname (e.g., "example.com")
    */
-  async deleteReflection(id: string): Promise<void> {
-    const reflections = await this.getReflections();
-    const filtered = reflections.filter((r) => r.id !== id);
-
-    await chrome.storage.local.set({
-      [STORAGE_KEYS.REFLECTIONS]: filtered,
-    });
-
-    // Invalidate cache after delete
-    this.invalidateCache();
-
-    // Recalculate streak after deletion
-    if (filtered.length > 0) {
-      const dates = filtered.map((r) => formatISODate(r.createdAt));
-      const streak = calculateStreak(dates);
-      const lastReflectionDate = dates[0];
-
-      await chrome.storage.local.set({
-        [STORAGE_KEYS.STREAK]: {
-          current: streak,
-          lastReflectionDate,
-        },
-      });
-    } else {
-      // No reflections left, reset streak
-      await chrome.storage.local.set({
-        [STORAGE_KEYS.STREAK]: {
-          current: 0,
-          lastReflectionDate: '',
-        },
-      });
-    }
+  async getReflectionsByDomain(domain: string): Promise<Reflection[]> {
+    await this.migrateReflections();
+    return this.sortByDate(await this.repository.getByIndex('domain', domain));
   }
 
   /**
-   * Export reflections in JSON format
-   * @returns JSON string of all reflections
+   * Get reflections carrying a tag, most recent first
+   * @param tag Tag to match exactly
    */
-  async exportJSON(): Promise<string> {
-    const reflections = await this.getReflections();
-    return JSON.stringify(reflections, null, 2);
+  async getReflectionsByTag(tag: string): Promise<Reflection[]> {
+    await this.migrateReflections();
+    return this.sortByDate(await this.repository.getByIndex('tags', tag));
   }
 
   /**
-   * Export reflections in Markdown format
-   * @returns Markdown string of all reflections
+   * Get reflections by detected language, most recent first
+   * @param language ISO 639-1 language code
    */
-  async exportMarkdown(): Promise<string> {
-    const reflections = await this.getReflections();
-    const header = this.generateMarkdownHeader(reflections.length);
-    const body = this.generateMarkdownBody(reflections);
-    return header + body;
+  async getReflectionsByLanguage(language: string): Promise<Reflection[]> {
+    await this.migrateReflections();
+    return this.sortByDate(
+      await this.repository.getByIndex('detectedLanguage', language)
+    );
   }
 
   /**
-   * Generate Markdown export header
-   * @param count Number of reflections
-   * @returns Markdown header string
+   * Get reflections created within a date range, most recent first
+   * @param from Start timestamp (inclusive)
+   * @param to End timestamp (inclusive)
    */
-  private generateMarkdownHeader(count: number): string {
-    let header = '# Reflexa AI - Reflections Export\n\n';
-    header += `Exported on: ${formatDate(Date.now())}\n`;
-    header += `Total Reflections: ${count}\n\n`;
-    header += '---\n\n';
-    return header;
+  async getReflectionsInRange(from: number, to: number): Promise<Reflection[]> {
+    await this.migrateReflections();
+    return this.sortByDate(await this.repository.getByDateRange(from, to));
   }
 
   /**
-   * Generate Markdown export body
-   * @param reflections Array of reflections to export
-   * @returns Markdown body string
+   * Count how many reflections use each tag
+   * @returns Tags ordered by count, then alphabetically
    */
-  private generateMarkdownBody(reflections: Reflection[]): string {
-    let body = '';
+  async getTagCounts(): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const reflection of await this.getReflections()) {
+      for (const tag of reflection.tags ?? []) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
 
-    for (const reflection of reflections) {
-      body += this.generateReflectionMarkdown(reflection);
-      body += '---\n\n';
+  /**
+   * Add and remove tags on several reflections at once
+   * @param ids Reflections to update
+   * @param add Tags to add
+   * @param remove Tags to remove
+   * @returns Number of reflections whose tags changed
+   */
+  async updateTags(
+    ids: string[],
+    add: string[] = [],
+    remove: string[] = []
+  ): Promise<number> {
+    const selected = new Set(ids);
+    const removed = new Set(normalizeTags(remove));
+    const added = normalizeTags(add);
+
+    const updated = (await this.getReflections())
+      .filter((r) => selected.has(r.id))
+      .map((r): Reflection | null => {
+        const current = r.tags ?? [];
+        const tags = normalizeTags([
+          ...current.filter((tag) => !removed.has(tag)),
+          ...added,
+        ]);
+        const changed =
+          tags.length !== current.length ||
+          tags.some((tag, i) => tag !== current[i]);
+        if (!changed) return null;
+        // Tags feed the embedding, so refresh it with the new set; the new
+        // updatedAt lets the change win the sync merge
+        const next = { ...r, tags, updatedAt: Date.now() };
+        return { ...next, embedding: embedReflection(next) };
+      })
+      .filter((r): r is Reflection => r !== null);
+
+    if (updated.length === 0) {
+      return 0;
     }
 
-    return body;
+    await this.repository.putMany(updated);
+    this.invalidateCache();
+    await this.notifyReflectionsChanged();
+    return updated.length;
   }
 
   /**
-   * Generate Markdown for a single reflection
-   * @param reflection Reflection to convert to Markdown
-   * @returns Markdown string for reflection
+   * Replace the editable text of a saved reflection
+   * The previous text is kept as a revision, newest first
+   * @param update New text; a missing proofreadVersion clears the old one
+   * @returns The stored reflection (unchanged if nothing differs)
+   * @throws ValidationError if the reflection doesn't exist
+   * @throws StorageFullError if storage quota exceeded
    */
-  private generateReflectionMarkdown(reflection: Reflection): string {
-    let markdown = `## ${reflection.title}\n\n`;
-    markdown += `**URL:** ${reflection.url}\n`;
-    markdown += `**Date:** ${formatDate(reflection.createdAt)}\n\n`;
-
-    // Add AI metadata section if present
-    if (reflection.aiMetadata) {
-      markdown += this.generateAIMetadataMarkdown(reflection);
+  async updateReflection(update: ReflectionUpdateRequest): Promise<Reflection> {
+    const existing = await this.getReflectionById(update.id);
+    if (!existing) {
+      throw new ValidationError('Reflection not found', 'id', update.id);
     }
 
-    // Add summary section
-    if (reflection.summary && reflection.summary.length > 0) {
-      markdown += this.generateSummaryMarkdown(
-        reflection.summary,
-        reflection.summaryFormat
-      );
+    const toneUsed = update.toneUsed ?? existing.toneUsed;
+    const unchanged =
+      update.reflection.length === existing.reflection.length &&
+      update.reflection.every((text, i) => text === existing.reflection[i]) &&
+      update.proofreadVersion === existing.proofreadVersion &&
+      toneUsed === existing.toneUsed;
+    if (unchanged) {
+      return existing;
     }
 
-    // Add reflections section
-    if (reflection.reflection && reflection.reflection.length > 0) {
-      markdown += this.generateReflectionsMarkdown(reflection.reflection);
-    }
+    const revision: ReflectionRevision = {
+      savedAt: existing.updatedAt ?? existing.createdAt,
+      reflection: existing.reflection,
+      proofreadVersion: existing.proofreadVersion,
+      toneUsed: existing.toneUsed,
+    };
+    const next: Reflection = {
+      ...existing,
+      reflection: update.reflection,
+      proofreadVersion: update.proofreadVersion,
+      toneUsed,
+      updatedAt: Date.now(),
+      revisions: [revision, ...(existing.revisions ?? [])].slice(
+        0,
+        REVISIONS.MAX_PER_REFLECTION
+      ),
+    };
+    next.embedding = embedReflection(next);
 
-    // Add proofread version if exists
-    if (reflection.proofreadVersion) {
-      markdown += '### Proofread Version\n\n';
-      markdown += `${reflection.proofreadVersion}\n\n`;
+    try {
+      await this.repository.put(next);
+    } catch (error) {
+      if (this.isQuotaExceededError(error)) {
+        const { bytesUsed, quota } = await this.checkStorageQuota();
+        throw new StorageFullError(undefined, bytesUsed, quota);
+      }
+      throw error;
     }
 
-    // Add tags if exists
-    if (reflection.tags && reflection.tags.length > 0) {
-      markdown += `**Tags:** ${reflection.tags.join(', ')}\n\n`;
-    }
+    this.invalidateCache();
+    await this.notifyReflectionsChanged();
+    return next;
+  }
 
-    return markdown;
+  /**
+   * Delete a reflection by ID
+   * @param id Reflection ID to delete
+   */
+  async deleteReflection(id: string): Promise<void> {
+    await this.repository.deleteMany([id]);
+
+    // Invalidate cache after delete
+    this.invalidateCache();
+
+    // Recalculate streak after deletion
+    const remaining = await this.getReflections();
+    await this.notifyReflectionsChanged(this.calculateStreakData(remaining));
   }
 
   /**
-   * Generate Markdown for AI metadata section
-   * @param reflection Reflection with AI metadata
-   * @returns Markdown string for AI metadata
+   * Apply reflection changes received from another device
+   * Upserts by ID and removes deleted IDs
+   * @param upserts Reflections to add or replace
+   * @param deletedIds IDs of reflections to remove
    */
-  private generateAIMetadataMarkdown(reflection: Reflection): string {
-    let markdown = '### AI Processing\n\n';
-
-    // Add language information
-    if (reflection.detectedLanguage) {
-      markdown += `**Detected Language:** ${reflection.detectedLanguage}`;
-      if (reflection.originalLanguage) {
-        markdown += ` (Original: ${reflection.originalLanguage})`;
-      }
-      markdown += '\n';
+  async applySyncChanges(
+    upserts: Reflection[],
+    deletedIds: string[]
+  ): Promise<void> {
+    if (upserts.length === 0 && deletedIds.length === 0) {
+      return;
     }
 
-    if (reflection.translatedTo) {
-      markdown += `**Translated To:** ${reflection.translatedTo}\n`;
-    }
+    const removed = new Set(deletedIds);
+    await this.repository.deleteMany(deletedIds);
+    await this.repository.putMany(
+      upserts
+        .filter((r) => !removed.has(r.id))
+        .map((r) =>
+          hasEmbedding(r) ? r : { ...r, embedding: embedReflection(r) }
+        )
+    );
 
-    // Add summary format
-    if (reflection.summaryFormat) {
-      markdown += `**Summary Format:** ${reflection.summaryFormat}\n`;
+    this.invalidateCache();
+
+    const merged = await this.getReflections();
+    await this.notifyReflectionsChanged(this.calculateStreakData(merged));
+  }
+
+  /**
+   * Compute embeddings for reflections saved before embeddings existed
+   * Writes in batches so a large history doesn't hold one long transaction
+   * @returns Number of reflections updated
+   */
+  async backfillEmbeddings(): Promise<number> {
+    const missing = (await this.getReflections()).filter(
+      (r) => !hasEmbedding(r)
+    );
+    if (missing.length === 0) {
+      return 0;
     }
 
-    // Add tone information
-    if (reflection.toneUsed) {
-      markdown += `**Tone Applied:** ${reflection.toneUsed}\n`;
+    for (let i = 0; i < missing.length; i += EMBEDDING.BACKFILL_BATCH) {
+      const batch = missing
+        .slice(i, i + EMBEDDING.BACKFILL_BATCH)
+        .map((r) => ({ ...r, embedding: embedReflection(r) }));
+      await this.repository.putMany(batch);
     }
 
-    // Add AI APIs used
-    if (reflection.aiMetadata) {
-      const apisUsed: string[] = [];
-      if (reflection.aiMetadata.summarizerUsed) apisUsed.push('Summarizer');
-      if (reflection.aiMetadata.writerUsed) apisUsed.push('Writer');
-      if (reflection.aiMetadata.rewriterUsed) apisUsed.push('Rewriter');
-      if (reflection.aiMetadata.proofreaderUsed) apisUsed.push('Proofreader');
-      if (reflection.aiMetadata.translatorUsed) apisUsed.push('Translator');
-      if (reflection.aiMetadata.promptFallback)
-        apisUsed.push('Prompt (Fallback)');
-
-      if (apisUsed.length > 0) {
-        markdown += `**AI APIs Used:** ${apisUsed.join(', ')}\n`;
-      }
+    this.invalidateCache();
+    return missing.length;
+  }
 
-      if (reflection.aiMetadata.processingTime > 0) {
-        markdown += `**Processing Time:** ${reflection.aiMetadata.processingTime}ms\n`;
+  /**
+   * Work out what importing a file would do without writing anything
+   * @param content Contents of a JSON or Markdown export
+   */
+  async previewImport(content: string): Promise<ImportPreview> {
+    return (await this.planImport(content)).preview;
+  }
+
+  /**
+   * Import reflections from a JSON or Markdown export
+   * Entries are validated, migrated like stored reflections and matched
+   * against existing ones by ID or by URL plus timestamp
+   * @param content Contents of a JSON or Markdown export
+   * @param duplicateStrategy Skip duplicates or overwrite the local copy
+   * @throws StorageFullError if storage quota exceeded
+   */
+  async importReflections(
+    content: string,
+    duplicateStrategy: ImportDuplicateStrategy = 'skip'
+  ): Promise<ImportResult> {
+    const { preview, fresh, duplicates } = await this.planImport(content);
+    // A replacement is a local change: the new updatedAt lets it win the
+    // sync merge over the copy other devices hold
+    const replacements =
+      duplicateStrategy === 'replace'
+        ? duplicates.map(({ incoming, existing }) => ({
+            ...incoming,
+            id: existing.id,
+            updatedAt: Date.now(),
+          }))
+        : [];
+    const toWrite = [...fresh, ...replacements].map((r) => ({
+      ...r,
+      embedding: embedReflection(r),
+    }));
+
+    if (toWrite.length > 0) {
+      try {
+        await this.repository.putMany(toWrite);
+      } catch (error) {
+        if (this.isQuotaExceededError(error)) {
+          const { bytesUsed, quota } = await this.checkStorageQuota();
+          throw new StorageFullError(undefined, bytesUsed, quota);
+        }
+        throw error;
       }
+      this.invalidateCache();
+      const merged = await this.getReflections();
+      await this.notifyReflectionsChanged(this.calculateStreakData(merged));
     }
 
-    markdown += '\n';
-    return markdown;
+    return {
+      imported: fresh.length,
+      replaced: replacements.length,
+      skipped: duplicates.length - replacements.length,
+      rejected: preview.errors.length,
+    };
   }
 
   /**
-   * Generate Markdown for summary section
-   * @param summary Array of summary bullets
-   * @param format Optional summary format
-   * @returns Markdown string for summary
+   * Parse an import file and split it into new reflections and duplicates
    */
-  private generateSummaryMarkdown(summary: string[], format?: string): string {
-    let markdown = '### Summary';
-    if (format) {
-      markdown += ` (${format})`;
-    }
-    markdown += '\n\n';
+  private async planImport(content: string): Promise<ImportPlan> {
+    const parsed = parseImport(content);
+    const existing = await this.getReflections();
+
+    // Markdown dates only have day precision, so match on the day
+    const timeKey = (r: Reflection) =>
+      parsed.format === 'markdown'
+        ? formatISODate(r.createdAt)
+        : String(r.createdAt);
+    const byId = new Map(existing.map((r) => [r.id, r]));
+    const byUrlAndTime = new Map(
+      existing.map((r) => [`${r.url}\n${timeKey(r)}`, r])
+    );
 
-    const labels = ['Insight', 'Surprise', 'Apply'];
+    const fresh: Reflection[] = [];
+    const duplicates: ImportPlan['duplicates'] = [];
+    const seen = new Set<string>();
+    const errors = [...parsed.errors];
 
-    summary.forEach((bullet, index) => {
-      markdown += `- **${labels[index] ?? 'Point'}:** ${bullet}\n`;
+    for (const reflection of parsed.reflections.map(migrateAIMetadata)) {
+      const key = `${reflection.url}\n${timeKey(reflection)}`;
+      if (seen.has(reflection.id) || seen.has(key)) {
+        errors.push(`"${reflection.title}" appears more than once`);
+        continue;
+      }
+      seen.add(reflection.id);
+      seen.add(key);
+
+      const match = byId.get(reflection.id) ?? byUrlAndTime.get(key);
+      if (match) {
+        duplicates.push({ incoming: reflection, existing: match });
+      } else {
+        fresh.push(reflection);
+      }
+    }
+
+    const toItem = (r: Reflection): ImportPreviewItem => ({
+      title: r.title,
+      url: r.url,
+      createdAt: r.createdAt,
     });
 
-    markdown += '\n';
-    return markdown;
+    return {
+      preview: {
+        format: parsed.format,
+        newReflections: fresh.map(toItem),
+        duplicates: duplicates.map(({ incoming }) => toItem(incoming)),
+        errors,
+      },
+      fresh,
+      duplicates,
+    };
   }
 
   /**
-   * Generate Markdown for reflections section
-   * @param reflections Array of reflection texts
-   * @returns Markdown string for reflections
+   * Export reflections in JSON format
+   * @returns JSON string of all reflections
    */
-  private generateReflectionsMarkdown(reflections: string[]): string {
-    let markdown = '### Reflections\n\n';
-
-    reflections.forEach((text, index) => {
-      markdown += `${index + 1}. ${text}\n\n`;
-    });
+  async exportJSON(): Promise<string> {
+    const reflections = await this.getReflections();
+    return JSON.stringify(reflections, null, 2);
+  }
 
-    return markdown;
+  /**
+   * Export reflections in Markdown format
+   * @returns Markdown string of all reflections
+   */
+  async exportMarkdown(): Promise<string> {
+    return toMarkdown(await this.getReflections());
   }
 
   /**
-   * Export reflections based on format
-   * @param format Export format ('json' or 'markdown')
-   * @returns Exported data as string
+   * Export reflections with the exporter registered for a format
+   * @param format Export format
+   * @param filters Only export reflections matching these
+   * @returns File ready to download
    */
-  async exportReflections(format: 'json' | 'markdown'): Promise<string> {
-    if (format === 'json') {
-      return this.exportJSON();
-    } else {
-      return this.exportMarkdown();
+  async exportReflections(
+    format: ExportFormat,
+    filters?: ExportFilters
+  ): Promise<ExportFile> {
+    const exporter = getExporter(format);
+    if (!exporter) {
+      throw new ValidationError('Unsupported export format', 'format', format);
     }
+    const reflections = filterReflectionsForExport(
+      await this.getReflections(),
+      filters
+    );
+    return createExportFile(exporter, reflections, { filters });
   }
 
   /**
@@ -438,13 +629,7 @@ export class StorageManager {
    * @returns Object with bytes used and quota
    */
   async checkStorageQuota(): Promise<{ bytesUsed: number; quota: number }> {
-    const bytesInUse = await chrome.storage.local.getBytesInUse();
-    const quota = chrome.storage.local.QUOTA_BYTES;
-
-    return {
-      bytesUsed: bytesInUse,
-      quota,
-    };
+    return this.repository.estimateUsage();
   }
 
   /**
@@ -460,18 +645,77 @@ export class StorageManager {
    * Clear all reflections (use with caution)
    */
   async clearAllReflections(): Promise<void> {
-    await chrome.storage.local.set({
-      [STORAGE_KEYS.REFLECTIONS]: [],
-      [STORAGE_KEYS.STREAK]: {
-        current: 0,
-        lastReflectionDate: '',
-      },
+    await this.repository.clear();
+    await this.notifyReflectionsChanged({
+      current: 0,
+      lastReflectionDate: '',
     });
 
     // Invalidate cache after clear
     this.invalidateCache();
   }
 
+  /**
+   * Replace every stored reflection, as when restoring a backup
+   * Reflections are migrated and re-embedded like imported ones, and marked
+   * as updated now so they win the sync merge over newer synced copies
+   * @param reflections Reflections to store
+   * @returns IDs of stored reflections that the replacement dropped
+   * @throws StorageFullError if storage quota exceeded
+   */
+  async replaceAllReflections(reflections: Reflection[]): Promise<string[]> {
+    const kept = new Set(reflections.map((r) => r.id));
+    const droppedIds = (await this.getReflections())
+      .map((r) => r.id)
+      .filter((id) => !kept.has(id));
+    const now = Date.now();
+    const toWrite = reflections.map((r) => {
+      const migrated = { ...migrateAIMetadata(r), updatedAt: now };
+      return { ...migrated, embedding: embedReflection(migrated) };
+    });
+
+    try {
+      await this.repository.replaceAll(toWrite);
+    } catch (error) {
+      if (this.isQuotaExceededError(error)) {
+        const { bytesUsed, quota } = await this.checkStorageQuota();
+        throw new StorageFullError(undefined, bytesUsed, quota);
+      }
+      throw error;
+    } finally {
+      this.invalidateCache();
+    }
+    await this.notifyReflectionsChanged(this.calculateStreakData(toWrite));
+    return droppedIds;
+  }
+
+  /**
+   * Persist streak data and bump the change marker extension pages listen to
+   * @param streak Updated streak data, if it changed
+   */
+  private async notifyReflectionsChanged(streak?: StreakData): Promise<void> {
+    await chrome.storage.local.set({
+      ...(streak ? { [STORAGE_KEYS.STREAK]: streak } : {}),
+      [STORAGE_KEYS.REFLECTIONS_UPDATED]: Date.now(),
+    });
+  }
+
+  /**
+   * Calculate streak data from a list of reflections
+   * @param reflections Reflections sorted most recent first
+   */
+  private calculateStreakData(reflections: Reflection[]): StreakData {
+    const dates = reflections.map((r) => formatISODate(r.createdAt));
+    return {
+      current: calculateStreak(dates),
+      lastReflectionDate: dates[0] ?? '',
+    };
+  }
+
+  private sortByDate(reflections: Reflection[]): Reflection[] {
+    return reflections.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
   /**
    * Invalidate the reflections cache
    * Call this after any write operation
@@ -489,7 +733,9 @@ export class StorageManager {
   private isQuotaExceededError(error: unknown): boolean {
     return (
       error instanceof Error &&
-      (error.message.includes('QUOTA_BYTES') || error.message.includes('quota'))
+      (error.name === 'QuotaExceededError' ||
+        error.message.includes('QUOTA_BYTES') ||
+        error.message.includes('quota'))
     );
   }
 }
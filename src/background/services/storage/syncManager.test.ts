@@ -0,0 +1,288 @@
+/**
+ * Unit tests for SyncManager
+ * Tests sharding, cross-device merge, deletion propagation and quota fallback
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SyncManager } from './syncManager';
+import { StorageManager } from './storageManager';
+import { BackupManager } from './backupManager';
+import { STORAGE_KEYS, SYNC } from '../../../constants';
+import type { Reflection } from '../../../types';
+
+const makeReflection = (id: string, overrides: Partial<Reflection> = {}) =>
+  ({
+    id,
+    url: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    createdAt: Date.now(),
+    summary: ['Insight', 'Surprise', 'Apply'],
+    reflection: ['Answer'],
+    ...overrides,
+  }) as Reflection;
+
+describe('SyncManager', () => {
+  let localStore: Map<string, any>;
+  let syncStore: Map<string, any>;
+  let storageManager: StorageManager;
+  let syncManager: SyncManager;
+
+  const mockArea = (store: Map<string, any>, area: any) => {
+    vi.spyOn(area, 'get').mockImplementation((keys: any) => {
+      const result: Record<string, any> = {};
+      if (keys === null) {
+        store.forEach((value, key) => {
+          result[key] = value;
+        });
+      } else if (typeof keys === 'string') {
+        result[keys] = store.get(keys);
+      } else if (Array.isArray(keys)) {
+        keys.forEach((key) => {
+          result[key] = store.get(key);
+        });
+      }
+      return Promise.resolve(result);
+    });
+    vi.spyOn(area, 'set').mockImplementation((items: any) => {
+      Object.entries(items).forEach(([key, value]) => store.set(key, value));
+      return Promise.resolve();
+    });
+    vi.spyOn(area, 'remove').mockImplementation((keys: any) => {
+      (Array.isArray(keys) ? keys : [keys]).forEach((key: string) =>
+        store.delete(key)
+      );
+      return Promise.resolve();
+    });
+  };
+
+  beforeEach(() => {
+    localStore = new Map();
+    syncStore = new Map();
+    mockArea(localStore, chrome.storage.local);
+    mockArea(syncStore, chrome.storage.sync);
+    vi.spyOn(chrome.storage.local, 'getBytesInUse').mockResolvedValue(
+      1000 as never
+    );
+
+    storageManager = new StorageManager();
+    syncManager = new SyncManager(storageManager);
+  });
+
+  it('should push local reflections to sync and record last sync', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+
+    const result = await syncManager.sync();
+
+    expect(result.status).toBe('synced');
+    expect(result.pushed).toBe(1);
+    expect(syncStore.get(`${SYNC.KEY_PREFIX}r:a`)).toEqual({
+      n: 1,
+      c: expect.any(Number),
+    });
+    expect(await syncManager.getLastSync()).toEqual(expect.any(Number));
+  });
+
+  it('should shard reflections larger than the per-item quota', async () => {
+    const longText = 'word '.repeat(4000);
+    await storageManager.saveReflection(
+      makeReflection('big', { reflection: [longText] })
+    );
+
+    await syncManager.sync();
+
+    const manifest = syncStore.get(`${SYNC.KEY_PREFIX}r:big`);
+    expect(manifest.n).toBeGreaterThan(1);
+    for (const [key, value] of syncStore) {
+      const bytes = key.length + JSON.stringify(value).length;
+      expect(bytes).toBeLessThanOrEqual(SYNC.QUOTA_BYTES_PER_ITEM);
+    }
+  });
+
+  it('should pull reflections written by another device', async () => {
+    await storageManager.saveReflection(makeReflection('remote'));
+    await syncManager.sync();
+
+    // Simulate a second profile with its own local storage
+    localStore.clear();
+    const freshStorage = new StorageManager();
+    const freshSync = new SyncManager(freshStorage);
+
+    const result = await freshSync.sync();
+
+    expect(result.pulled).toBe(1);
+    const reflections = await freshStorage.getReflections();
+    expect(reflections.map((r) => r.id)).toEqual(['remote']);
+  });
+
+  it('should pull edits made on another device', async () => {
+    await storageManager.saveReflection(makeReflection('shared'));
+    await syncManager.sync();
+    const firstDevice = new Map(localStore);
+
+    // Second device pulls, edits and pushes
+    localStore.clear();
+    const otherStorage = new StorageManager();
+    await new SyncManager(otherStorage).sync();
+    await otherStorage.updateReflection({
+      id: 'shared',
+      reflection: ['Edited elsewhere'],
+    });
+    await new SyncManager(otherStorage).sync();
+
+    // Back on the first device
+    localStore.clear();
+    firstDevice.forEach((value, key) => localStore.set(key, value));
+    const firstStorage = new StorageManager();
+    const result = await new SyncManager(firstStorage).sync();
+
+    expect(result.pulled).toBe(1);
+    const [reflection] = await firstStorage.getReflections();
+    expect(reflection.reflection).toEqual(['Edited elsewhere']);
+    expect(reflection.revisions).toHaveLength(1);
+  });
+
+  it('should pull tags changed on another device', async () => {
+    await storageManager.saveReflection(
+      makeReflection('tagged', { createdAt: Date.now() - 1000 })
+    );
+    await syncManager.sync();
+    const firstDevice = new Map(localStore);
+
+    // Second device pulls, re-tags and pushes
+    localStore.clear();
+    const otherStorage = new StorageManager();
+    await new SyncManager(otherStorage).sync();
+    await otherStorage.updateTags(['tagged'], ['focus']);
+    await new SyncManager(otherStorage).sync();
+
+    // Back on the first device, still holding the untagged copy
+    localStore.clear();
+    firstDevice.forEach((value, key) => localStore.set(key, value));
+    const firstStorage = new StorageManager();
+    const result = await new SyncManager(firstStorage).sync();
+
+    expect(result.pulled).toBe(1);
+    const [reflection] = await firstStorage.getReflections();
+    expect(reflection.tags).toEqual(['focus']);
+  });
+
+  it('should propagate deletions through tombstones', async () => {
+    await storageManager.saveReflection(makeReflection('keep'));
+    await storageManager.saveReflection(makeReflection('gone'));
+    await syncManager.sync();
+
+    // Another device holding the same reflections
+    const deviceBLocal = new Map(localStore);
+
+    await storageManager.deleteReflection('gone');
+    await syncManager.sync();
+
+    expect(syncStore.has(`${SYNC.KEY_PREFIX}r:gone`)).toBe(false);
+    expect(syncStore.get(`${SYNC.KEY_PREFIX}tombstones`)).toEqual([
+      { id: 'gone', at: expect.any(Number) },
+    ]);
+
+    localStore.clear();
+    deviceBLocal.forEach((value, key) => localStore.set(key, value));
+    const deviceB = new StorageManager();
+    const result = await new SyncManager(deviceB).sync();
+
+    expect(result.deleted).toBe(1);
+    const remaining = await deviceB.getReflections();
+    expect(remaining.map((r) => r.id)).toEqual(['keep']);
+  });
+
+  it('should push a restored backup over newer synced copies', async () => {
+    await storageManager.saveReflection(
+      makeReflection('kept', { createdAt: Date.now() - 1000 })
+    );
+    const backupManager = new BackupManager(storageManager, new IDBFactory());
+    const backup = await backupManager.createBackup('manual');
+    await storageManager.updateReflection({
+      id: 'kept',
+      reflection: ['Edited after the backup'],
+    });
+    await storageManager.saveReflection(makeReflection('added'));
+    await syncManager.sync();
+    const otherDevice = new Map(localStore);
+
+    // Sync was switched off and on again, forgetting what was mirrored
+    await syncManager.disable();
+    const restored = await backupManager.restoreBackup(backup!.id);
+    syncManager.recordDeletions(restored.removedIds);
+    await syncManager.sync();
+
+    expect(restored.removedIds).toEqual(['added']);
+    expect(syncStore.get(`${SYNC.KEY_PREFIX}tombstones`)).toEqual([
+      { id: 'added', at: expect.any(Number) },
+    ]);
+
+    localStore.clear();
+    otherDevice.forEach((value, key) => localStore.set(key, value));
+    const otherStorage = new StorageManager();
+    await new SyncManager(otherStorage).sync();
+
+    const reflections = await otherStorage.getReflections();
+    expect(reflections.map((r) => r.id)).toEqual(['kept']);
+    expect(reflections[0].reflection).toEqual(['Answer']);
+  });
+
+  it('should keep older reflections local when the sync quota is full', async () => {
+    const bulky = 'x'.repeat(7000);
+    for (let i = 0; i < 20; i++) {
+      await storageManager.saveReflection(
+        makeReflection(`r${i}`, {
+          createdAt: Date.now() - i * 1000,
+          reflection: [bulky],
+        })
+      );
+    }
+
+    const result = await syncManager.sync();
+
+    expect(result.status).toBe('partial');
+    expect(result.skipped).toBeGreaterThan(0);
+    expect(syncStore.has(`${SYNC.KEY_PREFIX}r:r0`)).toBe(true);
+    expect(syncStore.has(`${SYNC.KEY_PREFIX}r:r19`)).toBe(false);
+    expect(await storageManager.getReflections()).toHaveLength(20);
+  });
+
+  it('should fall back cleanly when sync storage rejects the write', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+    vi.spyOn(chrome.storage.sync, 'set').mockRejectedValue(
+      new Error('QUOTA_BYTES quota exceeded')
+    );
+
+    const result = await syncManager.sync();
+
+    expect(result.status).toBe('quota-exceeded');
+    expect(result.pushed).toBe(0);
+    expect(await storageManager.getReflections()).toHaveLength(1);
+    expect(localStore.get(STORAGE_KEYS.LAST_SYNC)).toBeUndefined();
+    expect(localStore.get(STORAGE_KEYS.SYNC_STATE)).toEqual({ syncedIds: [] });
+  });
+
+  it('should leave the shared copies in place when disabled', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+    await syncManager.sync();
+    const synced = syncStore.size;
+
+    await syncManager.disable();
+
+    expect(syncStore.size).toBe(synced);
+    expect(localStore.get(STORAGE_KEYS.SYNC_STATE)).toBeUndefined();
+    expect(await storageManager.getReflections()).toHaveLength(1);
+  });
+
+  it('should remove synced items when asked to clear them', async () => {
+    await storageManager.saveReflection(makeReflection('a'));
+    await syncManager.sync();
+
+    const removed = await syncManager.clearRemote();
+
+    expect(removed).toBeGreaterThan(0);
+    expect(syncStore.size).toBe(0);
+    expect(await storageManager.getReflections()).toHaveLength(1);
+  });
+});
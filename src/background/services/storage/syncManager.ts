@@ -0,0 +1,496 @@
+/**
+ * SyncManager - Mirrors reflections into chrome.storage.sync when privacyMode is 'sync'
+ *
+ * Layout in chrome.storage.sync (every key starts with SYNC.KEY_PREFIX):
+ * - r:<id>       Manifest for a reflection ({ n: chunk count, c: createdAt })
+ * - r:<id>:<i>   Chunk i of the reflection's JSON serialization
+ * - tombstones   IDs deleted on any device, so deletions propagate
+ *
+ * Only the most recent reflections that fit within the sync quotas are
+ * mirrored. Older reflections stay in local storage and are never treated
+ * as deleted just because they were evicted from sync.
+ */
+
+import type { Reflection } from '../../../types';
+import { STORAGE_KEYS, SYNC } from '../../../constants';
+import { devLog, devWarn, devError } from '../../../utils/logger';
+import type { StorageManager } from './storageManager';
+
+/**
+ * Per-reflection manifest stored in sync
+ */
+interface SyncManifest {
+  n: number; // Number of chunks
+  c: number; // createdAt, used to keep the most recent reflections
+}
+
+/**
+ * Record of a reflection deleted on some device
+ */
+interface SyncTombstone {
+  id: string;
+  at: number; // Deletion timestamp
+}
+
+/**
+ * Local bookkeeping persisted between sync runs
+ */
+interface SyncState {
+  syncedIds: string[]; // IDs mirrored in sync after the last run
+}
+
+/**
+ * Outcome of a sync run
+ */
+export type SyncStatus = 'synced' | 'partial' | 'quota-exceeded' | 'error';
+
+export interface SyncResult {
+  status: SyncStatus;
+  pulled: number; // Reflections received from other devices
+  pushed: number; // Reflections written to sync
+  deleted: number; // Local reflections removed by remote tombstones
+  skipped: number; // Local reflections that did not fit in the sync quota
+}
+
+const TOMBSTONES_KEY = `${SYNC.KEY_PREFIX}tombstones`;
+const MANIFEST_PATTERN = /^r:([^:]+)$/;
+const CHUNK_PATTERN = /^r:([^:]+):(\d+)$/;
+
+const encoder = new TextEncoder();
+
+/**
+ * Size of an item as chrome.storage.sync accounts for it:
+ * key length plus the JSON serialization of the value
+ */
+function itemBytes(key: string, value: unknown): number {
+  return (
+    encoder.encode(key).length + encoder.encode(JSON.stringify(value)).length
+  );
+}
+
+export class SyncManager {
+  private inFlight: Promise<SyncResult> | null = null;
+  private rerunRequested = false;
+  private pendingDeletions = new Set<string>();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly storageManager: StorageManager) {}
+
+  /**
+   * Schedule a sync after a short debounce
+   * Multiple calls within the debounce window collapse into one run
+   * @param delay Delay in milliseconds
+   */
+  scheduleSync(delay: number = SYNC.DEBOUNCE): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.sync();
+    }, delay);
+  }
+
+  /**
+   * Tombstone reflections removed on this device in bulk, as by a restore,
+   * on the next sync run
+   * Plain deletions don't need this: anything mirrored before and now gone
+   * is tombstoned anyway, but a restore can drop reflections this device
+   * never recorded as synced.
+   * @param ids IDs of the removed reflections
+   */
+  recordDeletions(ids: string[]): void {
+    ids.forEach((id) => this.pendingDeletions.add(id));
+  }
+
+  /**
+   * Run a full two-way sync
+   * Concurrent callers share the running sync, and one more run is queued
+   * so changes made mid-sync are not missed
+   * @returns Result of the sync run
+   */
+  async sync(): Promise<SyncResult> {
+    if (this.inFlight) {
+      this.rerunRequested = true;
+      return this.inFlight;
+    }
+
+    this.inFlight = this.runSync().finally(() => {
+      this.inFlight = null;
+      if (this.rerunRequested) {
+        this.rerunRequested = false;
+        void this.sync();
+      }
+    });
+
+    return this.inFlight;
+  }
+
+  /**
+   * Stop syncing on this device
+   * Called when the user switches back to local-only storage. Only this
+   * device's bookkeeping is cleared: the copies in chrome.storage.sync
+   * are shared with the profile's other devices, which keep syncing them.
+   */
+  async disable(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pendingDeletions.clear();
+
+    try {
+      await chrome.storage.local.remove(STORAGE_KEYS.SYNC_STATE);
+      devLog('[Sync] Disabled on this device');
+    } catch (error) {
+      devWarn('[Sync] Failed to clear sync state:', error);
+    }
+  }
+
+  /**
+   * Remove this profile's reflections from chrome.storage.sync
+   * Every device syncing the profile loses the shared copies, so only run
+   * this when the user asks for it. Local reflections are not touched.
+   * @returns Number of synced items removed
+   */
+  async clearRemote(): Promise<number> {
+    const remote = await chrome.storage.sync.get(null);
+    const keys = Object.keys(remote).filter((key) =>
+      key.startsWith(SYNC.KEY_PREFIX)
+    );
+    if (keys.length > 0) {
+      await chrome.storage.sync.remove(keys);
+    }
+    await chrome.storage.local.remove(STORAGE_KEYS.SYNC_STATE);
+    devLog(`[Sync] Removed ${keys.length} synced items`);
+    return keys.length;
+  }
+
+  /**
+   * Get the timestamp of the last successful sync
+   * @returns Unix timestamp or null if never synced
+   */
+  async getLastSync(): Promise<number | null> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.LAST_SYNC);
+    const value = result[STORAGE_KEYS.LAST_SYNC] as unknown;
+    return typeof value === 'number' ? value : null;
+  }
+
+  /**
+   * Check whether a storage change belongs to the sync layout
+   * @param keys Changed storage keys
+   */
+  isSyncChange(keys: string[]): boolean {
+    return keys.some((key) => key.startsWith(SYNC.KEY_PREFIX));
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const result: SyncResult = {
+      status: 'synced',
+      pulled: 0,
+      pushed: 0,
+      deleted: 0,
+      skipped: 0,
+    };
+    const recordedDeletions = [...this.pendingDeletions];
+    this.pendingDeletions.clear();
+
+    try {
+      const [remoteItems, state, local] = await Promise.all([
+        chrome.storage.sync.get(null) as Promise<Record<string, unknown>>,
+        this.getState(),
+        this.storageManager.getReflections(),
+      ]);
+
+      const remote = this.parseRemote(remoteItems);
+      const localIds = new Set(local.map((r) => r.id));
+      const localUpdatedAt = new Map(
+        local.map((r) => [r.id, r.updatedAt ?? r.createdAt])
+      );
+      const previouslySynced = new Set(state.syncedIds);
+      const tombstones = new Map(remote.tombstones.map((t) => [t.id, t.at]));
+      const now = Date.now();
+
+      // Reflections that were mirrored before but are gone locally were
+      // deleted on this device; record a tombstone so others delete them too
+      for (const id of [...previouslySynced, ...recordedDeletions]) {
+        if (!localIds.has(id) && !tombstones.has(id)) {
+          tombstones.set(id, now);
+        }
+      }
+
+      // Merge remote changes into local storage
+      const deletedIds = local
+        .filter((r) => tombstones.has(r.id))
+        .map((r) => r.id);
+      // New reflections, plus ones edited more recently on another device
+      const upserts = [...remote.reflections.values()].filter(
+        (r) =>
+          !tombstones.has(r.id) &&
+          (!localIds.has(r.id) ||
+            (r.updatedAt ?? r.createdAt) > localUpdatedAt.get(r.id)!)
+      );
+      await this.storageManager.applySyncChanges(upserts, deletedIds);
+      result.pulled = upserts.length;
+      result.deleted = deletedIds.length;
+
+      // Decide which reflections fit in sync, most recent first
+      const replaced = new Set([...deletedIds, ...upserts.map((r) => r.id)]);
+      const merged = [
+        ...local.filter((r) => !replaced.has(r.id)),
+        ...upserts,
+      ].sort((a, b) => b.createdAt - a.createdAt);
+
+      const trimmedTombstones = [...tombstones.entries()]
+        .map(([id, at]) => ({ id, at }))
+        .sort((a, b) => b.at - a.at)
+        .slice(0, SYNC.MAX_TOMBSTONES);
+
+      let bytesBudget =
+        SYNC.QUOTA_BYTES -
+        SYNC.RESERVED_BYTES -
+        itemBytes(TOMBSTONES_KEY, trimmedTombstones);
+      let itemsBudget = SYNC.MAX_ITEMS - 1; // One item for tombstones
+
+      const desired = new Map<
+        string,
+        { items: Record<string, unknown>; serialized: string }
+      >();
+      for (const reflection of merged) {
+        const entry = this.toSyncItems(reflection);
+        const bytes = Object.entries(entry.items).reduce(
+          (sum, [key, value]) => sum + itemBytes(key, value),
+          0
+        );
+        const count = Object.keys(entry.items).length;
+
+        if (bytes > bytesBudget || count > itemsBudget) {
+          result.skipped++;
+          continue;
+        }
+
+        bytesBudget -= bytes;
+        itemsBudget -= count;
+        desired.set(reflection.id, entry);
+      }
+
+      // Compute the minimal set of writes and removals
+      const toSet: Record<string, unknown> = {};
+      const toRemove: string[] = [];
+
+      for (const [id, keys] of remote.keysById) {
+        const entry = desired.get(id);
+        for (const key of keys) {
+          if (!entry || !(key in entry.items)) {
+            toRemove.push(key);
+          }
+        }
+      }
+
+      for (const [id, entry] of desired) {
+        if (remote.serializedById.get(id) === entry.serialized) {
+          continue;
+        }
+        Object.assign(toSet, entry.items);
+        result.pushed++;
+      }
+
+      const previousTombstones = JSON.stringify(remote.tombstones);
+      if (JSON.stringify(trimmedTombstones) !== previousTombstones) {
+        toSet[TOMBSTONES_KEY] = trimmedTombstones;
+      }
+
+      // Free space before writing new items
+      if (toRemove.length > 0) {
+        await chrome.storage.sync.remove(toRemove);
+      }
+
+      let syncedIds = [...desired.keys()];
+
+      if (Object.keys(toSet).length > 0) {
+        try {
+          await chrome.storage.sync.set(toSet);
+        } catch (error) {
+          if (!this.isQuotaExceededError(error)) {
+            throw error;
+          }
+          // Leave local data untouched; only what was already remote is synced
+          devWarn('[Sync] Sync quota exceeded, keeping reflections local');
+          syncedIds = syncedIds.filter((id) => remote.serializedById.has(id));
+          result.status = 'quota-exceeded';
+          result.pushed = 0;
+        }
+      }
+
+      await chrome.storage.local.set({
+        [STORAGE_KEYS.SYNC_STATE]: { syncedIds } satisfies SyncState,
+        ...(result.status === 'quota-exceeded'
+          ? {}
+          : { [STORAGE_KEYS.LAST_SYNC]: now }),
+      });
+
+      if (result.status === 'synced' && result.skipped > 0) {
+        result.status = 'partial';
+      }
+
+      devLog('[Sync] Completed:', result);
+      return result;
+    } catch (error) {
+      devError('[Sync] Failed:', error);
+      recordedDeletions.forEach((id) => this.pendingDeletions.add(id));
+      return { ...result, status: 'error' };
+    }
+  }
+
+  /**
+   * Parse sync storage into reflections, key ownership and tombstones
+   * Incomplete or corrupt reflections are ignored
+   */
+  private parseRemote(items: Record<string, unknown>): {
+    reflections: Map<string, Reflection>;
+    serializedById: Map<string, string>;
+    keysById: Map<string, string[]>;
+    tombstones: SyncTombstone[];
+  } {
+    const manifests = new Map<string, SyncManifest>();
+    const chunks = new Map<string, Map<number, string>>();
+    const keysById = new Map<string, string[]>();
+    let tombstones: SyncTombstone[] = [];
+
+    for (const [key, value] of Object.entries(items)) {
+      if (!key.startsWith(SYNC.KEY_PREFIX)) continue;
+
+      if (key === TOMBSTONES_KEY) {
+        if (Array.isArray(value)) {
+          tombstones = (value as SyncTombstone[]).filter(
+            (t) => typeof t?.id === 'string' && typeof t?.at === 'number'
+          );
+        }
+        continue;
+      }
+
+      const name = key.slice(SYNC.KEY_PREFIX.length);
+      const manifestMatch = MANIFEST_PATTERN.exec(name);
+      const chunkMatch = CHUNK_PATTERN.exec(name);
+      const id = manifestMatch?.[1] ?? chunkMatch?.[1];
+      if (!id) continue;
+
+      keysById.set(id, [...(keysById.get(id) ?? []), key]);
+
+      if (manifestMatch) {
+        manifests.set(id, value as SyncManifest);
+      } else if (chunkMatch && typeof value === 'string') {
+        const parts = chunks.get(id) ?? new Map<number, string>();
+        parts.set(Number(chunkMatch[2]), value);
+        chunks.set(id, parts);
+      }
+    }
+
+    const reflections = new Map<string, Reflection>();
+    const serializedById = new Map<string, string>();
+
+    for (const [id, manifest] of manifests) {
+      const parts = chunks.get(id);
+      if (!parts || typeof manifest?.n !== 'number') continue;
+
+      let serialized = '';
+      let complete = true;
+      for (let i = 0; i < manifest.n; i++) {
+        const part = parts.get(i);
+        if (part === undefined) {
+          complete = false;
+          break;
+        }
+        serialized += part;
+      }
+      if (!complete) continue;
+
+      try {
+        const reflection = JSON.parse(serialized) as Reflection;
+        if (reflection?.id === id) {
+          reflections.set(id, reflection);
+          serializedById.set(id, serialized);
+        }
+      } catch {
+        devWarn('[Sync] Ignoring corrupt synced reflection:', id);
+      }
+    }
+
+    return { reflections, serializedById, keysById, tombstones };
+  }
+
+  /**
+   * Split a reflection into manifest and chunk items that each fit
+   * within the per-item quota
+   */
+  private toSyncItems(reflection: Reflection): {
+    items: Record<string, unknown>;
+    serialized: string;
+  } {
+    // Embeddings are recomputed on each device, so they don't use sync quota
+    const serialized = JSON.stringify({ ...reflection, embedding: undefined });
+    const items: Record<string, unknown> = {};
+
+    let offset = 0;
+    let index = 0;
+    while (offset < serialized.length) {
+      const key = this.chunkKey(reflection.id, index);
+      let size = Math.min(
+        serialized.length - offset,
+        SYNC.QUOTA_BYTES_PER_ITEM
+      );
+      let piece = serialized.slice(offset, offset + size);
+      let bytes = itemBytes(key, piece);
+
+      // Escaping and multi-byte characters can push a chunk over the limit
+      while (bytes > SYNC.QUOTA_BYTES_PER_ITEM && size > 1) {
+        size = Math.max(
+          1,
+          Math.floor((size * SYNC.QUOTA_BYTES_PER_ITEM) / bytes) - 1
+        );
+        piece = serialized.slice(offset, offset + size);
+        bytes = itemBytes(key, piece);
+      }
+
+      items[key] = piece;
+      offset += size;
+      index++;
+    }
+
+    items[this.manifestKey(reflection.id)] = {
+      n: index,
+      c: reflection.createdAt,
+    } satisfies SyncManifest;
+
+    return { items, serialized };
+  }
+
+  private manifestKey(id: string): string {
+    return `${SYNC.KEY_PREFIX}r:${id}`;
+  }
+
+  private chunkKey(id: string, index: number): string {
+    return `${SYNC.KEY_PREFIX}r:${id}:${index}`;
+  }
+
+  private async getState(): Promise<SyncState> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.SYNC_STATE);
+    const state = result[STORAGE_KEYS.SYNC_STATE] as SyncState | undefined;
+    return {
+      syncedIds: Array.isArray(state?.syncedIds) ? state.syncedIds : [],
+    };
+  }
+
+  /**
+   * Check if error is a sync quota error (bytes, items or write rate)
+   */
+  private isQuotaExceededError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      (error.message.includes('QUOTA_BYTES') ||
+        error.message.includes('MAX_ITEMS') ||
+        error.message.includes('MAX_WRITE_OPERATIONS') ||
+        error.message.toLowerCase().includes('quota'))
+    );
+  }
+}
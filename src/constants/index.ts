@@ -2,7 +2,14 @@
  * Constants for Reflexa AI Chrome Extension
  */
 
-import type { Settings } from '../types';
+import type {
+  AIMetadata,
+  CustomSummaryFormat,
+  PromptTemplateDefinition,
+  PromptTemplateId,
+  Settings,
+  SiteRule,
+} from '../types';
 
 /**
  * Default user settings
@@ -29,6 +36,13 @@ export const DEFAULT_SETTINGS: Settings = {
   voiceInputEnabled: true,
   voiceLanguage: undefined, // Will default to browser language
   voiceAutoStopDelay: 10000, // 10 seconds
+  followUpDepth: 1, // One follow-up after the first answer
+  readingProgressThreshold: 0.4, // Nudge after reading 40% of the article
+  nudgeOnUnlistedSites: true,
+  // Backup settings
+  backupEnabled: true,
+  backupIntervalHours: 24, // Once a day
+  backupRetention: 7, // Keep a week of daily snapshots
 };
 
 /**
@@ -65,6 +79,7 @@ export const AUDIO = {
 export const CONTENT_LIMITS = {
   MAX_TOKENS: 3000, // Maximum tokens for AI processing
   TRUNCATE_TOKENS: 2500, // Truncate to this if exceeds max
+  CHUNK_TOKENS: 2000, // Budget per chunk when summarizing long articles
   WORDS_PER_TOKEN: 0.75, // Estimation: 1 token ≈ 0.75 words
   MAX_SUMMARY_WORDS: 20, // Maximum words per summary bullet
   MAX_PROMPT_WORDS: 15, // Maximum words per reflection prompt
@@ -89,6 +104,98 @@ export const STORAGE_KEYS = {
   LAST_SYNC: `${STORAGE_NAMESPACE}lastSync`,
   STREAK: `${STORAGE_NAMESPACE}streak`,
   FIRST_LAUNCH: `${STORAGE_NAMESPACE}firstLaunch`,
+  SYNC_STATE: `${STORAGE_NAMESPACE}syncState`,
+  REFLECTIONS_UPDATED: `${STORAGE_NAMESPACE}reflectionsUpdatedAt`,
+  AI_RESULT_CACHE: `${STORAGE_NAMESPACE}aiResultCache`,
+};
+
+/**
+ * IndexedDB database used for reflection storage
+ */
+export const INDEXED_DB = {
+  NAME: 'reflexa',
+  VERSION: 2,
+  REFLECTIONS_STORE: 'reflections',
+  BACKUPS_STORE: 'backups', // Added in version 2
+};
+
+/**
+ * Scheduled local backups
+ */
+export const BACKUP = {
+  ALARM_NAME: 'reflexa-backup', // chrome.alarms name for scheduled backups
+  DEFAULT_INTERVAL_HOURS: 24, // Default time between scheduled backups
+  MIN_INTERVAL_HOURS: 1, // Shortest allowed interval
+  MAX_INTERVAL_HOURS: 168, // Longest allowed interval (one week)
+  DEFAULT_RETENTION: 7, // Default number of snapshots kept
+  MIN_RETENTION: 1, // Fewest snapshots that can be kept
+  MAX_RETENTION: 30, // Most snapshots that can be kept
+};
+
+/**
+ * Full-text search tuning
+ */
+export const SEARCH = {
+  MAX_RESULTS: 50, // Default number of results returned
+  SNIPPET_LENGTH: 140, // Characters of context in a result snippet
+  DEBOUNCE: 200, // Delay before searching while typing
+  FIELD_WEIGHTS: {
+    title: 3,
+    tags: 2.5,
+    summary: 1.5,
+    reflection: 1,
+    proofreadVersion: 0.5, // Mostly duplicates the reflection text
+  },
+};
+
+/**
+ * Tag limits
+ */
+export const TAGS = {
+  MAX_LENGTH: 32, // Characters per tag
+  MAX_PER_REFLECTION: 10, // Tags kept on a single reflection
+  MAX_SUGGESTIONS: 5, // AI-suggested tags offered per reflection
+  MAX_AUTOCOMPLETE: 6, // Existing tags shown while typing
+};
+
+/**
+ * Importing JSON and Markdown exports
+ */
+export const IMPORT = {
+  MAX_FILE_SIZE: 20 * 1024 * 1024, // Largest file accepted (20 MB)
+  PREVIEW_LIMIT: 50, // Reflections listed per group in the merge preview
+};
+
+/**
+ * Edit history kept on saved reflections
+ */
+export const REVISIONS = {
+  MAX_PER_REFLECTION: 10, // Prior versions kept before the oldest is dropped
+};
+
+/**
+ * Local embeddings for related reflections
+ */
+export const EMBEDDING = {
+  DIMENSIONS: 128, // Length of Reflection.embedding
+  BIGRAM_WEIGHT: 0.5, // Contribution of a word pair relative to a single word
+  MIN_SIMILARITY: 0.2, // Cosine similarity needed to count as related
+  MAX_RELATED: 3, // Related reflections shown at once
+  BACKFILL_BATCH: 50, // Reflections embedded per backfill write
+};
+
+/**
+ * chrome.storage.sync limits and layout
+ * Quotas mirror the documented chrome.storage.sync limits
+ */
+export const SYNC = {
+  KEY_PREFIX: `${STORAGE_NAMESPACE}sync:`, // Prefix for all synced items
+  QUOTA_BYTES: 102400, // Total sync quota (100 KB)
+  QUOTA_BYTES_PER_ITEM: 8192, // Per-item quota (8 KB)
+  MAX_ITEMS: 512, // Maximum number of items in sync storage
+  RESERVED_BYTES: 4096, // Headroom kept free for tombstones and encoding drift
+  MAX_TOMBSTONES: 100, // Maximum deleted IDs remembered across devices
+  DEBOUNCE: 2000, // Delay before pushing local changes
 };
 
 /**
@@ -156,6 +263,43 @@ Format your response as:
 1. [First reflection question]
 2. [Second reflection question]`,
 
+  /**
+   * Follow-up question
+   * Reads the reader's answers so far and asks one question that goes
+   * deeper: probing an assumption or asking for a concrete example.
+   *
+   * Placeholders: {summary} - The article summary
+   *               {conversation} - The questions and answers so far
+   */
+  FOLLOW_UP: `A reader is reflecting on an article. Read their answers and ask one follow-up question that helps them think deeper. Either question an assumption in what they wrote or ask for a concrete example from their own life. Refer to something they actually said. Keep it to one sentence of no more than 25 words.
+
+Article summary:
+{summary}
+
+Conversation so far:
+{conversation}
+
+Reply with the question only.`,
+
+  /**
+   * Corrective summary prompt
+   * Sent when a summary fails the quality checks, listing what to fix.
+   *
+   * Placeholders: {content} - The article text
+   *               {summary} - The summary that failed
+   *               {problems} - What the checks found, one per line
+   */
+  REVISE_SUMMARY: `The summary below has problems. Rewrite it in the same format so that it fixes every problem listed. Use your own words rather than sentences copied from the article, and make each point say something different.
+
+Problems:
+{problems}
+
+Summary:
+{summary}
+
+Article content:
+{content}`,
+
   /**
    * Proofreading prompt
    * Improves grammar and clarity while preserving the user's voice.
@@ -174,6 +318,295 @@ Original text:
 Provide only the corrected version without explanations.`,
 };
 
+/**
+ * Prompt templates the user can edit in the options page
+ * Summarize, reflect and proofread are full user prompts; the system
+ * templates are the opening of the system prompt, and the summarizer still
+ * appends its language and format instructions.
+ */
+export const PROMPT_TEMPLATES: Record<
+  PromptTemplateId,
+  PromptTemplateDefinition
+> = {
+  summarize: {
+    label: 'Summary',
+    description: 'Turns the article into the three-bullet summary.',
+    placeholders: ['content'],
+    defaultText: AI_PROMPTS.SUMMARIZE,
+  },
+  summarizeSystem: {
+    label: 'Summary role',
+    description:
+      'Sets up the model for every summary format, before the language and length rules.',
+    placeholders: [],
+    defaultText:
+      'You are a precise summarization assistant. Your task is to create concise, accurate summaries that capture the key information from the provided text.',
+  },
+  reflect: {
+    label: 'Reflection questions',
+    description: 'Writes the questions shown after the summary.',
+    placeholders: ['summary'],
+    defaultText: AI_PROMPTS.REFLECT,
+  },
+  followUp: {
+    label: 'Follow-up questions',
+    description:
+      'Asks about your answer to help you go deeper; {conversation} holds the questions and answers so far.',
+    placeholders: ['summary', 'conversation'],
+    defaultText: AI_PROMPTS.FOLLOW_UP,
+  },
+  reviseSummary: {
+    label: 'Summary correction',
+    description:
+      'Asks for a better summary when one is too long, repetitive or copied; {problems} lists what to fix.',
+    placeholders: ['content', 'summary', 'problems'],
+    defaultText: AI_PROMPTS.REVISE_SUMMARY,
+  },
+  proofread: {
+    label: 'Proofreading',
+    description:
+      'Corrects your reflection when the Proofreader API is unavailable.',
+    placeholders: ['text'],
+    defaultText: AI_PROMPTS.PROOFREAD,
+  },
+  rewriteSystem: {
+    label: 'Tone rewrite',
+    description:
+      'Sets up the model for tone rewrites; {tone} is the chosen preset.',
+    placeholders: ['tone'],
+    defaultText:
+      'You are a text rewriting assistant. {tone} Preserve the paragraph structure and all important details.',
+  },
+};
+
+/**
+ * Starter custom summary formats, used until the user edits the list
+ */
+export const CUSTOM_SUMMARY_FORMATS: CustomSummaryFormat[] = [
+  {
+    id: 'custom:cornell-notes',
+    name: 'Cornell notes',
+    description: 'Cue questions, notes and a one-line summary',
+    prompt: `Write Cornell notes for the following article.
+
+Format your response as:
+Cues: [2-3 short questions the article answers]
+Notes: [The main points, in one or two sentences]
+Summary: [One sentence that captures the whole article]
+
+Article content:
+{content}`,
+    parser: 'labeled',
+  },
+  {
+    id: 'custom:key-terms',
+    name: 'Key terms',
+    description: 'Important terms with short definitions',
+    prompt: `List the 3 to 5 most important terms in the following article. Define each in no more than 20 words, based on how the article uses it.
+
+Format each line as:
+Term: definition
+
+Article content:
+{content}`,
+    parser: 'labeled',
+  },
+  {
+    id: 'custom:claims-evidence',
+    name: 'Claims and evidence',
+    description: 'Main claims and the support given for each',
+    prompt: `Identify the 3 main claims of the following article and the evidence it offers for each.
+
+Format your response as:
+- [Claim] — [Evidence the article offers]
+
+Article content:
+{content}`,
+    parser: 'list',
+  },
+  {
+    id: 'custom:eli5',
+    name: 'ELI5',
+    description: 'Explained simply, in one short paragraph',
+    prompt: `Explain the following article as you would to a curious ten-year-old, in one paragraph of no more than 80 words. Use simple words and one everyday comparison.
+
+Article content:
+{content}`,
+    parser: 'text',
+  },
+];
+
+/**
+ * Custom summary format limits
+ */
+export const SUMMARY_FORMAT_LIMITS = {
+  MAX_FORMATS: 12, // Custom formats a user can keep
+  MAX_NAME_LENGTH: 40, // Longest format name, in characters
+};
+
+/**
+ * Site rule limits
+ */
+export const SITE_RULES = {
+  MAX_RULES: 200, // Rules a user can keep
+  MAX_PATTERN_LENGTH: 200, // Longest pattern, in characters
+  SOONER_FACTOR: 0.5, // "Show sooner here" scales the threshold by this
+};
+
+/**
+ * Starter site rules, used until the user edits the list: webmail and
+ * search results are places people skim, not read
+ */
+export const DEFAULT_SITE_RULES: SiteRule[] = [
+  { id: 'default-gmail', pattern: 'mail.google.com', action: 'never' },
+  { id: 'default-outlook', pattern: 'outlook.live.com', action: 'never' },
+  {
+    id: 'default-outlook-work',
+    pattern: 'outlook.office.com',
+    action: 'never',
+  },
+  {
+    id: 'default-google-search',
+    pattern: 'google.com/search*',
+    action: 'never',
+  },
+  { id: 'default-bing-search', pattern: 'bing.com/search*', action: 'never' },
+  { id: 'default-duckduckgo', pattern: 'duckduckgo.com', action: 'never' },
+];
+
+/**
+ * Cache of AI results for pages already read
+ */
+export const AI_RESULT_CACHE = {
+  MAX_BYTES: 2 * 1024 * 1024, // Size cap before least recently used entries are evicted (2 MB)
+};
+
+/**
+ * Local OpenAI-compatible AI server
+ */
+export const LOCAL_AI_PROVIDER = {
+  DEFAULT_ENDPOINT: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible API
+  DEFAULT_MODEL: 'llama3.2',
+  AVAILABILITY_TIMEOUT: 3000, // How long to wait for the server to list its models
+  HOSTS: ['localhost', '127.0.0.1', '[::1]'], // Hosts the extension may send page text to
+};
+
+/**
+ * Queue for background AI requests
+ * Higher priorities run first; the user is waiting on summaries and
+ * rewrites, while tag suggestions can wait
+ */
+export const AI_SCHEDULER = {
+  MAX_CONCURRENT: 1, // The on-device model works on one request at a time
+  PRIORITY: {
+    summarize: 3,
+    rewrite: 3,
+    proofread: 2,
+    write: 2,
+    reflect: 2,
+    translate: 1,
+    suggestTags: 0,
+    chat: 3,
+    followUp: 3,
+  },
+};
+
+/**
+ * Chats about the article being reflected on
+ */
+export const ARTICLE_CHAT = {
+  ARTICLE_TOKENS: 2000, // Article excerpt the chat is grounded in
+  CONTEXT_TOKENS: 4096, // Context window when the model doesn't report one
+  ANSWER_TOKENS: 512, // Room left in the context window for the answer
+  MAX_QUESTION_LENGTH: 1000, // Longest question, in characters
+};
+
+/**
+ * Checks run on every built-in summary, and the corrective retry when
+ * they fail
+ */
+export const SUMMARY_QUALITY = {
+  PASS_SCORE: 0.8, // Lowest overall score that passes
+  MIN_CHECK_SCORE: 0.5, // Lowest score any single check may have to pass
+  MAX_RETRIES: 1, // Corrective prompts sent after a failing summary
+  MAX_HEADLINE_WORDS: 10, // Headline limit; bullets use MAX_SUMMARY_WORDS
+  MAX_PARAGRAPH_WORDS: 150, // Limit for the paragraph format
+  REDUNDANT_SIMILARITY: 0.6, // Word overlap at which two items repeat
+  COPY_NGRAM_WORDS: 5, // Run of words compared against the article
+  MAX_SOURCE_OVERLAP: 0.6, // Share of an item's runs found in the article
+  MIN_LANGUAGE_CONFIDENCE: 0.6, // Detections below this don't count
+  ARTICLE_TOKENS: 2000, // Article excerpt sent with the corrective prompt
+  WEIGHTS: {
+    length: 0.3,
+    redundancy: 0.25,
+    sourceOverlap: 0.25,
+    language: 0.2,
+  },
+};
+
+/**
+ * AI metadata for reflections saved without any recorded AI use
+ */
+export const DEFAULT_AI_METADATA: AIMetadata = {
+  summarizerUsed: false,
+  writerUsed: false,
+  rewriterUsed: false,
+  proofreaderUsed: false,
+  translatorUsed: false,
+  promptFallback: false,
+  processingTime: 0,
+};
+
+/**
+ * Reading engagement: how reading is told apart from an open tab
+ */
+export const READING = {
+  DEFAULT_PROGRESS: 0.4, // Share of the article read before the nudge
+  WORDS_PER_MINUTE: 230, // Typical reading speed for online articles
+  SKIM_SPEED: 1500, // Scrolling faster than this (px/s) is skimming, not reading
+  SCROLL_WINDOW: 2000, // Scroll speed is measured over this many ms
+  // Elements whose words are counted as units of reading
+  BLOCK_SELECTOR:
+    'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, dd, figcaption',
+  MIN_WORDS: 50, // Pages with fewer words fall back to time only
+};
+
+/**
+ * Outline limits for storing an article's structure with a reflection
+ * Headings are kept first so long articles keep their shape.
+ */
+export const OUTLINE = {
+  MAX_BLOCKS: 40, // Blocks stored per reflection
+  MAX_TEXT_LENGTH: 160, // Characters kept of each block or list item
+  MAX_LIST_ITEMS: 8, // Items kept of each list
+};
+
+/**
+ * Calm statistics
+ */
+export const CALM_STATS = {
+  // Reflections saved before durations were measured count these estimates
+  LEGACY_READING_TIME: 5 * 60, // Seconds reading the article
+  LEGACY_REFLECTION_TIME: 3 * 60, // Seconds reflecting
+};
+
+/**
+ * Follow-up questions after the first reflection answer
+ */
+export const FOLLOW_UPS = {
+  DEFAULT_DEPTH: 1, // Follow-ups offered by default
+  MAX_DEPTH: 3, // Most follow-ups the user can ask for
+  MAX_ANSWER_LENGTH: 4000, // Longest answer sent to the model, in characters
+};
+
+/**
+ * Prompt template editing limits
+ */
+export const PROMPT_TEMPLATE_LIMITS = {
+  MAX_LENGTH: 4000, // Longest template, in characters
+  MAX_HISTORY: 10, // Earlier versions kept per template
+};
+
 /**
  * UI constants
  */
@@ -200,8 +633,52 @@ export const A11Y = {
 export const EXPORT_FORMATS = {
   JSON: 'json',
   MARKDOWN: 'markdown',
+  CSV: 'csv',
+  HTML: 'html',
+  ANKI: 'anki',
+  OBSIDIAN: 'obsidian',
 } as const;
 
+/**
+ * Export format choices shown in the popup and dashboard, in display order
+ */
+export const EXPORT_FORMAT_OPTIONS: {
+  format: (typeof EXPORT_FORMATS)[keyof typeof EXPORT_FORMATS];
+  label: string;
+  description: string;
+}[] = [
+  {
+    format: EXPORT_FORMATS.JSON,
+    label: 'JSON',
+    description: 'Machine-readable format with all metadata',
+  },
+  {
+    format: EXPORT_FORMATS.MARKDOWN,
+    label: 'Markdown',
+    description: 'Human-readable format for notes apps',
+  },
+  {
+    format: EXPORT_FORMATS.CSV,
+    label: 'CSV',
+    description: 'One row per reflection, for spreadsheets',
+  },
+  {
+    format: EXPORT_FORMATS.HTML,
+    label: 'HTML',
+    description: 'A standalone page to read, print or share',
+  },
+  {
+    format: EXPORT_FORMATS.ANKI,
+    label: 'Anki',
+    description: 'Flashcards from summaries and reflection questions',
+  },
+  {
+    format: EXPORT_FORMATS.OBSIDIAN,
+    label: 'Obsidian',
+    description: 'Zip of Markdown notes with front-matter',
+  },
+];
+
 /**
  * Privacy notice text
  */
@@ -224,6 +701,7 @@ export const ERROR_MESSAGES = {
   TRANSLATOR_UNAVAILABLE: 'Translator API not available.',
   WRITER_UNAVAILABLE: 'Writer API not available.',
   REWRITER_UNAVAILABLE: 'Rewriter API not available.',
+  AI_CANCELLED: 'AI request cancelled.',
 };
 
 /**
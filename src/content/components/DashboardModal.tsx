@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { createKeyboardHandler, trapFocus } from '../../utils/accessibility';
 import { CalmStatsLite } from './CalmStatsLite';
 import {
@@ -6,6 +6,7 @@ import {
   ModalFooter,
   StreakCard,
   ReflectionsList,
+  ExportPanel,
 } from './DashboardModal/components';
 import { useDashboardData, useStats } from './DashboardModal/hooks';
 
@@ -15,7 +16,9 @@ interface DashboardModalProps {
 
 export const DashboardModal: React.FC<DashboardModalProps> = ({ onClose }) => {
   const contentRef = useRef<HTMLDivElement>(null);
-  const { reflections, streak, handleDeleteItem } = useDashboardData();
+  const [showExport, setShowExport] = useState(false);
+  const { reflections, streak, handleDeleteItem, handleUpdateItem } =
+    useDashboardData();
   const stats = useStats(reflections);
 
   useEffect(() => {
@@ -53,9 +56,14 @@ export const DashboardModal: React.FC<DashboardModalProps> = ({ onClose }) => {
           zIndex: 1,
         }}
       >
-        <ModalHeader onClose={onClose} />
+        <ModalHeader
+          onClose={onClose}
+          isExportOpen={showExport}
+          onToggleExport={() => setShowExport((open) => !open)}
+        />
 
         <div style={{ padding: '16px 20px', overflow: 'auto' }}>
+          {showExport && <ExportPanel reflections={reflections} />}
           <div
             style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}
           >
@@ -78,6 +86,7 @@ export const DashboardModal: React.FC<DashboardModalProps> = ({ onClose }) => {
             <ReflectionsList
               reflections={reflections}
               onDelete={handleDeleteItem}
+              onUpdated={handleUpdateItem}
             />
           </div>
         </div>
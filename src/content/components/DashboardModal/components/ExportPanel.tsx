@@ -0,0 +1,227 @@
+/**
+ * Export Panel Component
+ * Format choice and filters (date range, domain, tags, language,
+ * proofread only) for exporting from the dashboard
+ */
+
+import React, { useState } from 'react';
+import type { ExportFormat, Reflection } from '../../../../types';
+import { EXPORT_FORMATS, EXPORT_FORMAT_OPTIONS } from '../../../../constants';
+import { useExportFilters } from '../../../../utils/useExportFilters';
+import { exportReflections } from '../utils/exportUtils';
+
+interface ExportPanelProps {
+  reflections: Reflection[] | null;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 4,
+  fontSize: 12,
+  color: '#334155',
+};
+
+const fieldStyle: React.CSSProperties = {
+  border: '1px solid rgba(15,23,42,0.15)',
+  borderRadius: 8,
+  padding: '4px 8px',
+  fontSize: 12,
+  color: '#0f172a',
+  background: '#ffffff',
+};
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ reflections }) => {
+  const [format, setFormat] = useState<ExportFormat>(EXPORT_FORMATS.JSON);
+  const [isExporting, setIsExporting] = useState(false);
+  const { form, update, toggleTag, reset, options, filters, matching } =
+    useExportFilters(reflections);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportReflections(format, filters);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      role="region"
+      aria-label="Export reflections"
+      style={{
+        border: '1px solid rgba(15, 23, 42, 0.08)',
+        borderRadius: 16,
+        padding: 14,
+        marginBottom: 14,
+        background: '#f8fafc',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+      }}
+    >
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(3, 1fr)',
+          gap: 10,
+        }}
+      >
+        <label style={labelStyle}>
+          Format
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            style={fieldStyle}
+          >
+            {EXPORT_FORMAT_OPTIONS.map((option) => (
+              <option key={option.format} value={option.format}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          From
+          <input
+            type="date"
+            value={form.from}
+            max={form.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+            style={fieldStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          To
+          <input
+            type="date"
+            value={form.to}
+            min={form.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+            style={fieldStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Domain
+          <select
+            value={form.domain}
+            onChange={(e) => update({ domain: e.target.value })}
+            style={fieldStyle}
+          >
+            <option value="">All</option>
+            {options.domains.map((domain) => (
+              <option key={domain} value={domain}>
+                {domain}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Language
+          <select
+            value={form.language}
+            onChange={(e) => update({ language: e.target.value })}
+            style={fieldStyle}
+          >
+            <option value="">All</option>
+            {options.languages.map((language) => (
+              <option key={language} value={language}>
+                {language}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label
+          style={{
+            ...labelStyle,
+            flexDirection: 'row',
+            alignItems: 'center',
+            alignSelf: 'end',
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={form.proofreadOnly}
+            onChange={(e) => update({ proofreadOnly: e.target.checked })}
+          />
+          Only proofread
+        </label>
+      </div>
+
+      {options.tags.length > 0 && (
+        <div
+          aria-label="Tags"
+          style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}
+        >
+          {options.tags.map((tag) => {
+            const selected = form.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                aria-pressed={selected}
+                style={{
+                  border: '1px solid rgba(15,23,42,0.12)',
+                  borderRadius: 999,
+                  padding: '2px 10px',
+                  fontSize: 12,
+                  cursor: 'pointer',
+                  background: selected ? '#0f172a' : '#ffffff',
+                  color: selected ? '#ffffff' : '#334155',
+                }}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 8,
+        }}
+      >
+        <span style={{ fontSize: 12, color: '#475569' }} aria-live="polite">
+          {matching.length} of {reflections?.length ?? 0} reflections
+        </span>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            type="button"
+            onClick={reset}
+            style={{
+              ...fieldStyle,
+              cursor: 'pointer',
+              fontWeight: 600,
+            }}
+          >
+            Clear filters
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleExport()}
+            disabled={isExporting || matching.length === 0}
+            style={{
+              border: 'none',
+              borderRadius: 8,
+              padding: '6px 12px',
+              fontSize: 12,
+              fontWeight: 700,
+              background: '#0f172a',
+              color: '#ffffff',
+              cursor: 'pointer',
+              opacity: isExporting || matching.length === 0 ? 0.5 : 1,
+            }}
+          >
+            {isExporting ? 'Exporting…' : `Export ${matching.length}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,21 @@
 /**
  * Modal Header Component
- * Header with logo, title, export buttons, and close button
+ * Header with logo, title, export toggle, and close button
  */
 
 import React from 'react';
-import { exportReflections } from '../utils/exportUtils';
 
 interface ModalHeaderProps {
   onClose: () => void;
+  isExportOpen: boolean;
+  onToggleExport: () => void;
 }
 
-export const ModalHeader: React.FC<ModalHeaderProps> = ({ onClose }) => (
+export const ModalHeader: React.FC<ModalHeaderProps> = ({
+  onClose,
+  isExportOpen,
+  onToggleExport,
+}) => (
   <div
     style={{
       display: 'flex',
@@ -58,12 +63,12 @@ export const ModalHeader: React.FC<ModalHeaderProps> = ({ onClose }) => (
     <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
       <button
         type="button"
-        onClick={() => void exportReflections('json')}
-        aria-label="Export as JSON"
+        onClick={onToggleExport}
+        aria-expanded={isExportOpen}
         style={{
           padding: '6px 10px',
           border: '1px solid rgba(15,23,42,0.15)',
-          background: '#ffffff',
+          background: isExportOpen ? '#f1f5f9' : '#ffffff',
           color: '#0f172a',
           borderRadius: 8,
           fontSize: 12,
@@ -71,24 +76,7 @@ export const ModalHeader: React.FC<ModalHeaderProps> = ({ onClose }) => (
           cursor: 'pointer',
         }}
       >
-        Export JSON
-      </button>
-      <button
-        type="button"
-        onClick={() => void exportReflections('markdown')}
-        aria-label="Export as Markdown"
-        style={{
-          padding: '6px 10px',
-          border: '1px solid rgba(15,23,42,0.15)',
-          background: '#ffffff',
-          color: '#0f172a',
-          borderRadius: 8,
-          fontSize: 12,
-          fontWeight: 600,
-          cursor: 'pointer',
-        }}
-      >
-        Export MD
+        Export…
       </button>
       <button
         type="button"
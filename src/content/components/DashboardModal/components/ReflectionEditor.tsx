@@ -0,0 +1,119 @@
+/**
+ * Reflection Editor Component
+ * Edit mode for a saved reflection with proofread and tone rewrite
+ */
+
+import React from 'react';
+import type { TonePreset } from '../../../../types';
+import { toneOptions } from '../../TonePresetChips/constants';
+import type { useReflectionEditor } from '../../../../utils/useReflectionEditor';
+
+interface ReflectionEditorProps {
+  editor: ReturnType<typeof useReflectionEditor>;
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  border: '1px solid rgba(15,23,42,0.15)',
+  background: '#ffffff',
+  color: '#0f172a',
+  borderRadius: 8,
+  padding: '4px 10px',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+export const ReflectionEditor: React.FC<ReflectionEditorProps> = ({
+  editor,
+}) => {
+  const isBusy = editor.busyIndex !== null || editor.isSaving;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      {editor.drafts.map((draft, index) => (
+        <div
+          key={index}
+          style={{ display: 'flex', flexDirection: 'column', gap: 6 }}
+        >
+          <textarea
+            value={draft}
+            onChange={(e) => editor.setDraft(index, e.target.value)}
+            disabled={isBusy}
+            rows={3}
+            aria-label={`Reflection ${index + 1}`}
+            style={{
+              width: '100%',
+              boxSizing: 'border-box',
+              border: '1px solid rgba(15, 23, 42, 0.15)',
+              borderRadius: 10,
+              padding: '8px 12px',
+              fontSize: 13,
+              lineHeight: 1.5,
+              color: '#0f172a',
+              background: '#ffffff',
+              resize: 'vertical',
+            }}
+          />
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button
+              type="button"
+              onClick={() => void editor.proofread(index)}
+              disabled={isBusy || !draft.trim()}
+              style={smallButtonStyle}
+            >
+              {editor.busyIndex === index ? 'Working…' : 'Proofread'}
+            </button>
+            <select
+              value=""
+              onChange={(e) =>
+                void editor.rewrite(index, e.target.value as TonePreset)
+              }
+              disabled={isBusy || !draft.trim()}
+              aria-label={`Rewrite reflection ${index + 1} in a tone`}
+              style={smallButtonStyle}
+            >
+              <option value="" disabled>
+                Rewrite tone…
+              </option>
+              {toneOptions.map((tone) => (
+                <option key={tone.value} value={tone.value}>
+                  {tone.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      {editor.error && (
+        <div role="alert" style={{ color: '#dc2626', fontSize: 12 }}>
+          {editor.error}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+        <button
+          type="button"
+          onClick={editor.cancel}
+          disabled={editor.isSaving}
+          style={{ ...smallButtonStyle, border: 'none' }}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => void editor.save()}
+          disabled={isBusy}
+          style={{
+            ...smallButtonStyle,
+            background: '#0284c7',
+            borderColor: '#0284c7',
+            color: '#ffffff',
+            fontWeight: 600,
+          }}
+        >
+          {editor.isSaving ? 'Saving…' : 'Save changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
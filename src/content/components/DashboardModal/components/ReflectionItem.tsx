@@ -1,74 +1,137 @@
 /**
  * Reflection Item Component
- * Individual reflection item with delete button
+ * Individual reflection item with edit and delete buttons, revision history
+ * and optional search snippet
  */
 
 import React from 'react';
-import type { Reflection } from '../../../../types';
-import { IconDelete } from '../icons';
+import type { Reflection, SearchSnippet } from '../../../../types';
+import { IconDelete, IconEdit } from '../icons';
 import { devLog } from '../../../../utils/logger';
+import { splitSnippet } from '../../../../utils/useReflectionSearch';
+import { useReflectionEditor } from '../../../../utils/useReflectionEditor';
+import { ReflectionEditor } from './ReflectionEditor';
+import { RevisionHistory } from './RevisionHistory';
 
 interface ReflectionItemProps {
   reflection: Reflection;
+  snippet?: SearchSnippet;
   onDelete: (id: string) => void;
+  onUpdated?: (reflection: Reflection) => void;
 }
 
+const iconButtonStyle: React.CSSProperties = {
+  width: 32,
+  height: 32,
+  border: '1px solid rgba(15,23,42,0.15)',
+  background: '#ffffff',
+  color: '#0f172a',
+  borderRadius: 8,
+  cursor: 'pointer',
+};
+
 export const ReflectionItem: React.FC<ReflectionItemProps> = ({
   reflection,
+  snippet,
   onDelete,
-}) => (
-  <li
-    style={{
-      border: '1px solid rgba(15, 23, 42, 0.08)',
-      borderRadius: 12,
-      padding: 12,
-      background: '#ffffff',
-      display: 'flex',
-      justifyContent: 'space-between',
-      gap: 12,
-    }}
-  >
-    <div style={{ minWidth: 0 }}>
+  onUpdated,
+}) => {
+  const editor = useReflectionEditor(reflection, onUpdated);
+
+  return (
+    <li
+      style={{
+        border: '1px solid rgba(15, 23, 42, 0.08)',
+        borderRadius: 12,
+        padding: 12,
+        background: '#ffffff',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+      }}
+    >
       <div
-        style={{
-          color: '#0f172a',
-          fontWeight: 600,
-          whiteSpace: 'nowrap',
-          overflow: 'hidden',
-          textOverflow: 'ellipsis',
-          maxWidth: 420,
-        }}
-        title={reflection.title}
+        style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}
       >
-        {reflection.title || 'Untitled'}
+        <div style={{ minWidth: 0 }}>
+          <div
+            style={{
+              color: '#0f172a',
+              fontWeight: 600,
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              maxWidth: 420,
+            }}
+            title={reflection.title}
+          >
+            {reflection.title || 'Untitled'}
+          </div>
+          <div style={{ color: '#64748b', fontSize: 12 }}>
+            {new Date(reflection.createdAt).toLocaleString()}
+          </div>
+          {snippet && (
+            <div
+              style={{
+                color: '#334155',
+                fontSize: 13,
+                lineHeight: 1.5,
+                marginTop: 6,
+              }}
+            >
+              {splitSnippet(snippet).map((part, index) =>
+                part.highlighted ? (
+                  <mark
+                    key={index}
+                    style={{
+                      background: '#bae6fd',
+                      color: '#0f172a',
+                      borderRadius: 3,
+                      padding: '0 2px',
+                    }}
+                  >
+                    {part.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={index}>{part.text}</React.Fragment>
+                )
+              )}
+            </div>
+          )}
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          {!editor.isEditing && (
+            <button
+              type="button"
+              onClick={editor.start}
+              title="Edit reflection"
+              aria-label={`Edit reflection ${reflection.title || ''}`}
+              style={iconButtonStyle}
+            >
+              {IconEdit}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              devLog(
+                '[DashboardModal] Delete button clicked for:',
+                reflection.id
+              );
+              void onDelete(reflection.id);
+            }}
+            title="Delete reflection"
+            aria-label={`Delete reflection ${reflection.title || ''}`}
+            style={iconButtonStyle}
+          >
+            {IconDelete}
+          </button>
+        </div>
       </div>
-      <div style={{ color: '#64748b', fontSize: 12 }}>
-        {new Date(reflection.createdAt).toLocaleString()}
-      </div>
-    </div>
-    <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-      <button
-        type="button"
-        onClick={(e) => {
-          e.preventDefault();
-          e.stopPropagation();
-          devLog('[DashboardModal] Delete button clicked for:', reflection.id);
-          void onDelete(reflection.id);
-        }}
-        title="Delete reflection"
-        aria-label={`Delete reflection ${reflection.title || ''}`}
-        style={{
-          width: 32,
-          height: 32,
-          border: '1px solid rgba(15,23,42,0.15)',
-          background: '#ffffff',
-          color: '#0f172a',
-          borderRadius: 8,
-          cursor: 'pointer',
-        }}
-      >
-        {IconDelete}
-      </button>
-    </div>
-  </li>
-);
+      {editor.isEditing && <ReflectionEditor editor={editor} />}
+      <RevisionHistory reflection={reflection} />
+    </li>
+  );
+};
@@ -1,21 +1,28 @@
 /**
  * Reflections List Component
- * List of recent reflections with empty state
+ * List of recent reflections with full-text search and empty state
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { Reflection } from '../../../../types';
 import { ReflectionItem } from './ReflectionItem';
+import { useReflectionSearch } from '../../../../utils/useReflectionSearch';
 
 interface ReflectionsListProps {
   reflections: Reflection[] | null;
   onDelete: (id: string) => void;
+  onUpdated?: (reflection: Reflection) => void;
 }
 
 export const ReflectionsList: React.FC<ReflectionsListProps> = ({
   reflections,
   onDelete,
+  onUpdated,
 }) => {
+  const [query, setQuery] = useState('');
+  // Re-run the active search when the list changes (e.g., after a delete)
+  const { results, isSearching } = useReflectionSearch(query, reflections);
+
   if (reflections === null) {
     return <div style={{ color: '#64748b', fontSize: 13 }}>Loading…</div>;
   }
@@ -53,19 +60,62 @@ export const ReflectionsList: React.FC<ReflectionsListProps> = ({
   }
 
   return (
-    <ul
-      style={{
-        listStyle: 'none',
-        padding: 0,
-        margin: 0,
-        display: 'flex',
-        flexDirection: 'column',
-        gap: 8,
-      }}
-    >
-      {reflections.slice(0, 5).map((r) => (
-        <ReflectionItem key={r.id} reflection={r} onDelete={onDelete} />
-      ))}
-    </ul>
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder='Search reflections (use "quotes" for phrases)'
+        aria-label="Search reflections"
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          border: '1px solid rgba(15, 23, 42, 0.15)',
+          borderRadius: 10,
+          padding: '8px 12px',
+          fontSize: 13,
+          color: '#0f172a',
+          background: '#ffffff',
+        }}
+      />
+      {results !== null && (
+        <div style={{ color: '#64748b', fontSize: 12 }} aria-live="polite">
+          {isSearching
+            ? 'Searching…'
+            : `${results.length} ${results.length === 1 ? 'match' : 'matches'}`}
+        </div>
+      )}
+      <ul
+        style={{
+          listStyle: 'none',
+          padding: 0,
+          margin: 0,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 8,
+        }}
+      >
+        {results !== null
+          ? results.map((result) => (
+              <ReflectionItem
+                key={result.reflection.id}
+                reflection={result.reflection}
+                snippet={result.snippet}
+                onDelete={onDelete}
+                onUpdated={onUpdated}
+              />
+            ))
+          : reflections
+              .slice(0, 5)
+              .map((r) => (
+                <ReflectionItem
+                  key={r.id}
+                  reflection={r}
+                  onDelete={onDelete}
+                  onUpdated={onUpdated}
+                />
+              ))}
+      </ul>
+    </div>
   );
 };
@@ -0,0 +1,116 @@
+/**
+ * Revision History Component
+ * Earlier versions of a reflection with a word diff of each edit
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Reflection } from '../../../../types';
+import { diffTexts } from '../../ProofreadDiffView/utils';
+import type { TextSegment } from '../../ProofreadDiffView/types';
+import { getRevisionChanges } from '../../../../utils/useReflectionEditor';
+
+interface RevisionHistoryProps {
+  reflection: Reflection;
+}
+
+const DiffText: React.FC<{ segments: TextSegment[]; removed?: boolean }> = ({
+  segments,
+  removed = false,
+}) => (
+  <div style={{ whiteSpace: 'pre-wrap', lineHeight: 1.5 }}>
+    {segments.map((segment, index) =>
+      !segment.isHighlight ? (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ) : removed ? (
+        <del
+          key={index}
+          style={{ background: '#fee2e2', color: '#991b1b', borderRadius: 3 }}
+        >
+          {segment.text}
+        </del>
+      ) : (
+        <ins
+          key={index}
+          style={{
+            background: '#dcfce7',
+            color: '#166534',
+            borderRadius: 3,
+            textDecoration: 'none',
+          }}
+        >
+          {segment.text}
+        </ins>
+      )
+    )}
+  </div>
+);
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  reflection,
+}) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const changes = useMemo(() => getRevisionChanges(reflection), [reflection]);
+  const diff = useMemo(
+    () =>
+      openIndex !== null && changes[openIndex]
+        ? diffTexts(changes[openIndex].before, changes[openIndex].after)
+        : null,
+    [changes, openIndex]
+  );
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <details style={{ fontSize: 12, color: '#64748b' }}>
+      <summary style={{ cursor: 'pointer' }}>
+        Edited {changes.length} {changes.length === 1 ? 'time' : 'times'}
+      </summary>
+      <ul
+        aria-label="Revision history"
+        style={{ listStyle: 'none', padding: 0, margin: '6px 0 0' }}
+      >
+        {changes.map((change, index) => (
+          <li key={change.editedAt} style={{ marginBottom: 6 }}>
+            <button
+              type="button"
+              onClick={() =>
+                setOpenIndex((prev) => (prev === index ? null : index))
+              }
+              aria-expanded={openIndex === index}
+              style={{
+                border: 'none',
+                background: 'transparent',
+                color: '#0284c7',
+                padding: 0,
+                fontSize: 12,
+                cursor: 'pointer',
+              }}
+            >
+              {new Date(change.editedAt).toLocaleString()}
+            </button>
+            {openIndex === index && diff && (
+              <div
+                style={{
+                  marginTop: 4,
+                  padding: 8,
+                  borderRadius: 8,
+                  background: '#f8fafc',
+                  color: '#334155',
+                  fontSize: 13,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 6,
+                }}
+              >
+                <DiffText segments={diff.before} removed />
+                <DiffText segments={diff.after} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
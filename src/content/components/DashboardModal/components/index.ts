@@ -6,3 +6,6 @@ export { ModalFooter } from './ModalFooter';
 export { StreakCard } from './StreakCard';
 export { ReflectionsList } from './ReflectionsList';
 export { ReflectionItem } from './ReflectionItem';
+export { ReflectionEditor } from './ReflectionEditor';
+export { RevisionHistory } from './RevisionHistory';
+export { ExportPanel } from './ExportPanel';
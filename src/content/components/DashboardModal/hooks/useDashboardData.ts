@@ -1,6 +1,6 @@
 /**
  * useDashboardData Hook
- * Manages data fetching and deletion for dashboard
+ * Manages data fetching, edits and deletion for dashboard
  */
 
 import { useEffect, useState } from 'react';
@@ -61,9 +61,17 @@ export const useDashboardData = () => {
     }
   };
 
+  // Swap in the stored reflection after an edit
+  const handleUpdateItem = (updated: Reflection): void => {
+    setReflections((prev) =>
+      (prev ?? []).map((it) => (it.id === updated.id ? updated : it))
+    );
+  };
+
   return {
     reflections,
     streak,
     handleDeleteItem,
+    handleUpdateItem,
   };
 };
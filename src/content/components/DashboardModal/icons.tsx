@@ -3,8 +3,10 @@
  * Shared SVG icons used in the Dashboard Modal
  */
 
-import { Flame, Trash2 } from 'lucide-react';
+import { Flame, Pencil, Trash2 } from 'lucide-react';
 
 export const IconFlame = <Flame size={18} strokeWidth={2} aria-hidden />;
 
 export const IconDelete = <Trash2 size={16} strokeWidth={2} aria-hidden />;
+
+export const IconEdit = <Pencil size={16} strokeWidth={2} aria-hidden />;
@@ -3,8 +3,15 @@
  * Helper functions for exporting reflections
  */
 
+import type {
+  ExportFile,
+  ExportFilters,
+  ExportFormat,
+} from '../../../../types';
+import { exportFileToBlob } from '../../../../utils';
+
 export const triggerDownload = (
-  data: string,
+  data: string | Blob,
   filename: string,
   type: string
 ): void => {
@@ -24,21 +31,21 @@ export const triggerDownload = (
 };
 
 export const exportReflections = async (
-  format: 'json' | 'markdown'
+  format: ExportFormat,
+  filters?: ExportFilters
 ): Promise<void> => {
   try {
     const resp: unknown = await chrome.runtime.sendMessage({
       type: 'exportReflections',
-      payload: format,
+      payload: { format, filters },
     });
-    const r = resp as { success?: boolean; data?: string } | undefined;
-    if (r?.success && typeof r.data === 'string') {
-      const filename = `reflexa-reflections.${format === 'json' ? 'json' : 'md'}`;
-      const mime =
-        format === 'json'
-          ? 'application/json;charset=utf-8'
-          : 'text/markdown;charset=utf-8';
-      triggerDownload(r.data, filename, mime);
+    const r = resp as { success?: boolean; data?: ExportFile } | undefined;
+    if (r?.success && r.data) {
+      triggerDownload(
+        exportFileToBlob(r.data),
+        r.data.filename,
+        r.data.mimeType
+      );
     }
   } catch {
     // ignore
@@ -15,6 +15,8 @@ interface LotusNudgeProps {
   onHelp?: () => void;
   onSettings?: () => void;
   onDashboard?: () => void;
+  onHideOnSite?: () => void;
+  onShowSooner?: () => void;
   quickActionsCount?: number;
 }
 
@@ -30,6 +32,8 @@ export const LotusNudge: React.FC<LotusNudgeProps> = ({
   onHelp,
   onSettings,
   onDashboard,
+  onHideOnSite,
+  onShowSooner,
   quickActionsCount = 3,
 }) => {
   const [open, setOpen] = useState(false);
@@ -73,6 +77,8 @@ export const LotusNudge: React.FC<LotusNudgeProps> = ({
         onOpenDashboard={openDashboard}
         onOpenHelp={openHelp}
         onOpenSettings={openSettings}
+        onHideOnSite={onHideOnSite}
+        onShowSooner={onShowSooner}
       />
       <LotusButton
         position={position}
@@ -1,11 +1,18 @@
 /**
  * Quick Actions Component
- * Quick action buttons (Dashboard, Help, Settings)
+ * Quick action buttons (Dashboard, Help, Settings, and the site rule
+ * shortcuts when handlers are given)
  */
 
 import React from 'react';
 import type { LotusNudgePosition } from '../types';
-import { IconScreen, IconBrain, IconGear } from '../icons';
+import {
+  IconScreen,
+  IconBrain,
+  IconGear,
+  IconHide,
+  IconSooner,
+} from '../icons';
 
 interface QuickActionsProps {
   open: boolean;
@@ -13,6 +20,8 @@ interface QuickActionsProps {
   onOpenDashboard: () => void;
   onOpenHelp: () => void;
   onOpenSettings: () => void;
+  onHideOnSite?: () => void;
+  onShowSooner?: () => void;
 }
 
 export const QuickActions: React.FC<QuickActionsProps> = ({
@@ -20,6 +29,8 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
   onOpenDashboard,
   onOpenHelp,
   onOpenSettings,
+  onHideOnSite,
+  onShowSooner,
 }) => (
   <div
     className="reflexa-nudge-quick"
@@ -78,5 +89,43 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
         Settings
       </span>
     </button>
+    {onShowSooner && (
+      <button
+        type="button"
+        className="reflexa-nudge-quick__btn"
+        title="Show sooner here"
+        aria-label="Show sooner on this site"
+        aria-hidden={!open}
+        tabIndex={open ? 0 : -1}
+        onClick={(event) => {
+          event.stopPropagation();
+          onShowSooner();
+        }}
+      >
+        {IconSooner}
+        <span className="reflexa-nudge-quick__tooltip" role="tooltip">
+          Show sooner here
+        </span>
+      </button>
+    )}
+    {onHideOnSite && (
+      <button
+        type="button"
+        className="reflexa-nudge-quick__btn"
+        title="Don't show on this site"
+        aria-label="Don't show on this site"
+        aria-hidden={!open}
+        tabIndex={open ? 0 : -1}
+        onClick={(event) => {
+          event.stopPropagation();
+          onHideOnSite();
+        }}
+      >
+        {IconHide}
+        <span className="reflexa-nudge-quick__tooltip" role="tooltip">
+          Don&apos;t show on this site
+        </span>
+      </button>
+    )}
   </div>
 );
@@ -3,10 +3,14 @@
  * SVG icons used in LotusNudge quick actions
  */
 
-import { Monitor, Brain, Settings } from 'lucide-react';
+import { Monitor, Brain, Settings, EyeOff, Timer } from 'lucide-react';
 
 export const IconScreen = <Monitor size={18} strokeWidth={2} aria-hidden />;
 
 export const IconBrain = <Brain size={18} strokeWidth={2} aria-hidden />;
 
 export const IconGear = <Settings size={18} strokeWidth={2} aria-hidden />;
+
+export const IconHide = <EyeOff size={18} strokeWidth={2} aria-hidden />;
+
+export const IconSooner = <Timer size={18} strokeWidth={2} aria-hidden />;
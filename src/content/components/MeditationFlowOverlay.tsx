@@ -2,11 +2,16 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import type {
   Settings,
   SummaryFormat,
+  SummaryProgress,
   LanguageDetection,
   TonePreset,
   ProofreadResult,
   VoiceInputMetadata,
+  ChatMessage,
+  QuestionExchange,
+  ReflectionPhaseTimes,
 } from '../../types';
+import { ERROR_MESSAGES, FOLLOW_UPS } from '../../constants';
 import { trapFocus } from '../../utils/accessibility';
 import { devLog, devWarn, devError } from '../../utils/logger';
 
@@ -20,8 +25,13 @@ import {
   SummaryPhase,
   ReflectionInput,
   ToolsSection,
+  ArticleChatPanel,
+  FollowUpQuestions,
   useWriterStreaming,
+  useArticleChat,
+  usePhaseTimer,
 } from './MeditationFlowOverlay/index';
+import type { AskArticleFn } from './MeditationFlowOverlay/index';
 import '../styles.css';
 
 interface MeditationFlowOverlayProps {
@@ -31,13 +41,19 @@ interface MeditationFlowOverlayProps {
   onSave: (
     reflections: string[],
     voiceMetadata?: VoiceInputMetadata[],
-    originalReflections?: (string | null)[]
+    originalReflections?: (string | null)[],
+    chat?: ChatMessage[],
+    questionChain?: QuestionExchange[],
+    phaseTimes?: ReflectionPhaseTimes
   ) => void;
   onCancel: () => void;
   settings: Settings;
   onFormatChange?: (format: SummaryFormat) => Promise<void>;
   currentFormat?: SummaryFormat;
   isLoadingSummary?: boolean;
+  summaryProgress?: SummaryProgress; // Chunked summarization of a long article
+  isSummaryCached?: boolean; // Summary came from an earlier visit
+  onRegenerateSummary?: () => void;
   languageDetection?: LanguageDetection;
   summaryLanguageDetection?: LanguageDetection;
   onProofread?: (text: string, index: number) => Promise<ProofreadResult>;
@@ -56,6 +72,12 @@ interface MeditationFlowOverlayProps {
   reduceMotion?: boolean;
   onToggleReduceMotion?: (enabled: boolean) => void;
   // removed translated target pill per request
+  tags?: string[];
+  onTagsChange?: (tags: string[]) => void;
+  onLoadTags?: () => Promise<string[]>;
+  onSuggestTags?: () => Promise<string[]>;
+  onAskArticle?: AskArticleFn; // Chat about the article, when the Prompt API is available
+  onFollowUp?: (chain: QuestionExchange[]) => Promise<string>;
 }
 
 export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
@@ -68,6 +90,9 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
   onFormatChange,
   currentFormat = 'bullets',
   isLoadingSummary = false,
+  summaryProgress,
+  isSummaryCached = false,
+  onRegenerateSummary,
   languageDetection,
   summaryLanguageDetection,
   onProofread,
@@ -79,10 +104,17 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
   onToggleAmbient: _onToggleAmbient,
   reduceMotion: _reduceMotion = false,
   onToggleReduceMotion: _onToggleReduceMotion,
+  tags = [],
+  onTagsChange,
+  onLoadTags,
+  onSuggestTags,
+  onAskArticle,
+  onFollowUp,
 }) => {
   // Summary display is handled by SummaryPhase component
   const contentRef = useRef<HTMLDivElement>(null);
   const [step, setStep] = useState<number>(0); // 0: settle, 1: summary, 2: q1, 3: q2
+  const getPhaseTimes = usePhaseTimer(step);
   const [answers, setAnswers] = useState<string[]>(['', '']);
 
   const [breathCue, setBreathCue] = useState<'inhale' | 'hold' | 'exhale'>(
@@ -104,6 +136,45 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
     startWriterAnimation,
     setIsDraftGenerating,
   } = useWriterStreaming(setAnswers, lastTextValueRef);
+
+  // Chat about the article
+  const articleChat = useArticleChat(onAskArticle);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [keepChat, setKeepChat] = useState(true);
+
+  // Follow-up questions about the first answer
+  const firstPrompt = prompts[0] ?? 'What did you find most interesting?';
+  const [followUps, setFollowUps] = useState<QuestionExchange[]>([]);
+  const [isAskingFollowUp, setIsAskingFollowUp] = useState(false);
+  const [followUpError, setFollowUpError] = useState<string | null>(null);
+  const followUpDepth = settings.followUpDepth ?? FOLLOW_UPS.DEFAULT_DEPTH;
+  const canAskFollowUp =
+    !!onFollowUp &&
+    !isAskingFollowUp &&
+    !!answers[0]?.trim() &&
+    followUps.length < followUpDepth &&
+    followUps.every((followUp) => followUp.answer.trim());
+
+  const askFollowUp = async () => {
+    if (!onFollowUp || !canAskFollowUp) return;
+    setIsAskingFollowUp(true);
+    setFollowUpError(null);
+    try {
+      const question = await onFollowUp([
+        { question: firstPrompt, answer: answers[0] },
+        ...followUps,
+      ]);
+      setFollowUps((prev) => [...prev, { question, answer: '' }]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Cancelled when the overlay closes; nothing to show
+      if (message !== ERROR_MESSAGES.AI_CANCELLED) {
+        setFollowUpError(message);
+      }
+    } finally {
+      setIsAskingFollowUp(false);
+    }
+  };
   // Resume silently if initial step/answers exist (popup removed)
   const [voiceInputStates, setVoiceInputStates] = useState<
     { isRecording: boolean; interimText: string }[]
@@ -802,9 +873,53 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
       };
     });
 
-    onSave(answers, voiceMetadata);
+    const answeredFollowUps = followUps.filter((followUp) =>
+      followUp.answer.trim()
+    );
+
+    onSave(
+      answers,
+      voiceMetadata,
+      undefined,
+      keepChat && articleChat.messages.length
+        ? articleChat.messages
+        : undefined,
+      answeredFollowUps.length
+        ? [{ question: firstPrompt, answer: answers[0] }, ...answeredFollowUps]
+        : undefined,
+      getPhaseTimes()
+    );
   };
 
+  // Existing tags for autocomplete and AI suggestions for this summary
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
+  const tagsRequestedRef = useRef(false);
+
+  useEffect(() => {
+    if (!onLoadTags) return;
+    let cancelled = false;
+    void onLoadTags().then((loaded) => {
+      if (!cancelled) setKnownTags(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoadTags]);
+
+  useEffect(() => {
+    if (
+      !onSuggestTags ||
+      isLoadingSummary ||
+      summary.length === 0 ||
+      tagsRequestedRef.current
+    ) {
+      return;
+    }
+    tagsRequestedRef.current = true;
+    void onSuggestTags().then(setSuggestedTags);
+  }, [onSuggestTags, isLoadingSummary, summary]);
+
   // Track previous loading state to detect when loading completes
   const prevLoadingRef = useRef<boolean | null>(null);
 
@@ -875,22 +990,43 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
       }}
     >
       <span>Reflexa • Reflect Mode</span>
-      <button
-        type="button"
-        onClick={onCancel}
-        aria-label="Close"
-        style={{
-          background: 'transparent',
-          border: '1px solid rgba(226,232,240,0.25)',
-          color: '#e2e8f0',
-          borderRadius: 999,
-          width: 32,
-          height: 32,
-          cursor: 'pointer',
-        }}
-      >
-        ×
-      </button>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        {onAskArticle && (
+          <button
+            type="button"
+            onClick={() => setIsChatOpen((open) => !open)}
+            aria-expanded={isChatOpen}
+            style={{
+              background: isChatOpen ? 'rgba(59,130,246,0.25)' : 'transparent',
+              border: '1px solid rgba(226,232,240,0.25)',
+              color: '#e2e8f0',
+              borderRadius: 999,
+              height: 32,
+              padding: '0 12px',
+              fontSize: 12,
+              cursor: 'pointer',
+            }}
+          >
+            Ask the article
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          aria-label="Close"
+          style={{
+            background: 'transparent',
+            border: '1px solid rgba(226,232,240,0.25)',
+            color: '#e2e8f0',
+            borderRadius: 999,
+            width: 32,
+            height: 32,
+            cursor: 'pointer',
+          }}
+        >
+          ×
+        </button>
+      </div>
     </div>
   );
 
@@ -1144,6 +1280,15 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
       >
         {Header}
 
+        {isChatOpen && onAskArticle && (
+          <ArticleChatPanel
+            chat={articleChat}
+            keepChat={keepChat}
+            onKeepChatChange={setKeepChat}
+            onClose={() => setIsChatOpen(false)}
+          />
+        )}
+
         {/* Resume draft popup removed per request */}
 
         {/* Center content per step */}
@@ -1158,6 +1303,7 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
           {step === 0 && (
             <BreathingPhase
               isLoadingSummary={isLoadingSummary}
+              summaryProgress={summaryProgress}
               settings={settings}
               breathCue={breathCue}
               setBreathCue={setBreathCue}
@@ -1173,13 +1319,15 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
               currentFormat={currentFormat}
               isLoadingSummary={isLoadingSummary}
               languageDetection={languageDetection}
+              isCached={isSummaryCached}
+              onRegenerate={onRegenerateSummary}
             />
           )}
 
           {step === 2 && (
             <ReflectionInput
               index={0}
-              prompt={prompts[0] ?? 'What did you find most interesting?'}
+              prompt={firstPrompt}
               answer={answers[0] ?? ''}
               setAnswer={(value) => {
                 setAnswers((prev) => [value, prev[1] ?? '']);
@@ -1199,6 +1347,23 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
             />
           )}
 
+          {step === 2 && (followUps.length > 0 || canAskFollowUp) && (
+            <FollowUpQuestions
+              followUps={followUps}
+              onAnswerChange={(index, answer) =>
+                setFollowUps((prev) =>
+                  prev.map((followUp, i) =>
+                    i === index ? { ...followUp, answer } : followUp
+                  )
+                )
+              }
+              canAskMore={canAskFollowUp}
+              isAsking={isAskingFollowUp}
+              error={followUpError}
+              onAsk={() => void askFollowUp()}
+            />
+          )}
+
           {step === 3 && (
             <ReflectionInput
               index={1}
@@ -1219,6 +1384,10 @@ export const MeditationFlowOverlay: React.FC<MeditationFlowOverlayProps> = ({
               lastTextValueRef={lastTextValueRef}
               typingTimerRef={typingTimerRef}
               onVoiceToggle={handleVoiceToggle1}
+              tags={tags}
+              onTagsChange={onTagsChange}
+              knownTags={knownTags}
+              suggestedTags={suggestedTags}
             />
           )}
         </div>
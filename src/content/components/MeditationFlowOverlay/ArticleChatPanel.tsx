@@ -0,0 +1,235 @@
+/**
+ * Article Chat Panel Component
+ * Side panel for asking questions about the article; answers stream in
+ * as they are written
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ARTICLE_CHAT } from '../../../constants';
+import type { UseArticleChatReturn } from './hooks/useArticleChat';
+
+interface ArticleChatPanelProps {
+  chat: UseArticleChatReturn;
+  keepChat: boolean;
+  onKeepChatChange: (keep: boolean) => void;
+  onClose: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid rgba(226,232,240,0.25)',
+  color: '#e2e8f0',
+  borderRadius: 999,
+  padding: '6px 12px',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+const bubbleStyle = (role: 'user' | 'assistant'): React.CSSProperties => ({
+  alignSelf: role === 'user' ? 'flex-end' : 'flex-start',
+  maxWidth: '85%',
+  padding: '8px 12px',
+  borderRadius: 12,
+  fontSize: 13,
+  lineHeight: 1.5,
+  whiteSpace: 'pre-wrap',
+  color: '#f8fafc',
+  background:
+    role === 'user' ? 'rgba(59,130,246,0.3)' : 'rgba(255,255,255,0.08)',
+});
+
+export const ArticleChatPanel: React.FC<ArticleChatPanelProps> = ({
+  chat,
+  keepChat,
+  onKeepChatChange,
+  onClose,
+}) => {
+  const { messages, pendingAnswer, isAnswering, error, ask, stop } = chat;
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Follow the conversation as answers stream in
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [messages.length, pendingAnswer]);
+
+  const submit = () => {
+    if (isAnswering || !draft.trim()) return;
+    ask(draft);
+    setDraft('');
+  };
+
+  // Keys typed here shouldn't move between the overlay's steps
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (
+      e.key === 'Enter' &&
+      !e.shiftKey &&
+      e.target === inputRef.current
+    ) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <aside
+      aria-label="Ask the article"
+      onKeyDown={handleKeyDown}
+      style={{
+        position: 'absolute',
+        top: 64,
+        right: 20,
+        bottom: 88,
+        width: 340,
+        maxWidth: 'calc(100% - 40px)',
+        zIndex: 3,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+        padding: 14,
+        borderRadius: 12,
+        background: 'rgba(15,23,42,0.92)',
+        border: '1px solid rgba(226,232,240,0.2)',
+        color: '#e2e8f0',
+        textAlign: 'left',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          fontSize: 13,
+          fontWeight: 600,
+        }}
+      >
+        <span>Ask the article</span>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close chat"
+          style={{ ...buttonStyle, padding: '2px 10px' }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div
+        ref={logRef}
+        role="log"
+        aria-live="polite"
+        style={{
+          flex: 1,
+          overflowY: 'auto',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 8,
+        }}
+      >
+        {messages.length === 0 && !isAnswering && (
+          <p style={{ margin: 0, fontSize: 12, color: '#94a3b8' }}>
+            Ask anything about what you just read. Answers come from the
+            article.
+          </p>
+        )}
+        {messages.map((message, i) => (
+          <div key={i} style={bubbleStyle(message.role)}>
+            {message.content}
+          </div>
+        ))}
+        {isAnswering && (
+          <div style={bubbleStyle('assistant')} aria-busy="true">
+            {pendingAnswer || 'Thinking…'}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div role="alert" style={{ fontSize: 12, color: '#fca5a5' }}>
+          {error.message}{' '}
+          <button
+            type="button"
+            onClick={() => ask(error.question)}
+            style={{ ...buttonStyle, padding: '2px 8px', marginLeft: 4 }}
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      <textarea
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        maxLength={ARTICLE_CHAT.MAX_QUESTION_LENGTH}
+        rows={2}
+        placeholder="Ask a question"
+        aria-label="Question about the article"
+        style={{
+          resize: 'none',
+          background: 'rgba(255,255,255,0.06)',
+          border: '1px solid rgba(226,232,240,0.25)',
+          borderRadius: 8,
+          color: '#f8fafc',
+          fontSize: 13,
+          padding: '8px 10px',
+          outline: 'none',
+        }}
+      />
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 8,
+        }}
+      >
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            fontSize: 12,
+            color: '#94a3b8',
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={keepChat}
+            onChange={(e) => onKeepChatChange(e.target.checked)}
+          />
+          Keep this chat with my reflection
+        </label>
+        {isAnswering ? (
+          <button type="button" onClick={stop} style={buttonStyle}>
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!draft.trim()}
+            style={{
+              ...buttonStyle,
+              opacity: draft.trim() ? 1 : 0.5,
+              cursor: draft.trim() ? 'pointer' : 'not-allowed',
+            }}
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -5,10 +5,11 @@
 
 import React, { useEffect } from 'react';
 import { LotusOrb } from '../LotusOrb/LotusOrb';
-import type { Settings } from '../../../types';
+import type { Settings, SummaryProgress } from '../../../types';
 
 interface BreathingPhaseProps {
   isLoadingSummary: boolean;
+  summaryProgress?: SummaryProgress;
   settings: Settings;
   breathCue: 'inhale' | 'hold' | 'exhale';
   setBreathCue: (cue: 'inhale' | 'hold' | 'exhale') => void;
@@ -40,8 +41,17 @@ const MEDITATIVE_PHRASES = [
   'Trusting the process...',
 ];
 
+/**
+ * Describe how far a long article's chunked summary has got
+ */
+const describeProgress = ({ stage, completed, total }: SummaryProgress) =>
+  stage === 'reduce'
+    ? 'Bringing the sections together…'
+    : `Reading section ${Math.min(completed + 1, total)} of ${total}…`;
+
 export const BreathingPhase: React.FC<BreathingPhaseProps> = ({
   isLoadingSummary,
+  summaryProgress,
   settings,
   breathCue,
   setBreathCue,
@@ -100,6 +110,18 @@ export const BreathingPhase: React.FC<BreathingPhaseProps> = ({
           ? MEDITATIVE_PHRASES[currentPhraseIndex]
           : 'Find your breath'}
       </h1>
+      {isLoadingSummary && summaryProgress && (
+        <p
+          style={{
+            marginTop: 12,
+            color: '#cbd5e1',
+            fontSize: 14,
+          }}
+          aria-live="polite"
+        >
+          {describeProgress(summaryProgress)}
+        </p>
+      )}
       {!isLoadingSummary && (
         <p
           style={{
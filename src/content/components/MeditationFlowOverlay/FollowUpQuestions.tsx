@@ -0,0 +1,106 @@
+/**
+ * Follow-up Questions Component
+ * Questions the model asks about the user's first answer, each with its
+ * own answer box, and the button that asks for the next one
+ */
+
+import React from 'react';
+import type { QuestionExchange } from '../../../types';
+
+interface FollowUpQuestionsProps {
+  followUps: QuestionExchange[];
+  onAnswerChange: (index: number, answer: string) => void;
+  canAskMore: boolean;
+  isAsking: boolean;
+  error: string | null;
+  onAsk: () => void;
+}
+
+export const FollowUpQuestions: React.FC<FollowUpQuestionsProps> = ({
+  followUps,
+  onAnswerChange,
+  canAskMore,
+  isAsking,
+  error,
+  onAsk,
+}) => {
+  // Let Enter and the arrow keys edit text instead of changing steps
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Escape') e.stopPropagation();
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: 720,
+        margin: '14px auto 0',
+        width: '100%',
+        textAlign: 'left',
+      }}
+    >
+      {followUps.map((followUp, index) => (
+        <div key={index} style={{ marginBottom: 12 }}>
+          <p
+            style={{
+              color: '#cbd5e1',
+              fontSize: 14,
+              margin: '0 0 6px',
+              fontStyle: 'italic',
+            }}
+          >
+            {followUp.question}
+          </p>
+          <textarea
+            aria-label={`Answer to follow-up question ${index + 1}`}
+            autoComplete="off"
+            data-lpignore="true"
+            value={followUp.answer}
+            onChange={(e) => onAnswerChange(index, e.target.value)}
+            onKeyDown={handleKeyDown}
+            autoFocus={index === followUps.length - 1}
+            style={{
+              width: '100%',
+              minHeight: 80,
+              background: 'rgba(2,6,23,0.35)',
+              border: '1px solid rgba(226,232,240,0.25)',
+              borderRadius: 12,
+              color: '#f8fafc',
+              padding: 10,
+              fontSize: 14,
+              boxSizing: 'border-box',
+              resize: 'vertical',
+            }}
+          />
+        </div>
+      ))}
+
+      {error && (
+        <p role="alert" style={{ color: '#fca5a5', fontSize: 12, margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      {(canAskMore || isAsking) && (
+        <button
+          type="button"
+          onClick={onAsk}
+          disabled={isAsking}
+          aria-busy={isAsking}
+          style={{
+            marginTop: 6,
+            background: 'transparent',
+            border: '1px solid rgba(226,232,240,0.25)',
+            color: '#e2e8f0',
+            borderRadius: 999,
+            padding: '6px 14px',
+            fontSize: 12,
+            cursor: isAsking ? 'wait' : 'pointer',
+            opacity: isAsking ? 0.7 : 1,
+          }}
+        >
+          {isAsking ? 'Thinking of a question…' : 'Go deeper'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 /**
  * Reflection Input Component (Step 2 & 3)
- * Displays reflection question and textarea input with voice support
+ * Displays reflection question and textarea input with voice support and
+ * optional tag entry
  */
 
 import React from 'react';
 import { VoiceToggleButton } from '../VoiceToggleButton';
+import { TagInput } from './TagInput';
 import { renderMarkdown } from '../../../utils/markdownRenderer';
 import type { Settings, ProofreadResult } from '../../../types';
 import type { useVoiceInput } from '../../hooks/useVoiceInput';
@@ -36,6 +38,11 @@ interface ReflectionInputProps {
   lastTextValueRef: React.MutableRefObject<string[]>;
   typingTimerRef: React.MutableRefObject<NodeJS.Timeout | null>;
   onVoiceToggle: () => void;
+  // Tag entry is shown only when onTagsChange is provided
+  tags?: string[];
+  onTagsChange?: (tags: string[]) => void;
+  knownTags?: string[];
+  suggestedTags?: string[];
 }
 
 export const ReflectionInput: React.FC<ReflectionInputProps> = ({
@@ -55,6 +62,10 @@ export const ReflectionInput: React.FC<ReflectionInputProps> = ({
   lastTextValueRef,
   typingTimerRef,
   onVoiceToggle,
+  tags = [],
+  onTagsChange,
+  knownTags = [],
+  suggestedTags = [],
 }) => {
   const displayValue = voiceInputState.interimText
     ? answer
@@ -147,6 +158,15 @@ export const ReflectionInput: React.FC<ReflectionInputProps> = ({
         )}
       </div>
 
+      {onTagsChange && (
+        <TagInput
+          tags={tags}
+          onChange={onTagsChange}
+          knownTags={knownTags}
+          suggestedTags={suggestedTags}
+        />
+      )}
+
       {/* Rewrite Preview */}
       {rewritePreview?.index === index && (
         <div
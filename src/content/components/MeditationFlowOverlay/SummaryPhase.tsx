@@ -1,18 +1,32 @@
 /**
  * Summary Phase Component (Step 1)
- * Displays the generated summary with format options
+ * Displays the generated summary with format options and earlier
+ * reflections on similar topics
  */
 
 import React from 'react';
 import { renderMarkdown } from '../../../utils/markdownRenderer';
+import { useRelatedReflections } from '../../../utils/useRelatedReflections';
+import {
+  isCustomSummaryFormat,
+  splitSummaryLabel,
+} from '../../../utils/summaryFormats';
 import type { SummaryFormat, LanguageDetection } from '../../../types';
 
+// Custom format items may start with a label, e.g. "Term: definition"
+const labeledItemMarkdown = (item: string) => {
+  const { label, text } = splitSummaryLabel(item);
+  return label ? `**${label}:** ${text}` : text;
+};
+
 interface SummaryPhaseProps {
   summary: string[];
   summaryDisplay?: string[];
   currentFormat: SummaryFormat;
   isLoadingSummary: boolean;
   languageDetection?: LanguageDetection;
+  isCached?: boolean; // Summary came from an earlier visit
+  onRegenerate?: () => void;
 }
 
 export const SummaryPhase: React.FC<SummaryPhaseProps> = ({
@@ -21,9 +35,21 @@ export const SummaryPhase: React.FC<SummaryPhaseProps> = ({
   currentFormat,
   isLoadingSummary,
   languageDetection,
+  isCached = false,
+  onRegenerate,
 }) => {
   const renderedSummary = summaryDisplay ?? summary;
 
+  // Look up similar past reflections once the summary is ready
+  const related = useRelatedReflections(
+    !isLoadingSummary && summary.length > 0
+      ? {
+          text: [document.title, ...summary].join('\n'),
+          excludeUrl: window.location.href,
+        }
+      : null
+  );
+
   return (
     <div className="reflexa-meditation-slide" style={{ position: 'relative' }}>
       {/* Subtle language badge - show when language is detected */}
@@ -56,6 +82,48 @@ export const SummaryPhase: React.FC<SummaryPhaseProps> = ({
       <h2 style={{ fontSize: 22, margin: '0 0 12px', fontWeight: 800 }}>
         Summary
       </h2>
+      {isCached && !isLoadingSummary && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 8,
+            margin: '-4px 0 12px',
+            fontSize: 12,
+            color: 'rgba(226, 232, 240, 0.75)',
+          }}
+        >
+          <span
+            style={{
+              padding: '2px 8px',
+              background: 'rgba(255, 255, 255, 0.08)',
+              border: '1px solid rgba(226, 232, 240, 0.18)',
+              borderRadius: 999,
+            }}
+            title="This summary was saved from an earlier visit to this page"
+          >
+            Cached
+          </span>
+          {onRegenerate && (
+            <button
+              type="button"
+              onClick={onRegenerate}
+              style={{
+                padding: 0,
+                background: 'none',
+                border: 'none',
+                color: '#e0f2fe',
+                fontSize: 12,
+                textDecoration: 'underline',
+                cursor: 'pointer',
+              }}
+            >
+              Regenerate
+            </button>
+          )}
+        </div>
+      )}
       <div
         style={{
           color: '#f1f5f9',
@@ -105,6 +173,20 @@ export const SummaryPhase: React.FC<SummaryPhaseProps> = ({
               ))}
             </ul>
           </div>
+        ) : isCustomSummaryFormat(currentFormat) &&
+          (renderedSummary.length > 1 ||
+            splitSummaryLabel(renderedSummary[0] ?? '').label) ? (
+          <ul style={{ margin: 0, paddingLeft: 18 }}>
+            {renderedSummary.map((s, i) => (
+              <li
+                key={i}
+                style={{ marginBottom: 8 }}
+                dangerouslySetInnerHTML={{
+                  __html: renderMarkdown(labeledItemMarkdown(s)),
+                }}
+              />
+            ))}
+          </ul>
         ) : (
           <p
             style={{ margin: 0 }}
@@ -114,6 +196,49 @@ export const SummaryPhase: React.FC<SummaryPhaseProps> = ({
           />
         )}
       </div>
+
+      {related && related.length > 0 && (
+        <div
+          style={{
+            margin: '20px auto 0',
+            maxWidth: 720,
+            textAlign: 'left',
+            padding: '12px 14px',
+            background: 'rgba(255, 255, 255, 0.06)',
+            border: '1px solid rgba(226, 232, 240, 0.14)',
+            borderRadius: 12,
+          }}
+          aria-label="Related reflections"
+        >
+          <div
+            style={{
+              fontSize: 12,
+              color: 'rgba(226, 232, 240, 0.75)',
+              marginBottom: 6,
+            }}
+          >
+            You reflected on something similar before
+          </div>
+          <ul style={{ margin: 0, paddingLeft: 18, fontSize: 14 }}>
+            {related.map(({ reflection }) => (
+              <li key={reflection.id} style={{ marginBottom: 4 }}>
+                <a
+                  href={reflection.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: '#e0f2fe' }}
+                >
+                  {reflection.title || 'Untitled'}
+                </a>
+                <span style={{ color: 'rgba(226, 232, 240, 0.6)' }}>
+                  {' '}
+                  · {new Date(reflection.createdAt).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,220 @@
+/**
+ * Tag Input Component
+ * Tag chips with autocomplete from existing tags and AI-suggested tags
+ */
+
+import React, { useMemo, useState } from 'react';
+import { TAGS } from '../../../constants';
+import { normalizeTag, normalizeTags } from '../../../utils';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  knownTags: string[];
+  suggestedTags: string[];
+}
+
+const chipStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: 4,
+  padding: '3px 10px',
+  borderRadius: 999,
+  fontSize: 12,
+  border: '1px solid rgba(226,232,240,0.25)',
+  background: 'rgba(255,255,255,0.08)',
+  color: '#e2e8f0',
+};
+
+export const TagInput: React.FC<TagInputProps> = ({
+  tags,
+  onChange,
+  knownTags,
+  suggestedTags,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Existing tags starting with what's typed, excluding ones already added
+  const completions = useMemo(() => {
+    const prefix = normalizeTag(draft);
+    if (!prefix) return [];
+    return knownTags
+      .filter((tag) => tag.startsWith(prefix) && !tags.includes(tag))
+      .slice(0, TAGS.MAX_AUTOCOMPLETE);
+  }, [draft, knownTags, tags]);
+
+  const pendingSuggestions = suggestedTags.filter((tag) => !tags.includes(tag));
+  const isFull = tags.length >= TAGS.MAX_PER_REFLECTION;
+
+  const addTag = (value: string) => {
+    const next = normalizeTags([...tags, value]);
+    if (next.length !== tags.length) {
+      onChange(next);
+    }
+    setDraft('');
+    setActiveIndex(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && completions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % completions.length);
+    } else if (e.key === 'ArrowUp' && completions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + completions.length) % completions.length);
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      const value = completions[activeIndex] ?? draft;
+      if (!normalizeTag(value)) return;
+      e.preventDefault();
+      addTag(value);
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: 720,
+        margin: '14px auto 0',
+        width: '100%',
+        textAlign: 'left',
+        position: 'relative',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: 6,
+          alignItems: 'center',
+        }}
+      >
+        {tags.map((tag) => (
+          <span key={tag} style={chipStyle}>
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              aria-label={`Remove tag ${tag}`}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                color: '#94a3b8',
+                cursor: 'pointer',
+                padding: 0,
+                fontSize: 13,
+                lineHeight: 1,
+              }}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={tags.length ? 'Add another tag' : 'Add tags'}
+            aria-label="Add tag"
+            aria-autocomplete="list"
+            aria-expanded={completions.length > 0}
+            aria-controls="reflexa-tag-completions"
+            autoComplete="off"
+            data-lpignore="true"
+            style={{
+              flex: '1 1 120px',
+              minWidth: 120,
+              background: 'transparent',
+              border: 'none',
+              borderBottom: '1px solid rgba(226,232,240,0.25)',
+              color: '#f8fafc',
+              fontSize: 13,
+              padding: '4px 2px',
+              outline: 'none',
+            }}
+          />
+        )}
+      </div>
+
+      {completions.length > 0 && (
+        <ul
+          id="reflexa-tag-completions"
+          role="listbox"
+          style={{
+            position: 'absolute',
+            zIndex: 2,
+            listStyle: 'none',
+            margin: '4px 0 0',
+            padding: 4,
+            background: '#0f172a',
+            border: '1px solid rgba(226,232,240,0.2)',
+            borderRadius: 8,
+            minWidth: 160,
+          }}
+        >
+          {completions.map((tag, i) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={(e) => {
+                // Keep focus in the input
+                e.preventDefault();
+                addTag(tag);
+              }}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                fontSize: 13,
+                cursor: 'pointer',
+                color: '#e2e8f0',
+                background:
+                  i === activeIndex ? 'rgba(59,130,246,0.25)' : 'transparent',
+              }}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isFull && pendingSuggestions.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: 6,
+            alignItems: 'center',
+            marginTop: 8,
+            fontSize: 12,
+            color: '#94a3b8',
+          }}
+        >
+          <span>Suggested:</span>
+          {pendingSuggestions.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => addTag(tag)}
+              aria-label={`Add suggested tag ${tag}`}
+              style={{ ...chipStyle, cursor: 'pointer', borderStyle: 'dashed' }}
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
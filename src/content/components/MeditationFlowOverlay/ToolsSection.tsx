@@ -11,6 +11,7 @@ import type {
   TonePreset,
   LanguageDetection,
 } from '../../../types';
+import { getCustomSummaryFormats } from '../../../utils/summaryFormats';
 
 interface ToolsSectionProps {
   step: number;
@@ -69,6 +70,7 @@ export const ToolsSection: React.FC<ToolsSectionProps> = ({
     <MoreToolsMenu
       currentScreen={currentScreen}
       currentFormat={currentFormat}
+      customFormats={getCustomSummaryFormats(settings)}
       onFormatChange={onFormatChange}
       isLoadingSummary={isLoadingSummary}
       onGenerateDraft={onGenerateDraft}
@@ -10,3 +10,10 @@ export type {
 } from './useVoiceInputState';
 export { useWriterStreaming } from './useWriterStreaming';
 export type { UseWriterStreamingReturn } from './useWriterStreaming';
+export { useArticleChat } from './useArticleChat';
+export { usePhaseTimer } from './usePhaseTimer';
+export type {
+  UseArticleChatReturn,
+  AskArticleFn,
+  ArticleChatError,
+} from './useArticleChat';
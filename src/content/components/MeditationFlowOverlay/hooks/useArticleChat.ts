@@ -0,0 +1,108 @@
+/**
+ * Hook for the "ask the article" chat
+ * Keeps the messages, streams the answer being written and stops it when
+ * the overlay closes
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { ChatMessage } from '../../../../types';
+
+/**
+ * Asks a question; returns a function that stops the answer
+ */
+export type AskArticleFn = (
+  question: string,
+  history: ChatMessage[],
+  handlers: {
+    onChunk?: (chunk: string) => void;
+    onComplete?: (answer?: string) => void;
+    onError?: (error: string) => void;
+  }
+) => () => void;
+
+export interface ArticleChatError {
+  question: string; // Question to ask again
+  message: string;
+}
+
+export interface UseArticleChatReturn {
+  messages: ChatMessage[];
+  pendingAnswer: string; // Answer streamed so far
+  isAnswering: boolean;
+  error: ArticleChatError | null;
+  ask: (question: string) => void;
+  stop: () => void;
+}
+
+export function useArticleChat(onAsk?: AskArticleFn): UseArticleChatReturn {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [pendingAnswer, setPendingAnswer] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [error, setError] = useState<ArticleChatError | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+  const streamedRef = useRef('');
+
+  // Stop any answer still streaming on unmount
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  // Keep what was written of the answer; a question with no answer yet
+  // is dropped
+  const stop = useCallback(() => {
+    if (!cancelRef.current) return;
+    cancelRef.current();
+    cancelRef.current = null;
+
+    const partial = streamedRef.current.trim();
+    setMessages((prev) =>
+      partial
+        ? [...prev, { role: 'assistant', content: partial }]
+        : prev.slice(0, -1)
+    );
+    setIsAnswering(false);
+    setPendingAnswer('');
+  }, []);
+
+  const ask = useCallback(
+    (question: string) => {
+      const trimmed = question.trim();
+      if (!onAsk || !trimmed || cancelRef.current) return;
+
+      const history = messages;
+      let settled = false;
+      streamedRef.current = '';
+      setMessages([...history, { role: 'user', content: trimmed }]);
+      setPendingAnswer('');
+      setError(null);
+      setIsAnswering(true);
+
+      const finish = () => {
+        settled = true;
+        cancelRef.current = null;
+        setIsAnswering(false);
+        setPendingAnswer('');
+      };
+
+      const cancel = onAsk(trimmed, history, {
+        onChunk: (chunk) => {
+          streamedRef.current += chunk;
+          setPendingAnswer(streamedRef.current);
+        },
+        onComplete: (answer) => {
+          const content = (answer ?? streamedRef.current).trim();
+          finish();
+          setMessages((prev) => [...prev, { role: 'assistant', content }]);
+        },
+        onError: (message) => {
+          finish();
+          // Take the question back so it can be asked again
+          setMessages((prev) => prev.slice(0, -1));
+          setError({ question: trimmed, message });
+        },
+      });
+      if (!settled) cancelRef.current = cancel;
+    },
+    [onAsk, messages]
+  );
+
+  return { messages, pendingAnswer, isAnswering, error, ask, stop };
+}
@@ -0,0 +1,62 @@
+/**
+ * Hook timing the phases of the reflection flow
+ * Time spent with the tab hidden isn't counted.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { ReflectionPhaseTimes } from '../../../../types';
+
+/**
+ * Phase a step of the flow belongs to
+ * @param step - 0: settle, 1: summary, 2 and 3: questions
+ */
+const phaseOfStep = (step: number): keyof ReflectionPhaseTimes => {
+  if (step === 0) return 'breathing';
+  if (step === 1) return 'summary';
+  return 'questions';
+};
+
+/**
+ * Time the flow's phases as the step changes
+ * @param step - Current step of the flow
+ * @returns Function giving the whole seconds spent in each phase so far
+ */
+export function usePhaseTimer(step: number): () => ReflectionPhaseTimes {
+  const timesRef = useRef<ReflectionPhaseTimes>({
+    breathing: 0,
+    summary: 0,
+    questions: 0,
+  });
+  const phaseRef = useRef(phaseOfStep(step));
+  const startedAtRef = useRef<number | null>(Date.now());
+
+  // Add the running stretch to the current phase and start the next one,
+  // unless the tab is hidden
+  const lap = useCallback(() => {
+    const now = Date.now();
+    if (startedAtRef.current !== null) {
+      timesRef.current[phaseRef.current] += (now - startedAtRef.current) / 1000;
+    }
+    startedAtRef.current = document.hidden ? null : now;
+  }, []);
+
+  useEffect(() => {
+    lap();
+    phaseRef.current = phaseOfStep(step);
+  }, [step, lap]);
+
+  useEffect(() => {
+    document.addEventListener('visibilitychange', lap);
+    return () => document.removeEventListener('visibilitychange', lap);
+  }, [lap]);
+
+  return useCallback(() => {
+    lap();
+    const { breathing, summary, questions } = timesRef.current;
+    return {
+      breathing: Math.round(breathing),
+      summary: Math.round(summary),
+      questions: Math.round(questions),
+    };
+  }, [lap]);
+}
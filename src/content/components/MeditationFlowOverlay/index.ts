@@ -4,5 +4,8 @@
 export { BreathingPhase } from './BreathingPhase';
 export { SummaryPhase } from './SummaryPhase';
 export { ReflectionInput } from './ReflectionInput';
+export { TagInput } from './TagInput';
 export { ToolsSection } from './ToolsSection';
+export { ArticleChatPanel } from './ArticleChatPanel';
+export { FollowUpQuestions } from './FollowUpQuestions';
 export * from './hooks';
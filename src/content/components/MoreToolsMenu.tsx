@@ -1,5 +1,9 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import type { SummaryFormat, TonePreset } from '../../types';
+import type {
+  CustomSummaryFormat,
+  SummaryFormat,
+  TonePreset,
+} from '../../types';
 import { devLog } from '../../utils/logger';
 import '../styles.css';
 import {
@@ -17,6 +21,7 @@ interface MoreToolsMenuProps {
 
   // Summary format (only shown in summary screen)
   currentFormat?: SummaryFormat;
+  customFormats?: CustomSummaryFormat[];
   onFormatChange?: (format: SummaryFormat) => Promise<void>;
   isLoadingSummary?: boolean;
 
@@ -63,6 +68,7 @@ interface MoreToolsMenuProps {
 export const MoreToolsMenu: React.FC<MoreToolsMenuProps> = ({
   currentScreen,
   currentFormat = 'bullets',
+  customFormats = [],
   onFormatChange,
   isLoadingSummary = false,
   onGenerateDraft,
@@ -185,6 +191,7 @@ export const MoreToolsMenu: React.FC<MoreToolsMenuProps> = ({
           {currentScreen === 'summary' && onFormatChange && (
             <FormatSection
               currentFormat={currentFormat}
+              customFormats={customFormats}
               onFormatChange={onFormatChange}
               isLoadingSummary={isLoadingSummary}
               onClose={handleClose}
@@ -1,16 +1,23 @@
 /**
  * Format Section Component
- * Displays summary format options (bullets, paragraph, headline)
+ * Displays summary format options (bullets, paragraph, headline) and the
+ * user's custom formats
  */
 
 import React from 'react';
-import type { SummaryFormat } from '../../../types';
-import { formatOptions } from './constants';
+import type { CustomSummaryFormat, SummaryFormat } from '../../../types';
+import { formatOptions, type FormatOption } from './constants';
 import { devLog } from '../../../utils/logger';
-import { BulletIcon, ParagraphIcon, HeadlineIcon } from './icons';
+import {
+  BulletIcon,
+  ParagraphIcon,
+  HeadlineIcon,
+  CustomFormatIcon,
+} from './icons';
 
 interface FormatSectionProps {
   currentFormat: SummaryFormat;
+  customFormats?: CustomSummaryFormat[];
   onFormatChange: (format: SummaryFormat) => Promise<void>;
   isLoadingSummary: boolean;
   onClose: () => void;
@@ -18,10 +25,20 @@ interface FormatSectionProps {
 
 export const FormatSection: React.FC<FormatSectionProps> = ({
   currentFormat,
+  customFormats = [],
   onFormatChange,
   isLoadingSummary,
   onClose,
 }) => {
+  const options: FormatOption[] = [
+    ...formatOptions,
+    ...customFormats.map((format) => ({
+      value: format.id,
+      label: format.name,
+      description: format.description,
+    })),
+  ];
+
   const handleFormatSelect = async (format: SummaryFormat) => {
     devLog(
       '[MoreToolsMenu] Format selected:',
@@ -43,7 +60,7 @@ export const FormatSection: React.FC<FormatSectionProps> = ({
     <div className="reflexa-more-tools__section">
       <div className="reflexa-more-tools__section-title">Format</div>
       <div className="reflexa-more-tools__grid">
-        {formatOptions.map((option) => (
+        {options.map((option) => (
           <button
             key={option.value}
             type="button"
@@ -60,6 +77,7 @@ export const FormatSection: React.FC<FormatSectionProps> = ({
             }}
             disabled={isLoadingSummary}
             role="menuitem"
+            title={option.description}
             data-testid={`format-option-${option.value}`}
           >
             <span className="reflexa-more-tools__tile-icon">
@@ -67,8 +85,10 @@ export const FormatSection: React.FC<FormatSectionProps> = ({
                 <BulletIcon />
               ) : option.value === 'paragraph' ? (
                 <ParagraphIcon />
-              ) : (
+              ) : option.value === 'headline-bullets' ? (
                 <HeadlineIcon />
+              ) : (
+                <CustomFormatIcon />
               )}
             </span>
             <span className="reflexa-more-tools__tile-label">
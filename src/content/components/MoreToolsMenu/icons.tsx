@@ -17,6 +17,7 @@ import {
   Sparkles,
   Edit,
   Loader2,
+  LayoutList,
 } from 'lucide-react';
 
 export const VolumeIcon = () => <Volume2 size={16} strokeWidth={2} />;
@@ -31,6 +32,8 @@ export const ParagraphIcon = () => <AlignLeft size={16} strokeWidth={2} />;
 
 export const HeadlineIcon = () => <Heading size={16} strokeWidth={2} />;
 
+export const CustomFormatIcon = () => <LayoutList size={16} strokeWidth={2} />;
+
 export const CalmIcon = () => <Smile size={16} strokeWidth={2} />;
 
 export const ConciseIcon = () => <ArrowRight size={16} strokeWidth={2} />;
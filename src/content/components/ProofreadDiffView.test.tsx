@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { ProofreadDiffView } from './ProofreadDiffView';
+import { diffTexts } from './ProofreadDiffView/utils';
 import type { ProofreadResult } from '../../types';
 
 describe('ProofreadDiffView', () => {
@@ -175,3 +176,34 @@ describe('ProofreadDiffView', () => {
     expect(discardButton).toBeInTheDocument();
   });
 });
+
+describe('diffTexts', () => {
+  const highlighted = (segments: ReturnType<typeof diffTexts>['before']) =>
+    segments.filter((s) => s.isHighlight).map((s) => s.text);
+
+  it('highlights removed and added words', () => {
+    const diff = diffTexts(
+      'I read slowly every morning',
+      'I read carefully every evening'
+    );
+
+    expect(highlighted(diff.before)).toEqual(['slowly', 'morning']);
+    expect(highlighted(diff.after)).toEqual(['carefully', 'evening']);
+  });
+
+  it('keeps segments that rebuild the original texts', () => {
+    const before = 'One thought.\n\nAnother one';
+    const after = 'One new thought.\n\nAnother one, expanded';
+    const diff = diffTexts(before, after);
+
+    expect(diff.before.map((s) => s.text).join('')).toBe(before);
+    expect(diff.after.map((s) => s.text).join('')).toBe(after);
+    expect(highlighted(diff.after)).toEqual(['new ', 'one, expanded']);
+  });
+
+  it('returns a single plain segment for identical texts', () => {
+    expect(diffTexts('same', 'same').after).toEqual([
+      { text: 'same', isHighlight: false },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Diff Texts Utility
+ * Word-level diff between two versions of a text, returned as segments
+ * with the removed and added words highlighted
+ */
+
+import type { ProofreadResult } from '../../../../types';
+import type { TextSegment } from '../types';
+import { getTextSegments } from './getTextSegments';
+
+type Ranges = ProofreadResult['corrections'];
+
+// Words and the whitespace between them, so offsets map back to the text
+const tokenizeWords = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+// Extend the previous range when changes are adjacent
+const addRange = (ranges: Ranges, start: number, token: string): void => {
+  const last = ranges[ranges.length - 1];
+  if (last?.endIndex === start) {
+    last.endIndex += token.length;
+    last.original += token;
+  } else {
+    ranges.push({
+      startIndex: start,
+      endIndex: start + token.length,
+      original: token,
+    });
+  }
+};
+
+export const diffTexts = (
+  before: string,
+  after: string
+): { before: TextSegment[]; after: TextSegment[] } => {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+
+  // Longest common subsequence lengths of each pair of suffixes
+  const lcs = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const removed: Ranges = [];
+  const added: Ranges = [];
+  let i = 0;
+  let j = 0;
+  let offsetA = 0;
+  let offsetB = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      offsetA += a[i++].length;
+      offsetB += b[j++].length;
+    } else if (
+      j < b.length &&
+      (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      addRange(added, offsetB, b[j]);
+      offsetB += b[j++].length;
+    } else {
+      addRange(removed, offsetA, a[i]);
+      offsetA += a[i++].length;
+    }
+  }
+
+  return {
+    before: getTextSegments(before, removed),
+    after: getTextSegments(after, added),
+  };
+};
@@ -3,3 +3,4 @@
  */
 export { categorizeChange } from './categorizeChange';
 export { getTextSegments } from './getTextSegments';
+export { diffTexts } from './diffTexts';
@@ -8,6 +8,7 @@ import type { Settings, AICapabilities } from '../../../../types';
 import { COMMON_LANGUAGES } from '../../../../constants';
 import { Row, Switch, Select, InfoHint } from '../components';
 import { IconProofread, IconTranslate, IconList, IconBeaker } from '../icons';
+import { getCustomSummaryFormats } from '../../../../utils/summaryFormats';
 
 interface AIFeaturesSectionProps {
   settings: Settings;
@@ -132,6 +133,10 @@ export const AIFeaturesSection: React.FC<AIFeaturesSectionProps> = ({
               value: 'headline-bullets',
               label: 'Headline + Bullets',
             },
+            ...getCustomSummaryFormats(settings).map((format) => ({
+              value: format.id,
+              label: format.name,
+            })),
           ]}
         />
       }
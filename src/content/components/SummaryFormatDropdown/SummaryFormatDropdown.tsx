@@ -4,23 +4,35 @@
  */
 
 import React, { useState } from 'react';
-import type { SummaryFormat } from '../../../types';
+import type { CustomSummaryFormat, SummaryFormat } from '../../../types';
 import '../../styles.css';
 import { DropdownTrigger, FormatOption } from './components';
 import { useDropdownState } from './hooks';
-import { formatOptions } from './constants';
+import { formatOptions, type FormatOption as Option } from './constants';
 
 interface SummaryFormatDropdownProps {
   selectedFormat: SummaryFormat;
+  customFormats?: CustomSummaryFormat[];
   onFormatChange: (format: SummaryFormat) => void;
   disabled?: boolean;
 }
 
 export const SummaryFormatDropdown: React.FC<SummaryFormatDropdownProps> = ({
   selectedFormat,
+  customFormats = [],
   onFormatChange,
   disabled = false,
 }) => {
+  const options: Option[] = [
+    ...formatOptions,
+    ...customFormats.map((format) => ({
+      value: format.id,
+      label: format.name,
+      icon: '✎',
+      description: format.description,
+    })),
+  ];
+
   const [isOpen, setIsOpen] = useState(false);
 
   const dropdownRef = useDropdownState(isOpen, () => setIsOpen(false));
@@ -38,9 +50,7 @@ export const SummaryFormatDropdown: React.FC<SummaryFormatDropdownProps> = ({
     }
   };
 
-  const selectedOption = formatOptions.find(
-    (opt) => opt.value === selectedFormat
-  );
+  const selectedOption = options.find((opt) => opt.value === selectedFormat);
 
   return (
     <div
@@ -63,7 +73,7 @@ export const SummaryFormatDropdown: React.FC<SummaryFormatDropdownProps> = ({
           aria-label="Summary format options"
           data-testid="summary-format-menu"
         >
-          {formatOptions.map((option) => (
+          {options.map((option) => (
             <FormatOption
               key={option.value}
               option={option}
@@ -4,9 +4,12 @@
  */
 
 import type { Settings } from '../../types';
+import { READING } from '../../constants';
 import { DwellTracker } from '../features/dwellTracking';
 import { ContentExtractor } from '../features/contentExtraction/contentExtractor';
 import { AudioManager } from '../../utils/audioManager';
+import { getCustomThreshold, getNudgeThreshold } from '../../utils/siteRules';
+import { devLog } from '../../utils/logger';
 
 /**
  * Manages lifecycle of core instances used throughout the content script
@@ -16,6 +19,7 @@ class InstanceManager {
   private contentExtractor: ContentExtractor | null = null;
   private audioManager: AudioManager | null = null;
   private settings: Settings | null = null;
+  private onThresholdReached: (() => void) | null = null;
 
   /**
    * Initialize dwell tracker with threshold and callback
@@ -24,6 +28,8 @@ class InstanceManager {
     threshold: number,
     onThresholdReached: () => void
   ): void {
+    this.onThresholdReached = onThresholdReached;
+
     // Clean up existing tracker if any
     if (this.dwellTracker) {
       this.dwellTracker.destroy();
@@ -40,6 +46,56 @@ class InstanceManager {
     this.dwellTracker.startTracking();
   }
 
+  /**
+   * Start dwell tracking on this page if the site rules allow the nudge
+   * Call after settings are set; navigation and settings changes apply
+   * the rules again.
+   * @returns The threshold in use, or null when the nudge is off here
+   */
+  startDwellTracking(onThresholdReached: () => void): number | null {
+    this.onThresholdReached = onThresholdReached;
+    return this.applySiteRules();
+  }
+
+  /**
+   * Apply the site rules to a page: stop tracking where the nudge
+   * shouldn't appear, otherwise track with the rule's threshold from the
+   * start
+   * @param url - Page address (default: the current page)
+   * @returns The threshold in use, or null when tracking is stopped
+   */
+  applySiteRules(url: string = window.location.href): number | null {
+    if (!this.settings || !this.onThresholdReached) return null;
+
+    const threshold = getNudgeThreshold(this.settings, url);
+    if (threshold === null) {
+      if (this.dwellTracker) {
+        this.dwellTracker.destroy();
+        this.dwellTracker = null;
+        devLog('Dwell tracking stopped by site rules');
+      }
+      return null;
+    }
+
+    if (this.dwellTracker) {
+      this.dwellTracker.setDwellThreshold(threshold);
+      this.dwellTracker.reset();
+    } else {
+      this.initializeDwellTracker(threshold, this.onThresholdReached);
+    }
+
+    // Measure reading against the page's article, found afresh since
+    // navigation may have replaced it
+    this.dwellTracker?.setSiteThreshold(getCustomThreshold(this.settings, url));
+    this.dwellTracker?.setProgressThreshold(
+      this.settings.readingProgressThreshold ?? READING.DEFAULT_PROGRESS
+    );
+    this.dwellTracker?.setContentContainer(
+      this.getContentExtractor().findMainContainer()
+    );
+    return threshold;
+  }
+
   /**
    * Initialize audio manager with settings
    */
@@ -60,10 +116,29 @@ class InstanceManager {
    * Update settings and apply changes to existing instances
    */
   setSettings(settings: Settings): void {
+    const previous = this.settings;
     this.settings = settings;
 
-    // Update dwell tracker threshold if it exists
-    if (this.dwellTracker) {
+    // Apply the new threshold and site rules to this page. Settings are
+    // broadcast on every change, so reading progress is only reset when
+    // the nudge is turned on or off here.
+    if (this.onThresholdReached) {
+      const threshold = getNudgeThreshold(settings, window.location.href);
+      if ((threshold === null) !== (this.dwellTracker === null)) {
+        this.applySiteRules();
+      } else if (this.dwellTracker && threshold !== null) {
+        this.dwellTracker.setDwellThreshold(threshold);
+        this.dwellTracker.setSiteThreshold(
+          getCustomThreshold(settings, window.location.href)
+        );
+        this.dwellTracker.setProgressThreshold(
+          settings.readingProgressThreshold ?? READING.DEFAULT_PROGRESS
+        );
+      }
+    } else if (
+      this.dwellTracker &&
+      previous?.dwellThreshold !== settings.dwellThreshold
+    ) {
       this.dwellTracker.setDwellThreshold(settings.dwellThreshold);
       this.dwellTracker.reset();
     }
@@ -144,6 +219,7 @@ class InstanceManager {
 
     // Clear settings
     this.settings = null;
+    this.onThresholdReached = null;
   }
 }
 
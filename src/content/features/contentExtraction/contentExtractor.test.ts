@@ -174,6 +174,102 @@ describe('ContentExtractor', () => {
     });
   });
 
+  describe('sections', () => {
+    it('should split the article at its headings', () => {
+      dom.window.document.body.innerHTML = `
+        <article>
+          <p>Opening paragraph before any heading.</p>
+          <h2>First Section</h2>
+          <p>Text of the first section.</p>
+          <div><h3>Nested Heading</h3><p>Text inside a wrapper.</p></div>
+          <aside>Related links</aside>
+        </article>
+      `;
+
+      const content = extractor.extractMainContent();
+
+      expect(content.sections).toEqual([
+        { text: 'Opening paragraph before any heading.' },
+        { heading: 'First Section', text: 'Text of the first section.' },
+        { heading: 'Nested Heading', text: 'Text inside a wrapper.' },
+      ]);
+    });
+
+    it('should leave sections out when there are no headings', () => {
+      dom.window.document.body.innerHTML = `
+        <article><p>Just one run of text without headings.</p></article>
+      `;
+
+      expect(extractor.extractMainContent().sections).toBeUndefined();
+    });
+  });
+
+  describe('outline', () => {
+    it('should keep headings, paragraphs, lists, quotes and code', () => {
+      dom.window.document.body.innerHTML = `
+        <article>
+          <h2>Getting <em>started</em></h2>
+          <p>Install the package.</p>
+          <ol><li>Download it</li><li>Run <code>setup</code></li></ol>
+          <blockquote><p>Simple is better.</p></blockquote>
+          <pre>npm install
+  --save</pre>
+          <div>Loose text in a wrapper <a href="/more">with a link</a></div>
+          <div class="share">Share this</div>
+        </article>
+      `;
+
+      expect(extractor.extractMainContent().outline).toEqual([
+        { type: 'heading', level: 2, text: 'Getting started' },
+        { type: 'paragraph', text: 'Install the package.' },
+        { type: 'list', ordered: true, items: ['Download it', 'Run setup'] },
+        { type: 'blockquote', text: 'Simple is better.' },
+        { type: 'code', text: 'npm install\n  --save' },
+        { type: 'paragraph', text: 'Loose text in a wrapper with a link' },
+      ]);
+    });
+  });
+
+  describe('metadata', () => {
+    it('should read author, date, site, canonical URL and language', () => {
+      dom.window.document.documentElement.lang = 'en-GB';
+      dom.window.document.head.innerHTML = `
+        <meta name="author" content="By Ada Fields">
+        <meta property="article:author" content="https://example.com/ada">
+        <meta property="article:published_time" content="2024-05-02T09:00:00Z">
+        <meta property="og:site_name" content="Example Weekly">
+        <link rel="canonical" href="/article?ref=canonical">
+      `;
+      dom.window.document.body.innerHTML = `
+        <article><p>${'word '.repeat(460)}</p></article>
+      `;
+
+      expect(extractor.extractMainContent()).toMatchObject({
+        author: 'Ada Fields',
+        publishedDate: '2024-05-02T09:00:00Z',
+        siteName: 'Example Weekly',
+        canonicalUrl: 'https://example.com/article?ref=canonical',
+        language: 'en-GB',
+        estimatedReadingTime: 2,
+      });
+    });
+
+    it('should fall back to the domain and leave unknowns out', () => {
+      dom.window.document.body.innerHTML = `
+        <article><p>A short note.</p></article>
+      `;
+
+      const content = extractor.extractMainContent();
+
+      expect(content.siteName).toBe('example.com');
+      expect(content.estimatedReadingTime).toBe(1);
+      expect(content.author).toBeUndefined();
+      expect(content.publishedDate).toBeUndefined();
+      expect(content.canonicalUrl).toBeUndefined();
+      expect(content.language).toBeUndefined();
+    });
+  });
+
   describe('getTruncatedContent', () => {
     it('should truncate content that exceeds token limit', () => {
       const longText = 'word '.repeat(3000);
@@ -1,17 +1,24 @@
 /**
  * ContentExtractor - Analyzes DOM structure and extracts main article content
- * Implements heuristics to identify readable content and exclude navigation, ads, etc.
+ * Uses a site adapter when one matches the page, and otherwise heuristics
+ * to identify readable content and exclude navigation, ads, etc.
  */
 
-import type { ExtractedContent, PageMetadata } from '../../../types';
+import type {
+  ContentSection,
+  ExtractedContent,
+  OutlineBlock,
+  PageMetadata,
+} from '../../../types';
 import {
   estimateTokens,
   countWords,
   extractDomain,
   sanitizeText,
 } from '../../../utils';
-import { CONTENT_LIMITS } from '../../../constants';
+import { CONTENT_LIMITS, READING } from '../../../constants';
 import { devLog, devWarn } from '../../../utils/logger';
+import { findSiteAdapter, type SiteAdapter } from './siteAdapters';
 
 /**
  * Selectors for elements to exclude from content extraction
@@ -61,6 +68,110 @@ const CONTENT_SELECTORS = [
   '.story',
 ];
 
+/**
+ * Headings that start a new section of an article
+ */
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/**
+ * Elements that become a block of the outline
+ */
+const OUTLINE_BLOCK_SELECTOR = `${HEADING_SELECTOR}, p, ul, ol, blockquote, pre`;
+
+/**
+ * Elements that end a run of inline text; any text between them becomes
+ * a paragraph of the outline
+ */
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'CAPTION',
+  'DD',
+  'DETAILS',
+  'DIV',
+  'DL',
+  'DT',
+  'FIELDSET',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'FORM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'LI',
+  'MAIN',
+  'NAV',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'SUMMARY',
+  'TABLE',
+  'TBODY',
+  'TD',
+  'TFOOT',
+  'TH',
+  'THEAD',
+  'TR',
+  'UL',
+]);
+
+/**
+ * Generic metadata selectors, tried after a site adapter's own
+ */
+const AUTHOR_SELECTORS = [
+  'meta[name="author"]',
+  'meta[property="article:author"]',
+  'meta[name="byl"]',
+  '[itemprop="author"] [itemprop="name"]',
+  '[rel="author"]',
+];
+const PUBLISHED_SELECTORS = [
+  'meta[property="article:published_time"]',
+  'meta[itemprop="datePublished"]',
+  'meta[name="date"]',
+  'meta[name="citation_date"]',
+  'time[itemprop="datePublished"]',
+  'time[datetime]',
+];
+const SITE_NAME_SELECTORS = [
+  'meta[property="og:site_name"]',
+  'meta[name="application-name"]',
+];
+
+/**
+ * Blocks of prose scored by the readability fallback
+ */
+const PROSE_SELECTOR = 'p, pre';
+
+/**
+ * Class and id words that make a container more or less likely to hold
+ * the article, for the readability fallback
+ */
+const POSITIVE_HINTS = /article|body|content|entry|main|post|story|text/i;
+const NEGATIVE_HINTS =
+  /comment|footer|sidebar|nav|menu|share|social|promo|related|sponsor|banner|ad-/i;
+
+/**
+ * Value of a metadata element: a meta tag's content, a time's datetime,
+ * or otherwise its text
+ */
+const readValue = (element: Element): string =>
+  sanitizeText(
+    element.getAttribute('content') ??
+      element.getAttribute('datetime') ??
+      element.textContent ??
+      ''
+  );
+
 /**
  * ContentExtractor class for analyzing and extracting page content
  */
@@ -91,16 +202,44 @@ export class ContentExtractor {
     }
 
     // Perform extraction
-    const title = this.extractTitle();
+    const adapter = findSiteAdapter(this.document);
+    if (adapter) devLog(`Extracting with site adapter: ${adapter.name}`);
+    const exclude = adapter?.exclude ?? [];
+
+    const title = this.readValues(adapter?.title)[0] ?? this.extractTitle();
     const url = currentUrl;
-    const text = this.extractText();
+    const container = this.locateContainer(adapter);
+    const text = this.extractTextFromElement(container, exclude);
     const wordCount = countWords(text);
+    const sections = this.extractSections(container, exclude);
+    const outline = this.extractOutline(container, exclude);
+    const author = this.extractAuthor(adapter);
+    const publishedDate = this.readValues([
+      ...(adapter?.published ?? []),
+      ...PUBLISHED_SELECTORS,
+    ])[0];
+    const siteName =
+      this.readValues(SITE_NAME_SELECTORS)[0] ??
+      extractDomain(url).replace(/^www\./, '');
+    const canonicalUrl = this.extractCanonicalUrl();
+    const language = container.closest('[lang]')?.getAttribute('lang')?.trim();
 
     const content: ExtractedContent = {
       title,
       text,
       url,
       wordCount,
+      ...(sections && { sections }),
+      ...(outline.length > 0 && { outline }),
+      ...(author && { author }),
+      ...(publishedDate && { publishedDate }),
+      ...(siteName && { siteName }),
+      ...(canonicalUrl && { canonicalUrl }),
+      ...(language && { language }),
+      estimatedReadingTime: Math.max(
+        1,
+        Math.round(wordCount / READING.WORDS_PER_MINUTE)
+      ),
     };
 
     // Cache the result
@@ -122,6 +261,14 @@ export class ContentExtractor {
     return content;
   }
 
+  /**
+   * Find the element holding the page's main content
+   * @returns The content container, or the body when none stands out
+   */
+  findMainContainer(): HTMLElement {
+    return this.locateContainer(findSiteAdapter(this.document));
+  }
+
   /**
    * Extract page metadata
    * @returns PageMetadata object
@@ -190,19 +337,77 @@ export class ContentExtractor {
   }
 
   /**
-   * Extract main text content using heuristics
-   * @returns Extracted and sanitized text
+   * Find the content container, from the adapter's root if it has one
+   * on this page, or else by heuristics
+   * @param adapter Adapter for the page, if any
+   * @returns The content container, or the body when none stands out
    */
-  private extractText(): string {
-    // Try to find main content container
-    const contentContainer = this.findContentContainer();
+  private locateContainer(adapter: SiteAdapter | null): HTMLElement {
+    for (const selector of adapter?.root ?? []) {
+      const root = this.document.querySelector<HTMLElement>(selector);
+      if (root) return root;
+    }
+    if (adapter) {
+      devWarn(
+        `No content root for site adapter ${adapter.name}, using heuristics`
+      );
+    }
+    return this.findContentContainer() ?? this.document.body;
+  }
 
-    if (contentContainer) {
-      return this.extractTextFromElement(contentContainer);
+  /**
+   * Read metadata with the first of a list of selectors that matches
+   * @param selectors Selectors to try in order
+   * @returns The non-empty values of every element the selector matches
+   */
+  private readValues(selectors: string[] = []): string[] {
+    for (const selector of selectors) {
+      const values = Array.from(this.document.querySelectorAll(selector))
+        .map(readValue)
+        .filter((value) => value.length > 0);
+      if (values.length > 0) return values;
     }
+    return [];
+  }
+
+  /**
+   * Extract the article's authors, with the adapter's selectors first
+   * @param adapter Adapter for the page, if any
+   * @returns Authors joined with commas, or undefined if none are found
+   */
+  private extractAuthor(adapter: SiteAdapter | null): string | undefined {
+    const authors = this.readValues([
+      ...(adapter?.author ?? []),
+      ...AUTHOR_SELECTORS,
+    ])
+      // article:author is often a profile link rather than a name
+      .filter((author) => !/^https?:\/\//i.test(author))
+      .map((author) => author.replace(/^by\s+/i, ''));
+    return authors.length > 0
+      ? Array.from(new Set(authors)).join(', ')
+      : undefined;
+  }
 
-    // Fallback: extract from body with exclusions
-    return this.extractTextFromElement(this.document.body);
+  /**
+   * Extract the page's canonical URL
+   * @returns Absolute web URL, or undefined if the page names none
+   */
+  private extractCanonicalUrl(): string | undefined {
+    const href =
+      this.document
+        .querySelector('link[rel="canonical"]')
+        ?.getAttribute('href') ??
+      this.document
+        .querySelector('meta[property="og:url"]')
+        ?.getAttribute('content');
+    if (!href) return undefined;
+
+    try {
+      const canonical = new URL(href, this.document.location.href);
+      return /^https?:$/.test(canonical.protocol) ? canonical.href : undefined;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -225,11 +430,70 @@ export class ContentExtractor {
       }
     }
 
-    // Fallback: analyze content density across all elements
-    const divSections = this.document.body.querySelectorAll('div, section');
-    return this.findHighestDensityElement(
-      Array.from(divSections) as HTMLElement[]
+    // Fallback: find the container the page's prose gathers in
+    return this.findReadableContainer();
+  }
+
+  /**
+   * Readability-style search for the article: each paragraph scores its
+   * parent, and half as much its grandparent, by its length and commas.
+   * Containers are then weighed by their class and id and penalized for
+   * link-heavy text, and the best scoring one wins.
+   * @returns Best container, or null if the page has no prose
+   */
+  private findReadableContainer(): HTMLElement | null {
+    const scores = new Map<HTMLElement, number>();
+    const excluded = EXCLUDE_SELECTORS.join(',');
+
+    for (const block of Array.from(
+      this.document.body.querySelectorAll(PROSE_SELECTOR)
+    )) {
+      const text = block.textContent?.trim() ?? '';
+      if (text.length < 25 || block.closest(excluded)) continue;
+
+      const commas = text.split(',').length - 1;
+      const score = 1 + commas + Math.min(3, Math.floor(text.length / 100));
+      const parent = block.parentElement;
+      const grandparent = parent?.parentElement;
+      if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+      if (grandparent && grandparent !== this.document.documentElement) {
+        scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+      }
+    }
+
+    let bestElement: HTMLElement | null = null;
+    let highestScore = 0;
+    for (const [element, score] of scores) {
+      if (this.shouldExclude(element)) continue;
+
+      const hints = `${element.className} ${element.id}`;
+      let weighted = score;
+      if (POSITIVE_HINTS.test(hints)) weighted += 25;
+      if (NEGATIVE_HINTS.test(hints)) weighted -= 25;
+      weighted *= 1 - this.getLinkDensity(element);
+
+      if (weighted > highestScore) {
+        highestScore = weighted;
+        bestElement = element;
+      }
+    }
+
+    return bestElement;
+  }
+
+  /**
+   * Share of an element's text that sits inside links
+   * @param element HTMLElement to measure
+   * @returns Link density from 0 to 1
+   */
+  private getLinkDensity(element: HTMLElement): number {
+    const textLength = element.textContent?.trim().length ?? 0;
+    if (textLength === 0) return 0;
+    const linkText = Array.from(element.querySelectorAll('a')).reduce(
+      (sum, link) => sum + (link.textContent?.length ?? 0),
+      0
     );
+    return Math.min(1, linkText / textLength);
   }
 
   /**
@@ -304,12 +568,7 @@ export class ContentExtractor {
     if (element.getAttribute('role') === 'main') score += 150;
 
     // Penalty for links (high link density suggests navigation)
-    const links = element.querySelectorAll('a');
-    const linkText = Array.from(links).reduce((sum, link) => {
-      return sum + (link.textContent?.length || 0);
-    }, 0);
-    const linkDensity = textLength > 0 ? linkText / textLength : 0;
-    if (linkDensity > 0.5) {
+    if (this.getLinkDensity(element) > 0.5) {
       score *= 0.3; // Heavy penalty for high link density
     }
 
@@ -384,15 +643,160 @@ export class ContentExtractor {
   /**
    * Extract text from an element, excluding unwanted child elements
    * @param element HTMLElement to extract text from
+   * @param exclude Selectors the site adapter drops
    * @returns Extracted and sanitized text
    */
-  private extractTextFromElement(element: HTMLElement): string {
+  private extractTextFromElement(
+    element: HTMLElement,
+    exclude: string[]
+  ): string {
+    const clone = this.cloneWithoutExcluded(element, exclude);
+
+    // Get text content
+    let text = clone.textContent || '';
+
+    // Sanitize text
+    text = sanitizeText(text);
+
+    return text;
+  }
+
+  /**
+   * Split an element's text at its headings, so long articles can be
+   * summarized section by section
+   * @param element HTMLElement to extract sections from
+   * @param exclude Selectors the site adapter drops
+   * @returns Sections in document order, or undefined if there are no headings
+   */
+  private extractSections(
+    element: HTMLElement,
+    exclude: string[]
+  ): ContentSection[] | undefined {
+    const clone = this.cloneWithoutExcluded(element, exclude);
+    if (!clone.querySelector(HEADING_SELECTOR)) return undefined;
+
+    const sections: ContentSection[] = [{ text: '' }];
+    const walk = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          sections[sections.length - 1].text += child.textContent ?? '';
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+          if ((child as Element).matches(HEADING_SELECTOR)) {
+            sections.push({
+              heading: sanitizeText(child.textContent ?? ''),
+              text: '',
+            });
+          } else {
+            walk(child);
+          }
+        }
+      }
+    };
+    walk(clone);
+
+    const result = sections
+      .map((section) => ({ ...section, text: sanitizeText(section.text) }))
+      .filter((section) => section.text.length > 0);
+    return result.length > 0 ? result : undefined;
+  }
+
+  /**
+   * Outline an element: its headings, paragraphs, lists, quotes and code
+   * in document order. Text outside any of those, such as text straight
+   * inside a div, becomes a paragraph so nothing is lost.
+   * @param element HTMLElement to outline
+   * @param exclude Selectors the site adapter drops
+   * @returns Outline blocks, empty if the element has no text
+   */
+  private extractOutline(
+    element: HTMLElement,
+    exclude: string[]
+  ): OutlineBlock[] {
+    const outline: OutlineBlock[] = [];
+    let inline = '';
+
+    const flush = () => {
+      const text = sanitizeText(inline);
+      if (text) outline.push({ type: 'paragraph', text });
+      inline = '';
+    };
+
+    const walk = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          inline += child.textContent ?? '';
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+          const el = child as HTMLElement;
+          if (!BLOCK_TAGS.has(el.tagName)) {
+            inline += el.textContent ?? '';
+            continue;
+          }
+          flush();
+          if (el.matches(OUTLINE_BLOCK_SELECTOR)) {
+            const block = this.toOutlineBlock(el);
+            if (block) outline.push(block);
+          } else {
+            walk(el);
+            flush();
+          }
+        }
+      }
+    };
+    walk(this.cloneWithoutExcluded(element, exclude));
+    flush();
+
+    return outline;
+  }
+
+  /**
+   * Turn a heading, paragraph, list, quote or code element into a block
+   * @param element Element matching OUTLINE_BLOCK_SELECTOR
+   * @returns The block, or null if the element has no text
+   */
+  private toOutlineBlock(element: HTMLElement): OutlineBlock | null {
+    const tag = element.tagName;
+
+    if (tag === 'UL' || tag === 'OL') {
+      const items = Array.from(element.children)
+        .filter((item) => item.tagName === 'LI')
+        .map((item) => sanitizeText(item.textContent ?? ''))
+        .filter((item) => item.length > 0);
+      return items.length > 0
+        ? { type: 'list', ordered: tag === 'OL', items }
+        : null;
+    }
+
+    if (tag === 'PRE') {
+      // Keep code's line breaks and indentation
+      const text = (element.textContent ?? '').replace(/^\n+|\s+$/g, '');
+      return text ? { type: 'code', text } : null;
+    }
+
+    const text = sanitizeText(element.textContent ?? '');
+    if (!text) return null;
+    if (element.matches(HEADING_SELECTOR)) {
+      return { type: 'heading', level: Number(tag.slice(1)), text };
+    }
+    return { type: tag === 'BLOCKQUOTE' ? 'blockquote' : 'paragraph', text };
+  }
+
+  /**
+   * Clone an element without navigation, ads, scripts and other
+   * excluded descendants
+   * @param element HTMLElement to clone
+   * @param exclude Selectors the site adapter drops as well
+   * @returns Detached clone
+   */
+  private cloneWithoutExcluded(
+    element: HTMLElement,
+    exclude: string[] = []
+  ): HTMLElement {
     // Clone element to avoid modifying the DOM
     const clone = element.cloneNode(true) as HTMLElement;
 
     // Remove excluded elements
     const excludedElements = clone.querySelectorAll(
-      EXCLUDE_SELECTORS.join(',')
+      [...EXCLUDE_SELECTORS, ...exclude].join(',')
     );
     excludedElements.forEach((el) => el.remove());
 
@@ -400,13 +804,7 @@ export class ContentExtractor {
     const scripts = clone.querySelectorAll('script, style, noscript');
     scripts.forEach((el) => el.remove());
 
-    // Get text content
-    let text = clone.textContent || '';
-
-    // Sanitize text
-    text = sanitizeText(text);
-
-    return text;
+    return clone;
   }
 
   /**
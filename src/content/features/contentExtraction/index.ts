@@ -3,3 +3,5 @@
  */
 
 export { ContentExtractor } from './contentExtractor';
+export { SITE_ADAPTERS, findSiteAdapter } from './siteAdapters';
+export type { SiteAdapter } from './siteAdapters';
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for site adapters
+ * Extracts saved pages from each adapted site and a generic blog
+ */
+
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { ContentExtractor } from './contentExtractor';
+import { findSiteAdapter } from './siteAdapters';
+import substackHtml from './__fixtures__/substack.html?raw';
+import mediumHtml from './__fixtures__/medium.html?raw';
+import wikipediaHtml from './__fixtures__/wikipedia.html?raw';
+import githubReadmeHtml from './__fixtures__/github-readme.html?raw';
+import arxivHtml from './__fixtures__/arxiv.html?raw';
+import nytimesHtml from './__fixtures__/nytimes.html?raw';
+import washingtonPostHtml from './__fixtures__/washingtonpost.html?raw';
+import genericBlogHtml from './__fixtures__/generic-blog.html?raw';
+
+interface FixtureCase {
+  adapter: string;
+  html: string;
+  url: string;
+  title: string;
+  author?: string;
+  publishedDate?: string;
+  includes: string[];
+  excludes: string[];
+}
+
+const CASES: FixtureCase[] = [
+  {
+    adapter: 'Substack',
+    html: substackHtml,
+    url: 'https://quietletters.substack.com/p/the-slow-web',
+    title: 'The Slow Web',
+    author: 'Ada Fields',
+    publishedDate: '2024-05-02T09:00:00.000Z',
+    includes: ['forgotten by dinner.', 'write down the single idea'],
+    excludes: ['A desk by the window', 'Subscribe for free', 'unscientific'],
+  },
+  {
+    adapter: 'Medium',
+    html: mediumHtml,
+    url: 'https://medium.com/@samortiz/designing-for-attention-4f2a',
+    title: 'Designing for Attention',
+    author: 'Sam Ortiz',
+    publishedDate: 'Nov 14, 2023',
+    includes: ["the reader's attention.", 'watch what happens.'],
+    excludes: ['Follow', '6 min read', 'Unsplash', 'Share', 'More from'],
+  },
+  {
+    adapter: 'Wikipedia',
+    html: wikipediaHtml,
+    url: 'https://en.wikipedia.org/wiki/Spaced_repetition',
+    title: 'Spaced repetition',
+    includes: ['increasing intervals.', 'forgetting curve in the 1880s.'],
+    excludes: ['[1]', '[edit]', 'Massed practice', 'Contents', 'Journal'],
+  },
+  {
+    adapter: 'GitHub README',
+    html: githubReadmeHtml,
+    url: 'https://github.com/calmtools/quiet-reader',
+    title: 'quiet-reader',
+    author: 'calmtools',
+    includes: ['Read the web without the noise.', 'npm install quiet-reader'],
+    excludes: ['Permalink', 'Copy', 'package.json', 'Bump dependencies'],
+  },
+  {
+    adapter: 'arXiv',
+    html: arxivHtml,
+    url: 'https://arxiv.org/abs/2401.01234',
+    title: 'Attention Residue in Online Reading',
+    author: 'Mina Lee, Daniel Okafor',
+    publishedDate: '2024/01/03',
+    includes: ['attention residue', 'short pauses as a remedy.'],
+    excludes: ['Abstract:', 'Subjects', 'View PDF'],
+  },
+  {
+    adapter: 'The New York Times',
+    html: nytimesHtml,
+    url: 'https://www.nytimes.com/2024/02/18/opinion/boredom.html',
+    title: 'The Case for Boredom',
+    author: 'Priya Raman',
+    publishedDate: '2024-02-18T10:00:05.000Z',
+    includes: ['something meaningful to do.', 'ideas connect.'],
+    excludes: ['Credit: Agency', 'verify access', 'preview view', '$1 a week'],
+  },
+  {
+    adapter: 'The Washington Post',
+    html: washingtonPostHtml,
+    url: 'https://www.washingtonpost.com/wellness/2024/03/09/attention-span/',
+    title: 'Why your attention span is not broken',
+    author: 'Tomás Reyes',
+    publishedDate: '2024-03-09T12:30:00.000Z',
+    includes: ['trace to a study.', 'uninterrupted reading.'],
+    excludes: ['Advertisement', 'Photo: Staff', 'Cancel anytime', '$40'],
+  },
+];
+
+const extract = (html: string, url: string) =>
+  new ContentExtractor(
+    new JSDOM(html, { url }).window.document
+  ).extractMainContent();
+
+describe('site adapters', () => {
+  describe.each(CASES)('$adapter', (fixture) => {
+    it('should be picked for the page', () => {
+      const { document } = new JSDOM(fixture.html, { url: fixture.url }).window;
+
+      expect(findSiteAdapter(document)?.name).toBe(fixture.adapter);
+    });
+
+    it('should extract the article and its metadata', () => {
+      const content = extract(fixture.html, fixture.url);
+
+      expect(content.title).toBe(fixture.title);
+      expect(content.author).toBe(fixture.author);
+      expect(content.publishedDate).toBe(fixture.publishedDate);
+      fixture.includes.forEach((text) => expect(content.text).toContain(text));
+      fixture.excludes.forEach((text) =>
+        expect(content.text).not.toContain(text)
+      );
+    });
+  });
+
+  it('should match platforms on their own domains by marker', () => {
+    const { document } = new JSDOM(substackHtml, {
+      url: 'https://www.quietletters.com/p/the-slow-web',
+    }).window;
+
+    expect(findSiteAdapter(document)?.name).toBe('Substack');
+  });
+
+  it('should skip adapters whose path does not match', () => {
+    const { document } = new JSDOM(githubReadmeHtml, {
+      url: 'https://github.com/calmtools/quiet-reader/issues/12',
+    }).window;
+
+    expect(findSiteAdapter(document)).toBeNull();
+  });
+
+  it('should fall back to heuristics when the root is missing', () => {
+    const content = extract(
+      '<main><p>A Wikipedia page laid out in some new way.</p></main>',
+      'https://en.wikipedia.org/wiki/Example'
+    );
+
+    expect(content.text).toBe('A Wikipedia page laid out in some new way.');
+  });
+
+  it('should find the article on sites without an adapter', () => {
+    const content = extract(genericBlogHtml, 'https://notes.example/taking');
+
+    expect(content.title).toBe('Notes on Note-Taking');
+    expect(content.author).toBeUndefined();
+    expect(content.text).toContain('copying asks nothing of the reader.');
+    expect(content.text).toContain('I remember writing them.');
+    expect(content.text).not.toContain('Archive');
+    expect(content.text).not.toContain('long-distance cycling');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Site Adapters - Extraction rules for sites the generic heuristics get wrong
+ *
+ * Each adapter names where a site keeps its article and what to leave
+ * out of it: captions, footnotes, edit links, paywall stubs. Selectors
+ * are tried in order and the first that matches wins; when none do, the
+ * extractor falls back to its generic heuristics. Add an adapter, with a
+ * saved page in __fixtures__, when a site keeps extracting badly.
+ */
+
+export interface SiteAdapter {
+  name: string;
+  domains: string[]; // Matches the domain and its subdomains
+  path?: RegExp; // Only pages whose path matches, e.g. abstract pages
+  marker?: string; // Found only on the platform's pages, for custom domains
+  root: string[]; // The element holding the article
+  exclude?: string[]; // Dropped from the article
+  title?: string[];
+  author?: string[]; // Every match is an author
+  published?: string[];
+}
+
+const PUBLISHED_META = 'meta[property="article:published_time"]';
+
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  {
+    name: 'Substack',
+    domains: ['substack.com'],
+    marker: 'link[href*="substackcdn.com"]',
+    root: ['.available-content .body.markup', '.body.markup'],
+    exclude: [
+      '.subscription-widget-wrap',
+      '.subscription-widget-wrap-editor',
+      '.paywall',
+      '.footnote-anchor',
+      '.footnote',
+      'figcaption',
+      '.image-link-expand',
+    ],
+    title: ['h1.post-title'],
+    author: ['meta[name="author"]', '.byline-names a'],
+    published: [PUBLISHED_META, '.post-date time'],
+  },
+  {
+    name: 'Medium',
+    domains: ['medium.com'],
+    marker: 'meta[property="al:android:app_name"][content="Medium"]',
+    root: ['article section', 'article'],
+    exclude: [
+      '.speechify-ignore',
+      '[data-testid="storyTitle"]',
+      '[data-testid="headerClapButton"]',
+      'figcaption',
+      'button',
+    ],
+    title: ['[data-testid="storyTitle"]', 'article h1'],
+    author: ['[data-testid="authorName"]', 'meta[name="author"]'],
+    published: ['[data-testid="storyPublishDate"]', PUBLISHED_META],
+  },
+  {
+    name: 'Wikipedia',
+    domains: ['wikipedia.org'],
+    path: /^\/wiki\//,
+    root: ['#mw-content-text .mw-parser-output'],
+    exclude: [
+      '.mw-editsection',
+      '.hatnote',
+      '.infobox',
+      '.navbox',
+      '.thumb',
+      'figure',
+      '.toc',
+      '#toc',
+      'sup.reference',
+      '.reflist',
+      '.mw-references-wrap',
+      '.references',
+      '.metadata',
+      '.noprint',
+    ],
+    title: ['#firstHeading'],
+  },
+  {
+    name: 'GitHub README',
+    domains: ['github.com'],
+    // A repository's front page or a folder within it
+    path: /^\/[^/]+\/[^/]+(?:\/tree\/.*)?\/?$/,
+    root: ['#readme article.markdown-body', 'article.markdown-body'],
+    exclude: ['.anchor', 'clipboard-copy', '.zeroclipboard-container'],
+    title: ['strong[itemprop="name"] a', 'article.markdown-body h1'],
+    author: ['a[rel="author"]'],
+  },
+  {
+    name: 'arXiv',
+    domains: ['arxiv.org'],
+    path: /^\/abs\//,
+    root: ['blockquote.abstract'],
+    exclude: ['.descriptor'],
+    title: ['meta[name="citation_title"]', 'h1.title'],
+    author: ['.authors a', 'meta[name="citation_author"]'],
+    published: ['meta[name="citation_date"]'],
+  },
+  {
+    name: 'The New York Times',
+    domains: ['nytimes.com'],
+    root: ['section[name="articleBody"]'],
+    exclude: [
+      '#gateway-content',
+      '[data-testid="inline-message"]',
+      '[data-testid="expanded-dock"]',
+      'figcaption',
+    ],
+    title: ['h1[data-testid="headline"]'],
+    author: ['meta[name="byl"]', '[itemprop="author"] [itemprop="name"]'],
+    published: [PUBLISHED_META, 'time[datetime]'],
+  },
+  {
+    name: 'The Washington Post',
+    domains: ['washingtonpost.com'],
+    root: ['[data-qa="main"] article', 'article'],
+    exclude: [
+      '[data-qa="subscribe-promo"]',
+      '[data-qa="paywall"]',
+      '[data-qa="article-body-ad"]',
+      '[data-qa="share-bar"]',
+      '#wall-bottom-drawer',
+      'figcaption',
+    ],
+    title: ['h1[data-qa="headline"]'],
+    author: ['[data-qa="author-name"]', 'meta[name="author"]'],
+    published: [PUBLISHED_META, '[data-qa="display-date"]'],
+  },
+];
+
+const matchesDomain = (host: string, domain: string) =>
+  host === domain || host.endsWith(`.${domain}`);
+
+/**
+ * Find the adapter for a page
+ * @param doc - Page document; its location gives the URL
+ * @param adapters - Registry to search
+ * @returns The first matching adapter, or null to use the generic heuristics
+ */
+export function findSiteAdapter(
+  doc: Document,
+  adapters: SiteAdapter[] = SITE_ADAPTERS
+): SiteAdapter | null {
+  const { hostname, pathname } = doc.location;
+  const host = hostname.toLowerCase();
+
+  return (
+    adapters.find((adapter) => {
+      if (adapter.path && !adapter.path.test(pathname)) return false;
+      return (
+        adapter.domains.some((domain) => matchesDomain(host, domain)) ||
+        (!!adapter.marker && !!doc.querySelector(adapter.marker))
+      );
+    }) ?? null
+  );
+}
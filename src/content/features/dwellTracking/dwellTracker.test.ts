@@ -173,4 +173,110 @@ describe('DwellTracker', () => {
       expect(tracker.getCurrentDwellTime()).toBe(15);
     });
   });
+
+  describe('reading progress', () => {
+    let article: HTMLElement;
+    let inView: IntersectionObserverCallback = () => undefined;
+
+    const showArticle = () =>
+      inView(
+        [
+          { target: article.firstElementChild, isIntersecting: true },
+        ] as IntersectionObserverEntry[],
+        {} as IntersectionObserver
+      );
+
+    beforeEach(() => {
+      vi.stubGlobal(
+        'IntersectionObserver',
+        class {
+          constructor(callback: IntersectionObserverCallback) {
+            inView = callback;
+          }
+          observe = vi.fn();
+          disconnect = vi.fn();
+        }
+      );
+      // One 230-word paragraph: a minute at the default reading speed
+      article = document.createElement('article');
+      article.innerHTML = `<p>${Array(230).fill('word').join(' ')}</p>`;
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should only count time with the article in view', () => {
+      tracker.setContentContainer(article);
+      tracker.startTracking();
+
+      vi.advanceTimersByTime(5000);
+      expect(tracker.getCurrentDwellTime()).toBe(0);
+
+      showArticle();
+      vi.advanceTimersByTime(5000);
+      expect(tracker.getReadingStats()).toEqual({
+        readingTime: 5,
+        progress: expect.closeTo(5 / 60, 5) as number,
+      });
+    });
+
+    it('should fire on progress alone', () => {
+      const callback = vi.fn();
+      tracker.onThresholdReached(callback);
+      tracker.setDwellThreshold(120);
+      tracker.setProgressThreshold(0.4);
+      tracker.setContentContainer(article);
+      tracker.startTracking();
+      showArticle();
+
+      // 40% of a minute's reading takes 24 seconds
+      vi.advanceTimersByTime(20000);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(5000);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fire on a site rule's threshold before progress", () => {
+      const callback = vi.fn();
+      tracker.onThresholdReached(callback);
+      tracker.setDwellThreshold(10);
+      tracker.setSiteThreshold(10);
+      tracker.setProgressThreshold(0.4);
+      tracker.setContentContainer(article);
+      tracker.startTracking();
+      showArticle();
+
+      vi.advanceTimersByTime(9000);
+      expect(callback).not.toHaveBeenCalled();
+
+      // Well short of the 24 seconds 40% of the article takes
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the dwell threshold when no progress is asked for', () => {
+      const callback = vi.fn();
+      tracker.onThresholdReached(callback);
+      tracker.setDwellThreshold(10);
+      tracker.setProgressThreshold(0);
+      tracker.setContentContainer(article);
+      tracker.startTracking();
+      showArticle();
+
+      vi.advanceTimersByTime(9000);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report time only without an article', () => {
+      tracker.startTracking();
+      vi.advanceTimersByTime(3000);
+
+      expect(tracker.getReadingStats()).toEqual({ readingTime: 3 });
+    });
+  });
 });
@@ -5,18 +5,26 @@
  * - Monitoring page visibility using the Page Visibility API
  * - Detecting user interactions (scroll, mouse move, keyboard)
  * - Pausing the timer when the tab is hidden
- * - Notifying when the dwell threshold is reached
+ * - Counting only time spent reading, when an article container is set
+ * - Notifying once enough of the article is read, or after the dwell
+ *   threshold where reading can't be measured or a site rule sets one
  */
 
+import type { ReadingStats } from '../../../types';
+import { ReadingEngagement } from './readingEngagement';
+
 export class DwellTracker {
   private dwellTime = 0; // Current dwell time in seconds
-  private dwellThreshold = 60; // Threshold in seconds (loaded from settings)
+  private dwellThreshold = 60; // Threshold in seconds, without progress (loaded from settings)
   private isTracking = false;
   private isPageVisible = true;
   private lastActivityTime = Date.now();
   private intervalId: number | null = null;
   private thresholdCallback: (() => void) | null = null;
   private thresholdReached = false;
+  private engagement: ReadingEngagement | null = null;
+  private progressThreshold = 0; // Share of the article to read first (0-1)
+  private siteThreshold: number | null = null; // A site rule's own threshold in seconds
 
   // Activity detection settings
   private readonly ACTIVITY_TIMEOUT = 30000; // 30 seconds of inactivity pauses tracking
@@ -92,6 +100,7 @@ export class DwellTracker {
     this.dwellTime = 0;
     this.thresholdReached = false;
     this.lastActivityTime = Date.now();
+    this.engagement?.reset();
   }
 
   /**
@@ -112,12 +121,61 @@ export class DwellTracker {
 
   /**
    * Update the dwell threshold
+   * Used where reading progress isn't measured
    * @param threshold New threshold in seconds
    */
   setDwellThreshold(threshold: number): void {
     this.dwellThreshold = threshold;
   }
 
+  /**
+   * Update the share of the article to read before the threshold is reached
+   * With an article measured, this replaces the dwell threshold
+   * @param progress Share of the article's words (0-1); 0 uses time only
+   */
+  setProgressThreshold(progress: number): void {
+    this.progressThreshold = progress;
+  }
+
+  /**
+   * Update the threshold a site rule sets for this page
+   * Unlike the dwell threshold, it also applies alongside progress
+   * @param threshold Threshold in seconds, or null when no rule sets one
+   */
+  setSiteThreshold(threshold: number | null): void {
+    this.siteThreshold = threshold;
+  }
+
+  /**
+   * Measure reading against an article container
+   * Dwell time then only counts while some of the article is in view and
+   * the reader isn't skimming past it. Containers too short to measure
+   * fall back to counting active time.
+   * @param container Element holding the article, or null to stop measuring
+   */
+  setContentContainer(container: HTMLElement | null): void {
+    this.engagement?.stop();
+    this.engagement = null;
+
+    if (container) {
+      const engagement = new ReadingEngagement(container);
+      if (engagement.start()) {
+        this.engagement = engagement;
+      }
+    }
+  }
+
+  /**
+   * Get how much of the page has been read
+   * @returns Reading time, plus progress when an article is measured
+   */
+  getReadingStats(): ReadingStats {
+    return {
+      readingTime: this.dwellTime,
+      ...(this.engagement && { progress: this.engagement.getProgress() }),
+    };
+  }
+
   /**
    * Start the internal timer that increments dwell time
    */
@@ -146,15 +204,39 @@ export class DwellTracker {
    */
   private tick(): void {
     // Only increment if page is visible and user is active
-    if (this.shouldIncrementDwellTime()) {
-      this.dwellTime += 1;
+    if (!this.shouldIncrementDwellTime()) {
+      return;
+    }
 
-      // Check if threshold reached
-      if (!this.thresholdReached && this.dwellTime >= this.dwellThreshold) {
-        this.thresholdReached = true;
-        this.notifyThresholdReached();
-      }
+    // With an article measured, only time spent reading it counts
+    if (this.engagement && !this.engagement.tick(1)) {
+      return;
+    }
+
+    this.dwellTime += 1;
+
+    // Check if threshold reached
+    if (!this.thresholdReached && this.hasReadEnough()) {
+      this.thresholdReached = true;
+      this.notifyThresholdReached();
+    }
+  }
+
+  /**
+   * Determine if enough of the article has been read
+   * Progress decides when the article is measured, unless a site rule's
+   * threshold comes first; the dwell threshold is the fallback when it
+   * isn't measured, or when no progress is asked for
+   * @returns True if the progress or dwell threshold is met
+   */
+  private hasReadEnough(): boolean {
+    if (this.engagement && this.progressThreshold > 0) {
+      return (
+        this.engagement.getProgress() >= this.progressThreshold ||
+        (this.siteThreshold !== null && this.dwellTime >= this.siteThreshold)
+      );
     }
+    return this.dwellTime >= this.dwellThreshold;
   }
 
   /**
@@ -251,6 +333,7 @@ export class DwellTracker {
    */
   destroy(): void {
     this.stopTracking();
+    this.setContentContainer(null);
     this.thresholdCallback = null;
   }
 }
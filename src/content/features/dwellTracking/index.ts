@@ -3,3 +3,4 @@
  */
 
 export { DwellTracker } from './dwellTracker';
+export { ReadingEngagement } from './readingEngagement';
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for ReadingEngagement
+ * Tests word crediting for blocks in view, skimming and short pages
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReadingEngagement } from './readingEngagement';
+
+const words = (count: number) => Array(count).fill('word').join(' ');
+
+// IntersectionObserver stand-in: tests say which elements are in view
+let observerCallback: IntersectionObserverCallback | null = null;
+
+const setInView = (elements: Element[], isIntersecting = true) => {
+  observerCallback?.(
+    elements.map(
+      (target) => ({ target, isIntersecting }) as IntersectionObserverEntry
+    ),
+    {} as IntersectionObserver
+  );
+};
+
+const scrollTo = (y: number) => {
+  Object.defineProperty(window, 'scrollY', { value: y, configurable: true });
+  window.dispatchEvent(new Event('scroll'));
+};
+
+describe('ReadingEngagement', () => {
+  let article: HTMLElement;
+  let paragraphs: HTMLElement[];
+  let engagement: ReadingEngagement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal(
+      'IntersectionObserver',
+      class {
+        constructor(callback: IntersectionObserverCallback) {
+          observerCallback = callback;
+        }
+        observe = vi.fn();
+        disconnect = vi.fn();
+      }
+    );
+
+    // Four paragraphs of 60 words; 240 words at 240 wpm is a minute
+    article = document.createElement('article');
+    article.innerHTML = `<h1>Title</h1>${'<p></p>'.repeat(4)}`;
+    paragraphs = Array.from(article.querySelectorAll('p'));
+    paragraphs.forEach((p) => {
+      p.textContent = words(60);
+    });
+    document.body.appendChild(article);
+
+    engagement = new ReadingEngagement(article, 240);
+  });
+
+  afterEach(() => {
+    engagement.stop();
+    article.remove();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should credit words at reading speed to blocks in view', () => {
+    expect(engagement.start()).toBe(true);
+    setInView(paragraphs.slice(0, 2));
+
+    for (let i = 0; i < 10; i++) {
+      expect(engagement.tick()).toBe(true);
+    }
+
+    // 10 seconds at 4 words a second, out of 241 words
+    expect(engagement.getProgress()).toBeCloseTo(40 / 241);
+  });
+
+  it('should stop crediting once the blocks in view are read', () => {
+    engagement.start();
+    setInView([paragraphs[0]]);
+
+    for (let i = 0; i < 30; i++) engagement.tick();
+
+    expect(engagement.getProgress()).toBeCloseTo(60 / 241);
+  });
+
+  it('should not count time with none of the article in view', () => {
+    engagement.start();
+    setInView([paragraphs[0]]);
+    setInView([paragraphs[0]], false);
+
+    expect(engagement.tick()).toBe(false);
+    expect(engagement.getProgress()).toBe(0);
+  });
+
+  it('should not count time spent skimming', () => {
+    engagement.start();
+    setInView(paragraphs);
+
+    scrollTo(0);
+    vi.advanceTimersByTime(500);
+    scrollTo(2000);
+    vi.advanceTimersByTime(500);
+    scrollTo(4000);
+
+    expect(engagement.tick()).toBe(false);
+
+    // Once scrolling settles, reading counts again
+    vi.advanceTimersByTime(3000);
+    expect(engagement.tick()).toBe(true);
+  });
+
+  it('should forget progress on reset', () => {
+    engagement.start();
+    setInView(paragraphs);
+    engagement.tick();
+
+    engagement.reset();
+
+    expect(engagement.getProgress()).toBe(0);
+  });
+
+  it('should not measure pages too short to read', () => {
+    const note = document.createElement('div');
+    note.textContent = words(10);
+
+    expect(new ReadingEngagement(note).start()).toBe(false);
+  });
+
+  it('should not measure without IntersectionObserver', () => {
+    vi.stubGlobal('IntersectionObserver', undefined);
+
+    expect(engagement.start()).toBe(false);
+  });
+});
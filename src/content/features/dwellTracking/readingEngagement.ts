@@ -0,0 +1,183 @@
+/**
+ * ReadingEngagement - Estimates how much of an article has been read
+ *
+ * Splits the article into blocks (paragraphs, list items, headings and
+ * the like) and watches which of them are in the viewport. Each second
+ * of reading credits words, at reading speed, to the unread blocks in
+ * view from the top down. Seconds spent scrolling faster than anyone
+ * reads, or with none of the article in view, earn nothing.
+ */
+
+import { READING } from '../../../constants';
+import { countWords } from '../../../utils';
+
+interface ReadingBlock {
+  element: Element;
+  words: number;
+  read: number; // Words credited so far
+}
+
+interface ScrollSample {
+  time: number;
+  y: number;
+}
+
+export class ReadingEngagement {
+  private container: HTMLElement;
+  private wordsPerSecond: number;
+  private blocks: ReadingBlock[] = [];
+  private totalWords = 0;
+  private visible = new Set<Element>();
+  private observer: IntersectionObserver | null = null;
+  private scrollSamples: ScrollSample[] = [];
+
+  // Event handlers (bound to this instance)
+  private boundHandleScroll: () => void;
+
+  constructor(
+    container: HTMLElement,
+    wordsPerMinute = READING.WORDS_PER_MINUTE
+  ) {
+    this.container = container;
+    this.wordsPerSecond = wordsPerMinute / 60;
+    this.boundHandleScroll = this.handleScroll.bind(this);
+  }
+
+  /**
+   * Start watching the article
+   * @returns False when progress can't be measured: the article is too
+   * short or the browser can't report what is in view
+   */
+  start(): boolean {
+    if (this.observer) return true;
+    if (typeof IntersectionObserver === 'undefined') return false;
+
+    this.blocks = this.collectBlocks();
+    this.totalWords = this.blocks.reduce((sum, block) => sum + block.words, 0);
+    if (this.totalWords < READING.MIN_WORDS) return false;
+
+    this.observer = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) {
+          this.visible.add(entry.target);
+        } else {
+          this.visible.delete(entry.target);
+        }
+      }
+    });
+    this.blocks.forEach((block) => this.observer?.observe(block.element));
+
+    window.addEventListener('scroll', this.boundHandleScroll, {
+      passive: true,
+    });
+    return true;
+  }
+
+  /**
+   * Stop watching the article
+   */
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.visible.clear();
+    this.scrollSamples = [];
+    window.removeEventListener('scroll', this.boundHandleScroll);
+  }
+
+  /**
+   * Forget what has been read, e.g. after navigating to a new page
+   */
+  reset(): void {
+    this.blocks.forEach((block) => {
+      block.read = 0;
+    });
+    this.scrollSamples = [];
+  }
+
+  /**
+   * Credit a stretch of reading time
+   * @param seconds - Time the reader was active
+   * @returns True if the time counts as reading: some of the article was
+   * in view and the reader wasn't skimming past it
+   */
+  tick(seconds = 1): boolean {
+    if (this.getScrollSpeed() > READING.SKIM_SPEED) return false;
+
+    const inView = this.blocks.filter((block) =>
+      this.visible.has(block.element)
+    );
+    if (inView.length === 0) return false;
+
+    let budget = this.wordsPerSecond * seconds;
+    for (const block of inView) {
+      if (budget <= 0) break;
+      const credit = Math.min(block.words - block.read, budget);
+      block.read += credit;
+      budget -= credit;
+    }
+    return true;
+  }
+
+  /**
+   * Share of the article's words read so far (0-1)
+   */
+  getProgress(): number {
+    if (this.totalWords === 0) return 0;
+    const read = this.blocks.reduce((sum, block) => sum + block.read, 0);
+    return Math.min(1, read / this.totalWords);
+  }
+
+  /**
+   * Scroll distance per second over the recent window
+   */
+  private getScrollSpeed(): number {
+    this.dropOldSamples(Date.now());
+    let distance = 0;
+    for (let i = 1; i < this.scrollSamples.length; i++) {
+      distance += Math.abs(
+        this.scrollSamples[i].y - this.scrollSamples[i - 1].y
+      );
+    }
+    return distance / (READING.SCROLL_WINDOW / 1000);
+  }
+
+  /**
+   * Forget scroll positions older than the speed window
+   */
+  private dropOldSamples(now: number): void {
+    const cutoff = now - READING.SCROLL_WINDOW;
+    while (
+      this.scrollSamples.length > 0 &&
+      this.scrollSamples[0].time < cutoff
+    ) {
+      this.scrollSamples.shift();
+    }
+  }
+
+  /**
+   * Handle scroll events
+   * Records the scroll position to measure scroll speed
+   */
+  private handleScroll(): void {
+    const now = Date.now();
+    this.scrollSamples.push({ time: now, y: window.scrollY });
+    this.dropOldSamples(now);
+  }
+
+  /**
+   * Blocks of the article, innermost only so no words count twice
+   */
+  private collectBlocks(): ReadingBlock[] {
+    const elements = Array.from(
+      this.container.querySelectorAll(READING.BLOCK_SELECTOR)
+    ).filter((element) => !element.querySelector(READING.BLOCK_SELECTOR));
+
+    return (elements.length > 0 ? elements : [this.container])
+      .map((element) => ({
+        element,
+        words: countWords(element.textContent ?? ''),
+        read: 0,
+      }))
+      .filter((block) => block.words > 0);
+  }
+}
@@ -93,13 +93,15 @@ setNotificationHandler(showNotification);
 
 // Create renderOverlay function with handleFormatChange as dependency
 // The factory function will bind the callbacks properly
-const renderOverlay = createRenderOverlay((format: SummaryFormat) =>
-  handleFormatChangeWorkflow(
-    format,
-    renderOverlay,
-    showNotification,
-    stopSummaryAnimation
-  )
+const renderOverlay = createRenderOverlay(
+  (format: SummaryFormat, options?: { regenerate?: boolean }) =>
+    handleFormatChangeWorkflow(
+      format,
+      renderOverlay,
+      showNotification,
+      stopSummaryAnimation,
+      options
+    )
 );
 
 // Set renderOverlay handler for overlay workflow
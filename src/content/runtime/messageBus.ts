@@ -8,7 +8,13 @@ export const sendMessageToBackground = <T>(
 
 export interface AIStreamHandlers {
   onChunk?: (chunk: string) => void;
-  onComplete?: (finalData?: string) => void;
+  onProgress?: (progress: unknown) => void;
+  onComplete?: (
+    finalData?: string,
+    cached?: boolean,
+    quality?: unknown,
+    apiUsed?: string
+  ) => void;
   onError?: (error: string) => void;
 }
 
@@ -47,6 +53,9 @@ export function startAIStream(
       event?: string;
       data?: unknown;
       error?: unknown;
+      cached?: unknown;
+      quality?: unknown;
+      apiUsed?: unknown;
     };
 
     if (message.requestId !== requestId) return;
@@ -57,9 +66,15 @@ export function startAIStream(
           typeof message.data === 'string' ? message.data : ''
         );
         break;
+      case 'progress':
+        handlers.onProgress?.(message.data);
+        break;
       case 'complete':
         handlers.onComplete?.(
-          typeof message.data === 'string' ? message.data : undefined
+          typeof message.data === 'string' ? message.data : undefined,
+          message.cached === true,
+          message.quality,
+          typeof message.apiUsed === 'string' ? message.apiUsed : undefined
         );
         cleanup();
         break;
@@ -3,7 +3,9 @@
  * Handles initialization and setup of the content script
  */
 
-import type { Settings } from '../../types';
+import type { PromptPreviewContent, Settings } from '../../types';
+import { CONTENT_LIMITS } from '../../constants';
+import { truncateToTokens } from '../../utils';
 import { contentState } from '../state';
 import { instanceManager } from '../core';
 import { sendMessageToBackground } from '../runtime/messageBus';
@@ -46,12 +48,13 @@ export async function getSettings(): Promise<Settings> {
 
 /**
  * Set up listeners for page navigation
- * Resets the dwell tracker when navigating to a new page
+ * Restarts the dwell tracker, under the new page's site rules, when
+ * navigating to a new page
  */
 export function setupNavigationListeners(): void {
   // Listen for popstate events (back/forward navigation)
   window.addEventListener('popstate', () => {
-    instanceManager.resetDwellTracker();
+    instanceManager.applySiteRules();
     devLog('Dwell tracker reset due to navigation');
   });
 
@@ -61,13 +64,13 @@ export function setupNavigationListeners(): void {
 
   history.pushState = function (...args) {
     originalPushState(...args);
-    instanceManager.resetDwellTracker();
+    instanceManager.applySiteRules();
     devLog('Dwell tracker reset due to pushState');
   };
 
   history.replaceState = function (...args) {
     originalReplaceState(...args);
-    instanceManager.resetDwellTracker();
+    instanceManager.applySiteRules();
     devLog('Dwell tracker reset due to replaceState');
   };
 }
@@ -99,6 +102,7 @@ export function setupMessageListener(dependencies: {
               | undefined;
             if (updated) {
               devLog('Applying live settings update:', updated);
+              instanceManager.setSettings(updated);
               dependencies.applyTranslationPreference(updated);
               // Toast for user feedback
               try {
@@ -129,6 +133,20 @@ export function setupMessageListener(dependencies: {
                 dependencies.renderOverlay();
               }
             }
+          } else if (type === 'getPromptPreviewContent') {
+            // Text for previewing prompt templates in the options page
+            const content =
+              contentState.getExtractedContent() ??
+              instanceManager.getContentExtractor().extractMainContent();
+            const summary = contentState.getSummary();
+            const data: PromptPreviewContent = {
+              title: content.title,
+              url: content.url,
+              text: truncateToTokens(content.text, CONTENT_LIMITS.MAX_TOKENS),
+              ...(summary.length > 0 && { summary }),
+            };
+            sendResponse({ success: true, data });
+            return true;
           } else if (type === 'openDashboard') {
             void dependencies.showDashboardModal();
             sendResponse({ success: true });
@@ -170,9 +188,8 @@ export async function initializeContentScript(dependencies: {
     instanceManager.setSettings(settings);
     applyTranslationPreference(settings);
 
-    // Initialize dwell tracker with threshold from settings
-    instanceManager.initializeDwellTracker(
-      settings.dwellThreshold,
+    // Start dwell tracking with the threshold the site rules give this page
+    const threshold = instanceManager.startDwellTracking(
       dependencies.onDwellThresholdReached
     );
 
@@ -180,7 +197,9 @@ export async function initializeContentScript(dependencies: {
     setupNavigationListeners();
 
     devLog(
-      `Dwell tracking started with threshold: ${settings.dwellThreshold}s`
+      threshold === null
+        ? 'Dwell tracking off on this site'
+        : `Dwell tracking started with threshold: ${threshold}s`
     );
   } catch (error) {
     devError('Failed to initialize content script:', error);
@@ -3,10 +3,21 @@
  * Handles lotus nudge display and interactions
  */
 
+import type { Settings } from '../../types';
 import { LotusNudge } from '../components';
 import { contentState } from '../state';
+import { instanceManager } from '../core';
 import { uiManager } from '../ui';
-import { devLog } from '../../utils/logger';
+import { sendMessageToBackground } from '../runtime/messageBus';
+import {
+  createSiteRule,
+  getNudgeThreshold,
+  getSitePattern,
+  getSiteRules,
+  getSoonerThreshold,
+  setSiteRule,
+} from '../../utils/siteRules';
+import { devLog, devWarn } from '../../utils/logger';
 
 /**
  * Lotus nudge styles constant for better maintainability
@@ -48,7 +59,7 @@ export const LOTUS_NUDGE_STYLES = `
   /* Expand wrapper hit area to include the vertical quick-actions column */
   .reflexa-nudge-wrapper--bottom-left,
   .reflexa-nudge-wrapper--bottom-right {
-    padding-top: 160px; /* height to cover 3 x 44px + gaps */
+    padding-top: 160px; /* height to cover 3 x 44px + gaps; set inline per count */
   }
   .reflexa-nudge-wrapper--top-left,
   .reflexa-nudge-wrapper--top-right {
@@ -243,15 +254,22 @@ export function showLotusNudge(dependencies: {
   onHelp: () => Promise<void>;
   onSettings: () => Promise<void>;
 }): void {
+  // Site rule shortcuts only make sense on websites
+  const onSite = getSitePattern(window.location.href) !== null;
+
   uiManager.showNudge(
     <LotusNudge
       visible={true}
       onClick={dependencies.onNudgeClick}
       position="bottom-left"
-      quickActionsCount={3}
+      quickActionsCount={onSite ? 5 : 3}
       onDashboard={dependencies.onDashboard}
       onHelp={dependencies.onHelp}
       onSettings={dependencies.onSettings}
+      {...(onSite && {
+        onHideOnSite: () => void hideNudgeOnSite(),
+        onShowSooner: () => void showNudgeSooner(),
+      })}
       onAnimationComplete={() => {
         devLog('Lotus nudge fade-in animation completed');
       }}
@@ -268,6 +286,52 @@ export function hideLotusNudge(): void {
   uiManager.hideNudge();
 }
 
+/**
+ * Save a site rule for the current site
+ * The background broadcasts the new settings, which applies the rule to
+ * this tab and every other open tab.
+ * @param action - Rule for this site
+ * @returns Whether the rule was saved
+ */
+async function saveSiteRule(action: 'never' | 'sooner'): Promise<boolean> {
+  const settings = instanceManager.getSettings();
+  const url = window.location.href;
+  const pattern = getSitePattern(url);
+  if (!settings || !pattern) return false;
+
+  const current = getNudgeThreshold(settings, url) ?? settings.dwellThreshold;
+  const rule =
+    action === 'never'
+      ? createSiteRule(pattern, 'never')
+      : createSiteRule(pattern, 'custom', getSoonerThreshold(current));
+
+  const response = await sendMessageToBackground<Settings>({
+    type: 'updateSettings',
+    payload: { siteRules: setSiteRule(getSiteRules(settings), rule) },
+  });
+  if (!response.success) {
+    devWarn('Failed to save site rule:', response.error);
+    return false;
+  }
+  devLog(`Saved site rule for ${pattern}:`, rule);
+  return true;
+}
+
+/**
+ * "Don't show on this site": hide the nudge and stop it appearing here
+ */
+async function hideNudgeOnSite(): Promise<void> {
+  hideLotusNudge();
+  await saveSiteRule('never');
+}
+
+/**
+ * "Show sooner here": halve the time the nudge waits on this site
+ */
+async function showNudgeSooner(): Promise<void> {
+  await saveSiteRule('sooner');
+}
+
 /**
  * Handle click on lotus nudge icon
  * Initiates the complete reflection flow
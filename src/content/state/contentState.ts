@@ -72,8 +72,15 @@ class ContentScriptStateStore {
         summaryAnimationTimer: null,
         summaryAnimationFormat: 'bullets',
         summaryStreamComplete: false,
+        summaryProgress: null,
+        summaryCached: false,
+        summaryQuality: null,
+        summaryApiUsed: null,
+        questionsApiUsed: null,
+        readingStats: null,
         activeSummaryStreamCleanup: null,
         isRewriting: [false, false],
+        tags: [],
       },
       language: {
         detection: null,
@@ -233,6 +240,30 @@ class ContentScriptStateStore {
     return this.state.reflection.summaryStreamComplete;
   }
 
+  getSummaryProgress() {
+    return this.state.reflection.summaryProgress;
+  }
+
+  getSummaryCached() {
+    return this.state.reflection.summaryCached;
+  }
+
+  getSummaryQuality() {
+    return this.state.reflection.summaryQuality;
+  }
+
+  getSummaryApiUsed() {
+    return this.state.reflection.summaryApiUsed;
+  }
+
+  getQuestionsApiUsed() {
+    return this.state.reflection.questionsApiUsed;
+  }
+
+  getReadingStats() {
+    return this.state.reflection.readingStats;
+  }
+
   getActiveSummaryStreamCleanup() {
     return this.state.reflection.activeSummaryStreamCleanup;
   }
@@ -241,6 +272,10 @@ class ContentScriptStateStore {
     return this.state.reflection.isRewriting[index];
   }
 
+  getTags() {
+    return this.state.reflection.tags;
+  }
+
   /**
    * Reflection State Setters
    */
@@ -288,10 +323,38 @@ class ContentScriptStateStore {
     this.state.reflection.summaryStreamComplete = complete;
   }
 
+  setSummaryProgress(progress: ReflectionState['summaryProgress']) {
+    this.state.reflection.summaryProgress = progress;
+  }
+
+  setSummaryCached(cached: boolean) {
+    this.state.reflection.summaryCached = cached;
+  }
+
+  setSummaryQuality(quality: ReflectionState['summaryQuality']) {
+    this.state.reflection.summaryQuality = quality;
+  }
+
+  setSummaryApiUsed(apiUsed: string | null) {
+    this.state.reflection.summaryApiUsed = apiUsed;
+  }
+
+  setQuestionsApiUsed(apiUsed: string | null) {
+    this.state.reflection.questionsApiUsed = apiUsed;
+  }
+
+  setReadingStats(stats: ReflectionState['readingStats']) {
+    this.state.reflection.readingStats = stats;
+  }
+
   setActiveSummaryStreamCleanup(cleanup: (() => void) | null) {
     this.state.reflection.activeSummaryStreamCleanup = cleanup;
   }
 
+  setTags(tags: string[]) {
+    this.state.reflection.tags = tags;
+  }
+
   setIsRewriting(index: number, isRewriting: boolean) {
     this.state.reflection.isRewriting[index] = isRewriting;
   }
@@ -473,8 +536,15 @@ class ContentScriptStateStore {
       summaryAnimationTimer: null,
       summaryAnimationFormat: 'bullets',
       summaryStreamComplete: false,
+      summaryProgress: null,
+      summaryCached: false,
+      summaryQuality: null,
+      summaryApiUsed: null,
+      questionsApiUsed: null,
+      readingStats: null,
       activeSummaryStreamCleanup: null,
       isRewriting: [false, false],
+      tags: [],
     };
   }
 
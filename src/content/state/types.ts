@@ -5,6 +5,9 @@
 import type {
   ExtractedContent,
   SummaryFormat,
+  SummaryProgress,
+  SummaryQuality,
+  ReadingStats,
   LanguageDetection,
   AICapabilities,
 } from '../../types';
@@ -80,8 +83,15 @@ export interface ReflectionState {
   summaryAnimationTimer: number | null;
   summaryAnimationFormat: SummaryFormat;
   summaryStreamComplete: boolean;
+  summaryProgress: SummaryProgress | null; // Set while a long article is summarized in chunks
+  summaryCached: boolean; // Summary came from the AI result cache
+  summaryQuality: SummaryQuality | null; // How the summary scored, if checked
+  summaryApiUsed: string | null; // API that wrote the summary, e.g. "chrome:summarizer"
+  questionsApiUsed: string | null; // API that wrote the follow-up questions
+  readingStats: ReadingStats | null; // Reading done before the reflection started
   activeSummaryStreamCleanup: (() => void) | null;
   isRewriting: boolean[];
+  tags: string[];
 }
 
 /**
@@ -10,9 +10,12 @@ import type {
   LanguageDetection,
   TonePreset,
   SummaryFormat,
+  QuestionExchange,
 } from '../../types';
+import { ERROR_MESSAGES } from '../../constants';
 import { getLanguageName } from '../../utils/translationHelpers';
 import { devLog, devWarn, devError } from '../../utils/logger';
+import { getSummaryText } from '../../utils/articleContent';
 
 /**
  * Handle proofread request
@@ -303,7 +306,8 @@ export async function handleRewrite(
 
 /**
  * Handle summary format change
- * Re-requests summary with new format from background worker
+ * Re-requests summary with new format from background worker. With
+ * regenerate set, a cached summary is discarded and written afresh.
  */
 export async function handleFormatChange(
   format: SummaryFormat,
@@ -313,7 +317,8 @@ export async function handleFormatChange(
     message: string,
     type: 'warning' | 'error' | 'info'
   ) => void,
-  stopSummaryAnimation: () => void
+  stopSummaryAnimation: () => void,
+  options: { regenerate?: boolean } = {}
 ): Promise<void> {
   if (
     !contentState.getExtractedContent() ||
@@ -330,18 +335,26 @@ export async function handleFormatChange(
   // This function focuses on the format change logic
 
   try {
+    const extractedContent = contentState.getExtractedContent();
+
     // Request new summary with selected format
     // Pass detected language to maintain source language when translation is disabled
     const summaryResponse = await sendMessageToBackground<string[]>({
       type: 'summarize',
       payload: {
-        content: contentState.getExtractedContent()?.text ?? '',
+        content: extractedContent ? getSummaryText(extractedContent) : '',
+        sections: extractedContent?.sections,
         format: format,
         detectedLanguage: contentState.getLanguageDetection()?.detectedLanguage,
+        url: extractedContent?.url,
+        regenerate: options.regenerate,
       },
     });
 
     if (summaryResponse.success) {
+      contentState.setSummaryCached(summaryResponse.cached === true);
+      contentState.setSummaryQuality(summaryResponse.quality ?? null);
+      contentState.setSummaryApiUsed(summaryResponse.apiUsed);
       let newSummary = summaryResponse.data;
       // If the user selected a target language, translate the freshly
       // generated summary to that language.
@@ -365,6 +378,9 @@ export async function handleFormatChange(
       stopSummaryAnimation();
       contentState.setSummaryStreamComplete(true);
       devLog('Summary updated with new format:', contentState.getSummary());
+    } else if (summaryResponse.error === ERROR_MESSAGES.AI_CANCELLED) {
+      // Superseded by a newer request, or the overlay closed
+      devLog('Summary format change cancelled');
     } else {
       devError('Failed to update summary format:', summaryResponse.error);
       // Keep existing summary on error
@@ -387,3 +403,51 @@ export async function handleFormatChange(
     renderOverlay();
   }
 }
+
+/**
+ * Handle tag suggestion request
+ * Asks the background worker for tags derived from the current summary
+ * @returns Suggested tags, or an empty list when AI is unavailable
+ */
+export async function handleSuggestTags(): Promise<string[]> {
+  const summary = contentState.getSummary();
+  if (summary.length === 0) {
+    return [];
+  }
+
+  try {
+    const response = await sendMessageToBackground<string[]>({
+      type: 'suggestTags',
+      payload: { summary },
+    });
+    if (response.success) {
+      return response.data;
+    }
+    devWarn('Tag suggestions unavailable:', response.error);
+  } catch (error) {
+    devWarn('Tag suggestion error:', error);
+  }
+  return [];
+}
+
+/**
+ * Handle follow-up question request
+ * Asks the model for a question that digs into the user's answers so far
+ * @param chain - The first question and answer, then earlier follow-ups
+ * @returns The follow-up question
+ */
+export async function handleFollowUp(
+  chain: QuestionExchange[]
+): Promise<string> {
+  const response = await sendMessageToBackground<string>({
+    type: 'followUp',
+    payload: { summary: contentState.getSummary(), chain },
+  });
+
+  if (!response.success) {
+    devWarn('Follow-up question unavailable:', response.error);
+    throw new Error(response.error);
+  }
+  contentState.setQuestionsApiUsed(response.apiUsed);
+  return response.data;
+}
@@ -0,0 +1,43 @@
+/**
+ * Article Chat Workflow
+ * Sends questions about the page to the background worker and streams
+ * the answers back
+ */
+
+import { contentState } from '../state';
+import { startAIStream, type AIStreamHandlers } from '../runtime/messageBus';
+import type { ChatMessage } from '../../types';
+
+/**
+ * Ask a question about the article being reflected on
+ * @param question - The user's question
+ * @param history - Earlier messages of the chat, oldest first
+ * @param handlers - Called with chunks of the answer, the whole answer,
+ * or an error
+ * @returns Function that stops the answer
+ */
+export function askArticle(
+  question: string,
+  history: ChatMessage[],
+  handlers: Pick<AIStreamHandlers, 'onChunk' | 'onComplete' | 'onError'>
+): () => void {
+  const content = contentState.getExtractedContent();
+  if (!content) {
+    handlers.onError?.('No article content to ask about');
+    return () => undefined;
+  }
+
+  const summary = contentState.getSummary();
+  const { cancel } = startAIStream(
+    'chat-stream',
+    {
+      article: { title: content.title, url: content.url, text: content.text },
+      summary: summary.length ? summary : undefined,
+      history,
+      question,
+    },
+    handlers
+  );
+
+  return cancel;
+}
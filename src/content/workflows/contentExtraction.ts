@@ -1,16 +1,16 @@
 /**
  * Content Extraction Workflow
- * Centralizes content extraction operations including validation and truncation
+ * Centralizes content extraction operations including validation
  */
 
 import { contentState } from '../state';
 import { instanceManager } from '../core';
 import type { ExtractedContent } from '../../types';
-import { devLog, devWarn, devError } from '../../utils/logger';
+import { devLog, devError } from '../../utils/logger';
 
 /**
  * Extract and validate content from the page
- * Handles token limit checking and truncation automatically
+ * Long content is kept whole; the background summarizes it in chunks
  * @returns ExtractedContent or null if extraction fails
  */
 export function extractAndValidateContent(): ExtractedContent | null {
@@ -27,11 +27,9 @@ export function extractAndValidateContent(): ExtractedContent | null {
     contentExtractor.checkTokenLimit(extractedContent);
 
   if (exceeds) {
-    devWarn(
-      `Content exceeds token limit (${tokens} tokens), will be truncated`
+    devLog(
+      `Content exceeds token limit (${tokens} tokens), will be summarized in ${extractedContent.sections?.length ?? 1} section(s)`
     );
-    // Return truncated content
-    return contentExtractor.getTruncatedContent(extractedContent);
   }
 
   return extractedContent;
@@ -34,10 +34,14 @@ export {
   handleTranslateToEnglish,
   handleRewrite,
   handleFormatChange,
+  handleSuggestTags,
+  handleFollowUp,
 } from './aiOperations';
+export { askArticle } from './articleChat';
 export {
   handleSaveReflection,
   handleCancelReflection,
+  handleLoadTags,
   setErrorModalHandler as setReflectionActionsErrorModalHandler,
   setNotificationHandler,
 } from './reflectionActions';
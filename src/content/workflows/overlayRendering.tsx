@@ -12,11 +12,15 @@ import {
   handleProofread,
   handleTranslate,
   handleTranslateToEnglish,
+  handleSuggestTags,
+  handleFollowUp,
 } from './aiOperations';
 import {
   handleSaveReflection,
   handleCancelReflection,
+  handleLoadTags,
 } from './reflectionActions';
+import { askArticle } from './articleChat';
 
 /**
  * Get default settings as fallback
@@ -50,7 +54,10 @@ export function getDefaultSettings(): Settings {
  * @returns renderOverlay function
  */
 export function createRenderOverlay(
-  formatChangeHandler: (format: SummaryFormat) => Promise<void>
+  formatChangeHandler: (
+    format: SummaryFormat,
+    options?: { regenerate?: boolean }
+  ) => Promise<void>
 ): () => void {
   return function renderOverlay(): void {
     const overlayInfo = uiManager.getOverlayRoot();
@@ -92,6 +99,15 @@ export function createRenderOverlay(
         onFormatChange={formatChangeHandler}
         currentFormat={contentState.getSummaryFormat()}
         isLoadingSummary={contentState.getIsLoadingSummary()}
+        summaryProgress={contentState.getSummaryProgress() ?? undefined}
+        isSummaryCached={contentState.getSummaryCached()}
+        onRegenerateSummary={() => {
+          void formatChangeHandler(contentState.getSummaryFormat(), {
+            regenerate: true,
+          });
+          // Show the loading state while the new summary is written
+          renderOverlay();
+        }}
         languageDetection={
           contentState.getOriginalContentLanguage() ?? undefined
         }
@@ -108,10 +124,23 @@ export function createRenderOverlay(
           translationEnabled ? contentState.getIsTranslating() : false
         }
         onProofread={handleProofread}
+        tags={contentState.getTags()}
+        onTagsChange={(tags) => {
+          contentState.setTags(tags);
+          renderOverlay();
+        }}
+        onLoadTags={handleLoadTags}
+        onSuggestTags={handleSuggestTags}
         ambientMuted={
           soundEnabled ? contentState.getIsAmbientMuted() : undefined
         }
         onToggleAmbient={soundEnabled ? handleToggleAmbient : undefined}
+        onAskArticle={
+          contentState.getAICapabilities()?.prompt ? askArticle : undefined
+        }
+        onFollowUp={
+          contentState.getAICapabilities()?.prompt ? handleFollowUp : undefined
+        }
       />
     );
   };
@@ -92,9 +92,13 @@ export async function showReflectModeOverlay(): Promise<void> {
 
 /**
  * Hide the Reflect Mode overlay
- * Removes the component and cleans up the DOM
+ * Removes the component, cleans up the DOM and cancels the AI requests
+ * it was waiting on
  */
 export function hideReflectModeOverlay(): void {
+  // Nobody will see the results; free the model for other tabs
+  void sendMessageToBackground<number>({ type: 'cancelAIRequests' });
+
   // Stop ambient audio if playing
   instanceManager.stopAudioManager();
 
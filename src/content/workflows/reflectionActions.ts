@@ -9,8 +9,17 @@ import { sendMessageToBackground } from '../runtime/messageBus';
 import { hideReflectModeOverlay } from './overlayWorkflow';
 import { createShowErrorModal } from '../ui';
 import { uiManager } from '../ui';
-import type { Reflection, VoiceInputMetadata } from '../../types';
+import type {
+  ChatMessage,
+  QuestionExchange,
+  Reflection,
+  ReflectionPhaseTimes,
+  TagCount,
+  VoiceInputMetadata,
+} from '../../types';
 import { generateUUID } from '../../utils';
+import { condenseOutline, getArticleSource } from '../../utils/articleContent';
+import { buildAIMetadata } from '../../utils/aiMetadata';
 import { ERROR_MESSAGES } from '../../constants';
 import { devLog, devWarn, devError } from '../../utils/logger';
 
@@ -69,7 +78,10 @@ function getShowErrorModal() {
 export async function handleSaveReflection(
   reflections: string[],
   voiceMetadata?: VoiceInputMetadata[],
-  originalReflections?: (string | null)[]
+  originalReflections?: (string | null)[],
+  chat?: ChatMessage[],
+  questionChain?: QuestionExchange[],
+  phaseTimes?: ReflectionPhaseTimes
 ): Promise<void> {
   devLog('Saving reflection...');
 
@@ -90,18 +102,37 @@ export async function handleSaveReflection(
       return original ?? reflection;
     });
 
+    const summaryQuality = contentState.getSummaryQuality() ?? undefined;
+    const readingStats = contentState.getReadingStats();
+    const extractedContent = contentState.getExtractedContent();
+
     // Create reflection object
     const reflection: Reflection = {
       id: generateUUID(),
-      url: contentState.getExtractedContent()?.url ?? window.location.href,
-      title: contentState.getExtractedContent()?.title ?? document.title,
+      url: extractedContent?.url ?? window.location.href,
+      title: extractedContent?.title ?? document.title,
       createdAt: Date.now(),
       summary: contentState.getSummary(),
       reflection: finalReflections,
+      prompts: contentState.getPrompts(),
       proofreadVersion: hasProofreadVersion
         ? reflections.join('\n\n')
         : undefined,
       voiceMetadata,
+      tags: contentState.getTags().length ? contentState.getTags() : undefined,
+      chat: chat?.length ? chat : undefined,
+      questionChain: questionChain?.length ? questionChain : undefined,
+      aiMetadata: buildAIMetadata(
+        [contentState.getSummaryApiUsed(), contentState.getQuestionsApiUsed()],
+        summaryQuality
+      ),
+      readingTime: readingStats?.readingTime,
+      readingProgress: readingStats?.progress,
+      phaseTimes,
+      source: extractedContent ? getArticleSource(extractedContent) : undefined,
+      outline: extractedContent?.outline
+        ? condenseOutline(extractedContent.outline)
+        : undefined,
     };
 
     // Send to background worker for storage
@@ -169,6 +200,25 @@ export async function handleSaveReflection(
   }
 }
 
+/**
+ * Load tags already used on saved reflections, most used first
+ * Used for tag autocomplete in the overlay
+ */
+export async function handleLoadTags(): Promise<string[]> {
+  try {
+    const response = await sendMessageToBackground<TagCount[]>({
+      type: 'getTags',
+    });
+    if (response.success) {
+      return response.data.map((t) => t.tag);
+    }
+    devWarn('Failed to load tags:', response.error);
+  } catch (error) {
+    devWarn('Error loading tags:', error);
+  }
+  return [];
+}
+
 /**
  * Handle cancel reflection action
  * Closes overlay without saving and shows the nudge again
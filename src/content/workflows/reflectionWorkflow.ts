@@ -19,6 +19,12 @@ import type {
 } from '../../types';
 import { ERROR_MESSAGES } from '../../constants';
 import { devLog, devWarn, devError } from '../../utils/logger';
+import { getSummaryText } from '../../utils/articleContent';
+import {
+  findCustomSummaryFormat,
+  getCustomSummaryFormats,
+  isCustomSummaryFormat,
+} from '../../utils/summaryFormats';
 
 // Create error modal helper - this will be passed from index.tsx
 let showErrorModal: ReturnType<typeof createShowErrorModal> | null = null;
@@ -106,6 +112,11 @@ export async function initiateReflectionFlow(): Promise<void> {
     const settingsForReflection = instanceManager.getSettings();
     applyTranslationPreference(settingsForReflection);
 
+    // Note the reading done before reflecting, to store with the reflection
+    contentState.setReadingStats(
+      instanceManager.getDwellTracker()?.getReadingStats() ?? null
+    );
+
     // Show loading state
     setNudgeLoadingState(true);
 
@@ -159,6 +170,9 @@ export async function initiateReflectionFlow(): Promise<void> {
     // Show the Reflect Mode overlay immediately with loading state
     contentState.setIsLoadingSummary(true);
     contentState.setSummary([]);
+    contentState.setSummaryQuality(null);
+    contentState.setSummaryApiUsed(null);
+    contentState.setQuestionsApiUsed(null);
     contentState.setSummaryDisplay([]);
     contentState.setPrompts([
       'What did you find most interesting?',
@@ -223,29 +237,47 @@ export async function initiateReflectionFlow(): Promise<void> {
 
     // Get summary format from settings
     const settingsForSummary = instanceManager.getSettings();
-    const summaryFormat: SummaryFormat =
+    let summaryFormat: SummaryFormat =
       settingsForSummary?.defaultSummaryFormat ?? 'bullets';
+    // The default may be a custom format that has since been deleted
+    if (
+      isCustomSummaryFormat(summaryFormat) &&
+      !findCustomSummaryFormat(
+        getCustomSummaryFormats(settingsForSummary),
+        summaryFormat
+      )
+    ) {
+      summaryFormat = 'bullets';
+    }
 
     // Set summary format in state
     contentState.setSummaryFormat(summaryFormat);
 
     // Handle summarization based on format
-    // headline-bullets doesn't support streaming, so use non-streaming API
-    if (summaryFormat === 'headline-bullets') {
-      // Use non-streaming API for headline-bullets format
+    // headline-bullets and custom formats don't support streaming, so use
+    // the non-streaming API
+    if (
+      summaryFormat === 'headline-bullets' ||
+      isCustomSummaryFormat(summaryFormat)
+    ) {
       if (renderOverlayFn) {
         void (async () => {
           try {
             const summaryResponse = await sendMessageToBackground<string[]>({
               type: 'summarize',
               payload: {
-                content: extractedContentInitial.text,
+                content: getSummaryText(extractedContentInitial),
+                sections: extractedContentInitial.sections,
                 format: summaryFormat,
                 detectedLanguage: detectedLanguageCode,
+                url: extractedContentInitial.url,
               },
             });
 
             if (summaryResponse.success && summaryResponse.data.length > 0) {
+              contentState.setSummaryCached(summaryResponse.cached === true);
+              contentState.setSummaryQuality(summaryResponse.quality ?? null);
+              contentState.setSummaryApiUsed(summaryResponse.apiUsed);
               contentState.setSummary(summaryResponse.data);
               contentState.setSummaryDisplay(summaryResponse.data);
               contentState.setSummaryStreamComplete(true);
@@ -277,10 +309,12 @@ export async function initiateReflectionFlow(): Promise<void> {
       // Use streaming API for bullets and paragraph formats
       if (renderOverlayFn) {
         void summarizeWithStreaming(
-          extractedContentInitial.text,
+          getSummaryText(extractedContentInitial),
           summaryFormat,
           detectedLanguageCode,
-          renderOverlayFn
+          renderOverlayFn,
+          extractedContentInitial.sections,
+          extractedContentInitial.url
         ).catch((error) => {
           devError('Summarization failed:', error);
           contentState.setIsLoadingSummary(false);
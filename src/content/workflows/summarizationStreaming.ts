@@ -5,7 +5,13 @@
 
 import { contentState } from '../state';
 import { startAIStream } from '../runtime/messageBus';
-import type { SummaryFormat } from '../../types';
+import type {
+  ContentSection,
+  SummaryFormat,
+  SummaryProgress,
+  SummaryQuality,
+} from '../../types';
+import { isCustomSummaryFormat } from '../../utils/summaryFormats';
 import { devWarn } from '../../utils/logger';
 
 /**
@@ -41,6 +47,34 @@ export function parseSummaryBuffer(
   return lines;
 }
 
+/**
+ * Check a progress event from the summarize stream
+ */
+function isSummaryProgress(value: unknown): value is SummaryProgress {
+  if (!value || typeof value !== 'object') return false;
+  const { stage, completed, total } = value as Record<string, unknown>;
+  return (
+    (stage === 'map' || stage === 'reduce') &&
+    typeof completed === 'number' &&
+    typeof total === 'number'
+  );
+}
+
+/**
+ * Check the quality score sent with a completed summary
+ */
+function isSummaryQuality(value: unknown): value is SummaryQuality {
+  if (!value || typeof value !== 'object') return false;
+  const { score, passed, attempts, checks } = value as Record<string, unknown>;
+  return (
+    typeof score === 'number' &&
+    typeof passed === 'boolean' &&
+    typeof attempts === 'number' &&
+    !!checks &&
+    typeof checks === 'object'
+  );
+}
+
 /**
  * Stop summary animation
  */
@@ -106,16 +140,19 @@ export function startSummaryAnimation(
 
 /**
  * Summarize content with streaming
- * Handles real-time streaming of AI-generated summaries
+ * Handles real-time streaming of AI-generated summaries. Long articles are
+ * summarized section by section first, reported through summaryProgress.
  * Requires renderOverlay callback for UI updates
  */
 export function summarizeWithStreaming(
   content: string,
   format: SummaryFormat,
   detectedLanguage: string | undefined,
-  renderOverlay: () => void
+  renderOverlay: () => void,
+  sections?: ContentSection[],
+  url?: string
 ): Promise<boolean> {
-  if (format === 'headline-bullets') {
+  if (format === 'headline-bullets' || isCustomSummaryFormat(format)) {
     return Promise.resolve(false);
   }
 
@@ -125,6 +162,10 @@ export function summarizeWithStreaming(
     contentState.setSummaryDisplay([]);
     contentState.setSummaryAnimationIndex(0);
     contentState.setSummaryStreamComplete(false);
+    contentState.setSummaryProgress(null);
+    contentState.setSummaryCached(false);
+    contentState.setSummaryQuality(null);
+    contentState.setSummaryApiUsed(null);
     stopSummaryAnimation();
     let receivedChunk = false;
     let completed = false;
@@ -138,11 +179,19 @@ export function summarizeWithStreaming(
         content,
         format,
         detectedLanguage,
+        sections,
+        url,
       },
       {
+        onProgress: (progress) => {
+          if (!isSummaryProgress(progress)) return;
+          contentState.setSummaryProgress(progress);
+          renderOverlay();
+        },
         onChunk: (chunk) => {
           if (!chunk) return;
           receivedChunk = true;
+          contentState.setSummaryProgress(null);
           contentState.setSummaryBuffer(
             contentState.getSummaryBuffer() + chunk
           );
@@ -151,8 +200,14 @@ export function summarizeWithStreaming(
           }
           startSummaryAnimation(format, renderOverlay);
         },
-        onComplete: (finalData) => {
+        onComplete: (finalData, cached, quality, apiUsed) => {
           completed = true;
+          contentState.setSummaryProgress(null);
+          contentState.setSummaryCached(cached === true);
+          contentState.setSummaryQuality(
+            isSummaryQuality(quality) ? quality : null
+          );
+          contentState.setSummaryApiUsed(apiUsed ?? null);
           if (typeof finalData === 'string' && finalData.length > 0) {
             contentState.setSummaryBuffer(finalData);
           }
@@ -177,6 +232,7 @@ export function summarizeWithStreaming(
         },
         onError: (error) => {
           devWarn('Summarize stream error:', error);
+          contentState.setSummaryProgress(null);
           if (!completed) {
             contentState.setSummaryBuffer('');
           }
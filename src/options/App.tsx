@@ -1,17 +1,41 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import type { Settings, AICapabilities } from '../types';
-import { DEFAULT_SETTINGS, TIMING } from '../constants';
+import type {
+  Settings,
+  AICapabilities,
+  CustomSummaryFormat,
+  SummaryFormat,
+} from '../types';
+import {
+  BACKUP,
+  DEFAULT_SETTINGS,
+  FOLLOW_UPS,
+  READING,
+  TIMING,
+} from '../constants';
 import { SettingsSection } from './components/SettingsSection';
 import { Slider } from './components/Slider';
 import { Toggle } from './components/Toggle';
 import { RadioGroup, type RadioOption } from './components/RadioGroup';
 import { SaveIndicator } from './components/SaveIndicator';
 import { Dropdown, type DropdownOption } from './components/Dropdown';
+import { BackupList } from './components/BackupList';
+import { SyncedCopiesControl } from './components/SyncedCopiesControl';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { SummaryFormatEditor } from './components/SummaryFormatEditor';
+import { SiteRulesEditor } from './components/SiteRulesEditor';
+import { AIProviderSettings } from './components/AIProviderSettings';
 import { useKeyboardNavigation } from '../utils/useKeyboardNavigation';
 import './styles.css';
 import { ErrorBoundary } from '../utils/ErrorBoundary';
 import { devError } from '../utils/logger';
+import {
+  findCustomSummaryFormat,
+  getCustomSummaryFormats,
+  isBuiltInSummaryFormat,
+} from '../utils/summaryFormats';
+import { getLocalAIProviderSettings } from '../utils/localAIProvider';
+import { getSiteRules } from '../utils/siteRules';
 
 export const App: React.FC = () => {
   // Enable keyboard navigation detection
@@ -135,6 +159,20 @@ export const App: React.FC = () => {
     [settings, debouncedSave]
   );
 
+  // Save custom formats; a deleted default format falls back to bullets
+  const updateCustomSummaryFormats = (formats: CustomSummaryFormat[]) => {
+    const updatedSettings = { ...settings, customSummaryFormats: formats };
+    const current = settings.defaultSummaryFormat;
+    if (
+      !isBuiltInSummaryFormat(current) &&
+      !findCustomSummaryFormat(formats, current)
+    ) {
+      updatedSettings.defaultSummaryFormat = 'bullets';
+    }
+    setSettings(updatedSettings);
+    debouncedSave(updatedSettings);
+  };
+
   // Reset to defaults
   const handleReset = async () => {
     if (
@@ -176,7 +214,7 @@ export const App: React.FC = () => {
       value: 'sync',
       label: 'Sync Across Devices',
       description:
-        'Reflections sync across your Chrome browsers using Chrome Sync.',
+        'Your most recent reflections sync across your Chrome browsers using Chrome Sync. Older ones stay on this device when the sync quota is full.',
     },
   ];
 
@@ -197,6 +235,11 @@ export const App: React.FC = () => {
       label: 'Headline + Bullets',
       description: 'Headline with bullet points',
     },
+    ...getCustomSummaryFormats(settings).map((format) => ({
+      value: format.id,
+      label: format.name,
+      description: format.description,
+    })),
   ];
 
   // Translation language options
@@ -213,6 +256,14 @@ export const App: React.FC = () => {
     { value: 'ar', label: 'Arabic' },
   ];
 
+  // Backup interval options
+  const backupIntervalOptions: DropdownOption[] = [
+    { value: '6', label: 'Every 6 hours' },
+    { value: '12', label: 'Every 12 hours' },
+    { value: '24', label: 'Daily' },
+    { value: '168', label: 'Weekly' },
+  ];
+
   if (loading) {
     return (
       <div className="bg-calm-50 flex min-h-screen items-center justify-center">
@@ -261,9 +312,40 @@ export const App: React.FC = () => {
               max={TIMING.DWELL_MAX}
               step={10}
               unit=" seconds"
-              description="How long you need to read before seeing the reflection prompt (0 = instant)"
+              description="How long you need to read before seeing the reflection prompt, on pages where reading progress can't be measured (0 = instant)"
               onChange={(value) => updateSetting('dwellThreshold', value)}
             />
+
+            <Slider
+              label="Reading Progress"
+              value={Math.round(
+                (settings.readingProgressThreshold ??
+                  READING.DEFAULT_PROGRESS) * 100
+              )}
+              min={0}
+              max={100}
+              step={10}
+              unit="%"
+              description="How much of an article you need to read before seeing the reflection prompt (0% = time only)"
+              onChange={(value) =>
+                updateSetting('readingProgressThreshold', value / 100)
+              }
+            />
+
+            <Toggle
+              label="Show on Other Sites"
+              checked={settings.nudgeOnUnlistedSites ?? true}
+              onChange={(checked) =>
+                updateSetting('nudgeOnUnlistedSites', checked)
+              }
+              description="Turn off to show the nudge only on sites with an Always or Custom rule"
+            />
+
+            <SiteRulesEditor
+              rules={getSiteRules(settings)}
+              dwellThreshold={settings.dwellThreshold}
+              onChange={(rules) => updateSetting('siteRules', rules)}
+            />
           </SettingsSection>
 
           {/* Accessibility Settings */}
@@ -296,14 +378,21 @@ export const App: React.FC = () => {
               options={summaryFormatOptions}
               value={settings.defaultSummaryFormat}
               onChange={(value) =>
-                updateSetting(
-                  'defaultSummaryFormat',
-                  value as 'bullets' | 'paragraph' | 'headline-bullets'
-                )
+                updateSetting('defaultSummaryFormat', value as SummaryFormat)
               }
               description="Choose how article summaries are displayed by default"
             />
 
+            <Slider
+              label="Follow-up Questions"
+              value={settings.followUpDepth ?? FOLLOW_UPS.DEFAULT_DEPTH}
+              min={0}
+              max={FOLLOW_UPS.MAX_DEPTH}
+              step={1}
+              description="How many times you can ask to go deeper after answering the first question (0 = off)"
+              onChange={(value) => updateSetting('followUpDepth', value)}
+            />
+
             <Toggle
               label="Enable Proofreading"
               checked={settings.enableProofreading}
@@ -346,10 +435,29 @@ export const App: React.FC = () => {
             )}
           </SettingsSection>
 
+          {/* AI Provider */}
+          <SettingsSection
+            title="AI Provider"
+            description="Use Chrome's built-in model or a model served on this computer"
+          >
+            <AIProviderSettings
+              provider={settings.aiProvider ?? 'chrome'}
+              local={getLocalAIProviderSettings(settings)}
+              onProviderChange={(provider) =>
+                updateSetting('aiProvider', provider)
+              }
+              onLocalChange={(local) => updateSetting('localAIProvider', local)}
+            />
+          </SettingsSection>
+
           {/* AI Status */}
           <SettingsSection
             title="AI Status"
-            description="Current availability of Chrome Built-in AI APIs"
+            description={
+              capabilities?.provider === 'local'
+                ? 'Current availability of AI APIs from the local AI server'
+                : 'Current availability of Chrome Built-in AI APIs'
+            }
           >
             {capabilities ? (
               <>
@@ -520,6 +628,71 @@ export const App: React.FC = () => {
               }
               description="All AI processing happens locally on your device regardless of this setting"
             />
+
+            <SyncedCopiesControl />
+          </SettingsSection>
+
+          {/* Prompt Templates */}
+          <SettingsSection
+            title="Prompt Templates"
+            description="Adjust the prompts used when the Prompt API writes summaries, questions and edits"
+          >
+            <PromptTemplateEditor
+              templates={settings.promptTemplates}
+              onChange={(templates) =>
+                updateSetting('promptTemplates', templates)
+              }
+            />
+          </SettingsSection>
+
+          {/* Summary Formats */}
+          <SettingsSection
+            title="Summary Formats"
+            description="Define your own summary formats, such as Cornell notes or key terms"
+          >
+            <SummaryFormatEditor
+              formats={getCustomSummaryFormats(settings)}
+              onChange={updateCustomSummaryFormats}
+            />
+          </SettingsSection>
+
+          {/* Backup Settings */}
+          <SettingsSection
+            title="Backups"
+            description="Keep snapshots of your reflections on this device"
+          >
+            <Toggle
+              label="Automatic Backups"
+              checked={settings.backupEnabled ?? true}
+              onChange={(checked) => updateSetting('backupEnabled', checked)}
+              description="Save a snapshot of your reflections on a schedule"
+            />
+
+            {settings.backupEnabled !== false && (
+              <Dropdown
+                label="Backup Frequency"
+                options={backupIntervalOptions}
+                value={String(
+                  settings.backupIntervalHours ?? BACKUP.DEFAULT_INTERVAL_HOURS
+                )}
+                onChange={(value) =>
+                  updateSetting('backupIntervalHours', Number(value))
+                }
+                description="Snapshots are skipped when nothing has changed"
+              />
+            )}
+
+            <Slider
+              label="Snapshots Kept"
+              value={settings.backupRetention ?? BACKUP.DEFAULT_RETENTION}
+              min={BACKUP.MIN_RETENTION}
+              max={BACKUP.MAX_RETENTION}
+              step={1}
+              description="Older snapshots are removed when a new one is saved"
+              onChange={(value) => updateSetting('backupRetention', value)}
+            />
+
+            <BackupList />
           </SettingsSection>
         </main>
 
@@ -559,9 +732,9 @@ export const App: React.FC = () => {
                 Your Privacy Matters
               </h3>
               <p className="text-calm-600 mt-1 text-sm">
-                All AI processing happens locally on your device using Chrome's
-                built-in Gemini Nano. Your reflections and reading data never
-                leave your computer.
+                All AI processing happens locally on your device, using Chrome's
+                built-in Gemini Nano or a model served on this computer. Your
+                reflections and reading data never leave your computer.
               </p>
             </div>
           </div>
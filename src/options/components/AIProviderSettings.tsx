@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import type { AIProviderId, LocalAIProviderSettings } from '../../types';
+import { validateLocalAIProvider } from '../../utils/localAIProvider';
+import { RadioGroup, type RadioOption } from './RadioGroup';
+
+interface AIProviderSettingsProps {
+  provider: AIProviderId;
+  local: LocalAIProviderSettings;
+  onProviderChange: (provider: AIProviderId) => void;
+  onLocalChange: (local: LocalAIProviderSettings) => void;
+}
+
+const providerOptions: RadioOption[] = [
+  {
+    value: 'chrome',
+    label: 'Chrome Built-in AI',
+    description:
+      'Gemini Nano, built into Chrome. Needs the on-device model to be downloaded.',
+  },
+  {
+    value: 'local',
+    label: 'Local AI Server',
+    description:
+      'An OpenAI-compatible server on this computer, such as llama.cpp or Ollama. Only the Prompt API is used.',
+  },
+];
+
+const inputClassName =
+  'border-calm-300 text-calm-900 focus:border-accent-500 focus:ring-accent-500 w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:outline-none';
+
+/**
+ * AIProviderSettings Component
+ * Chooses where AI requests run, and where to reach a local server
+ */
+export const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({
+  provider,
+  local,
+  onProviderChange,
+  onLocalChange,
+}) => {
+  const [draft, setDraft] = useState(local);
+
+  // Show the saved server after saving or resetting settings
+  useEffect(() => {
+    setDraft({ endpoint: local.endpoint, model: local.model });
+  }, [local.endpoint, local.model]);
+
+  const errors = validateLocalAIProvider(draft);
+  const isDirty =
+    draft.endpoint !== local.endpoint || draft.model !== local.model;
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup
+        label="AI Provider"
+        options={providerOptions}
+        value={provider}
+        onChange={(value) => onProviderChange(value as AIProviderId)}
+        description="Where summaries, reflection questions and edits are written"
+      />
+
+      {provider === 'local' && (
+        <>
+          <div className="space-y-2">
+            <label
+              htmlFor="local-ai-endpoint"
+              className="text-calm-900 block text-sm font-medium"
+            >
+              Server Address
+            </label>
+            <p id="local-ai-endpoint-help" className="text-calm-600 text-sm">
+              Base URL of the OpenAI-compatible API, e.g.
+              http://localhost:8080/v1 for llama.cpp or
+              http://localhost:11434/v1 for Ollama
+            </p>
+            <input
+              id="local-ai-endpoint"
+              type="url"
+              value={draft.endpoint}
+              onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+              aria-describedby="local-ai-endpoint-help"
+              aria-invalid={errors.length > 0}
+              spellCheck={false}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="local-ai-model"
+              className="text-calm-900 block text-sm font-medium"
+            >
+              Model
+            </label>
+            <input
+              id="local-ai-model"
+              type="text"
+              value={draft.model}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              spellCheck={false}
+              className={inputClassName}
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-red-700" role="alert">
+              {errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={() =>
+              onLocalChange({
+                endpoint: draft.endpoint.trim(),
+                model: draft.model.trim(),
+              })
+            }
+            disabled={!isDirty || errors.length > 0}
+            className="bg-accent-500 hover:bg-accent-600 focus:ring-accent-500 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save Server
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type {
+  BackupRestoreResult,
+  BackupSummary,
+  BackupTrigger,
+} from '../../types';
+import { formatDate } from '../../utils';
+import { devError } from '../../utils/logger';
+
+type Response<T> = { success?: boolean; data?: T; error?: string } | undefined;
+
+const TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+/**
+ * BackupList Component
+ * Lists the stored backup snapshots with a "Back up now" action and
+ * restores a snapshot after confirmation
+ */
+export const BackupList: React.FC = () => {
+  const [backups, setBackups] = useState<BackupSummary[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'listBackups',
+      });
+      const r = response as Response<BackupSummary[]>;
+      if (!r?.success || !r.data) {
+        setError(r?.error ?? 'Could not load backups.');
+        return;
+      }
+      setBackups(r.data);
+    } catch (err) {
+      devError('Failed to load backups:', err);
+      setError('Could not load backups.');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadBackups();
+  }, [loadBackups]);
+
+  const handleBackUpNow = async () => {
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      setError(null);
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'createBackup',
+      });
+      const r = response as Response<BackupSummary | null>;
+      if (!r?.success) {
+        setError(r?.error ?? 'Backup failed.');
+        return;
+      }
+      setMessage('Backup saved.');
+      await loadBackups();
+    } catch (err) {
+      devError('Failed to create backup:', err);
+      setError('Backup failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (backup: BackupSummary) => {
+    if (
+      !confirm(
+        `Replace all your reflections with the ${backup.reflectionCount} saved on ${formatDate(backup.createdAt)} at ${formatTime(backup.createdAt)}? Your current reflections are backed up first.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      setError(null);
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'restoreBackup',
+        payload: { id: backup.id },
+      });
+      const r = response as Response<BackupRestoreResult>;
+      if (!r?.success || !r.data) {
+        setError(r?.error ?? 'Restore failed.');
+        return;
+      }
+      setMessage(
+        `Restored ${r.data.restored} reflection${r.data.restored === 1 ? '' : 's'}.`
+      );
+      await loadBackups();
+    } catch (err) {
+      devError('Failed to restore backup:', err);
+      setError('Restore failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-4">
+        <h3 className="text-calm-900 text-sm font-medium">Snapshots</h3>
+        <button
+          onClick={() => void handleBackUpNow()}
+          disabled={isWorking}
+          className="bg-accent-500 hover:bg-accent-600 focus:ring-accent-500 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Back Up Now
+        </button>
+      </div>
+
+      {backups === null ? (
+        !error && (
+          <p className="text-calm-600 text-center text-sm">
+            Loading backups...
+          </p>
+        )
+      ) : backups.length === 0 ? (
+        <p className="text-calm-600 text-sm">No backups yet.</p>
+      ) : (
+        <ul className="border-calm-200 divide-calm-200 divide-y rounded-lg border">
+          {backups.map((backup) => (
+            <li
+              key={backup.id}
+              className="flex items-center justify-between gap-4 p-3"
+            >
+              <div className="min-w-0">
+                <p className="text-calm-900 text-sm font-medium">
+                  {formatDate(backup.createdAt)} ·{' '}
+                  {formatTime(backup.createdAt)}
+                </p>
+                <p className="text-calm-600 text-xs">
+                  {TRIGGER_LABELS[backup.trigger]} · {backup.reflectionCount}{' '}
+                  reflection{backup.reflectionCount === 1 ? '' : 's'} ·{' '}
+                  {formatSize(backup.bytes)}
+                </p>
+              </div>
+              <button
+                onClick={() => void handleRestore(backup)}
+                disabled={isWorking}
+                className="text-calm-600 hover:text-calm-900 hover:bg-calm-100 focus:ring-accent-500 shrink-0 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div aria-live="polite">
+        {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+        {error && (
+          <p className="mt-3 text-sm text-red-700" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
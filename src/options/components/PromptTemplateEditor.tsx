@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import type {
+  PromptPreviewContent,
+  PromptTemplateId,
+  PromptTemplates,
+} from '../../types';
+import { PROMPT_TEMPLATES } from '../../constants';
+import { formatDate } from '../../utils';
+import {
+  fillPromptTemplate,
+  getPromptTemplate,
+  isPromptTemplateCustomized,
+  resetPromptTemplate,
+  savePromptTemplate,
+  validatePromptTemplate,
+} from '../../utils/promptTemplates';
+import { devError } from '../../utils/logger';
+import { Dropdown, type DropdownOption } from './Dropdown';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplates | undefined;
+  onChange: (templates: PromptTemplates) => void;
+}
+
+type Response<T> = { success?: boolean; data?: T; error?: string } | undefined;
+
+const templateOptions: DropdownOption[] = Object.entries(PROMPT_TEMPLATES).map(
+  ([id, definition]) => ({
+    value: id,
+    label: definition.label,
+    description: definition.description,
+  })
+);
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Placeholder values for previewing a template against a page
+ * Reflection questions are previewed with the overlay's summary when
+ * there is one, otherwise with the page's opening sentences.
+ */
+const previewValues = (page: PromptPreviewContent): Record<string, string> => {
+  const opening = page.text.match(/[^.!?]+[.!?]+/g)?.slice(0, 3) ?? [page.text];
+  return {
+    content: page.text,
+    summary: (page.summary ?? opening.map((s) => s.trim())).join('\n'),
+    text: page.text.split(/\n\s*\n/)[0].slice(0, 600),
+    tone: '[Instructions for the chosen tone]',
+    conversation:
+      'Question: What did you find most interesting?\nAnswer: [Your answer]',
+    problems: '- [What the quality checks found]',
+  };
+};
+
+const buttonClassName =
+  'text-calm-600 hover:text-calm-900 hover:bg-calm-100 focus:ring-accent-500 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * PromptTemplateEditor Component
+ * Edits the prompts sent to the Prompt API, with placeholder validation,
+ * a preview against the last viewed page, reset to default, and the
+ * template's earlier versions
+ */
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+  templates,
+  onChange,
+}) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('summarize');
+  const savedText = getPromptTemplate(templates, selectedId);
+  const [draft, setDraft] = useState(savedText);
+  const [page, setPage] = useState<PromptPreviewContent | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+
+  // Show the saved text when switching templates or after saving
+  useEffect(() => {
+    setDraft(savedText);
+  }, [savedText]);
+
+  const definition = PROMPT_TEMPLATES[selectedId];
+  const errors = validatePromptTemplate(selectedId, draft);
+  const history = templates?.[selectedId]?.history ?? [];
+  const isDirty = draft !== savedText;
+  const canReset =
+    isPromptTemplateCustomized(templates, selectedId) ||
+    draft !== definition.defaultText;
+
+  const handlePreview = async () => {
+    try {
+      setIsLoadingPreview(true);
+      setPreviewError(null);
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'getPromptPreviewContent',
+      });
+      const r = response as Response<PromptPreviewContent>;
+      if (!r?.success || !r.data) {
+        setPage(null);
+        setPreviewError(r?.error ?? 'Could not read the current page.');
+        return;
+      }
+      setPage(r.data);
+    } catch (err) {
+      devError('Failed to load preview content:', err);
+      setPreviewError('Could not read the current page.');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(definition.defaultText);
+    if (isPromptTemplateCustomized(templates, selectedId)) {
+      onChange(resetPromptTemplate(templates, selectedId));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Dropdown
+        label="Template"
+        options={templateOptions}
+        value={selectedId}
+        onChange={(value) => setSelectedId(value as PromptTemplateId)}
+        description={definition.description}
+      />
+
+      <div className="space-y-2">
+        <label
+          htmlFor="prompt-template-text"
+          className="text-calm-900 block text-sm font-medium"
+        >
+          Prompt
+        </label>
+        <p id="prompt-template-help" className="text-calm-600 text-sm">
+          {definition.placeholders.length > 0
+            ? `Placeholders: ${definition.placeholders.map((name) => `{${name}}`).join(', ')}`
+            : 'This template has no placeholders.'}
+        </p>
+        <textarea
+          id="prompt-template-text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={10}
+          spellCheck={false}
+          aria-describedby="prompt-template-help"
+          aria-invalid={errors.length > 0}
+          className="border-calm-300 text-calm-900 focus:border-accent-500 focus:ring-accent-500 w-full rounded-lg border p-3 font-mono text-sm focus:ring-2 focus:outline-none"
+        />
+        {errors.length > 0 && (
+          <ul className="list-disc pl-5 text-sm text-red-700" role="alert">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() =>
+            onChange(savePromptTemplate(templates, selectedId, draft))
+          }
+          disabled={!isDirty || errors.length > 0}
+          className="bg-accent-500 hover:bg-accent-600 focus:ring-accent-500 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Save Template
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={!canReset}
+          className={buttonClassName}
+        >
+          Reset to Default
+        </button>
+        <button
+          onClick={() => void handlePreview()}
+          disabled={isLoadingPreview}
+          className={buttonClassName}
+        >
+          {isLoadingPreview ? 'Loading...' : 'Preview with Current Page'}
+        </button>
+      </div>
+
+      <div aria-live="polite">
+        {previewError && (
+          <p className="text-sm text-red-700" role="alert">
+            {previewError}
+          </p>
+        )}
+        {page && !previewError && (
+          <div className="space-y-2">
+            <p className="text-calm-600 truncate text-sm" title={page.url}>
+              Preview for “{page.title || page.url}”
+            </p>
+            <pre className="border-calm-200 bg-calm-50 text-calm-800 max-h-64 overflow-y-auto rounded-lg border p-3 text-xs whitespace-pre-wrap">
+              {fillPromptTemplate(draft, previewValues(page))}
+            </pre>
+          </div>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div>
+          <h3 className="text-calm-900 mb-2 text-sm font-medium">
+            Earlier Versions
+          </h3>
+          <ul className="border-calm-200 divide-calm-200 divide-y rounded-lg border">
+            {history.map((version) => (
+              <li
+                key={`${version.savedAt}-${version.text.length}`}
+                className="flex items-center justify-between gap-4 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-calm-900 text-sm font-medium">
+                    Replaced {formatDate(version.savedAt)} ·{' '}
+                    {formatTime(version.savedAt)}
+                  </p>
+                  <p className="text-calm-600 truncate text-xs">
+                    {version.text}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDraft(version.text)}
+                  className={`${buttonClassName} shrink-0`}
+                  title="Load this version into the editor; save to use it"
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
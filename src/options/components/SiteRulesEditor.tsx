@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import type { SiteRule, SiteRuleAction } from '../../types';
+import { SITE_RULES, TIMING } from '../../constants';
+import {
+  createSiteRule,
+  normalizeSitePattern,
+  validateSitePattern,
+} from '../../utils/siteRules';
+import { Dropdown, type DropdownOption } from './Dropdown';
+import { Slider } from './Slider';
+
+interface SiteRulesEditorProps {
+  rules: SiteRule[];
+  dwellThreshold: number;
+  onChange: (rules: SiteRule[]) => void;
+}
+
+const NEW_RULE = 'new';
+
+const actionOptions: DropdownOption[] = [
+  {
+    value: 'never',
+    label: 'Never show',
+    description: 'The nudge stays hidden on matching pages',
+  },
+  {
+    value: 'always',
+    label: 'Always show',
+    description: 'Uses the dwell threshold above',
+  },
+  {
+    value: 'custom',
+    label: 'Custom threshold',
+    description: 'Waits its own time before showing',
+  },
+];
+
+const inputClassName =
+  'border-calm-300 text-calm-900 focus:border-accent-500 focus:ring-accent-500 w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:outline-none';
+
+const buttonClassName =
+  'text-calm-600 hover:text-calm-900 hover:bg-calm-100 focus:ring-accent-500 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50';
+
+const describeRule = (rule: SiteRule): string => {
+  if (rule.action === 'never') return 'Never show';
+  if (rule.action === 'custom') {
+    return `Show after ${rule.dwellThreshold ?? 0} seconds`;
+  }
+  return 'Always show';
+};
+
+/**
+ * Form values for a rule; custom thresholds start at the global one
+ */
+const toDraft = (rule: SiteRule | undefined, dwellThreshold: number) => ({
+  pattern: rule?.pattern ?? '',
+  action: rule?.action ?? ('never' as SiteRuleAction),
+  dwellThreshold: rule?.dwellThreshold ?? dwellThreshold,
+});
+
+/**
+ * SiteRulesEditor Component
+ * Adds, edits and deletes rules for where the lotus nudge appears: each
+ * is a domain or URL pattern plus whether, and after how long, to show
+ */
+export const SiteRulesEditor: React.FC<SiteRulesEditorProps> = ({
+  rules,
+  dwellThreshold,
+  onChange,
+}) => {
+  const [selectedId, setSelectedId] = useState(rules[0]?.id ?? NEW_RULE);
+  const selected = rules.find((rule) => rule.id === selectedId);
+  const [draft, setDraft] = useState(toDraft(selected, dwellThreshold));
+
+  // Show the saved rule when switching rules or after saving
+  useEffect(() => {
+    setDraft(toDraft(selected, dwellThreshold));
+  }, [selected, dwellThreshold]);
+
+  const isNew = !selected;
+  const isFull = rules.length >= SITE_RULES.MAX_RULES;
+  const errors = validateSitePattern(draft.pattern, rules, selected?.id);
+  // A new rule always differs from the saved ones
+  const isDirty =
+    normalizeSitePattern(draft.pattern) !== selected?.pattern ||
+    draft.action !== selected.action ||
+    (draft.action === 'custom' &&
+      draft.dwellThreshold !== selected.dwellThreshold);
+
+  const options: DropdownOption[] = [
+    ...rules.map((rule) => ({
+      value: rule.id,
+      label: rule.pattern,
+      description: describeRule(rule),
+    })),
+    { value: NEW_RULE, label: 'New rule…' },
+  ];
+
+  const handleSave = () => {
+    const created = createSiteRule(
+      draft.pattern,
+      draft.action,
+      draft.dwellThreshold
+    );
+    const rule = selected ? { ...created, id: selected.id } : created;
+    onChange(
+      selected
+        ? rules.map((other) => (other.id === rule.id ? rule : other))
+        : [...rules, rule]
+    );
+    setSelectedId(rule.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`Delete the rule for “${selected.pattern}”?`)) {
+      return;
+    }
+    const remaining = rules.filter((rule) => rule.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? NEW_RULE);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Dropdown
+        label="Site Rule"
+        options={options}
+        value={selectedId}
+        onChange={setSelectedId}
+        description="The most specific matching rule wins"
+      />
+
+      <div className="space-y-2">
+        <label
+          htmlFor="site-rule-pattern"
+          className="text-calm-900 block text-sm font-medium"
+        >
+          Site
+        </label>
+        <p id="site-rule-help" className="text-calm-600 text-sm">
+          A domain such as example.com (includes its subdomains), or a URL
+          pattern such as example.com/blog/* where * matches anything
+        </p>
+        <input
+          id="site-rule-pattern"
+          type="text"
+          value={draft.pattern}
+          onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+          maxLength={SITE_RULES.MAX_PATTERN_LENGTH}
+          spellCheck={false}
+          aria-describedby="site-rule-help"
+          aria-invalid={draft.pattern !== '' && errors.length > 0}
+          className={inputClassName}
+        />
+      </div>
+
+      <Dropdown
+        label="Lotus Nudge"
+        options={actionOptions}
+        value={draft.action}
+        onChange={(value) =>
+          setDraft({ ...draft, action: value as SiteRuleAction })
+        }
+      />
+
+      {draft.action === 'custom' && (
+        <Slider
+          label="Threshold on This Site"
+          value={draft.dwellThreshold}
+          min={TIMING.DWELL_MIN}
+          max={TIMING.DWELL_MAX}
+          step={5}
+          unit=" seconds"
+          onChange={(value) => setDraft({ ...draft, dwellThreshold: value })}
+        />
+      )}
+
+      {draft.pattern !== '' && errors.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-red-700" role="alert">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || errors.length > 0 || (isNew && isFull)}
+          className="bg-accent-500 hover:bg-accent-600 focus:ring-accent-500 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isNew ? 'Add Rule' : 'Save Rule'}
+        </button>
+        {!isNew && (
+          <button onClick={handleDelete} className={buttonClassName}>
+            Delete Rule
+          </button>
+        )}
+        {isNew && isFull && (
+          <p className="text-calm-600 text-sm">
+            You can have up to {SITE_RULES.MAX_RULES} rules.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import type {
+  CustomSummaryFormat,
+  CustomSummaryFormatId,
+  SummaryResponseParser,
+} from '../../types';
+import { SUMMARY_FORMAT_LIMITS } from '../../constants';
+import {
+  createCustomSummaryFormatId,
+  validateCustomSummaryFormat,
+} from '../../utils/summaryFormats';
+import { Dropdown, type DropdownOption } from './Dropdown';
+
+interface SummaryFormatEditorProps {
+  formats: CustomSummaryFormat[];
+  onChange: (formats: CustomSummaryFormat[]) => void;
+}
+
+const NEW_FORMAT = 'new';
+
+const parserOptions: DropdownOption[] = [
+  {
+    value: 'labeled',
+    label: 'Labeled items',
+    description:
+      'Lines such as "Term: definition"; unlabeled lines join the item above',
+  },
+  {
+    value: 'list',
+    label: 'Plain list',
+    description: 'One item per line',
+  },
+  {
+    value: 'text',
+    label: 'Free text',
+    description: 'The whole response as one paragraph',
+  },
+];
+
+const emptyDraft: Omit<CustomSummaryFormat, 'id'> = {
+  name: '',
+  description: '',
+  prompt: 'Summarize this article as ...:\n\n{content}',
+  parser: 'labeled',
+};
+
+const inputClassName =
+  'border-calm-300 text-calm-900 focus:border-accent-500 focus:ring-accent-500 w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:outline-none';
+
+const buttonClassName =
+  'text-calm-600 hover:text-calm-900 hover:bg-calm-100 focus:ring-accent-500 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * SummaryFormatEditor Component
+ * Adds, edits and deletes the user's summary formats: each is a named
+ * prompt plus how the model's response is split into summary items
+ */
+export const SummaryFormatEditor: React.FC<SummaryFormatEditorProps> = ({
+  formats,
+  onChange,
+}) => {
+  const [selectedId, setSelectedId] = useState<
+    CustomSummaryFormatId | typeof NEW_FORMAT
+  >(formats[0]?.id ?? NEW_FORMAT);
+  const selected = formats.find((format) => format.id === selectedId);
+  const [draft, setDraft] = useState(selected ?? emptyDraft);
+
+  // Show the saved format when switching formats or after saving
+  useEffect(() => {
+    setDraft(selected ?? emptyDraft);
+  }, [selected]);
+
+  const isNew = !selected;
+  const isFull = formats.length >= SUMMARY_FORMAT_LIMITS.MAX_FORMATS;
+  const errors = validateCustomSummaryFormat(
+    { ...draft, id: selected?.id ?? `custom:${NEW_FORMAT}` },
+    formats
+  );
+  const isDirty =
+    !selected ||
+    (Object.keys(emptyDraft) as (keyof typeof emptyDraft)[]).some(
+      (key) => draft[key] !== selected[key]
+    );
+
+  const options: DropdownOption[] = [
+    ...formats.map((format) => ({
+      value: format.id,
+      label: format.name,
+      description: format.description,
+    })),
+    { value: NEW_FORMAT, label: 'New format…' },
+  ];
+
+  const update = <K extends keyof typeof emptyDraft>(
+    key: K,
+    value: (typeof emptyDraft)[K]
+  ) => setDraft({ ...draft, [key]: value });
+
+  const handleSave = () => {
+    const format: CustomSummaryFormat = {
+      id:
+        selected?.id ??
+        createCustomSummaryFormatId(
+          draft.name,
+          formats.map(({ id }) => id)
+        ),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      prompt: draft.prompt,
+      parser: draft.parser,
+    };
+    onChange(
+      selected
+        ? formats.map((other) => (other.id === format.id ? format : other))
+        : [...formats, format]
+    );
+    setSelectedId(format.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`Delete the “${selected.name}” format?`)) {
+      return;
+    }
+    const remaining = formats.filter((format) => format.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? NEW_FORMAT);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Dropdown
+        label="Format"
+        options={options}
+        value={selectedId}
+        onChange={(value) =>
+          setSelectedId(value as CustomSummaryFormatId | typeof NEW_FORMAT)
+        }
+        description="Custom formats are written with the Prompt API"
+      />
+
+      <div className="space-y-2">
+        <label
+          htmlFor="summary-format-name"
+          className="text-calm-900 block text-sm font-medium"
+        >
+          Name
+        </label>
+        <input
+          id="summary-format-name"
+          type="text"
+          value={draft.name}
+          onChange={(e) => update('name', e.target.value)}
+          maxLength={SUMMARY_FORMAT_LIMITS.MAX_NAME_LENGTH}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label
+          htmlFor="summary-format-description"
+          className="text-calm-900 block text-sm font-medium"
+        >
+          Description
+        </label>
+        <input
+          id="summary-format-description"
+          type="text"
+          value={draft.description}
+          onChange={(e) => update('description', e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label
+          htmlFor="summary-format-prompt"
+          className="text-calm-900 block text-sm font-medium"
+        >
+          Prompt
+        </label>
+        <p id="summary-format-help" className="text-calm-600 text-sm">
+          Placeholders: {'{content}'}
+        </p>
+        <textarea
+          id="summary-format-prompt"
+          value={draft.prompt}
+          onChange={(e) => update('prompt', e.target.value)}
+          rows={8}
+          spellCheck={false}
+          aria-describedby="summary-format-help"
+          aria-invalid={errors.length > 0}
+          className="border-calm-300 text-calm-900 focus:border-accent-500 focus:ring-accent-500 w-full rounded-lg border p-3 font-mono text-sm focus:ring-2 focus:outline-none"
+        />
+      </div>
+
+      <Dropdown
+        label="Response Shape"
+        options={parserOptions}
+        value={draft.parser}
+        onChange={(value) => update('parser', value as SummaryResponseParser)}
+        description="How the model's answer is split into summary items"
+      />
+
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-red-700" role="alert">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || errors.length > 0 || (isNew && isFull)}
+          className="bg-accent-500 hover:bg-accent-600 focus:ring-accent-500 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isNew ? 'Add Format' : 'Save Format'}
+        </button>
+        {!isNew && (
+          <button onClick={handleDelete} className={buttonClassName}>
+            Delete Format
+          </button>
+        )}
+        {isNew && isFull && (
+          <p className="text-calm-600 text-sm">
+            You can have up to {SUMMARY_FORMAT_LIMITS.MAX_FORMATS} formats.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
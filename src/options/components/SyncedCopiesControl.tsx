@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { devError } from '../../utils/logger';
+
+type Response<T> = { success?: boolean; data?: T; error?: string } | undefined;
+
+/**
+ * SyncedCopiesControl Component
+ * Removes the reflections kept in Chrome sync after confirmation.
+ * Switching to local storage leaves them for the profile's other devices,
+ * so this is the only way to delete them.
+ */
+export const SyncedCopiesControl: React.FC = () => {
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClear = async () => {
+    if (
+      !confirm(
+        'Remove your synced reflections from Chrome sync? Every device signed in to this profile loses its synced copies. Reflections stored on this device are kept.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      setError(null);
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'clearSyncedReflections',
+      });
+      const r = response as Response<{ removed: number }>;
+      if (!r?.success || !r.data) {
+        setError(r?.error ?? 'Removing synced copies failed.');
+        return;
+      }
+      setMessage(
+        `Removed ${r.data.removed} synced item${r.data.removed === 1 ? '' : 's'}.`
+      );
+    } catch (err) {
+      devError('Failed to clear synced reflections:', err);
+      setError('Removing synced copies failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-calm-900 text-sm font-medium">Synced Copies</h3>
+          <p className="text-calm-600 text-xs">
+            Delete the reflections stored in Chrome sync for all your devices
+          </p>
+        </div>
+        <button
+          onClick={() => void handleClear()}
+          disabled={isWorking}
+          className="text-calm-600 hover:text-calm-900 hover:bg-calm-100 focus:ring-accent-500 shrink-0 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors focus:ring-2 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Remove Synced Copies
+        </button>
+      </div>
+
+      <div aria-live="polite">
+        {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+        {error && (
+          <p className="mt-3 text-sm text-red-700" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -19,3 +19,15 @@ export type { SaveIndicatorProps } from './SaveIndicator';
 
 export { Dropdown } from './Dropdown';
 export type { DropdownProps, DropdownOption } from './Dropdown';
+
+export { BackupList } from './BackupList';
+
+export { SyncedCopiesControl } from './SyncedCopiesControl';
+
+export { PromptTemplateEditor } from './PromptTemplateEditor';
+
+export { SummaryFormatEditor } from './SummaryFormatEditor';
+
+export { SiteRulesEditor } from './SiteRulesEditor';
+
+export { AIProviderSettings } from './AIProviderSettings';
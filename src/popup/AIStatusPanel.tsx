@@ -154,7 +154,11 @@ const AIStatusPanelComponent: React.FC<AIStatusPanelProps> = ({
             <h2 className="font-display text-calm-900 text-lg font-semibold">
               AI Status
             </h2>
-            <p className="text-calm-500 text-xs">Chrome Built-in AI APIs</p>
+            <p className="text-calm-500 text-xs">
+              {capabilities.provider === 'local'
+                ? 'Local AI server'
+                : 'Chrome Built-in AI APIs'}
+            </p>
           </div>
         </div>
 
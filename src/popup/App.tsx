@@ -12,14 +12,19 @@ import { VirtualList } from './VirtualList';
 import { StreakCounter } from './StreakCounter';
 import { CalmStats } from './CalmStats';
 import { ExportModal } from './ExportModal';
+import { ImportModal } from './ImportModal';
 import type {
   Reflection,
+  SearchSnippet,
   StreakData,
   CalmStats as CalmStatsType,
+  TagCount,
 } from '../types';
 import { STORAGE_KEYS, PRIVACY_NOTICE } from '../constants';
-import { formatISODate } from '../utils';
 import { useKeyboardNavigation } from '../utils/useKeyboardNavigation';
+import { useReflectionSearch } from '../utils/useReflectionSearch';
+import { normalizeTag } from '../utils';
+import { calculateCalmStats } from '../utils/calmStats';
 import './styles.css';
 import { ErrorBoundary } from '../utils/ErrorBoundary';
 import { devLog, devError } from '../utils/logger';
@@ -40,43 +45,69 @@ export const App: React.FC = () => {
   const [, setIsLoading] = useState(true);
   const [showPrivacyNotice, setShowPrivacyNotice] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTag, setBulkTag] = useState('');
+
+  // Re-run the active search whenever the reflection list reloads
+  const { results: searchResults, isSearching } = useReflectionSearch(
+    searchQuery,
+    reflections
+  );
 
-  // Calculate calm stats from reflections
-  const calmStats = useMemo<CalmStatsType>(() => {
-    if (reflections.length === 0) {
-      return {
-        totalReflections: 0,
-        averagePerDay: 0,
-        totalReadingTime: 0,
-        totalReflectionTime: 0,
-        reflectionRatio: 0,
-      };
+  // Tag facet, most used first
+  const tagCounts = useMemo<TagCount[]>(() => {
+    const counts = new Map<string, number>();
+    for (const reflection of reflections) {
+      for (const tag of reflection.tags ?? []) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
     }
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }, [reflections]);
 
-    // Calculate days since first reflection
-    const firstReflection = reflections[reflections.length - 1];
-    const daysSinceFirst = Math.max(
-      1,
-      Math.ceil(
-        (Date.now() - firstReflection.createdAt) / (1000 * 60 * 60 * 24)
-      )
-    );
-
-    // Estimate reading time (assume 200 words per minute, 5 min average per article)
-    const totalReadingTime = reflections.length * 5 * 60; // 5 minutes per article in seconds
+  // Search hits when a query is active, otherwise the chronological list,
+  // narrowed to the selected tag
+  const listItems = useMemo<
+    { reflection: Reflection; snippet?: SearchSnippet }[]
+  >(() => {
+    const items =
+      searchResults ?? reflections.map((reflection) => ({ reflection }));
+    return selectedTag
+      ? items.filter(({ reflection }) => reflection.tags?.includes(selectedTag))
+      : items;
+  }, [searchResults, reflections, selectedTag]);
+
+  // Drop the tag filter once no reflection carries it anymore
+  useEffect(() => {
+    if (selectedTag && !tagCounts.some(({ tag }) => tag === selectedTag)) {
+      setSelectedTag(null);
+    }
+  }, [selectedTag, tagCounts]);
 
-    // Estimate reflection time (assume 3 minutes per reflection)
-    const totalReflectionTime = reflections.length * 3 * 60; // 3 minutes per reflection in seconds
+  // Calculate calm stats from the durations measured with each reflection
+  const calmStats = useMemo<CalmStatsType>(
+    () => calculateCalmStats(reflections),
+    [reflections]
+  );
 
-    return {
-      totalReflections: reflections.length,
-      averagePerDay: reflections.length / daysSinceFirst,
-      totalReadingTime,
-      totalReflectionTime,
-      reflectionRatio:
-        totalReflectionTime / (totalReadingTime + totalReflectionTime),
-    };
-  }, [reflections]);
+  // Load reflections from the background storage manager
+  const loadReflections = useCallback(async () => {
+    const response: unknown = await chrome.runtime.sendMessage({
+      type: 'load',
+    });
+    const r = response as { success?: boolean; data?: unknown } | undefined;
+    if (r?.success && Array.isArray(r.data)) {
+      const sortedReflections = (r.data as Reflection[]).sort(
+        (a, b) => b.createdAt - a.createdAt
+      );
+      setReflections(sortedReflections);
+    }
+  }, []);
 
   // Load data from storage on mount
   useEffect(() => {
@@ -84,20 +115,14 @@ export const App: React.FC = () => {
       try {
         setIsLoading(true);
 
-        // Load reflections, streak, and first launch flag
+        // Load streak and first launch flag
         const result = await chrome.storage.local.get([
-          STORAGE_KEYS.REFLECTIONS,
           STORAGE_KEYS.STREAK,
           STORAGE_KEYS.FIRST_LAUNCH,
         ]);
 
         // Set reflections (sorted by date, most recent first)
-        const loadedReflections = (result[STORAGE_KEYS.REFLECTIONS] ??
-          []) as Reflection[];
-        const sortedReflections = loadedReflections.sort(
-          (a, b) => b.createdAt - a.createdAt
-        );
-        setReflections(sortedReflections);
+        await loadReflections();
 
         // Set streak data
         if (result[STORAGE_KEYS.STREAK]) {
@@ -120,7 +145,7 @@ export const App: React.FC = () => {
     };
 
     void loadData();
-  }, []);
+  }, [loadReflections]);
 
   // Listen for storage changes to update data in real-time
   useEffect(() => {
@@ -130,14 +155,11 @@ export const App: React.FC = () => {
     ) => {
       if (areaName !== 'local') return;
 
-      // Update reflections if changed
-      if (changes[STORAGE_KEYS.REFLECTIONS]?.newValue) {
-        const newReflections = changes[STORAGE_KEYS.REFLECTIONS]
-          .newValue as Reflection[];
-        const sortedReflections = newReflections.sort(
-          (a, b) => b.createdAt - a.createdAt
+      // Reload reflections when the background signals a change
+      if (changes[STORAGE_KEYS.REFLECTIONS_UPDATED]) {
+        loadReflections().catch((error) =>
+          devError('Failed to reload reflections:', error)
         );
-        setReflections(sortedReflections);
       }
 
       // Update streak if changed
@@ -151,87 +173,82 @@ export const App: React.FC = () => {
     return () => {
       chrome.storage.onChanged.removeListener(handleStorageChange);
     };
-  }, []);
+  }, [loadReflections]);
 
   // Handle reflection deletion
   const handleDelete = useCallback((id: string) => {
     void (async () => {
       try {
-        // Get current reflections
-        const result = await chrome.storage.local.get(STORAGE_KEYS.REFLECTIONS);
-        const currentReflections = (result[STORAGE_KEYS.REFLECTIONS] ??
-          []) as Reflection[];
-
-        // Filter out deleted reflection
-        const updatedReflections = currentReflections.filter(
-          (r) => r.id !== id
-        );
-
-        // Save updated reflections
-        await chrome.storage.local.set({
-          [STORAGE_KEYS.REFLECTIONS]: updatedReflections,
+        // Delete through the background so streak and sync stay consistent
+        const response: unknown = await chrome.runtime.sendMessage({
+          type: 'deleteReflection',
+          payload: id,
         });
-
-        // Recalculate streak
-        if (updatedReflections.length > 0) {
-          const dates = updatedReflections.map((r) =>
-            formatISODate(r.createdAt)
-          );
-          const uniqueDates = [...new Set(dates)].sort(
-            (a, b) => new Date(b).getTime() - new Date(a).getTime()
-          );
-
-          // Calculate streak
-          const today = formatISODate(Date.now());
-          const yesterday = formatISODate(Date.now() - 24 * 60 * 60 * 1000);
-
-          let streak = 0;
-          if (uniqueDates[0] === today || uniqueDates[0] === yesterday) {
-            streak = 1;
-            let currentDate = new Date(uniqueDates[0]);
-
-            for (let i = 1; i < uniqueDates.length; i++) {
-              const prevDate = new Date(uniqueDates[i]);
-              const dayDiff = Math.floor(
-                (currentDate.getTime() - prevDate.getTime()) /
-                  (24 * 60 * 60 * 1000)
-              );
-
-              if (dayDiff === 1) {
-                streak++;
-                currentDate = prevDate;
-              } else if (dayDiff > 1) {
-                break;
-              }
-            }
-          }
-
-          await chrome.storage.local.set({
-            [STORAGE_KEYS.STREAK]: {
-              current: streak,
-              lastReflectionDate: uniqueDates[0],
-            },
-          });
-        } else {
-          // No reflections left, reset streak
-          await chrome.storage.local.set({
-            [STORAGE_KEYS.STREAK]: {
-              current: 0,
-              lastReflectionDate: '',
-            },
-          });
+        const r = response as { success?: boolean; error?: string } | undefined;
+        if (!r?.success) {
+          devError('Failed to delete reflection:', r?.error);
+          return;
         }
 
         // Update local state
-        setReflections(
-          updatedReflections.sort((a, b) => b.createdAt - a.createdAt)
+        setReflections((prev) =>
+          prev.filter((reflection) => reflection.id !== id)
         );
+        setSelectedIds((prev) => {
+          if (!prev.has(id)) return prev;
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
       } catch (error) {
         devError('Failed to delete reflection:', error);
       }
     })();
   }, []);
 
+  const handleToggleSelect = useCallback((id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleTagClick = useCallback((tag: string) => {
+    setSelectedTag((prev) => (prev === tag ? null : tag));
+  }, []);
+
+  // Add or remove one tag on every selected reflection
+  const handleBulkTag = (action: 'add' | 'remove') => {
+    const tag = normalizeTag(bulkTag);
+    if (!tag || selectedIds.size === 0) return;
+
+    void (async () => {
+      try {
+        const response: unknown = await chrome.runtime.sendMessage({
+          type: 'updateTags',
+          payload: {
+            ids: [...selectedIds],
+            [action]: [tag],
+          },
+        });
+        const r = response as { success?: boolean; error?: string } | undefined;
+        if (!r?.success) {
+          devError('Failed to update tags:', r?.error);
+          return;
+        }
+        // The storage change listener reloads the list
+        setBulkTag('');
+      } catch (error) {
+        devError('Failed to update tags:', error);
+      }
+    })();
+  };
+
   const handleStreakIncrease = useCallback(() => {
     devLog('Streak increased! 🎉');
   }, []);
@@ -249,6 +266,7 @@ export const App: React.FC = () => {
       // Escape to close modals
       if (e.key === 'Escape') {
         setShowExportModal(false);
+        setShowImportModal(false);
         setShowPrivacyNotice(false);
       }
     };
@@ -445,29 +463,53 @@ export const App: React.FC = () => {
               </p>
             </div>
           </div>
-          <button
-            onClick={() => setShowExportModal(true)}
-            className="border-calm-200 text-calm-800 hover:bg-calm-50 focus-visible:outline-zen-500 inline-flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-sm font-semibold shadow-sm transition-colors focus-visible:outline-2 focus-visible:outline-offset-2 disabled:opacity-50"
-            aria-label="Export reflections"
-            disabled={reflections.length === 0}
-          >
-            <svg
-              width="16"
-              height="16"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              aria-hidden
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="border-calm-200 text-calm-800 hover:bg-calm-50 focus-visible:outline-zen-500 inline-flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-sm font-semibold shadow-sm transition-colors focus-visible:outline-2 focus-visible:outline-offset-2"
+              aria-label="Import reflections"
             >
-              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-              <polyline points="7 10 12 15 17 10" />
-              <line x1="12" y1="15" x2="12" y2="3" />
-            </svg>
-            Export
-          </button>
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                aria-hidden
+              >
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="17 8 12 3 7 8" />
+                <line x1="12" y1="3" x2="12" y2="15" />
+              </svg>
+              Import
+            </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              className="border-calm-200 text-calm-800 hover:bg-calm-50 focus-visible:outline-zen-500 inline-flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-sm font-semibold shadow-sm transition-colors focus-visible:outline-2 focus-visible:outline-offset-2 disabled:opacity-50"
+              aria-label="Export reflections"
+              disabled={reflections.length === 0}
+            >
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                aria-hidden
+              >
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="7 10 12 15 17 10" />
+                <line x1="12" y1="15" x2="12" y2="3" />
+              </svg>
+              Export
+            </button>
+          </div>
         </div>
       </header>
 
@@ -509,28 +551,127 @@ export const App: React.FC = () => {
               <h2 className="font-display text-calm-900 text-lg font-semibold">
                 Your Reflections
               </h2>
-              {/* Use virtual scrolling for lists with more than 10 items */}
-              {reflections.length > 10 ? (
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder='Search reflections (use "quotes" for phrases)'
+                aria-label="Search reflections"
+                className="border-calm-200 text-calm-900 placeholder:text-calm-400 focus-visible:outline-zen-500 w-full rounded-lg border bg-white px-3 py-2 text-sm focus-visible:outline-2 focus-visible:outline-offset-2"
+              />
+              {tagCounts.length > 0 && (
+                <div
+                  className="flex flex-wrap gap-1.5"
+                  role="group"
+                  aria-label="Filter by tag"
+                >
+                  {tagCounts.map(({ tag, count }) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => handleTagClick(tag)}
+                      aria-pressed={selectedTag === tag}
+                      className={`focus-visible:outline-zen-500 rounded-full px-2.5 py-1 text-xs transition-colors focus-visible:outline-2 focus-visible:outline-offset-2 ${
+                        selectedTag === tag
+                          ? 'bg-zen-600 text-white'
+                          : 'bg-calm-100 text-calm-700 hover:bg-zen-100'
+                      }`}
+                    >
+                      #{tag} <span className="opacity-70">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedIds.size > 0 && (
+                <div
+                  className="border-zen-200 bg-zen-50 flex flex-wrap items-center gap-2 rounded-lg border p-2"
+                  role="toolbar"
+                  aria-label="Bulk tag selected reflections"
+                >
+                  <span className="text-calm-700 text-xs font-semibold">
+                    {selectedIds.size} selected
+                  </span>
+                  <input
+                    type="text"
+                    value={bulkTag}
+                    onChange={(e) => setBulkTag(e.target.value)}
+                    list="reflexa-known-tags"
+                    placeholder="Tag"
+                    aria-label="Tag to add or remove"
+                    className="border-calm-200 text-calm-900 min-w-0 flex-1 rounded-md border bg-white px-2 py-1 text-xs"
+                  />
+                  <datalist id="reflexa-known-tags">
+                    {tagCounts.map(({ tag }) => (
+                      <option key={tag} value={tag} />
+                    ))}
+                  </datalist>
+                  <button
+                    type="button"
+                    onClick={() => handleBulkTag('add')}
+                    className="bg-zen-600 hover:bg-zen-700 rounded-md px-2 py-1 text-xs font-semibold text-white"
+                  >
+                    Add
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleBulkTag('remove')}
+                    className="border-calm-300 text-calm-700 hover:bg-calm-100 rounded-md border px-2 py-1 text-xs font-semibold"
+                  >
+                    Remove
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIds(new Set())}
+                    className="text-calm-500 hover:text-calm-700 text-xs"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+              {searchResults !== null && (
+                <p className="text-calm-500 text-xs" aria-live="polite">
+                  {isSearching
+                    ? 'Searching…'
+                    : `${listItems.length} ${
+                        listItems.length === 1 ? 'match' : 'matches'
+                      }`}
+                </p>
+              )}
+              {/* Use virtual scrolling for search results and long lists */}
+              {listItems.length === 0 ? (
+                <p className="text-calm-600 py-6 text-center text-sm">
+                  No reflections match your search.
+                </p>
+              ) : searchResults !== null || listItems.length > 10 ? (
                 <VirtualList
-                  items={reflections}
-                  itemHeight={280}
-                  containerHeight={400}
+                  items={listItems}
+                  estimatedItemHeight={280}
+                  containerHeight={Math.min(400, listItems.length * 280)}
                   overscan={2}
-                  renderItem={(reflection) => (
-                    <ReflectionCard
-                      key={reflection.id}
-                      reflection={reflection}
-                      onDelete={handleDelete}
-                    />
+                  getItemKey={({ reflection }) => reflection.id}
+                  renderItem={({ reflection, snippet }) => (
+                    <div className="pb-4">
+                      <ReflectionCard
+                        reflection={reflection}
+                        snippet={snippet}
+                        onDelete={handleDelete}
+                        isSelected={selectedIds.has(reflection.id)}
+                        onToggleSelect={handleToggleSelect}
+                        onTagClick={handleTagClick}
+                      />
+                    </div>
                   )}
                 />
               ) : (
                 <div className="space-y-4">
-                  {reflections.map((reflection) => (
+                  {listItems.map(({ reflection }) => (
                     <ReflectionCard
                       key={reflection.id}
                       reflection={reflection}
                       onDelete={handleDelete}
+                      isSelected={selectedIds.has(reflection.id)}
+                      onToggleSelect={handleToggleSelect}
+                      onTagClick={handleTagClick}
                     />
                   ))}
                 </div>
@@ -610,6 +751,12 @@ export const App: React.FC = () => {
         </div>
       )}
 
+      {/* Import Modal */}
+      <ImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+      />
+
       {/* Export Modal */}
       <ExportModal
         reflections={reflections}
@@ -1,7 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
-import type { Reflection } from '../types';
-import { formatISODate } from '../utils';
+import type { ExportFile, ExportFormat, Reflection } from '../types';
+import { EXPORT_FORMATS, EXPORT_FORMAT_OPTIONS } from '../constants';
+import { exportFileToBlob } from '../utils';
 import { devError } from '../utils/logger';
+import { useExportFilters } from '../utils/useExportFilters';
 
 interface ExportModalProps {
   reflections: Reflection[];
@@ -52,6 +54,108 @@ const validateReflections = (
   return { valid: errors.length === 0, errors };
 };
 
+const FilterFields: React.FC<{
+  filterState: ReturnType<typeof useExportFilters>;
+  disabled: boolean;
+}> = ({ filterState, disabled }) => {
+  const { form, update, toggleTag, options } = filterState;
+  const inputClass =
+    'border-calm-200 text-calm-800 focus:border-zen-400 w-full rounded-md border px-2 py-1 text-xs';
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-calm-700 text-xs">
+          From
+          <input
+            type="date"
+            value={form.from}
+            max={form.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </label>
+        <label className="text-calm-700 text-xs">
+          To
+          <input
+            type="date"
+            value={form.to}
+            min={form.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-calm-700 text-xs">
+          Domain
+          <select
+            value={form.domain}
+            onChange={(e) => update({ domain: e.target.value })}
+            className={inputClass}
+            disabled={disabled}
+          >
+            <option value="">All</option>
+            {options.domains.map((domain) => (
+              <option key={domain} value={domain}>
+                {domain}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-calm-700 text-xs">
+          Language
+          <select
+            value={form.language}
+            onChange={(e) => update({ language: e.target.value })}
+            className={inputClass}
+            disabled={disabled}
+          >
+            <option value="">All</option>
+            {options.languages.map((language) => (
+              <option key={language} value={language}>
+                {language}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {options.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" aria-label="Tags">
+          {options.tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              aria-pressed={form.tags.includes(tag)}
+              className={`rounded-full px-2 py-0.5 text-xs transition-colors ${
+                form.tags.includes(tag)
+                  ? 'bg-zen-600 text-white'
+                  : 'bg-calm-100 text-calm-700 hover:bg-calm-200'
+              }`}
+              disabled={disabled}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <label className="text-calm-700 flex items-center gap-2 text-xs">
+        <input
+          type="checkbox"
+          checked={form.proofreadOnly}
+          onChange={(e) => update({ proofreadOnly: e.target.checked })}
+          className="text-zen-600 h-3.5 w-3.5"
+          disabled={disabled}
+        />
+        Only proofread reflections
+      </label>
+    </div>
+  );
+};
+
 /**
  * ExportModal Component
  * Modal for selecting export format and downloading reflections
@@ -61,11 +165,15 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   isOpen,
   onClose,
 }) => {
-  const [exportFormat, setExportFormat] = useState<'json' | 'markdown'>('json');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(
+    EXPORT_FORMATS.JSON
+  );
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
   const [validationError, setValidationError] = useState<string | null>(null);
   const modalRef = useRef<HTMLDivElement>(null);
+  const filterState = useExportFilters(reflections);
+  const { matching, filters } = filterState;
 
   // Handle export with validation and progress tracking
   const handleExport = async () => {
@@ -75,7 +183,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
       setValidationError(null);
 
       // Step 1: Validate data (10% progress)
-      const validation = validateReflections(reflections);
+      const validation = validateReflections(matching);
       if (!validation.valid) {
         setValidationError(validation.errors.join('; '));
         devError('Validation errors:', validation.errors);
@@ -83,94 +191,28 @@ export const ExportModal: React.FC<ExportModalProps> = ({
       }
       setExportProgress(10);
 
-      // Step 2: Generate export data
-      let exportData: string;
-      let filename: string;
-      let mimeType: string;
-
-      if (exportFormat === 'json') {
-        // JSON export (simple, fast)
-        exportData = JSON.stringify(reflections, null, 2);
-        filename = `reflexa-reflections-${formatISODate(Date.now())}.json`;
-        mimeType = 'application/json';
-        setExportProgress(80);
-      } else {
-        // Markdown export with progress tracking for large datasets
-        let markdown = '# Reflexa AI - Reflections Export\n\n';
-        markdown += `Exported on: ${new Date().toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-        })}\n`;
-        markdown += `Total Reflections: ${reflections.length}\n\n`;
-        markdown += '---\n\n';
-
-        // Process reflections with progress updates
-        const totalReflections = reflections.length;
-        const progressPerReflection = 70 / totalReflections; // 70% of progress for processing
-
-        for (let i = 0; i < totalReflections; i++) {
-          const reflection = reflections[i];
-
-          markdown += `## ${reflection.title}\n\n`;
-          markdown += `**URL:** ${reflection.url}\n`;
-          markdown += `**Date:** ${new Date(
-            reflection.createdAt
-          ).toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          })}\n\n`;
-
-          if (reflection.summary && reflection.summary.length > 0) {
-            markdown += '### Summary\n\n';
-            const labels = ['Insight', 'Surprise', 'Apply'];
-            reflection.summary.forEach((bullet, index) => {
-              markdown += `- **${labels[index] ?? 'Point'}:** ${bullet}\n`;
-            });
-            markdown += '\n';
-          }
-
-          if (reflection.reflection && reflection.reflection.length > 0) {
-            markdown += '### Reflections\n\n';
-            reflection.reflection.forEach((text, index) => {
-              markdown += `${index + 1}. ${text}\n\n`;
-            });
-          }
-
-          if (reflection.proofreadVersion) {
-            markdown += '### Proofread Version\n\n';
-            markdown += `${reflection.proofreadVersion}\n\n`;
-          }
-
-          if (reflection.tags && reflection.tags.length > 0) {
-            markdown += `**Tags:** ${reflection.tags.join(', ')}\n\n`;
-          }
-
-          markdown += '---\n\n';
-
-          // Update progress (only for large datasets to avoid UI thrashing)
-          if (totalReflections > 50 && i % 10 === 0) {
-            setExportProgress(10 + Math.round((i + 1) * progressPerReflection));
-            // Allow UI to update for large datasets
-            await new Promise((resolve) => setTimeout(resolve, 0));
-          }
-        }
-
-        exportData = markdown;
-        filename = `reflexa-reflections-${formatISODate(Date.now())}.md`;
-        mimeType = 'text/markdown';
-        setExportProgress(80);
+      // Step 2: Generate export data in the background worker
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'exportReflections',
+        payload: { format: exportFormat, filters },
+      });
+      const r = response as
+        | { success?: boolean; data?: ExportFile; error?: string }
+        | undefined;
+      if (!r?.success || !r.data) {
+        setValidationError(`Export failed: ${r?.error ?? 'Unknown error'}`);
+        return;
       }
+      setExportProgress(80);
 
       // Step 3: Create blob and download (20% progress)
-      const blob = new Blob([exportData], { type: mimeType });
+      const blob = exportFileToBlob(r.data);
       const url = URL.createObjectURL(blob);
       setExportProgress(90);
 
       const a = document.createElement('a');
       a.href = url;
-      a.download = filename;
+      a.download = r.data.filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -202,22 +244,25 @@ export const ExportModal: React.FC<ExportModalProps> = ({
     }
   };
 
-  // Focus trap for modal
+  // Focus trap for modal; the filters expand and the Export button can be
+  // disabled, so the focusable elements are looked up on each Tab press
   useEffect(() => {
     if (!isOpen || !modalRef.current) return;
 
     const modal = modalRef.current;
-    const focusableElements = modal.querySelectorAll<HTMLElement>(
-      'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-    );
-    const firstElement = focusableElements[0];
-    const lastElement = focusableElements[focusableElements.length - 1];
+    const getFocusable = () =>
+      modal.querySelectorAll<HTMLElement>(
+        'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea, summary, [tabindex]:not([tabindex="-1"])'
+      );
 
     // Focus first element
-    firstElement?.focus();
+    getFocusable()[0]?.focus();
 
     const handleTabKey = (e: KeyboardEvent) => {
       if (e.key !== 'Tab') return;
+      const focusable = getFocusable();
+      const firstElement = focusable[0];
+      const lastElement = focusable[focusable.length - 1];
 
       if (e.shiftKey) {
         if (document.activeElement === firstElement) {
@@ -257,7 +302,8 @@ export const ExportModal: React.FC<ExportModalProps> = ({
           Export Reflections
         </h2>
         <p className="text-calm-600 mb-4 text-sm">
-          Choose a format to export your {reflections.length} reflection
+          Choose a format to export {matching.length} of your{' '}
+          {reflections.length} reflection
           {reflections.length !== 1 ? 's' : ''}.
         </p>
 
@@ -287,50 +333,48 @@ export const ExportModal: React.FC<ExportModalProps> = ({
         )}
 
         {/* Format selection */}
-        <div className="mb-6 space-y-3">
-          <label className="border-calm-200 hover:border-zen-400 flex cursor-pointer items-center gap-3 rounded-lg border p-4 transition-colors">
-            <input
-              type="radio"
-              name="export-format"
-              value="json"
-              checked={exportFormat === 'json'}
-              onChange={(e) => setExportFormat(e.target.value as 'json')}
-              className="text-zen-600 focus:ring-zen-500 h-4 w-4"
-              disabled={isExporting}
-            />
-            <div className="flex-1">
-              <div className="text-calm-900 text-sm font-medium">JSON</div>
-              <div className="text-calm-500 text-xs">
-                Machine-readable format with all metadata
-              </div>
-            </div>
-          </label>
-
-          <label className="border-calm-200 hover:border-zen-400 flex cursor-pointer items-center gap-3 rounded-lg border p-4 transition-colors">
-            <input
-              type="radio"
-              name="export-format"
-              value="markdown"
-              checked={exportFormat === 'markdown'}
-              onChange={(e) => setExportFormat(e.target.value as 'markdown')}
-              className="text-zen-600 focus:ring-zen-500 h-4 w-4"
-              disabled={isExporting}
-            />
-            <div className="flex-1">
-              <div className="text-calm-900 text-sm font-medium">Markdown</div>
-              <div className="text-calm-500 text-xs">
-                Human-readable format for notes apps
+        <div className="mb-6 max-h-72 space-y-2 overflow-y-auto">
+          {EXPORT_FORMAT_OPTIONS.map((option) => (
+            <label
+              key={option.format}
+              className="border-calm-200 hover:border-zen-400 flex cursor-pointer items-center gap-3 rounded-lg border p-3 transition-colors"
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={option.format}
+                checked={exportFormat === option.format}
+                onChange={() => setExportFormat(option.format)}
+                className="text-zen-600 focus:ring-zen-500 h-4 w-4"
+                disabled={isExporting}
+              />
+              <div className="flex-1">
+                <div className="text-calm-900 text-sm font-medium">
+                  {option.label}
+                </div>
+                <div className="text-calm-500 text-xs">
+                  {option.description}
+                </div>
               </div>
-            </div>
-          </label>
+            </label>
+          ))}
         </div>
 
+        {/* Filters */}
+        <details className="mb-4">
+          <summary className="text-calm-700 cursor-pointer text-sm font-medium">
+            Filters
+          </summary>
+          <FilterFields filterState={filterState} disabled={isExporting} />
+        </details>
+
         {/* Progress Bar (shown during export for large datasets) */}
         {isExporting && exportProgress > 0 && (
           <div className="mb-4">
             <div className="mb-2 flex items-center justify-between">
               <span className="text-calm-700 text-xs font-medium">
-                Exporting...
+                Exporting {matching.length} reflection
+                {matching.length !== 1 ? 's' : ''}...
               </span>
               <span className="text-calm-700 text-xs font-medium">
                 {exportProgress}%
@@ -357,7 +401,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
           <button
             onClick={handleExport}
             className="from-zen-500 to-zen-600 hover:from-zen-600 hover:to-zen-700 focus-visible:outline-zen-500 flex-1 rounded-lg bg-linear-to-r px-4 py-2.5 text-sm font-semibold text-white transition-all focus-visible:outline-2 focus-visible:outline-offset-2 disabled:opacity-50"
-            disabled={isExporting}
+            disabled={isExporting || matching.length === 0}
           >
             {isExporting ? 'Exporting...' : 'Export'}
           </button>
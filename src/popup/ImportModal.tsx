@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type {
+  ImportDuplicateStrategy,
+  ImportPreview,
+  ImportPreviewItem,
+  ImportResult,
+} from '../types';
+import { IMPORT } from '../constants';
+import { formatDate } from '../utils';
+import { devError } from '../utils/logger';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Response<T> = { success?: boolean; data?: T; error?: string } | undefined;
+
+const PreviewList: React.FC<{ title: string; items: ImportPreviewItem[] }> = ({
+  title,
+  items,
+}) =>
+  items.length === 0 ? null : (
+    <div>
+      <h3 className="text-calm-800 mb-1 text-xs font-semibold tracking-wider uppercase">
+        {title} ({items.length})
+      </h3>
+      <ul className="text-calm-700 max-h-28 space-y-1 overflow-y-auto text-xs">
+        {items.slice(0, IMPORT.PREVIEW_LIMIT).map((item, index) => (
+          <li key={index} className="flex justify-between gap-2">
+            <span className="truncate" title={item.url}>
+              {item.title}
+            </span>
+            <span className="text-calm-500 shrink-0">
+              {formatDate(item.createdAt)}
+            </span>
+          </li>
+        ))}
+        {items.length > IMPORT.PREVIEW_LIMIT && (
+          <li className="text-calm-500">
+            …and {items.length - IMPORT.PREVIEW_LIMIT} more
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+
+/**
+ * ImportModal Component
+ * Reads a JSON or Markdown export, previews how it merges with the
+ * existing reflections, then imports it
+ */
+export const ImportModal: React.FC<ImportModalProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [content, setContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [strategy, setStrategy] = useState<ImportDuplicateStrategy>('skip');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setContent(null);
+    setFileName('');
+    setPreview(null);
+    setStrategy('skip');
+    setResult(null);
+    setError(null);
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    setFileName(file.name);
+
+    if (file.size > IMPORT.MAX_FILE_SIZE) {
+      setError('This file is too large to import.');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const text = await file.text();
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'previewImport',
+        payload: { content: text },
+      });
+      const r = response as Response<ImportPreview>;
+      if (!r?.success || !r.data) {
+        setError(r?.error ?? 'Could not read this file.');
+        return;
+      }
+      setContent(text);
+      setPreview(r.data);
+    } catch (err) {
+      devError('Failed to preview import:', err);
+      setError('Could not read this file.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (content === null) return;
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response: unknown = await chrome.runtime.sendMessage({
+        type: 'importReflections',
+        payload: { content, duplicateStrategy: strategy },
+      });
+      const r = response as Response<ImportResult>;
+      if (!r?.success || !r.data) {
+        setError(r?.error ?? 'Import failed.');
+        return;
+      }
+      setResult(r.data);
+    } catch (err) {
+      devError('Failed to import reflections:', err);
+      setError('Import failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Handle overlay click to close
+  const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target === e.currentTarget && !isWorking) {
+      onClose();
+    }
+  };
+
+  // Focus trap for modal; content changes between steps, so the
+  // focusable elements are looked up on each Tab press
+  useEffect(() => {
+    if (!isOpen || !modalRef.current) return;
+
+    const modal = modalRef.current;
+    const getFocusable = () =>
+      modal.querySelectorAll<HTMLElement>(
+        'button:not([disabled]), [href], input:not([disabled]), select, textarea, [tabindex]:not([tabindex="-1"])'
+      );
+    getFocusable()[0]?.focus();
+
+    const handleTabKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const focusable = getFocusable();
+      const firstElement = focusable[0];
+      const lastElement = focusable[focusable.length - 1];
+
+      if (e.shiftKey) {
+        if (document.activeElement === firstElement) {
+          e.preventDefault();
+          lastElement?.focus();
+        }
+      } else {
+        if (document.activeElement === lastElement) {
+          e.preventDefault();
+          firstElement?.focus();
+        }
+      }
+    };
+
+    modal.addEventListener('keydown', handleTabKey);
+    return () => modal.removeEventListener('keydown', handleTabKey);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const importCount =
+    (preview?.newReflections.length ?? 0) +
+    (strategy === 'replace' ? (preview?.duplicates.length ?? 0) : 0);
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-modal-title"
+      onClick={handleOverlayClick}
+    >
+      <div
+        ref={modalRef}
+        className="mx-6 w-full max-w-sm rounded-xl bg-white p-6 shadow-xl"
+      >
+        <h2
+          id="import-modal-title"
+          className="font-display text-calm-900 mb-4 text-lg font-semibold"
+        >
+          Import Reflections
+        </h2>
+
+        {result ? (
+          <div className="mb-6 space-y-1 text-sm" aria-live="polite">
+            <p className="text-calm-900 font-medium">Import complete</p>
+            <p className="text-calm-600">
+              {result.imported} added
+              {result.replaced > 0 && `, ${result.replaced} replaced`}
+              {result.skipped > 0 && `, ${result.skipped} skipped`}
+              {result.rejected > 0 && `, ${result.rejected} rejected`}.
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-calm-600 mb-4 text-sm">
+              Choose a JSON or Markdown file exported from Reflexa.
+            </p>
+            <label className="border-calm-200 hover:border-zen-400 mb-4 flex cursor-pointer items-center gap-3 rounded-lg border border-dashed p-4 transition-colors">
+              <input
+                type="file"
+                accept=".json,.md,.markdown,application/json,text/markdown"
+                onChange={(e) => void handleFileChange(e)}
+                disabled={isWorking}
+                className="sr-only"
+              />
+              <span className="text-calm-800 truncate text-sm font-medium">
+                {fileName || 'Select a file…'}
+              </span>
+            </label>
+
+            {preview && (
+              <div className="mb-4 space-y-3" aria-live="polite">
+                <p className="text-calm-600 text-xs">
+                  {preview.format === 'json' ? 'JSON' : 'Markdown'} export
+                </p>
+                <PreviewList title="New" items={preview.newReflections} />
+                <PreviewList title="Already saved" items={preview.duplicates} />
+                {preview.duplicates.length > 0 && (
+                  <fieldset className="space-y-1">
+                    <legend className="text-calm-700 mb-1 text-xs">
+                      For reflections you already have:
+                    </legend>
+                    <label className="text-calm-800 flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name="import-duplicates"
+                        checked={strategy === 'skip'}
+                        onChange={() => setStrategy('skip')}
+                        className="text-zen-600 h-4 w-4"
+                      />
+                      Keep my copy
+                    </label>
+                    <label className="text-calm-800 flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name="import-duplicates"
+                        checked={strategy === 'replace'}
+                        onChange={() => setStrategy('replace')}
+                        className="text-zen-600 h-4 w-4"
+                      />
+                      Replace with the imported version
+                    </label>
+                  </fieldset>
+                )}
+                {preview.errors.length > 0 && (
+                  <details className="text-xs text-amber-700">
+                    <summary className="cursor-pointer">
+                      {preview.errors.length} entr
+                      {preview.errors.length === 1 ? 'y' : 'ies'} can't be
+                      imported
+                    </summary>
+                    <ul className="mt-1 max-h-20 list-disc overflow-y-auto pl-4">
+                      {preview.errors.map((message, index) => (
+                        <li key={index}>{message}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div
+            className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-xs text-red-700"
+            role="alert"
+          >
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="text-calm-600 hover:bg-calm-100 focus-visible:outline-zen-500 flex-1 rounded-lg px-4 py-2.5 text-sm font-semibold transition-colors focus-visible:outline-2 focus-visible:outline-offset-2"
+            disabled={isWorking}
+          >
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              onClick={() => void handleImport()}
+              className="from-zen-500 to-zen-600 hover:from-zen-600 hover:to-zen-700 focus-visible:outline-zen-500 flex-1 rounded-lg bg-linear-to-r px-4 py-2.5 text-sm font-semibold text-white transition-all focus-visible:outline-2 focus-visible:outline-offset-2 disabled:opacity-50"
+              disabled={isWorking || importCount === 0}
+            >
+              {isWorking
+                ? 'Working...'
+                : importCount > 0
+                  ? `Import ${importCount}`
+                  : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,19 @@
-import React from 'react';
-import type { Reflection } from '../types';
+import React, { useState } from 'react';
+import type { Reflection, SearchSnippet } from '../types';
+import { splitSnippet } from '../utils/useReflectionSearch';
+import { useRelatedReflections } from '../utils/useRelatedReflections';
+import { useReflectionEditor } from '../utils/useReflectionEditor';
+import { ReflectionEditor } from './ReflectionEditor';
+import { RevisionHistory } from './RevisionHistory';
 
 interface ReflectionCardProps {
   reflection: Reflection;
+  snippet?: SearchSnippet;
   onDelete?: (id: string) => void;
   isLoading?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  onTagClick?: (tag: string) => void;
 }
 
 /**
@@ -14,15 +23,30 @@ interface ReflectionCardProps {
  * - Three-bullet summary with icons
  * - User's reflection text in serif font (Lora)
  * - Hover effect with shadow transition
+ * - Optional search snippet with highlighted matches
+ * - Tag chips, optionally clickable to filter by tag
+ * - Optional selection checkbox for bulk actions
+ * - Related reflections found by embedding similarity, loaded on demand
+ * - Edit mode with proofread and tone rewrite, plus revision history
  * - Optional delete button
  * - Loading state with skeleton UI
  * - Error handling for malformed data
  */
 const ReflectionCardComponent: React.FC<ReflectionCardProps> = ({
   reflection,
+  snippet,
   onDelete,
   isLoading = false,
+  isSelected = false,
+  onToggleSelect,
+  onTagClick,
 }) => {
+  const [showRelated, setShowRelated] = useState(false);
+  const related = useRelatedReflections(
+    showRelated && reflection?.id ? { reflectionId: reflection.id } : null
+  );
+  const editor = useReflectionEditor(reflection);
+
   // Loading state - skeleton UI
   if (isLoading) {
     return (
@@ -147,7 +171,16 @@ const ReflectionCardComponent: React.FC<ReflectionCardProps> = ({
       aria-label={`Reflection on ${reflection.title}`}
     >
       {/* Header with title and date */}
-      <header className="mb-4">
+      <header className={`mb-4 ${onToggleSelect ? 'pl-7' : ''}`}>
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onToggleSelect(reflection.id)}
+            aria-label={`Select ${reflection.title}`}
+            className="accent-zen-600 absolute top-7 left-6 h-4 w-4"
+          />
+        )}
         <a
           href={reflection.url}
           target="_blank"
@@ -162,8 +195,50 @@ const ReflectionCardComponent: React.FC<ReflectionCardProps> = ({
         >
           {formatDate(reflection.createdAt)}
         </time>
+        {reflection.tags && reflection.tags.length > 0 && (
+          <ul className="mt-2 flex flex-wrap gap-1.5" aria-label="Tags">
+            {reflection.tags.map((tag) => (
+              <li key={tag}>
+                {onTagClick ? (
+                  <button
+                    type="button"
+                    onClick={() => onTagClick(tag)}
+                    className="bg-calm-100 text-calm-700 hover:bg-zen-100 hover:text-zen-700 rounded-full px-2 py-0.5 text-xs"
+                  >
+                    #{tag}
+                  </button>
+                ) : (
+                  <span className="bg-calm-100 text-calm-700 rounded-full px-2 py-0.5 text-xs">
+                    #{tag}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </header>
 
+      {/* Search match with highlighted terms */}
+      {snippet && (
+        <p
+          className="bg-zen-50 text-calm-700 mb-4 rounded-md p-3 text-sm leading-relaxed"
+          aria-label="Search match"
+        >
+          {splitSnippet(snippet).map((part, index) =>
+            part.highlighted ? (
+              <mark
+                key={index}
+                className="bg-zen-200 text-calm-900 rounded-sm px-0.5"
+              >
+                {part.text}
+              </mark>
+            ) : (
+              <React.Fragment key={index}>{part.text}</React.Fragment>
+            )
+          )}
+        </p>
+      )}
+
       {/* Three-bullet summary */}
       {reflection.summary && reflection.summary.length > 0 && (
         <div className="mb-4 space-y-3">
@@ -192,19 +267,69 @@ const ReflectionCardComponent: React.FC<ReflectionCardProps> = ({
         </div>
       )}
 
-      {/* User's reflection text */}
-      {reflection.reflection && reflection.reflection.length > 0 && (
-        <div className="border-calm-200 space-y-3 border-t pt-4">
-          {reflection.reflection.map((text, index) => (
-            <p
-              key={index}
-              className="text-calm-800 font-serif text-base leading-relaxed"
+      {/* User's reflection text, or the editor while editing */}
+      {editor.isEditing ? (
+        <ReflectionEditor editor={editor} />
+      ) : (
+        reflection.reflection &&
+        reflection.reflection.length > 0 && (
+          <div className="border-calm-200 space-y-3 border-t pt-4">
+            {reflection.reflection.map((text, index) => (
+              <p
+                key={index}
+                className="text-calm-800 font-serif text-base leading-relaxed"
+              >
+                {text}
+              </p>
+            ))}
+          </div>
+        )
+      )}
+
+      <RevisionHistory reflection={reflection} />
+
+      {/* Edit and related reflections */}
+      <div className="mt-4">
+        <div className="flex gap-4">
+          {!editor.isEditing && (
+            <button
+              type="button"
+              onClick={editor.start}
+              className="text-zen-600 hover:text-zen-700 focus-visible:outline-zen-500 text-xs font-semibold focus-visible:outline-2 focus-visible:outline-offset-2"
             >
-              {text}
-            </p>
-          ))}
+              Edit
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowRelated((prev) => !prev)}
+            aria-expanded={showRelated}
+            className="text-zen-600 hover:text-zen-700 focus-visible:outline-zen-500 text-xs font-semibold focus-visible:outline-2 focus-visible:outline-offset-2"
+          >
+            {showRelated ? 'Hide related' : 'Show related reflections'}
+          </button>
         </div>
-      )}
+        {showRelated && related !== null && (
+          <ul className="mt-2 space-y-1" aria-label="Related reflections">
+            {related.length === 0 ? (
+              <li className="text-calm-500 text-xs">Nothing similar yet.</li>
+            ) : (
+              related.map(({ reflection: match }) => (
+                <li key={match.id} className="text-sm">
+                  <a
+                    href={match.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-calm-800 hover:text-zen-600"
+                  >
+                    {match.title}
+                  </a>
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+      </div>
 
       {/* Optional delete button */}
       {onDelete && (
@@ -246,8 +371,14 @@ export const ReflectionCard = React.memo(
       prevProps.reflection.title === nextProps.reflection.title &&
       prevProps.reflection.summary === nextProps.reflection.summary &&
       prevProps.reflection.reflection === nextProps.reflection.reflection &&
+      prevProps.reflection.tags === nextProps.reflection.tags &&
+      prevProps.reflection.revisions === nextProps.reflection.revisions &&
+      prevProps.snippet === nextProps.snippet &&
       prevProps.onDelete === nextProps.onDelete &&
-      prevProps.isLoading === nextProps.isLoading
+      prevProps.isLoading === nextProps.isLoading &&
+      prevProps.isSelected === nextProps.isSelected &&
+      prevProps.onToggleSelect === nextProps.onToggleSelect &&
+      prevProps.onTagClick === nextProps.onTagClick
     );
   }
 );
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { TonePreset } from '../types';
+import { toneOptions } from '../content/components/TonePresetChips/constants';
+import type { useReflectionEditor } from '../utils/useReflectionEditor';
+
+interface ReflectionEditorProps {
+  editor: ReturnType<typeof useReflectionEditor>;
+}
+
+/**
+ * ReflectionEditor component shows edit mode for a saved reflection:
+ * - One textarea per reflection answer
+ * - Proofread and tone rewrite per answer
+ * - Save and cancel, with inline errors
+ */
+export const ReflectionEditor: React.FC<ReflectionEditorProps> = ({
+  editor,
+}) => {
+  const isBusy = editor.busyIndex !== null || editor.isSaving;
+
+  return (
+    <div className="border-calm-200 space-y-4 border-t pt-4">
+      {editor.drafts.map((draft, index) => (
+        <div key={index} className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => editor.setDraft(index, e.target.value)}
+            disabled={isBusy}
+            rows={4}
+            aria-label={`Reflection ${index + 1}`}
+            className="border-calm-200 text-calm-800 focus-visible:outline-zen-500 w-full rounded-md border p-3 font-serif text-base leading-relaxed focus-visible:outline-2 focus-visible:outline-offset-2"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => void editor.proofread(index)}
+              disabled={isBusy || !draft.trim()}
+              className="border-calm-300 text-calm-700 hover:bg-calm-100 rounded-md border px-2 py-1 text-xs font-semibold disabled:opacity-50"
+            >
+              {editor.busyIndex === index ? 'Working…' : 'Proofread'}
+            </button>
+            <select
+              value=""
+              onChange={(e) =>
+                void editor.rewrite(index, e.target.value as TonePreset)
+              }
+              disabled={isBusy || !draft.trim()}
+              aria-label={`Rewrite reflection ${index + 1} in a tone`}
+              className="border-calm-300 text-calm-700 rounded-md border bg-white px-2 py-1 text-xs disabled:opacity-50"
+            >
+              <option value="" disabled>
+                Rewrite tone…
+              </option>
+              {toneOptions.map((tone) => (
+                <option key={tone.value} value={tone.value}>
+                  {tone.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      {editor.error && (
+        <p className="text-xs text-red-600" role="alert">
+          {editor.error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={editor.cancel}
+          disabled={editor.isSaving}
+          className="text-calm-600 hover:text-calm-800 px-3 py-1.5 text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => void editor.save()}
+          disabled={isBusy}
+          className="bg-zen-600 hover:bg-zen-700 rounded-md px-3 py-1.5 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {editor.isSaving ? 'Saving…' : 'Save changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
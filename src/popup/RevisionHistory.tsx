@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import type { Reflection } from '../types';
+import { diffTexts } from '../content/components/ProofreadDiffView/utils';
+import type { TextSegment } from '../content/components/ProofreadDiffView/types';
+import { getRevisionChanges } from '../utils/useReflectionEditor';
+
+interface RevisionHistoryProps {
+  reflection: Reflection;
+}
+
+const DiffText: React.FC<{ segments: TextSegment[]; removed?: boolean }> = ({
+  segments,
+  removed = false,
+}) => (
+  <p className="text-calm-700 text-sm leading-relaxed whitespace-pre-wrap">
+    {segments.map((segment, index) =>
+      !segment.isHighlight ? (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ) : removed ? (
+        <del key={index} className="rounded-sm bg-red-100 text-red-800">
+          {segment.text}
+        </del>
+      ) : (
+        <ins
+          key={index}
+          className="rounded-sm bg-green-100 text-green-800 no-underline"
+        >
+          {segment.text}
+        </ins>
+      )
+    )}
+  </p>
+);
+
+/**
+ * RevisionHistory component lists earlier versions of a reflection and
+ * shows a word diff of each edit on demand
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  reflection,
+}) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const changes = useMemo(() => getRevisionChanges(reflection), [reflection]);
+  const diff = useMemo(
+    () =>
+      openIndex !== null && changes[openIndex]
+        ? diffTexts(changes[openIndex].before, changes[openIndex].after)
+        : null,
+    [changes, openIndex]
+  );
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="mt-3">
+      <summary className="text-calm-500 hover:text-calm-700 cursor-pointer text-xs font-semibold">
+        Edited {changes.length} {changes.length === 1 ? 'time' : 'times'}
+      </summary>
+      <ul className="mt-2 space-y-2" aria-label="Revision history">
+        {changes.map((change, index) => (
+          <li key={change.editedAt}>
+            <button
+              type="button"
+              onClick={() =>
+                setOpenIndex((prev) => (prev === index ? null : index))
+              }
+              aria-expanded={openIndex === index}
+              className="text-zen-600 hover:text-zen-700 text-xs"
+            >
+              {new Date(change.editedAt).toLocaleString()}
+            </button>
+            {openIndex === index && diff && (
+              <div className="bg-calm-50 mt-1 space-y-2 rounded-md p-3">
+                <DiffText segments={diff.before} removed />
+                <DiffText segments={diff.after} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
@@ -1,40 +1,125 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+} from 'react';
 
 interface VirtualListProps<T> {
   items: T[];
-  itemHeight: number;
+  estimatedItemHeight: number;
   containerHeight: number;
   renderItem: (item: T, index: number) => React.ReactNode;
+  getItemKey?: (item: T, index: number) => React.Key;
   overscan?: number;
   className?: string;
 }
 
+interface MeasuredRowProps {
+  rowKey: React.Key;
+  onMeasure: (key: React.Key, height: number) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Row that reports its rendered height, again whenever it changes size
+ * (an expanded card, an open editor)
+ */
+function MeasuredRow({ rowKey, onMeasure, children }: MeasuredRowProps) {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!row) return;
+
+    onMeasure(rowKey, row.getBoundingClientRect().height);
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      onMeasure(rowKey, row.getBoundingClientRect().height);
+    });
+    observer.observe(row);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [rowKey, onMeasure]);
+
+  return <div ref={rowRef}>{children}</div>;
+}
+
+/**
+ * Index of the first row ending below the given offset
+ * @param offsets - Start of each row, followed by the total height
+ */
+const findRowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.max(0, low);
+};
+
 /**
  * VirtualList component for efficient rendering of large lists
  * Only renders visible items plus overscan buffer
+ * Rows may differ in height and change size: each rendered row is measured,
+ * and rows not yet rendered count as the estimated height
  * Significantly improves performance for large reflection lists
  */
 export function VirtualList<T>({
   items,
-  itemHeight,
+  estimatedItemHeight,
   containerHeight,
   renderItem,
+  getItemKey = (_item, index) => index,
   overscan = 3,
   className = '',
 }: VirtualListProps<T>) {
   const [scrollTop, setScrollTop] = useState(0);
+  const [measuredHeights, setMeasuredHeights] = useState<
+    Map<React.Key, number>
+  >(() => new Map());
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Record a row's height; zero means it hasn't been laid out
+  const handleMeasure = useCallback((key: React.Key, height: number) => {
+    if (height <= 0) return;
+    setMeasuredHeights((heights) => {
+      if (heights.get(key) === height) return heights;
+      const next = new Map(heights);
+      next.set(key, height);
+      return next;
+    });
+  }, []);
+
+  const keys = items.map(getItemKey);
+
+  // Start of each row, followed by the total height
+  const offsets = [0];
+  keys.forEach((key, index) => {
+    offsets.push(
+      offsets[index] + (measuredHeights.get(key) ?? estimatedItemHeight)
+    );
+  });
+
   // Calculate visible range
-  const startIndex = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const startIndex = Math.max(0, findRowAt(offsets, scrollTop) - overscan);
   const endIndex = Math.min(
     items.length - 1,
-    Math.ceil((scrollTop + containerHeight) / itemHeight) + overscan
+    findRowAt(offsets, scrollTop + containerHeight) + overscan
   );
 
   // Calculate total height and offset
-  const totalHeight = items.length * itemHeight;
-  const offsetY = startIndex * itemHeight;
+  const totalHeight = offsets[items.length];
+  const offsetY = offsets[startIndex];
 
   // Visible items
   const visibleItems = items.slice(startIndex, endIndex + 1);
@@ -83,14 +168,13 @@ export function VirtualList<T>({
           }}
         >
           {visibleItems.map((item, index) => (
-            <div
-              key={startIndex + index}
-              style={{
-                height: `${itemHeight}px`,
-              }}
+            <MeasuredRow
+              key={keys[startIndex + index]}
+              rowKey={keys[startIndex + index]}
+              onMeasure={handleMeasure}
             >
               {renderItem(item, startIndex + index)}
-            </div>
+            </MeasuredRow>
           ))}
         </div>
       </div>
@@ -13,7 +13,7 @@ export interface AISummarizer {
   ): Promise<string>;
   summarizeStreaming(
     input: string,
-    options?: { context?: string }
+    options?: { context?: string; signal?: AbortSignal }
   ): ReadableStream;
   destroy(): void;
 }
@@ -50,7 +50,7 @@ export interface AIWriter {
   ): Promise<string>;
   writeStreaming(
     input: string,
-    options?: { context?: string }
+    options?: { context?: string; signal?: AbortSignal }
   ): ReadableStream & AsyncIterable<string>;
   destroy(): void;
 }
@@ -212,8 +212,17 @@ export interface AITranslatorFactory {
  * Prompt API (Language Model) types
  */
 export interface AILanguageModel {
-  prompt(input: string, options?: { signal?: AbortSignal }): Promise<string>;
-  promptStreaming(input: string): ReadableStream<string>;
+  prompt(
+    input: string,
+    options?: {
+      signal?: AbortSignal;
+      responseConstraint?: Record<string, unknown>; // JSON Schema
+    }
+  ): Promise<string>;
+  promptStreaming(
+    input: string,
+    options?: { signal?: AbortSignal }
+  ): ReadableStream<string>;
   countPromptTokens(input: string): Promise<number>;
   maxTokens: number;
   tokensSoFar: number;
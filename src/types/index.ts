@@ -23,8 +23,10 @@ export interface Reflection {
   url: string; // Full page URL
   title: string; // Page title
   createdAt: number; // Unix timestamp
+  updatedAt?: number; // Unix timestamp of the last edit
   summary: string[]; // [Insight, Surprise, Apply]
   reflection: string[]; // User answers to prompts
+  prompts?: string[]; // Questions the answers respond to
   proofreadVersion?: string; // Optional proofread text
   tags?: string[]; // Optional user tags
   embedding?: number[]; // Optional 128-d vector
@@ -38,6 +40,64 @@ export interface Reflection {
   aiMetadata?: AIMetadata;
   // Voice input metadata for each reflection field
   voiceMetadata?: VoiceInputMetadata[];
+  // Prior versions, newest first, bounded by REVISIONS.MAX_PER_REFLECTION
+  revisions?: ReflectionRevision[];
+  // Questions asked about the article and their answers, if kept
+  chat?: ChatMessage[];
+  // The first question and answer, then each follow-up asked about them
+  questionChain?: QuestionExchange[];
+  // Reading before the reflection started, measured on the page
+  readingTime?: number; // Seconds spent reading the article
+  readingProgress?: number; // Share of the article read (0-1)
+  // Seconds spent in each phase of the reflection flow
+  phaseTimes?: ReflectionPhaseTimes;
+  // Where the article came from, as its page describes itself
+  source?: ArticleSource;
+  // The article's structure, trimmed to OUTLINE limits
+  outline?: OutlineBlock[];
+}
+
+/**
+ * Seconds spent in each phase of the reflection flow
+ */
+export interface ReflectionPhaseTimes {
+  breathing: number; // Settling in before the summary
+  summary: number; // Reading the summary
+  questions: number; // Answering the questions and follow-ups
+}
+
+/**
+ * How much of a page has been read
+ */
+export interface ReadingStats {
+  readingTime: number; // Seconds spent reading
+  progress?: number; // Share of the article read (0-1), when measurable
+}
+
+/**
+ * A question and the user's answer to it
+ */
+export interface QuestionExchange {
+  question: string;
+  answer: string;
+}
+
+/**
+ * One message in a chat about an article
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A previous version of a reflection's editable text
+ */
+export interface ReflectionRevision {
+  savedAt: number; // When this version was saved
+  reflection: string[];
+  proofreadVersion?: string;
+  toneUsed?: TonePreset;
 }
 
 /**
@@ -65,16 +125,139 @@ export interface Settings {
   voiceInputEnabled?: boolean; // Enable/disable voice input (default true)
   voiceLanguage?: string; // Voice recognition language (default: browser language)
   voiceAutoStopDelay?: number; // Auto-stop delay in milliseconds (default 3000)
+  // Share of the article to read before the nudge appears; 0 uses time only
+  readingProgressThreshold?: number; // 0-1, default 0.4
+  // Follow-up questions asked about the first answer; 0 turns them off
+  followUpDepth?: number; // default 1
+  // Backup settings
+  backupEnabled?: boolean; // Take scheduled local snapshots (default true)
+  backupIntervalHours?: number; // Hours between snapshots (default 24)
+  backupRetention?: number; // Number of snapshots kept (default 7)
+  // Prompt template overrides (missing templates use the defaults)
+  promptTemplates?: PromptTemplates;
+  // User-defined summary formats (default: the starter formats)
+  customSummaryFormats?: CustomSummaryFormat[];
+  // Where the lotus nudge appears (default: the starter rules)
+  siteRules?: SiteRule[];
+  nudgeOnUnlistedSites?: boolean; // Show on sites without a rule (default true)
+  // AI provider settings
+  aiProvider?: AIProviderId; // Where AI requests run (default 'chrome')
+  localAIProvider?: LocalAIProviderSettings; // Used when aiProvider is 'local'
+}
+
+/**
+ * AI providers: Chrome's built-in models, or an OpenAI-compatible server
+ * running on this machine (llama.cpp, Ollama, ...)
+ */
+export type AIProviderId = 'chrome' | 'local';
+
+/**
+ * Connection details for a local OpenAI-compatible server
+ */
+export interface LocalAIProviderSettings {
+  endpoint: string; // Base URL of the API, e.g. http://localhost:11434/v1
+  model: string; // Model name sent with each request
+}
+
+/**
+ * Prompt templates the user can edit in the options page
+ */
+export type PromptTemplateId =
+  | 'summarize'
+  | 'summarizeSystem'
+  | 'reflect'
+  | 'followUp'
+  | 'reviseSummary'
+  | 'proofread'
+  | 'rewriteSystem';
+
+/**
+ * Built-in description of an editable prompt template
+ */
+export interface PromptTemplateDefinition {
+  label: string;
+  description: string;
+  placeholders: string[]; // Placeholder names the template must contain
+  defaultText: string;
+}
+
+/**
+ * A previously saved version of a prompt template
+ */
+export interface PromptTemplateVersion {
+  text: string;
+  savedAt: number; // Unix timestamp
+}
+
+/**
+ * The user's changes to one prompt template
+ */
+export interface PromptTemplateOverride {
+  text?: string; // Custom text; absent when reset to the default
+  history: PromptTemplateVersion[]; // Earlier versions, newest first
+}
+
+export type PromptTemplates = Partial<
+  Record<PromptTemplateId, PromptTemplateOverride>
+>;
+
+/**
+ * Text from the page the user last viewed, for previewing templates
+ */
+export interface PromptPreviewContent {
+  title: string;
+  url: string;
+  text: string;
+  summary?: string[]; // Summary shown in the overlay, if there is one
 }
 
 /**
  * Extracted content from a web page
  */
-export interface ExtractedContent {
+export interface ExtractedContent extends ArticleSource {
   title: string;
   text: string;
   url: string;
   wordCount: number;
+  sections?: ContentSection[]; // Text split at headings, when the page has them
+  outline?: OutlineBlock[]; // Headings, paragraphs, lists, quotes and code
+}
+
+/**
+ * Provenance of an article, read from its page
+ */
+export interface ArticleSource {
+  author?: string; // Authors joined with commas
+  publishedDate?: string; // As the page gives it, e.g. an ISO timestamp
+  siteName?: string;
+  canonicalUrl?: string;
+  language?: string; // The page's lang attribute, e.g. "en-GB"
+  estimatedReadingTime?: number; // Minutes at READING.WORDS_PER_MINUTE
+}
+
+/**
+ * A block of an article, in document order
+ */
+export type OutlineBlock =
+  | { type: 'heading'; level: number; text: string } // level 1-6
+  | { type: 'paragraph' | 'blockquote' | 'code'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+/**
+ * A run of article text under one heading
+ */
+export interface ContentSection {
+  heading?: string; // Absent for text before the first heading
+  text: string;
+}
+
+/**
+ * Progress of summarizing a long article in chunks
+ */
+export interface SummaryProgress {
+  stage: 'map' | 'reduce'; // Summarizing chunks, or combining their notes
+  completed: number;
+  total: number;
 }
 
 /**
@@ -106,6 +289,203 @@ export interface StreakData {
   lastReflectionDate: string; // ISO date string
 }
 
+/**
+ * Reflection fields covered by full-text search
+ */
+export type SearchField =
+  | 'title'
+  | 'summary'
+  | 'reflection'
+  | 'proofreadVersion'
+  | 'tags';
+
+/**
+ * Excerpt of a matching field with highlighted character ranges
+ */
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: [start: number, end: number][]; // Offsets into text
+}
+
+/**
+ * Single full-text search hit
+ */
+export interface SearchResult {
+  reflection: Reflection;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+/**
+ * Payload for the searchReflections message
+ */
+export interface SearchRequest {
+  query: string;
+  limit?: number;
+}
+
+/**
+ * Reflection found close to a query by embedding similarity
+ */
+export interface RelatedReflection {
+  reflection: Reflection;
+  similarity: number; // Cosine similarity, 0–1 for typical text
+}
+
+/**
+ * Payload for the findRelatedReflections message
+ * Either embeds text or reuses the embedding of a stored reflection
+ */
+export interface RelatedReflectionsRequest {
+  text?: string;
+  reflectionId?: string;
+  excludeUrl?: string; // Skip reflections on this page
+  limit?: number;
+}
+
+/**
+ * Tag with the number of reflections carrying it
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Payload for the updateTags message (bulk tag edit)
+ */
+export interface TagUpdateRequest {
+  ids: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+/**
+ * Payload for the updateReflection message
+ * Replaces the editable text; a missing proofreadVersion clears it
+ */
+export interface ReflectionUpdateRequest {
+  id: string;
+  reflection: string[];
+  proofreadVersion?: string;
+  toneUsed?: TonePreset;
+}
+
+/**
+ * Formats reflections can be exported to
+ */
+export type ExportFormat =
+  | 'json'
+  | 'markdown'
+  | 'csv'
+  | 'html'
+  | 'anki'
+  | 'obsidian';
+
+/**
+ * Payload for the exportReflections message
+ */
+export interface ExportRequest {
+  format: ExportFormat;
+  filters?: ExportFilters; // Export everything when omitted
+}
+
+/**
+ * Narrows which reflections an export includes; all set fields must match
+ */
+export interface ExportFilters {
+  from?: number; // Earliest createdAt, inclusive
+  to?: number; // Latest createdAt, inclusive
+  domain?: string; // Page hostname, as from extractDomain
+  tags?: string[]; // Reflections with any of these tags
+  language?: string; // Detected language code
+  proofreadOnly?: boolean; // Only reflections with a proofread version
+}
+
+/**
+ * An export ready to download
+ * Binary formats (zip) are base64-encoded so they survive messaging
+ */
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  data: string;
+  encoding: 'utf-8' | 'base64';
+}
+
+/**
+ * File formats accepted by the importer (our JSON and Markdown exports)
+ */
+export type ImportFormat = 'json' | 'markdown';
+
+/**
+ * What to do with imported reflections that already exist locally
+ */
+export type ImportDuplicateStrategy = 'skip' | 'replace';
+
+/**
+ * Payload for the previewImport and importReflections messages
+ */
+export interface ImportRequest {
+  content: string; // File contents
+  duplicateStrategy?: ImportDuplicateStrategy; // default 'skip'
+}
+
+/**
+ * Summary of one reflection in an import preview
+ */
+export interface ImportPreviewItem {
+  title: string;
+  url: string;
+  createdAt: number;
+}
+
+/**
+ * What an import would do, shown before anything is written
+ */
+export interface ImportPreview {
+  format: ImportFormat;
+  newReflections: ImportPreviewItem[];
+  duplicates: ImportPreviewItem[];
+  errors: string[]; // One message per rejected entry
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportResult {
+  imported: number; // New reflections added
+  replaced: number; // Existing reflections overwritten
+  skipped: number; // Duplicates left untouched
+  rejected: number; // Entries that failed validation
+}
+
+/**
+ * Why a backup snapshot was taken
+ */
+export type BackupTrigger = 'scheduled' | 'manual' | 'pre-restore';
+
+/**
+ * A stored backup snapshot, without its contents
+ */
+export interface BackupSummary {
+  id: string;
+  createdAt: number; // Unix timestamp
+  trigger: BackupTrigger;
+  reflectionCount: number;
+  bytes: number; // Size of the JSON export
+}
+
+/**
+ * Outcome of restoring a backup snapshot
+ */
+export interface BackupRestoreResult {
+  restored: number; // Reflections now stored
+  removedIds: string[]; // Reflections the snapshot didn't include
+  safetyBackupId?: string; // Snapshot of what was replaced, if any
+}
+
 /**
  * Message types for chrome.runtime communication
  */
@@ -118,6 +498,7 @@ export type MessageType =
   | 'getSettings'
   | 'updateSettings'
   | 'resetSettings'
+  | 'clearSyncedReflections'
   | 'checkAI'
   | 'checkAllAI'
   | 'getCapabilities'
@@ -132,6 +513,20 @@ export type MessageType =
   | 'getStreak'
   | 'deleteReflection'
   | 'exportReflections'
+  | 'searchReflections'
+  | 'findRelatedReflections'
+  | 'getTags'
+  | 'updateTags'
+  | 'updateReflection'
+  | 'previewImport'
+  | 'importReflections'
+  | 'listBackups'
+  | 'createBackup'
+  | 'restoreBackup'
+  | 'getPromptPreviewContent'
+  | 'suggestTags'
+  | 'followUp'
+  | 'cancelAIRequests'
   | 'openDashboardInActiveTab'
   | 'startReflectInActiveTab';
 
@@ -148,7 +543,14 @@ export interface Message {
  * Success response includes data, failure response includes error
  */
 export type AIResponse<T = unknown> =
-  | { success: true; data: T; apiUsed: string; duration: number }
+  | {
+      success: true;
+      data: T;
+      apiUsed: string;
+      duration: number;
+      cached?: boolean; // Served from the AI result cache
+      quality?: SummaryQuality; // Summaries: how the summary was scored
+    }
   | { success: false; error: string; apiUsed?: string; duration: number };
 
 /**
@@ -156,9 +558,56 @@ export type AIResponse<T = unknown> =
  */
 
 /**
- * Summary format options for Summarizer API
+ * Summary formats built into the extension
+ */
+export type BuiltInSummaryFormat = 'bullets' | 'paragraph' | 'headline-bullets';
+
+/**
+ * Id of a user-defined summary format, e.g. "custom:cornell-notes"
+ */
+export type CustomSummaryFormatId = `custom:${string}`;
+
+/**
+ * Summary format options; custom formats are written by the Prompt API
+ */
+export type SummaryFormat = BuiltInSummaryFormat | CustomSummaryFormatId;
+
+/**
+ * How a custom format's response is split into summary items
+ * - list: one item per line, without bullet markers
+ * - labeled: "Label: text" lines; unlabeled lines continue the last item
+ * - text: the whole response as a single paragraph
+ */
+export type SummaryResponseParser = 'list' | 'labeled' | 'text';
+
+/**
+ * What a site rule does with the lotus nudge
+ * - never: don't show it
+ * - always: show it after the usual dwell threshold
+ * - custom: show it after the rule's own threshold
  */
-export type SummaryFormat = 'bullets' | 'paragraph' | 'headline-bullets';
+export type SiteRuleAction = 'never' | 'always' | 'custom';
+
+/**
+ * When the lotus nudge appears on matching pages
+ */
+export interface SiteRule {
+  id: string;
+  pattern: string; // Domain ("mail.google.com") or URL glob ("google.com/search*")
+  action: SiteRuleAction;
+  dwellThreshold?: number; // Seconds, for custom rules
+}
+
+/**
+ * A user-defined summary format
+ */
+export interface CustomSummaryFormat {
+  id: CustomSummaryFormatId;
+  name: string;
+  description: string;
+  prompt: string; // Prompt template with a {content} placeholder
+  parser: SummaryResponseParser;
+}
 
 /**
  * Tone preset options for text rewriting
@@ -177,6 +626,7 @@ export interface AICapabilities {
   translator: boolean;
   prompt: boolean;
   experimental: boolean;
+  provider?: AIProviderId; // Provider the capabilities belong to
 }
 
 /**
@@ -248,6 +698,22 @@ export interface AIMetadata {
   translatorUsed: boolean;
   promptFallback: boolean;
   processingTime: number;
+  summaryQuality?: SummaryQuality; // Checks run on the summary, if scored
+}
+
+/**
+ * How well a summary passed the checks run on it; each check scores 0-1
+ */
+export interface SummaryQuality {
+  score: number; // Weighted score of the checks, 0-1
+  passed: boolean;
+  attempts: number; // Summaries written, counting corrective retries
+  checks: {
+    length: number; // Share of items within the word limit
+    redundancy: number; // Share of item pairs that don't repeat each other
+    sourceOverlap: number; // Share of items not copied from the article
+    language?: number; // 1 if in the expected language; unset if undetected
+  };
 }
 
 /**
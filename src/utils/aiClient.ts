@@ -4,7 +4,7 @@
  */
 
 import { sendMessage } from './messageBus';
-import type { MessageType } from '../types';
+import type { MessageType, QuestionExchange } from '../types';
 import { devError } from './logger';
 
 /**
@@ -43,6 +43,24 @@ export async function generateReflectionPrompts(
   return response.data;
 }
 
+/**
+ * Prompt API - Ask a follow-up question about the answers so far
+ * @returns The question, or an empty string on failure
+ */
+export async function generateFollowUpQuestion(
+  summary: string[],
+  chain: QuestionExchange[]
+): Promise<string> {
+  const response = await send<string>('followUp', { summary, chain });
+
+  if (!response.success) {
+    devError('Follow-up question failed:', response.error);
+    return '';
+  }
+
+  return response.data;
+}
+
 /**
  * Proofreader API - Proofread text
  * Automatically uses native Proofreader API if available, falls back to Prompt API
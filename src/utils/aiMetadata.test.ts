@@ -0,0 +1,43 @@
+/**
+ * Unit tests for AI metadata utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildAIMetadata } from './aiMetadata';
+import { DEFAULT_AI_METADATA } from '../constants';
+import type { SummaryQuality } from '../types';
+
+describe('buildAIMetadata', () => {
+  it('should flag the APIs that wrote the summary and questions', () => {
+    expect(buildAIMetadata(['chrome:summarizer', 'chrome:prompt'])).toEqual({
+      ...DEFAULT_AI_METADATA,
+      summarizerUsed: true,
+      promptFallback: true,
+    });
+  });
+
+  it('should read the API from any provider', () => {
+    expect(buildAIMetadata(['local:prompt', null])).toEqual({
+      ...DEFAULT_AI_METADATA,
+      promptFallback: true,
+    });
+  });
+
+  it('should keep the summary quality', () => {
+    const quality: SummaryQuality = {
+      score: 0.9,
+      passed: true,
+      attempts: 1,
+      checks: { length: 1, redundancy: 0.8, sourceOverlap: 1 },
+    };
+
+    expect(buildAIMetadata([undefined], quality)).toEqual({
+      ...DEFAULT_AI_METADATA,
+      summaryQuality: quality,
+    });
+  });
+
+  it('should return nothing without recorded AI use', () => {
+    expect(buildAIMetadata([null, 'storage'])).toBeUndefined();
+  });
+});
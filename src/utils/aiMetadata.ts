@@ -0,0 +1,51 @@
+/**
+ * AI Metadata Utilities
+ * Records which AI APIs wrote a reflection's summary and questions, from
+ * the apiUsed values responses carry ("<provider>:<api>", e.g.
+ * "chrome:summarizer")
+ */
+
+import type { AIMetadata, SummaryQuality } from '../types';
+import { DEFAULT_AI_METADATA } from '../constants';
+
+type AIMetadataFlag = Exclude<
+  keyof AIMetadata,
+  'processingTime' | 'summaryQuality'
+>;
+
+const API_FLAGS: Record<string, AIMetadataFlag> = {
+  summarizer: 'summarizerUsed',
+  writer: 'writerUsed',
+  rewriter: 'rewriterUsed',
+  proofreader: 'proofreaderUsed',
+  translator: 'translatorUsed',
+  prompt: 'promptFallback',
+};
+
+/**
+ * Build a reflection's AI metadata
+ * @param apisUsed - apiUsed of each response that went into the reflection;
+ *   missing values are skipped
+ * @param summaryQuality - How the summary scored, if it was checked
+ * @returns The metadata, or undefined if no AI use was recorded
+ */
+export function buildAIMetadata(
+  apisUsed: (string | null | undefined)[],
+  summaryQuality?: SummaryQuality
+): AIMetadata | undefined {
+  const metadata: AIMetadata = {
+    ...DEFAULT_AI_METADATA,
+    ...(summaryQuality && { summaryQuality }),
+  };
+  let recorded = summaryQuality !== undefined;
+
+  for (const apiUsed of apisUsed) {
+    const flag = apiUsed ? API_FLAGS[apiUsed.split(':').pop() ?? ''] : null;
+    if (flag) {
+      metadata[flag] = true;
+      recorded = true;
+    }
+  }
+
+  return recorded ? metadata : undefined;
+}
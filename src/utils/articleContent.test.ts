@@ -0,0 +1,108 @@
+/**
+ * Unit tests for article content utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  condenseOutline,
+  formatOutline,
+  getArticleSource,
+  getSummaryText,
+} from './articleContent';
+import { OUTLINE } from '../constants';
+import type { ExtractedContent, OutlineBlock } from '../types';
+
+const content = (overrides: Partial<ExtractedContent> = {}) => ({
+  title: 'Article',
+  text: 'Plain text',
+  url: 'https://example.com/article',
+  wordCount: 2,
+  ...overrides,
+});
+
+describe('formatOutline', () => {
+  it('should mark up each kind of block', () => {
+    const outline: OutlineBlock[] = [
+      { type: 'heading', level: 2, text: 'Setup' },
+      { type: 'paragraph', text: 'Install it.' },
+      { type: 'list', ordered: true, items: ['Download', 'Run'] },
+      { type: 'list', ordered: false, items: ['Fast'] },
+      { type: 'blockquote', text: 'Simple is better.' },
+      { type: 'code', text: 'npm install' },
+    ];
+
+    expect(formatOutline(outline)).toBe(
+      [
+        '## Setup',
+        'Install it.',
+        '1. Download\n2. Run',
+        '- Fast',
+        '> Simple is better.',
+        '```\nnpm install\n```',
+      ].join('\n\n')
+    );
+  });
+});
+
+describe('getSummaryText', () => {
+  it('should prefer the outline and fall back to the text', () => {
+    const outline: OutlineBlock[] = [{ type: 'heading', level: 1, text: 'A' }];
+
+    expect(getSummaryText(content({ outline }))).toBe('# A');
+    expect(getSummaryText(content())).toBe('Plain text');
+  });
+});
+
+describe('condenseOutline', () => {
+  it('should keep every heading and fill the rest with blocks in order', () => {
+    const outline: OutlineBlock[] = Array.from(
+      { length: OUTLINE.MAX_BLOCKS * 2 },
+      (_, index) =>
+        index % 10 === 9
+          ? { type: 'heading', level: 2, text: `Heading ${index}` }
+          : { type: 'paragraph', text: `Paragraph ${index}` }
+    );
+
+    const condensed = condenseOutline(outline);
+
+    expect(condensed).toHaveLength(OUTLINE.MAX_BLOCKS);
+    expect(condensed.filter((block) => block.type === 'heading')).toHaveLength(
+      OUTLINE.MAX_BLOCKS / 5
+    );
+    expect(condensed[0]).toEqual({ type: 'paragraph', text: 'Paragraph 0' });
+    expect(condensed[condensed.length - 1]).toEqual({
+      type: 'heading',
+      level: 2,
+      text: `Heading ${OUTLINE.MAX_BLOCKS * 2 - 1}`,
+    });
+  });
+
+  it('should cut long text and lists short', () => {
+    const [paragraph, list] = condenseOutline([
+      { type: 'paragraph', text: 'x'.repeat(OUTLINE.MAX_TEXT_LENGTH + 50) },
+      {
+        type: 'list',
+        ordered: false,
+        items: Array.from({ length: OUTLINE.MAX_LIST_ITEMS + 3 }, () => 'item'),
+      },
+    ]);
+
+    expect(paragraph.type === 'paragraph' && paragraph.text).toHaveLength(
+      OUTLINE.MAX_TEXT_LENGTH
+    );
+    expect(list.type === 'list' && list.items).toHaveLength(
+      OUTLINE.MAX_LIST_ITEMS
+    );
+  });
+});
+
+describe('getArticleSource', () => {
+  it('should keep the source details the page gave', () => {
+    expect(
+      getArticleSource(
+        content({ author: 'Ada Fields', estimatedReadingTime: 3 })
+      )
+    ).toEqual({ author: 'Ada Fields', estimatedReadingTime: 3 });
+    expect(getArticleSource(content())).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Article Content Utilities
+ * Turns extracted content into what summaries, reflections and exports use:
+ * outline text, a trimmed outline and the article's source details
+ */
+
+import type { ArticleSource, ExtractedContent, OutlineBlock } from '../types';
+import { OUTLINE } from '../constants';
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+
+/**
+ * Render an outline as Markdown-style text, so a summary can tell
+ * headings, lists, quotes and code apart
+ * @param outline - Blocks in document order
+ */
+export function formatOutline(outline: OutlineBlock[]): string {
+  return outline
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+          return `${'#'.repeat(block.level)} ${block.text}`;
+        case 'list':
+          return block.items
+            .map((item, index) =>
+              block.ordered ? `${index + 1}. ${item}` : `- ${item}`
+            )
+            .join('\n');
+        case 'blockquote':
+          return `> ${block.text}`;
+        case 'code':
+          return `\`\`\`\n${block.text}\n\`\`\``;
+        default:
+          return block.text;
+      }
+    })
+    .join('\n\n');
+}
+
+/**
+ * Text to summarize: the outline when extraction found one, so structure
+ * survives, or else the plain text
+ */
+export function getSummaryText(content: ExtractedContent): string {
+  return content.outline?.length
+    ? formatOutline(content.outline)
+    : content.text;
+}
+
+/**
+ * Trim an outline to store with a reflection
+ * Every heading is kept (up to the block limit), then the other blocks in
+ * order while there's room; long text is cut short.
+ * @param outline - Outline as extracted
+ * @returns The trimmed outline, in document order
+ */
+export function condenseOutline(outline: OutlineBlock[]): OutlineBlock[] {
+  const headings = outline.filter((block) => block.type === 'heading').length;
+  let room = OUTLINE.MAX_BLOCKS - headings;
+
+  return outline
+    .filter((block) => block.type === 'heading' || room-- > 0)
+    .slice(0, OUTLINE.MAX_BLOCKS)
+    .map((block) =>
+      block.type === 'list'
+        ? {
+            ...block,
+            items: block.items
+              .slice(0, OUTLINE.MAX_LIST_ITEMS)
+              .map((item) => truncate(item, OUTLINE.MAX_TEXT_LENGTH)),
+          }
+        : { ...block, text: truncate(block.text, OUTLINE.MAX_TEXT_LENGTH) }
+    );
+}
+
+/**
+ * Pick the article's source details out of extracted content
+ * @returns The details found, or undefined if the page gave none
+ */
+export function getArticleSource(
+  content: ExtractedContent
+): ArticleSource | undefined {
+  const {
+    author,
+    publishedDate,
+    siteName,
+    canonicalUrl,
+    language,
+    estimatedReadingTime,
+  } = content;
+  const source: ArticleSource = Object.fromEntries(
+    Object.entries({
+      author,
+      publishedDate,
+      siteName,
+      canonicalUrl,
+      language,
+      estimatedReadingTime,
+    }).filter(([, value]) => value !== undefined)
+  );
+  return Object.keys(source).length > 0 ? source : undefined;
+}
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for calm statistics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateCalmStats } from './calmStats';
+import { CALM_STATS } from '../constants';
+import type { Reflection } from '../types';
+
+const DAY = 1000 * 60 * 60 * 24;
+const NOW = new Date('2026-03-10T12:00:00Z').getTime();
+
+const reflection = (overrides: Partial<Reflection> = {}): Reflection => ({
+  id: 'r',
+  url: 'https://example.com',
+  title: 'Article',
+  createdAt: NOW,
+  summary: [],
+  reflection: [],
+  ...overrides,
+});
+
+describe('calculateCalmStats', () => {
+  it('should return zeros without reflections', () => {
+    expect(calculateCalmStats([], NOW)).toEqual({
+      totalReflections: 0,
+      averagePerDay: 0,
+      totalReadingTime: 0,
+      totalReflectionTime: 0,
+      reflectionRatio: 0,
+    });
+  });
+
+  it('should total the measured reading and reflection times', () => {
+    const stats = calculateCalmStats(
+      [
+        reflection({
+          readingTime: 240,
+          phaseTimes: { breathing: 15, summary: 30, questions: 75 },
+        }),
+        reflection({
+          readingTime: 120,
+          phaseTimes: { breathing: 10, summary: 20, questions: 30 },
+        }),
+      ],
+      NOW
+    );
+
+    expect(stats.totalReadingTime).toBe(360);
+    expect(stats.totalReflectionTime).toBe(180);
+    expect(stats.reflectionRatio).toBeCloseTo(180 / 540);
+  });
+
+  it('should estimate times for reflections saved before measuring', () => {
+    const stats = calculateCalmStats([reflection()], NOW);
+
+    expect(stats.totalReadingTime).toBe(CALM_STATS.LEGACY_READING_TIME);
+    expect(stats.totalReflectionTime).toBe(CALM_STATS.LEGACY_REFLECTION_TIME);
+  });
+
+  it('should mix measured and estimated times', () => {
+    const stats = calculateCalmStats(
+      [reflection({ readingTime: 60 }), reflection()],
+      NOW
+    );
+
+    expect(stats.totalReadingTime).toBe(60 + CALM_STATS.LEGACY_READING_TIME);
+    expect(stats.totalReflectionTime).toBe(
+      2 * CALM_STATS.LEGACY_REFLECTION_TIME
+    );
+  });
+
+  it('should count no reading time when only the reflection was timed', () => {
+    const stats = calculateCalmStats(
+      [
+        reflection({
+          phaseTimes: { breathing: 10, summary: 20, questions: 30 },
+        }),
+      ],
+      NOW
+    );
+
+    expect(stats.totalReadingTime).toBe(0);
+    expect(stats.totalReflectionTime).toBe(60);
+    expect(stats.reflectionRatio).toBe(1);
+  });
+
+  it('should average over the days since the first reflection', () => {
+    const stats = calculateCalmStats(
+      [
+        reflection({ createdAt: NOW }),
+        reflection({ createdAt: NOW - 4 * DAY }),
+      ],
+      NOW
+    );
+
+    expect(stats.totalReflections).toBe(2);
+    expect(stats.averagePerDay).toBe(0.5);
+  });
+});
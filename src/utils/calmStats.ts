@@ -0,0 +1,72 @@
+/**
+ * Calm Statistics
+ * Totals of the time spent reading and reflecting, from the durations
+ * measured with each reflection
+ */
+
+import type { CalmStats, Reflection } from '../types';
+import { CALM_STATS } from '../constants';
+
+const DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Seconds spent reading the article before reflecting
+ * Reflections saved before durations were measured (no phase times) use
+ * an estimate; newer ones without a reading time weren't read here.
+ */
+export function getReadingTime(reflection: Reflection): number {
+  if (reflection.readingTime !== undefined) return reflection.readingTime;
+  return reflection.phaseTimes ? 0 : CALM_STATS.LEGACY_READING_TIME;
+}
+
+/**
+ * Seconds spent in the reflection flow
+ * Reflections saved before the phases were timed use an estimate.
+ */
+export function getReflectionTime(reflection: Reflection): number {
+  const phases = reflection.phaseTimes;
+  if (!phases) return CALM_STATS.LEGACY_REFLECTION_TIME;
+  return phases.breathing + phases.summary + phases.questions;
+}
+
+/**
+ * Calculate calm statistics for the dashboard and popup
+ * @param reflections - All reflections, in any order
+ * @param now - Current time, for the average per day
+ */
+export function calculateCalmStats(
+  reflections: Reflection[],
+  now: number = Date.now()
+): CalmStats {
+  if (reflections.length === 0) {
+    return {
+      totalReflections: 0,
+      averagePerDay: 0,
+      totalReadingTime: 0,
+      totalReflectionTime: 0,
+      reflectionRatio: 0,
+    };
+  }
+
+  const firstCreatedAt = reflections.reduce(
+    (first, reflection) => Math.min(first, reflection.createdAt),
+    now
+  );
+  const days = Math.max(1, Math.ceil((now - firstCreatedAt) / DAY));
+
+  let totalReadingTime = 0;
+  let totalReflectionTime = 0;
+  for (const reflection of reflections) {
+    totalReadingTime += getReadingTime(reflection);
+    totalReflectionTime += getReflectionTime(reflection);
+  }
+  const totalTime = totalReadingTime + totalReflectionTime;
+
+  return {
+    totalReflections: reflections.length,
+    averagePerDay: reflections.length / days,
+    totalReadingTime,
+    totalReflectionTime,
+    reflectionRatio: totalTime > 0 ? totalReflectionTime / totalTime : 0,
+  };
+}
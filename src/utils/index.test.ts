@@ -14,7 +14,14 @@ import {
   extractDomain,
   sanitizeText,
   calculateStreak,
+  normalizeTag,
+  normalizeTags,
+  filterReflectionsForExport,
+  describeExportFilters,
 } from './index';
+import { toExportFilters } from './useExportFilters';
+import { TAGS } from '../constants';
+import type { Reflection } from '../types';
 
 describe('Utility Functions', () => {
   describe('generateUUID', () => {
@@ -99,6 +106,31 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('normalizeTag', () => {
+    it('should lowercase, strip hashes and hyphenate spaces', () => {
+      expect(normalizeTag('  #Deep  Work ')).toBe('deep-work');
+    });
+
+    it('should drop punctuation but keep letters in any script', () => {
+      expect(normalizeTag('Café, culture!')).toBe('café-culture');
+      expect(normalizeTag('?!')).toBe('');
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('should de-duplicate after normalizing and drop empty tags', () => {
+      expect(normalizeTags(['Focus', '#focus', '', 'sleep'])).toEqual([
+        'focus',
+        'sleep',
+      ]);
+    });
+
+    it('should cap the number of tags', () => {
+      const many = Array.from({ length: 20 }, (_, i) => `tag${i}`);
+      expect(normalizeTags(many)).toHaveLength(TAGS.MAX_PER_REFLECTION);
+    });
+  });
+
   describe('extractDomain', () => {
     it('should extract domain from URL', () => {
       const url = 'https://www.example.com/path/to/page';
@@ -216,4 +248,82 @@ describe('Utility Functions', () => {
       expect(streak).toBe(2);
     });
   });
+
+  describe('export filters', () => {
+    const day = (date: number) => new Date(2025, 0, date, 12).getTime();
+    const reflections = [
+      {
+        id: 'a',
+        url: 'https://example.com/a',
+        createdAt: day(5),
+        tags: ['focus'],
+        detectedLanguage: 'en',
+      },
+      {
+        id: 'b',
+        url: 'https://blog.dev/b',
+        createdAt: day(10),
+        tags: ['habits'],
+        detectedLanguage: 'es',
+        proofreadVersion: 'Fixed',
+      },
+      { id: 'c', url: 'https://example.com/c', createdAt: day(20) },
+    ] as Reflection[];
+    const ids = (items: Reflection[]) => items.map((r) => r.id);
+
+    it('should return everything without filters', () => {
+      expect(ids(filterReflectionsForExport(reflections))).toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+    });
+
+    it('should require every set filter to match', () => {
+      expect(
+        ids(filterReflectionsForExport(reflections, { from: day(6) }))
+      ).toEqual(['b', 'c']);
+      expect(
+        ids(filterReflectionsForExport(reflections, { domain: 'example.com' }))
+      ).toEqual(['a', 'c']);
+      expect(
+        ids(
+          filterReflectionsForExport(reflections, {
+            tags: ['focus', 'habits'],
+            language: 'es',
+          })
+        )
+      ).toEqual(['b']);
+      expect(
+        ids(filterReflectionsForExport(reflections, { proofreadOnly: true }))
+      ).toEqual(['b']);
+    });
+
+    it('should include whole days from date inputs', () => {
+      const filters = toExportFilters({
+        from: '2025-01-10',
+        to: '2025-01-20',
+        domain: '',
+        tags: [],
+        language: '',
+        proofreadOnly: false,
+      });
+
+      expect(Object.keys(filters)).toEqual(['from', 'to']);
+      expect(ids(filterReflectionsForExport(reflections, filters))).toEqual([
+        'b',
+        'c',
+      ]);
+    });
+
+    it('should describe only the filters in use', () => {
+      expect(describeExportFilters({})).toEqual([]);
+      expect(
+        describeExportFilters({
+          tags: ['focus', 'habits'],
+          proofreadOnly: true,
+        })
+      ).toEqual(['Tags: focus, habits', 'Only proofread reflections']);
+    });
+  });
 });
@@ -2,7 +2,8 @@
  * Utility functions for Reflexa AI Chrome Extension
  */
 
-import { CONTENT_LIMITS } from '../constants';
+import { CONTENT_LIMITS, TAGS } from '../constants';
+import type { ExportFile, ExportFilters, Reflection } from '../types';
 
 // Export AudioManager
 export { AudioManager } from './audioManager';
@@ -136,6 +137,35 @@ export function extractDomain(url: string): string {
   }
 }
 
+/**
+ * Normalize a user or AI supplied tag
+ * Lowercases, strips a leading "#", collapses whitespace to hyphens and
+ * drops characters other than letters, numbers, "-" and "_"
+ * @param tag Raw tag text
+ * @returns Normalized tag, or an empty string if nothing usable remains
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, TAGS.MAX_LENGTH);
+}
+
+/**
+ * Normalize and de-duplicate a list of tags, keeping the first occurrence
+ * @param tags Raw tags
+ * @returns Unique normalized tags, capped at TAGS.MAX_PER_REFLECTION
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const unique = new Set(tags.map(normalizeTag).filter(Boolean));
+  return [...unique].slice(0, TAGS.MAX_PER_REFLECTION);
+}
+
 /**
  * Sanitize text by removing extra whitespace and normalizing line breaks
  * @param text The text to sanitize
@@ -270,3 +300,59 @@ export function deepClone<T>(obj: T): T {
 export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * Turn an export from the background worker into a downloadable Blob
+ * @param file Export file, base64-encoded when binary
+ * @returns Blob with the file's MIME type
+ */
+export function exportFileToBlob(file: ExportFile): Blob {
+  if (file.encoding === 'utf-8') {
+    return new Blob([file.data], { type: file.mimeType });
+  }
+  const binary = atob(file.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: file.mimeType });
+}
+
+/**
+ * Apply export filters to a list of reflections
+ * @param reflections Reflections to filter
+ * @param filters Filters to apply; unset fields match everything
+ * @returns Reflections matching every set filter, in their original order
+ */
+export function filterReflectionsForExport(
+  reflections: Reflection[],
+  filters: ExportFilters = {}
+): Reflection[] {
+  const { from, to, domain, tags, language, proofreadOnly } = filters;
+  return reflections.filter(
+    (reflection) =>
+      (from === undefined || reflection.createdAt >= from) &&
+      (to === undefined || reflection.createdAt <= to) &&
+      (!domain || extractDomain(reflection.url) === domain) &&
+      (!tags?.length || tags.some((tag) => reflection.tags?.includes(tag))) &&
+      (!language || reflection.detectedLanguage === language) &&
+      (!proofreadOnly || !!reflection.proofreadVersion)
+  );
+}
+
+/**
+ * Describe export filters for people reading the export
+ * @param filters Filters applied to the export
+ * @returns One line per filter in use, empty when nothing was filtered
+ */
+export function describeExportFilters(filters: ExportFilters = {}): string[] {
+  const lines: string[] = [];
+  if (filters.from !== undefined)
+    lines.push(`From: ${formatDate(filters.from)}`);
+  if (filters.to !== undefined) lines.push(`To: ${formatDate(filters.to)}`);
+  if (filters.domain) lines.push(`Domain: ${filters.domain}`);
+  if (filters.tags?.length) lines.push(`Tags: ${filters.tags.join(', ')}`);
+  if (filters.language) lines.push(`Language: ${filters.language}`);
+  if (filters.proofreadOnly) lines.push('Only proofread reflections');
+  return lines;
+}
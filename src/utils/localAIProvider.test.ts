@@ -0,0 +1,57 @@
+/**
+ * Tests for local AI provider utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getLocalAIProviderSettings,
+  normalizeLocalEndpoint,
+  validateLocalAIProvider,
+} from './localAIProvider';
+import { LOCAL_AI_PROVIDER } from '../constants';
+
+describe('localAIProvider', () => {
+  it('should fall back to the default server', () => {
+    expect(getLocalAIProviderSettings({})).toEqual({
+      endpoint: LOCAL_AI_PROVIDER.DEFAULT_ENDPOINT,
+      model: LOCAL_AI_PROVIDER.DEFAULT_MODEL,
+    });
+  });
+
+  it('should drop trailing slashes from endpoints', () => {
+    expect(normalizeLocalEndpoint(' http://localhost:8080/v1// ')).toBe(
+      'http://localhost:8080/v1'
+    );
+  });
+
+  it('should accept servers on this computer', () => {
+    for (const endpoint of [
+      'http://localhost:11434/v1',
+      'http://127.0.0.1:8080/v1/',
+      'http://[::1]:8080',
+    ]) {
+      expect(validateLocalAIProvider({ endpoint, model: 'qwen' })).toEqual([]);
+    }
+  });
+
+  it('should reject other servers, bad addresses and missing models', () => {
+    expect(
+      validateLocalAIProvider({
+        endpoint: 'http://api.example.com',
+        model: 'x',
+      })
+    ).toEqual(['The server must run on this computer (localhost).']);
+    expect(
+      validateLocalAIProvider({ endpoint: 'localhost:8080', model: 'x' })
+    ).toHaveLength(1);
+    expect(
+      validateLocalAIProvider({
+        endpoint: 'https://localhost:8443/v1',
+        model: 'x',
+      })
+    ).toEqual(['The server address must start with http://.']);
+    expect(
+      validateLocalAIProvider({ endpoint: 'http://localhost', model: ' ' })
+    ).toEqual(['Enter the name of the model to use.']);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Local AI Provider Utilities
+ * Reads and checks the settings for a local OpenAI-compatible server
+ */
+
+import type { LocalAIProviderSettings, Settings } from '../types';
+import { LOCAL_AI_PROVIDER } from '../constants';
+
+/**
+ * The user's local server settings, or the defaults if they never set them
+ */
+export function getLocalAIProviderSettings(
+  settings: Pick<Settings, 'localAIProvider'> | null | undefined
+): LocalAIProviderSettings {
+  return (
+    settings?.localAIProvider ?? {
+      endpoint: LOCAL_AI_PROVIDER.DEFAULT_ENDPOINT,
+      model: LOCAL_AI_PROVIDER.DEFAULT_MODEL,
+    }
+  );
+}
+
+/**
+ * Trim an endpoint and drop trailing slashes, so paths can be appended
+ */
+export function normalizeLocalEndpoint(endpoint: string): string {
+  return endpoint.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Check local server settings before they are saved
+ * Only servers on this machine are allowed: page text is sent to them.
+ * They must use plain http, the only scheme the manifest grants for them.
+ * @returns One message per problem; empty when the settings are valid
+ */
+export function validateLocalAIProvider(
+  settings: LocalAIProviderSettings
+): string[] {
+  const errors: string[] = [];
+
+  let url: URL | null = null;
+  try {
+    url = new URL(normalizeLocalEndpoint(settings.endpoint));
+  } catch {
+    errors.push('Enter the server address, e.g. http://localhost:8080/v1.');
+  }
+  if (url && url.protocol !== 'http:') {
+    errors.push('The server address must start with http://.');
+  } else if (url && !LOCAL_AI_PROVIDER.HOSTS.includes(url.hostname)) {
+    errors.push('The server must run on this computer (localhost).');
+  }
+
+  if (!settings.model.trim()) {
+    errors.push('Enter the name of the model to use.');
+  }
+
+  return errors;
+}
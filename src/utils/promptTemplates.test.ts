@@ -0,0 +1,155 @@
+/**
+ * Unit tests for prompt template utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fillPromptTemplate,
+  findPlaceholders,
+  getBulletLabels,
+  getPromptTemplate,
+  isPromptTemplateCustomized,
+  resetPromptTemplate,
+  savePromptTemplate,
+  validatePromptTemplate,
+} from './promptTemplates';
+import { PROMPT_TEMPLATE_LIMITS, PROMPT_TEMPLATES } from '../constants';
+
+describe('promptTemplates', () => {
+  describe('getPromptTemplate', () => {
+    it('should fall back to the default text', () => {
+      expect(getPromptTemplate(undefined, 'reflect')).toBe(
+        PROMPT_TEMPLATES.reflect.defaultText
+      );
+      expect(getPromptTemplate({ reflect: { history: [] } }, 'reflect')).toBe(
+        PROMPT_TEMPLATES.reflect.defaultText
+      );
+    });
+
+    it('should return custom text', () => {
+      const templates = {
+        reflect: { text: 'Ask about {summary}', history: [] },
+      };
+
+      expect(getPromptTemplate(templates, 'reflect')).toBe(
+        'Ask about {summary}'
+      );
+      expect(isPromptTemplateCustomized(templates, 'reflect')).toBe(true);
+      expect(isPromptTemplateCustomized(templates, 'summarize')).toBe(false);
+    });
+  });
+
+  describe('fillPromptTemplate', () => {
+    it('should replace known placeholders and leave others', () => {
+      expect(
+        fillPromptTemplate('Read {content} then {other}', {
+          content: 'the text',
+        })
+      ).toBe('Read the text then {other}');
+    });
+
+    it('should insert values literally', () => {
+      expect(fillPromptTemplate('{text}', { text: 'costs $& $1' })).toBe(
+        'costs $& $1'
+      );
+    });
+
+    it('should list placeholders once each', () => {
+      expect(findPlaceholders('{a} and {b} and {a}')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('validatePromptTemplate', () => {
+    it('should accept every default template', () => {
+      for (const [id, definition] of Object.entries(PROMPT_TEMPLATES)) {
+        expect(
+          validatePromptTemplate(
+            id as keyof typeof PROMPT_TEMPLATES,
+            definition.defaultText
+          )
+        ).toEqual([]);
+      }
+    });
+
+    it('should reject empty templates', () => {
+      expect(validatePromptTemplate('summarize', '   ')).toEqual([
+        'The template is empty.',
+      ]);
+    });
+
+    it('should report missing and unknown placeholders', () => {
+      expect(validatePromptTemplate('summarize', 'Summarize {text}')).toEqual([
+        'Add the {content} placeholder.',
+        "{text} isn't a placeholder this template supports.",
+      ]);
+    });
+
+    it('should reject templates over the length limit', () => {
+      const text = `{content}${'x'.repeat(PROMPT_TEMPLATE_LIMITS.MAX_LENGTH)}`;
+
+      expect(validatePromptTemplate('summarize', text)).toHaveLength(1);
+    });
+  });
+
+  describe('versioning', () => {
+    it('should keep the previous custom text as a version', () => {
+      const first = savePromptTemplate(undefined, 'proofread', 'One {text}', 1);
+      const second = savePromptTemplate(first, 'proofread', 'Two {text}', 2);
+
+      expect(first.proofread).toEqual({ text: 'One {text}', history: [] });
+      expect(second.proofread).toEqual({
+        text: 'Two {text}',
+        history: [{ text: 'One {text}', savedAt: 2 }],
+      });
+    });
+
+    it('should not add a version when nothing changed', () => {
+      const templates = savePromptTemplate(undefined, 'proofread', 'A {text}');
+
+      expect(savePromptTemplate(templates, 'proofread', 'A {text}')).toBe(
+        templates
+      );
+    });
+
+    it('should reset to the default and keep the custom text', () => {
+      const custom = savePromptTemplate(undefined, 'reflect', 'Q {summary}', 1);
+      const reset = resetPromptTemplate(custom, 'reflect', 5);
+
+      expect(reset.reflect).toEqual({
+        history: [{ text: 'Q {summary}', savedAt: 5 }],
+      });
+      expect(getPromptTemplate(reset, 'reflect')).toBe(
+        PROMPT_TEMPLATES.reflect.defaultText
+      );
+    });
+
+    it('should cap the history', () => {
+      let templates = savePromptTemplate(undefined, 'reflect', '0 {summary}');
+      for (let i = 1; i <= PROMPT_TEMPLATE_LIMITS.MAX_HISTORY + 3; i++) {
+        templates = savePromptTemplate(templates, 'reflect', `${i} {summary}`);
+      }
+
+      const history = templates.reflect?.history ?? [];
+      expect(history).toHaveLength(PROMPT_TEMPLATE_LIMITS.MAX_HISTORY);
+      expect(history[0].text).toBe(
+        `${PROMPT_TEMPLATE_LIMITS.MAX_HISTORY + 2} {summary}`
+      );
+    });
+  });
+
+  describe('getBulletLabels', () => {
+    it('should read the labels from the default summary template', () => {
+      expect(getBulletLabels(PROMPT_TEMPLATES.summarize.defaultText)).toEqual([
+        'Insight',
+        'Surprise',
+        'Apply',
+      ]);
+    });
+
+    it('should read renamed labels', () => {
+      expect(
+        getBulletLabels('- Insight: [a]\n- Counterpoint: [b]\n- Apply: [c]')
+      ).toEqual(['Insight', 'Counterpoint', 'Apply']);
+    });
+  });
+});
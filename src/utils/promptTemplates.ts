@@ -0,0 +1,180 @@
+/**
+ * Prompt Template Utilities
+ * Resolves, fills, validates and versions the user's prompt templates
+ */
+
+import type {
+  PromptTemplateId,
+  PromptTemplates,
+  SummaryFormat,
+} from '../types';
+import { PROMPT_TEMPLATE_LIMITS, PROMPT_TEMPLATES } from '../constants';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Get the text of a template, falling back to its default
+ */
+export function getPromptTemplate(
+  templates: PromptTemplates | undefined,
+  id: PromptTemplateId
+): string {
+  return templates?.[id]?.text ?? PROMPT_TEMPLATES[id].defaultText;
+}
+
+/**
+ * Check whether the user has replaced a template's default text
+ */
+export function isPromptTemplateCustomized(
+  templates: PromptTemplates | undefined,
+  id: PromptTemplateId
+): boolean {
+  const text = templates?.[id]?.text;
+  return text !== undefined && text !== PROMPT_TEMPLATES[id].defaultText;
+}
+
+/**
+ * Check whether a summary in this format would use a customized template
+ * Only the Prompt API follows the templates, so such summaries are
+ * written with it rather than the Summarizer API.
+ */
+export function usesCustomSummaryTemplate(
+  templates: PromptTemplates | undefined,
+  format: SummaryFormat
+): boolean {
+  return (
+    isPromptTemplateCustomized(templates, 'summarizeSystem') ||
+    (format === 'bullets' && isPromptTemplateCustomized(templates, 'summarize'))
+  );
+}
+
+/**
+ * Names of the placeholders used in a template, in order of first use
+ */
+export function findPlaceholders(template: string): string[] {
+  const names = Array.from(template.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace {name} placeholders with their values
+ * Placeholders without a value are left as they are.
+ */
+export function fillPromptTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+}
+
+/**
+ * Check a template before it is saved
+ * @returns One message per problem; empty when the template is valid
+ */
+export function validatePromptTemplate(
+  id: PromptTemplateId,
+  text: string
+): string[] {
+  return validateTemplateText(text, PROMPT_TEMPLATES[id].placeholders);
+}
+
+/**
+ * Check template text against the placeholders it must and may use
+ * @param placeholders - Every placeholder the template supports; all are required
+ * @returns One message per problem; empty when the text is valid
+ */
+export function validateTemplateText(
+  text: string,
+  placeholders: string[]
+): string[] {
+  if (!text.trim()) return ['The template is empty.'];
+
+  const errors: string[] = [];
+  if (text.length > PROMPT_TEMPLATE_LIMITS.MAX_LENGTH) {
+    errors.push(
+      `The template is longer than ${PROMPT_TEMPLATE_LIMITS.MAX_LENGTH} characters.`
+    );
+  }
+
+  const used = findPlaceholders(text);
+  for (const name of placeholders) {
+    if (!used.includes(name)) errors.push(`Add the {${name}} placeholder.`);
+  }
+  for (const name of used) {
+    if (!placeholders.includes(name)) {
+      errors.push(`{${name}} isn't a placeholder this template supports.`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Move the current custom text of a template into its history
+ */
+function archive(
+  templates: PromptTemplates,
+  id: PromptTemplateId,
+  savedAt: number
+) {
+  const current = templates[id];
+  const history = current?.history ?? [];
+  if (current?.text === undefined) return history;
+  return [{ text: current.text, savedAt }, ...history].slice(
+    0,
+    PROMPT_TEMPLATE_LIMITS.MAX_HISTORY
+  );
+}
+
+/**
+ * Save new text for a template, keeping the previous text as a version
+ * @returns Updated templates; the input is not modified
+ */
+export function savePromptTemplate(
+  templates: PromptTemplates | undefined,
+  id: PromptTemplateId,
+  text: string,
+  now: number = Date.now()
+): PromptTemplates {
+  const current = templates ?? {};
+  if (text === getPromptTemplate(current, id)) return current;
+
+  const history = archive(current, id, now);
+  return {
+    ...current,
+    [id]:
+      text === PROMPT_TEMPLATES[id].defaultText
+        ? { history }
+        : { text, history },
+  };
+}
+
+/**
+ * Reset a template to its default, keeping the custom text as a version
+ * @returns Updated templates; the input is not modified
+ */
+export function resetPromptTemplate(
+  templates: PromptTemplates | undefined,
+  id: PromptTemplateId,
+  now: number = Date.now()
+): PromptTemplates {
+  return savePromptTemplate(
+    templates,
+    id,
+    PROMPT_TEMPLATES[id].defaultText,
+    now
+  );
+}
+
+/**
+ * Labels a summary template asks the model to start bullets with,
+ * e.g. "Insight" for "- Insight: [One key insight]"
+ */
+export function getBulletLabels(template: string): string[] {
+  return Array.from(
+    template.matchAll(/^\s*[-*]\s*([^:[\]\n]{1,40}):\s*\[/gm),
+    (m) => m[1].trim()
+  );
+}
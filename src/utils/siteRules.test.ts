@@ -0,0 +1,203 @@
+/**
+ * Unit tests for site rule utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSiteRule,
+  findSiteRule,
+  getCustomThreshold,
+  getNudgeThreshold,
+  getSitePattern,
+  getSoonerThreshold,
+  matchesSitePattern,
+  normalizeSitePattern,
+  setSiteRule,
+  validateSitePattern,
+} from './siteRules';
+import type { SiteRule } from '../types';
+
+const rule = (
+  pattern: string,
+  action: SiteRule['action'] = 'never',
+  dwellThreshold?: number
+): SiteRule => ({ id: pattern, pattern, action, dwellThreshold });
+
+const matches = (pattern: string, url: string) =>
+  matchesSitePattern(pattern, new URL(url));
+
+describe('siteRules', () => {
+  describe('patterns', () => {
+    it('should normalize schemes, www and the host case', () => {
+      expect(normalizeSitePattern(' HTTPS://www.Example.com/ ')).toBe(
+        'example.com'
+      );
+      expect(normalizeSitePattern('Example.com/Blog/*')).toBe(
+        'example.com/Blog/*'
+      );
+    });
+
+    it('should match a domain and its subdomains', () => {
+      expect(matches('example.com', 'https://example.com/a')).toBe(true);
+      expect(matches('example.com', 'https://www.example.com/a')).toBe(true);
+      expect(matches('example.com', 'https://blog.example.com/')).toBe(true);
+      expect(matches('example.com', 'https://notexample.com/')).toBe(false);
+    });
+
+    it('should match only subdomains with a leading wildcard', () => {
+      expect(matches('*.example.com', 'https://blog.example.com/')).toBe(true);
+      expect(matches('*.example.com', 'https://example.com/')).toBe(false);
+    });
+
+    it('should match URL globs against the path and query', () => {
+      expect(
+        matches('google.com/search*', 'https://www.google.com/search?q=x')
+      ).toBe(true);
+      expect(matches('google.com/search*', 'https://google.com/maps')).toBe(
+        false
+      );
+      expect(
+        matches('example.com/*/2024/*', 'https://example.com/blog/2024/post')
+      ).toBe(true);
+    });
+
+    it('should match paths with uppercase segments as typed', () => {
+      expect(
+        matches('Example.com/Blog/*', 'https://www.example.com/Blog/post')
+      ).toBe(true);
+      expect(
+        matches('example.com/Blog/*', 'https://example.com/blog/post')
+      ).toBe(false);
+    });
+
+    it('should reject malformed and duplicate patterns', () => {
+      const rules = [rule('example.com')];
+
+      expect(validateSitePattern('', rules)).toEqual([
+        'Enter a domain or URL pattern.',
+      ]);
+      expect(validateSitePattern('exa mple.com', rules)).toHaveLength(1);
+      expect(validateSitePattern('exa_mple.com', rules)).toHaveLength(1);
+      expect(validateSitePattern('www.example.com', rules)).toEqual([
+        'Another rule already uses this pattern.',
+      ]);
+      expect(validateSitePattern('example.com', rules, 'example.com')).toEqual(
+        []
+      );
+      expect(validateSitePattern('localhost:3000/docs/*', rules)).toEqual([]);
+    });
+  });
+
+  describe('findSiteRule', () => {
+    it('should prefer the most specific rule', () => {
+      const rules = [
+        rule('example.com', 'never'),
+        rule('blog.example.com', 'always'),
+        rule('example.com/docs/*', 'custom', 3),
+      ];
+
+      expect(findSiteRule(rules, 'https://example.com/')?.action).toBe('never');
+      expect(findSiteRule(rules, 'https://blog.example.com/')?.action).toBe(
+        'always'
+      );
+      expect(findSiteRule(rules, 'https://example.com/docs/a')?.action).toBe(
+        'custom'
+      );
+      expect(findSiteRule(rules, 'not a url')).toBeUndefined();
+    });
+  });
+
+  describe('getNudgeThreshold', () => {
+    const settings = {
+      dwellThreshold: 10,
+      siteRules: [
+        rule('mail.example.com', 'never'),
+        rule('news.example.com', 'custom', 4),
+        rule('docs.example.com', 'always'),
+      ],
+    };
+
+    it('should apply the matching rule', () => {
+      expect(
+        getNudgeThreshold(settings, 'https://mail.example.com/')
+      ).toBeNull();
+      expect(getNudgeThreshold(settings, 'https://news.example.com/')).toBe(4);
+      expect(getNudgeThreshold(settings, 'https://docs.example.com/')).toBe(10);
+    });
+
+    it('should show on unlisted sites unless only listed sites are allowed', () => {
+      expect(getNudgeThreshold(settings, 'https://other.com/')).toBe(10);
+      expect(
+        getNudgeThreshold(
+          { ...settings, nudgeOnUnlistedSites: false },
+          'https://other.com/'
+        )
+      ).toBeNull();
+      expect(
+        getNudgeThreshold(
+          { ...settings, nudgeOnUnlistedSites: false },
+          'https://docs.example.com/'
+        )
+      ).toBe(10);
+    });
+
+    it('should use the starter rules until rules are edited', () => {
+      expect(
+        getNudgeThreshold(
+          { dwellThreshold: 10 },
+          'https://www.google.com/search?q=sleep'
+        )
+      ).toBeNull();
+      expect(
+        getNudgeThreshold(
+          { dwellThreshold: 10, siteRules: [] },
+          'https://mail.google.com/'
+        )
+      ).toBe(10);
+    });
+
+    it('should only report thresholds set by custom rules', () => {
+      expect(getCustomThreshold(settings, 'https://news.example.com/')).toBe(4);
+      expect(
+        getCustomThreshold(settings, 'https://docs.example.com/')
+      ).toBeNull();
+      expect(getCustomThreshold(settings, 'https://other.com/')).toBeNull();
+    });
+  });
+
+  describe('quick actions', () => {
+    it('should make site patterns from web pages only', () => {
+      expect(getSitePattern('https://www.example.com/post')).toBe(
+        'example.com'
+      );
+      expect(getSitePattern('chrome://extensions')).toBeNull();
+    });
+
+    it('should halve the threshold for "show sooner"', () => {
+      expect(getSoonerThreshold(10)).toBe(5);
+      expect(getSoonerThreshold(1)).toBe(0);
+    });
+
+    it('should replace a rule with the same pattern', () => {
+      const rules = [rule('example.com', 'always'), rule('other.com')];
+
+      const updated = setSiteRule(
+        rules,
+        createSiteRule('www.example.com', 'custom', 5)
+      );
+
+      expect(updated).toEqual([
+        {
+          id: 'example.com',
+          pattern: 'example.com',
+          action: 'custom',
+          dwellThreshold: 5,
+        },
+        rules[1],
+      ]);
+      expect(
+        setSiteRule(rules, createSiteRule('new.com', 'never'))
+      ).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Site Rule Utilities
+ * Matches pages against the user's site rules to decide whether, and
+ * after how long, the lotus nudge appears
+ */
+
+import type { Settings, SiteRule, SiteRuleAction } from '../types';
+import { DEFAULT_SITE_RULES, SITE_RULES, TIMING } from '../constants';
+import { generateUUID } from './index';
+
+type NudgeSettings = Pick<
+  Settings,
+  'dwellThreshold' | 'siteRules' | 'nudgeOnUnlistedSites'
+>;
+
+// Host part of a pattern: labels of letters, digits, "-" and "*", with
+// an optional port
+const HOST_PATTERN = /^[a-z0-9*-]+(?:\.[a-z0-9*-]+)*(?::\d+)?$/;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const globToRegExp = (glob: string) =>
+  new RegExp(`^${escapeRegExp(glob).replace(/\*/g, '.*')}$`);
+
+const stripWww = (host: string) => host.replace(/^www\./, '');
+
+/**
+ * Put a pattern in the form rules are stored and matched in: a lowercase
+ * host without a scheme, a leading "www." or a lone trailing "/". Paths
+ * are case-sensitive, so they're kept as typed.
+ */
+export function normalizeSitePattern(pattern: string): string {
+  const address = pattern.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+  const slash = address.indexOf('/');
+  const host = slash === -1 ? address : address.slice(0, slash);
+  const path = slash === -1 ? '' : address.slice(slash);
+  const normalized = stripWww(host.toLowerCase()) + path;
+  return /^[^/]+\/$/.test(normalized) ? normalized.slice(0, -1) : normalized;
+}
+
+/**
+ * Check whether a pattern is a URL glob rather than a domain
+ */
+export function isUrlPattern(pattern: string): boolean {
+  return pattern.includes('/');
+}
+
+/**
+ * Check a rule's pattern before it is saved
+ * @param pattern - Pattern being saved
+ * @param rules - All rules, used to catch duplicates
+ * @param id - Id of the rule being edited, if it already exists
+ * @returns One message per problem; empty when the pattern is valid
+ */
+export function validateSitePattern(
+  pattern: string,
+  rules: SiteRule[],
+  id?: string
+): string[] {
+  const normalized = normalizeSitePattern(pattern);
+  const host = normalized.split('/')[0];
+
+  if (!normalized) return ['Enter a domain or URL pattern.'];
+  if (normalized.length > SITE_RULES.MAX_PATTERN_LENGTH) {
+    return [
+      `The pattern is longer than ${SITE_RULES.MAX_PATTERN_LENGTH} characters.`,
+    ];
+  }
+  if (/\s/.test(normalized) || !HOST_PATTERN.test(host)) {
+    return [
+      'Use a domain like "example.com" or a URL like "example.com/blog/*".',
+    ];
+  }
+  if (
+    rules.some(
+      (rule) =>
+        rule.id !== id && normalizeSitePattern(rule.pattern) === normalized
+    )
+  ) {
+    return ['Another rule already uses this pattern.'];
+  }
+  return [];
+}
+
+/**
+ * Check whether a pattern matches a page
+ * Domains match the site and its subdomains ("*.example.com" matches
+ * subdomains only). URL globs match the address without its scheme, with
+ * "*" standing for any run of characters.
+ */
+export function matchesSitePattern(pattern: string, url: URL): boolean {
+  const normalized = normalizeSitePattern(pattern);
+  const host = stripWww(url.host.toLowerCase());
+
+  if (isUrlPattern(normalized)) {
+    return globToRegExp(normalized).test(`${host}${url.pathname}${url.search}`);
+  }
+  if (normalized.startsWith('*.')) {
+    return host.endsWith(normalized.slice(1));
+  }
+  if (normalized.includes('*')) {
+    return globToRegExp(normalized).test(host);
+  }
+  return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+/**
+ * How specific a pattern is: URL globs beat domains, and longer literal
+ * text beats shorter
+ */
+function specificity(pattern: string): number {
+  const literal = pattern.replace(/\*/g, '').length;
+  return (isUrlPattern(pattern) ? SITE_RULES.MAX_PATTERN_LENGTH : 0) + literal;
+}
+
+const toURL = (url: string | URL): URL | null => {
+  try {
+    return typeof url === 'string' ? new URL(url) : url;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The most specific rule matching a page
+ * @param rules - Rules to search
+ * @param url - Page address
+ */
+export function findSiteRule(
+  rules: SiteRule[],
+  url: string | URL
+): SiteRule | undefined {
+  const page = toURL(url);
+  if (!page) return undefined;
+
+  let best: SiteRule | undefined;
+  for (const rule of rules) {
+    if (
+      matchesSitePattern(rule.pattern, page) &&
+      (!best || specificity(rule.pattern) > specificity(best.pattern))
+    ) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+/**
+ * The user's site rules, or the starter rules if they never edited them
+ */
+export function getSiteRules(
+  settings: Pick<Settings, 'siteRules'> | null | undefined
+): SiteRule[] {
+  return settings?.siteRules ?? DEFAULT_SITE_RULES;
+}
+
+/**
+ * Seconds to wait before showing the nudge on a page
+ * @param settings - Global threshold and site rules
+ * @param url - Page address
+ * @returns The threshold, or null when the nudge shouldn't appear
+ */
+export function getNudgeThreshold(
+  settings: NudgeSettings,
+  url: string | URL
+): number | null {
+  const rule = findSiteRule(getSiteRules(settings), url);
+  if (!rule) {
+    return settings.nudgeOnUnlistedSites === false
+      ? null
+      : settings.dwellThreshold;
+  }
+  if (rule.action === 'never') return null;
+  if (rule.action === 'custom' && rule.dwellThreshold !== undefined) {
+    return rule.dwellThreshold;
+  }
+  return settings.dwellThreshold;
+}
+
+/**
+ * Seconds a custom rule sets for a page
+ * Unlike the global threshold, it still applies where reading progress
+ * is measured
+ * @param settings - Site rules
+ * @param url - Page address
+ * @returns The rule's threshold, or null when no custom rule matches
+ */
+export function getCustomThreshold(
+  settings: Pick<Settings, 'siteRules'>,
+  url: string | URL
+): number | null {
+  const rule = findSiteRule(getSiteRules(settings), url);
+  return rule?.action === 'custom' && rule.dwellThreshold !== undefined
+    ? rule.dwellThreshold
+    : null;
+}
+
+/**
+ * The domain a "this site" rule is made for
+ * @returns The host without "www.", or null for pages that aren't websites
+ */
+export function getSitePattern(url: string | URL): string | null {
+  const page = toURL(url);
+  if (!page || (page.protocol !== 'http:' && page.protocol !== 'https:')) {
+    return null;
+  }
+  return stripWww(page.hostname.toLowerCase()) || null;
+}
+
+/**
+ * Threshold for "Show sooner here"
+ * @param current - Seconds the nudge waits now
+ */
+export function getSoonerThreshold(current: number): number {
+  return Math.max(
+    TIMING.DWELL_MIN,
+    Math.floor(current * SITE_RULES.SOONER_FACTOR)
+  );
+}
+
+/**
+ * Make a new rule
+ */
+export function createSiteRule(
+  pattern: string,
+  action: SiteRuleAction,
+  dwellThreshold?: number
+): SiteRule {
+  return {
+    id: generateUUID(),
+    pattern: normalizeSitePattern(pattern),
+    action,
+    ...(action === 'custom' && { dwellThreshold }),
+  };
+}
+
+/**
+ * Add a rule, replacing any rule with the same pattern
+ * @returns The updated rules; the input is not changed
+ */
+export function setSiteRule(rules: SiteRule[], rule: SiteRule): SiteRule[] {
+  const pattern = normalizeSitePattern(rule.pattern);
+  const index = rules.findIndex(
+    (existing) => normalizeSitePattern(existing.pattern) === pattern
+  );
+  if (index === -1) return [...rules, rule];
+  return rules.map((existing, i) =>
+    i === index ? { ...rule, id: existing.id } : existing
+  );
+}
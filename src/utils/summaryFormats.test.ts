@@ -0,0 +1,122 @@
+/**
+ * Unit tests for summary format utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCustomSummaryFormatId,
+  getCustomSummaryFormats,
+  getSummaryFormatName,
+  isCustomSummaryFormat,
+  isSummaryFormat,
+  parseCustomSummary,
+  splitSummaryLabel,
+  validateCustomSummaryFormat,
+} from './summaryFormats';
+import { CUSTOM_SUMMARY_FORMATS } from '../constants';
+import type { CustomSummaryFormat } from '../types';
+
+const eli5: CustomSummaryFormat = {
+  id: 'custom:eli5',
+  name: 'ELI5',
+  description: '',
+  prompt: 'Explain simply: {content}',
+  parser: 'text',
+};
+
+describe('summaryFormats', () => {
+  describe('format ids', () => {
+    it('should recognize built-in and custom formats', () => {
+      expect(isSummaryFormat('bullets')).toBe(true);
+      expect(isSummaryFormat('custom:cornell-notes')).toBe(true);
+      expect(isSummaryFormat('custom:')).toBe(false);
+      expect(isSummaryFormat('toString')).toBe(false);
+      expect(isCustomSummaryFormat('bullets')).toBe(false);
+    });
+
+    it('should make unique ids from names', () => {
+      expect(createCustomSummaryFormatId('Claims & Evidence', [])).toBe(
+        'custom:claims-evidence'
+      );
+      expect(
+        createCustomSummaryFormatId('ELI5', ['custom:eli5', 'custom:eli5-2'])
+      ).toBe('custom:eli5-3');
+      expect(createCustomSummaryFormatId('???', [])).toBe('custom:format');
+    });
+
+    it('should name formats', () => {
+      expect(getSummaryFormatName('headline-bullets', [])).toBe(
+        'Headline + Bullets'
+      );
+      expect(getSummaryFormatName('custom:eli5', [eli5])).toBe('ELI5');
+      expect(getSummaryFormatName('custom:gone', [eli5])).toBe('custom:gone');
+    });
+
+    it('should start with the starter formats', () => {
+      expect(getCustomSummaryFormats({})).toBe(CUSTOM_SUMMARY_FORMATS);
+      expect(getCustomSummaryFormats({ customSummaryFormats: [] })).toEqual([]);
+    });
+  });
+
+  describe('validateCustomSummaryFormat', () => {
+    it('should accept every starter format', () => {
+      for (const format of CUSTOM_SUMMARY_FORMATS) {
+        expect(
+          validateCustomSummaryFormat(format, CUSTOM_SUMMARY_FORMATS)
+        ).toEqual([]);
+      }
+    });
+
+    it('should require a unique name and the content placeholder', () => {
+      expect(
+        validateCustomSummaryFormat(
+          { id: 'custom:other', name: ' eli5 ', prompt: 'Explain' },
+          [eli5]
+        )
+      ).toEqual([
+        'Another format already has this name.',
+        'Add the {content} placeholder.',
+      ]);
+      expect(
+        validateCustomSummaryFormat({ ...eli5, name: '' }, [eli5])
+      ).toEqual(['Give the format a name.']);
+    });
+  });
+
+  describe('parseCustomSummary', () => {
+    it('should keep free text whole', () => {
+      expect(parseCustomSummary('  Line one.\nLine two.\n', 'text')).toEqual([
+        'Line one.\nLine two.',
+      ]);
+    });
+
+    it('should strip list markers', () => {
+      expect(
+        parseCustomSummary('1. First\n* Second\n\n• Third', 'list')
+      ).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('should join unlabeled lines to the labeled item above', () => {
+      expect(
+        parseCustomSummary(
+          '**Cue:** Why rest?\n- **Notes**: Rest restores focus\nand mood\nSummary: Rest on purpose',
+          'labeled'
+        )
+      ).toEqual([
+        'Cue: Why rest?',
+        'Notes: Rest restores focus and mood',
+        'Summary: Rest on purpose',
+      ]);
+    });
+
+    it('should split labels from text', () => {
+      expect(splitSummaryLabel('Term: its meaning')).toEqual({
+        label: 'Term',
+        text: 'its meaning',
+      });
+      expect(splitSummaryLabel('No label here')).toEqual({
+        text: 'No label here',
+      });
+    });
+  });
+});
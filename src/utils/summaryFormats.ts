@@ -0,0 +1,184 @@
+/**
+ * Summary Format Utilities
+ * Looks up, validates and parses the built-in and user-defined summary
+ * formats
+ */
+
+import type {
+  BuiltInSummaryFormat,
+  CustomSummaryFormat,
+  CustomSummaryFormatId,
+  Settings,
+  SummaryFormat,
+  SummaryResponseParser,
+} from '../types';
+import { CUSTOM_SUMMARY_FORMATS, SUMMARY_FORMAT_LIMITS } from '../constants';
+import { validateTemplateText } from './promptTemplates';
+
+const BUILT_IN_FORMAT_NAMES: Record<BuiltInSummaryFormat, string> = {
+  bullets: 'Bullets',
+  paragraph: 'Paragraph',
+  'headline-bullets': 'Headline + Bullets',
+};
+
+// A leading "**" is bold text, not a bullet
+const BULLET_MARKER = /^(?:[-•]|\*(?!\*)|\d+[.)])\s*/u;
+
+/**
+ * Check whether a format is one of the built-in formats
+ */
+export function isBuiltInSummaryFormat(
+  value: unknown
+): value is BuiltInSummaryFormat {
+  return (
+    typeof value === 'string' &&
+    Object.keys(BUILT_IN_FORMAT_NAMES).includes(value)
+  );
+}
+
+/**
+ * Check whether a format refers to a user-defined format
+ */
+export function isCustomSummaryFormat(
+  value: unknown
+): value is CustomSummaryFormatId {
+  return (
+    typeof value === 'string' && /^custom:[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value)
+  );
+}
+
+/**
+ * Check an untrusted value, e.g. from an import, is a summary format
+ */
+export function isSummaryFormat(value: unknown): value is SummaryFormat {
+  return isBuiltInSummaryFormat(value) || isCustomSummaryFormat(value);
+}
+
+/**
+ * The user's custom formats, or the starter formats if they never edited them
+ */
+export function getCustomSummaryFormats(
+  settings: Pick<Settings, 'customSummaryFormats'> | null | undefined
+): CustomSummaryFormat[] {
+  return settings?.customSummaryFormats ?? CUSTOM_SUMMARY_FORMATS;
+}
+
+/**
+ * Find a custom format by id
+ */
+export function findCustomSummaryFormat(
+  formats: CustomSummaryFormat[],
+  id: SummaryFormat
+): CustomSummaryFormat | undefined {
+  return formats.find((format) => format.id === id);
+}
+
+/**
+ * Display name of a format; custom formats that no longer exist show
+ * their id
+ */
+export function getSummaryFormatName(
+  format: SummaryFormat,
+  formats: CustomSummaryFormat[]
+): string {
+  if (isBuiltInSummaryFormat(format)) return BUILT_IN_FORMAT_NAMES[format];
+  return findCustomSummaryFormat(formats, format)?.name ?? format;
+}
+
+/**
+ * Make an id for a new custom format from its name
+ * @param name - Format name
+ * @param existing - Ids already in use
+ */
+export function createCustomSummaryFormatId(
+  name: string,
+  existing: CustomSummaryFormatId[]
+): CustomSummaryFormatId {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'format';
+
+  let id: CustomSummaryFormatId = `custom:${slug}`;
+  for (let n = 2; existing.includes(id); n++) {
+    id = `custom:${slug}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Check a custom format before it is saved
+ * @param format - Format being saved
+ * @param formats - All custom formats, used to catch duplicate names
+ * @returns One message per problem; empty when the format is valid
+ */
+export function validateCustomSummaryFormat(
+  format: Pick<CustomSummaryFormat, 'id' | 'name' | 'prompt'>,
+  formats: CustomSummaryFormat[]
+): string[] {
+  const errors: string[] = [];
+  const name = format.name.trim();
+
+  if (!name) {
+    errors.push('Give the format a name.');
+  } else if (name.length > SUMMARY_FORMAT_LIMITS.MAX_NAME_LENGTH) {
+    errors.push(
+      `The name is longer than ${SUMMARY_FORMAT_LIMITS.MAX_NAME_LENGTH} characters.`
+    );
+  } else if (
+    formats.some(
+      (other) =>
+        other.id !== format.id &&
+        other.name.trim().toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    errors.push('Another format already has this name.');
+  }
+
+  return [...errors, ...validateTemplateText(format.prompt, ['content'])];
+}
+
+/**
+ * Split a "Label: text" summary item into its parts
+ * Items without a short leading label are returned as text only.
+ */
+export function splitSummaryLabel(item: string): {
+  label?: string;
+  text: string;
+} {
+  const match = /^([^:\n]{1,40}):\s+(\S[\s\S]*)$/.exec(item);
+  return match ? { label: match[1].trim(), text: match[2] } : { text: item };
+}
+
+/**
+ * Split a model response into summary items for a custom format
+ * @param response - Model output
+ * @param parser - How the format's response is structured
+ * @returns Summary items; labeled items keep their "Label: " prefix
+ */
+export function parseCustomSummary(
+  response: string,
+  parser: SummaryResponseParser
+): string[] {
+  const text = response.replace(/\r/g, '').trim();
+  if (parser === 'text') return text ? [text] : [];
+
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim().replace(BULLET_MARKER, '').trim())
+    .filter((line) => line.length > 0);
+  if (parser === 'list') return lines;
+
+  const items: string[] = [];
+  for (const line of lines) {
+    // Models often bold the label: "**Term:** text" or "**Term**: text"
+    const unbolded = line.replace(/^\*\*([^*]+)\*\*/, '$1');
+    if (items.length === 0 || splitSummaryLabel(unbolded).label) {
+      items.push(unbolded);
+    } else {
+      items[items.length - 1] += ` ${unbolded}`;
+    }
+  }
+  return items;
+}
@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import type { ExportFilters, Reflection } from '../types';
+import { extractDomain, filterReflectionsForExport } from './index';
+
+/**
+ * Export filter form state; dates are <input type="date"> values
+ */
+export interface ExportFilterForm {
+  from: string; // YYYY-MM-DD or ''
+  to: string; // YYYY-MM-DD or ''
+  domain: string;
+  tags: string[];
+  language: string;
+  proofreadOnly: boolean;
+}
+
+export const EMPTY_EXPORT_FILTER_FORM: ExportFilterForm = {
+  from: '',
+  to: '',
+  domain: '',
+  tags: [],
+  language: '',
+  proofreadOnly: false,
+};
+
+// Parse a date input as local time, at the start or end of that day
+const parseDay = (value: string, endOfDay: boolean): number | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+};
+
+/**
+ * Convert the filter form into the filters sent with an export
+ * @param form Current form values
+ * @returns Filters with only the fields the user set
+ */
+export function toExportFilters(form: ExportFilterForm): ExportFilters {
+  const filters: ExportFilters = {};
+  const from = parseDay(form.from, false);
+  const to = parseDay(form.to, true);
+  if (from !== undefined) filters.from = from;
+  if (to !== undefined) filters.to = to;
+  if (form.domain) filters.domain = form.domain;
+  if (form.tags.length) filters.tags = form.tags;
+  if (form.language) filters.language = form.language;
+  if (form.proofreadOnly) filters.proofreadOnly = true;
+  return filters;
+}
+
+const uniqueSorted = (values: (string | undefined)[]): string[] =>
+  [...new Set(values.filter((v): v is string => !!v))].sort();
+
+/**
+ * Hook holding export filter choices for a list of reflections
+ * @param reflections Reflections that could be exported
+ * @returns Form state, the values each filter can take, the resulting
+ * filters and the reflections that match them
+ */
+export const useExportFilters = (reflections: Reflection[] | null) => {
+  const [form, setForm] = useState<ExportFilterForm>(EMPTY_EXPORT_FILTER_FORM);
+
+  const options = useMemo(() => {
+    const items = reflections ?? [];
+    return {
+      domains: uniqueSorted(items.map((r) => extractDomain(r.url))),
+      tags: uniqueSorted(items.flatMap((r) => r.tags ?? [])),
+      languages: uniqueSorted(items.map((r) => r.detectedLanguage)),
+    };
+  }, [reflections]);
+
+  const filters = useMemo(() => toExportFilters(form), [form]);
+  const matching = useMemo(
+    () => filterReflectionsForExport(reflections ?? [], filters),
+    [reflections, filters]
+  );
+
+  const update = (changes: Partial<ExportFilterForm>) =>
+    setForm((prev) => ({ ...prev, ...changes }));
+
+  const toggleTag = (tag: string) =>
+    setForm((prev) => ({
+      ...prev,
+      tags: prev.tags.includes(tag)
+        ? prev.tags.filter((t) => t !== tag)
+        : [...prev.tags, tag],
+    }));
+
+  const reset = () => setForm(EMPTY_EXPORT_FILTER_FORM);
+
+  return { form, update, toggleTag, reset, options, filters, matching };
+};
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import type {
+  ProofreadResult,
+  Reflection,
+  ReflectionUpdateRequest,
+  TonePreset,
+} from '../types';
+import { devError } from './logger';
+
+type Response<T> = { success?: boolean; data?: T; error?: string } | undefined;
+
+/**
+ * Build the update for an edited reflection
+ * Mirrors how new reflections are saved: proofread answers keep their
+ * pre-proofread text in `reflection` and the corrected text joined in
+ * `proofreadVersion`
+ * @param id Reflection ID
+ * @param drafts Current text of each answer
+ * @param originals Text before proofreading, or null where not proofread
+ * @param toneUsed Tone applied by a rewrite during this edit
+ */
+export function buildReflectionUpdate(
+  id: string,
+  drafts: string[],
+  originals: (string | null)[],
+  toneUsed?: TonePreset
+): ReflectionUpdateRequest {
+  const proofread = originals.some((original) => original !== null);
+  return {
+    id,
+    reflection: drafts.map((draft, i) => originals[i] ?? draft),
+    proofreadVersion: proofread ? drafts.join('\n\n') : undefined,
+    toneUsed,
+  };
+}
+
+/**
+ * Hook driving edit mode for a saved reflection: draft text, proofread,
+ * tone rewrite and saving through the background worker
+ * @param reflection Reflection being edited
+ * @param onSaved Called with the stored reflection after a successful save
+ */
+export const useReflectionEditor = (
+  reflection: Reflection,
+  onSaved?: (updated: Reflection) => void
+) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [drafts, setDrafts] = useState<string[]>([]);
+  const [originals, setOriginals] = useState<(string | null)[]>([]);
+  const [toneUsed, setToneUsed] = useState<TonePreset | undefined>();
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = () => {
+    const answers = reflection.reflection.length ? reflection.reflection : [''];
+    setDrafts([...answers]);
+    setOriginals(answers.map(() => null));
+    setToneUsed(undefined);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setError(null);
+  };
+
+  const setDraft = (index: number, text: string) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? text : d)));
+    // Typing after a proofread makes the corrected text the user's own
+    setOriginals((prev) => prev.map((o, i) => (i === index ? null : o)));
+  };
+
+  // Run an AI transform on one answer and replace its draft with the result
+  const transform = async (
+    index: number,
+    request: { type: string; payload: unknown },
+    pick: (data: unknown) => string | undefined
+  ): Promise<boolean> => {
+    setBusyIndex(index);
+    setError(null);
+    try {
+      const raw: unknown = await chrome.runtime.sendMessage(request);
+      const response = raw as Response<unknown>;
+      const text = response?.success ? pick(response.data) : undefined;
+      if (!text) {
+        setError(response?.error ?? 'AI is unavailable right now');
+        return false;
+      }
+      setDrafts((prev) => prev.map((d, i) => (i === index ? text : d)));
+      return true;
+    } catch (err) {
+      devError('[ReflectionEditor] AI request failed:', err);
+      setError('AI is unavailable right now');
+      return false;
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  const proofread = async (index: number) => {
+    const before = drafts[index];
+    const changed = await transform(
+      index,
+      { type: 'proofread', payload: { text: before } },
+      (data) => (data as ProofreadResult).correctedText
+    );
+    if (changed) {
+      setOriginals((prev) =>
+        prev.map((o, i) => (i === index ? (o ?? before) : o))
+      );
+    }
+  };
+
+  const rewrite = async (index: number, preset: TonePreset) => {
+    const changed = await transform(
+      index,
+      { type: 'rewrite', payload: { text: drafts[index], preset } },
+      (data) => (data as { rewritten: string }).rewritten
+    );
+    if (changed) {
+      // A rewrite replaces the text outright, so it is no longer a proofread
+      setOriginals((prev) => prev.map((o, i) => (i === index ? null : o)));
+      setToneUsed(preset);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const raw: unknown = await chrome.runtime.sendMessage({
+        type: 'updateReflection',
+        payload: buildReflectionUpdate(
+          reflection.id,
+          drafts,
+          originals,
+          toneUsed
+        ),
+      });
+      const response = raw as Response<Reflection>;
+      if (!response?.success || !response.data) {
+        setError(response?.error ?? 'Could not save changes');
+        return;
+      }
+      setIsEditing(false);
+      onSaved?.(response.data);
+    } catch (err) {
+      devError('[ReflectionEditor] Save failed:', err);
+      setError('Could not save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    isEditing,
+    drafts,
+    busyIndex,
+    isSaving,
+    error,
+    start,
+    cancel,
+    setDraft,
+    proofread,
+    rewrite,
+    save,
+  };
+};
+
+/**
+ * Pair each revision with the version that replaced it, newest first
+ * @returns When each edit happened and the text before and after it
+ */
+export function getRevisionChanges(
+  reflection: Reflection
+): { editedAt: number; before: string; after: string }[] {
+  const revisions = reflection.revisions ?? [];
+  return revisions.map((revision, i) => {
+    const next = i === 0 ? undefined : revisions[i - 1];
+    return {
+      editedAt: next
+        ? next.savedAt
+        : (reflection.updatedAt ?? reflection.createdAt),
+      before: revision.reflection.join('\n\n'),
+      after: (next ?? reflection).reflection.join('\n\n'),
+    };
+  });
+}
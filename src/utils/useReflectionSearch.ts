@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import type { SearchResult, SearchSnippet } from '../types';
+import { SEARCH } from '../constants';
+import { devError } from './logger';
+
+/**
+ * Piece of snippet text, flagged when it is a highlighted match
+ */
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts for rendering
+ * @param snippet Snippet returned by the background search
+ * @returns Parts in display order
+ */
+export const splitSnippet = (snippet: SearchSnippet): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of snippet.highlights) {
+    if (start > cursor) {
+      parts.push({
+        text: snippet.text.slice(cursor, start),
+        highlighted: false,
+      });
+    }
+    parts.push({ text: snippet.text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+
+  if (cursor < snippet.text.length) {
+    parts.push({ text: snippet.text.slice(cursor), highlighted: false });
+  }
+
+  return parts;
+};
+
+/**
+ * Hook to run a debounced full-text search through the background worker
+ * @param query Search text; an empty query disables search
+ * @param refreshKey Change to re-run the current query (e.g., after a delete)
+ * @returns Results, or null while no query is active
+ */
+export const useReflectionSearch = (
+  query: string,
+  refreshKey?: unknown
+): { results: SearchResult[] | null; isSearching: boolean } => {
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timeout = setTimeout(() => {
+      chrome.runtime
+        .sendMessage({
+          type: 'searchReflections',
+          payload: { query: trimmed },
+        })
+        .then((response: unknown) => {
+          if (cancelled) return;
+          const r = response as
+            | { success?: boolean; data?: unknown; error?: string }
+            | undefined;
+          if (r?.success && Array.isArray(r.data)) {
+            setResults(r.data as SearchResult[]);
+          } else {
+            devError('[Search] Search failed:', r?.error);
+            setResults([]);
+          }
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          devError('[Search] Search error:', error);
+          setResults([]);
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH.DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, refreshKey]);
+
+  return { results, isSearching };
+};
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import type { RelatedReflection, RelatedReflectionsRequest } from '../types';
+import { devError } from './logger';
+
+/**
+ * Hook to fetch reflections similar to some text or to a saved reflection
+ * @param request Query for the background worker; null skips the lookup
+ * @returns Related reflections, or null until a lookup has completed
+ */
+export const useRelatedReflections = (
+  request: RelatedReflectionsRequest | null
+): RelatedReflection[] | null => {
+  const [related, setRelated] = useState<RelatedReflection[] | null>(null);
+
+  // Compare requests by value so callers can pass object literals
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    if (!requestKey) {
+      setRelated(null);
+      return;
+    }
+
+    let cancelled = false;
+    chrome.runtime
+      .sendMessage({
+        type: 'findRelatedReflections',
+        payload: JSON.parse(requestKey) as RelatedReflectionsRequest,
+      })
+      .then((response: unknown) => {
+        if (cancelled) return;
+        const r = response as
+          | { success?: boolean; data?: unknown; error?: string }
+          | undefined;
+        if (r?.success && Array.isArray(r.data)) {
+          setRelated(r.data as RelatedReflection[]);
+        } else {
+          devError('[Related] Lookup failed:', r?.error);
+          setRelated([]);
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        devError('[Related] Lookup error:', error);
+        setRelated([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  return related;
+};